@@ -0,0 +1,10 @@
+/**
+ * The parts of a Node HTTP server callers of the reference sync server use
+ */
+export interface SyncServer {
+  listen(port: number, callback?: () => void): SyncServer;
+  close(callback?: (error?: Error) => void): SyncServer;
+  address(): { port: number } | string | null;
+}
+
+export function createSyncServer(options?: { dataFile?: string }): SyncServer;
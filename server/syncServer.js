@@ -0,0 +1,142 @@
+// Reference sync server for the Multi-Channel Content Manager.
+// Plain Node with no dependencies; see server/README.md for the protocol.
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const DOMAINS = ['channels', 'templates', 'schedules', 'userSettings'];
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = req => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      reject(new Error('Request body is too large'));
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(body));
+    } catch {
+      reject(new Error('Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isValidChange = change =>
+  typeof change === 'object' && change !== null &&
+  DOMAINS.includes(change.domain) &&
+  typeof change.id === 'string' && change.id.length > 0 &&
+  'value' in change;
+
+/**
+ * Create the sync server. Entities are kept in memory and, with `dataFile`, written to that file
+ * after every accepted push so they survive restarts.
+ */
+export function createSyncServer({ dataFile } = {}) {
+  // entities: `${domain}:${id}` -> { domain, id, value, revision }; deleted entities keep a null value
+  const store = dataFile && existsSync(dataFile)
+    ? JSON.parse(readFileSync(dataFile, 'utf8'))
+    : { revision: 0, entities: {} };
+
+  const pull = since => ({
+    revision: store.revision,
+    changes: Object.values(store.entities)
+      .filter(entity => entity.revision > since)
+      .sort((a, b) => a.revision - b.revision),
+  });
+
+  const push = ({ baseRevision, changes }) => {
+    // A change conflicts when someone else changed the entity after the client last pulled
+    // unless it already holds the pushed value
+    const conflicts = changes.flatMap(change => {
+      const entity = store.entities[`${change.domain}:${change.id}`];
+      return entity && entity.revision > baseRevision && JSON.stringify(entity.value) !== JSON.stringify(change.value)
+        ? [entity]
+        : [];
+    });
+    if (conflicts.length > 0) {
+      return { status: 409, body: { revision: store.revision, conflicts } };
+    }
+
+    // All changes of a push are stored at one new revision, or none are
+    store.revision += 1;
+    changes.forEach(({ domain, id, value }) => {
+      store.entities[`${domain}:${id}`] = { domain, id, value, revision: store.revision };
+    });
+    if (dataFile) writeFileSync(dataFile, JSON.stringify(store));
+
+    return { status: 200, body: { revision: store.revision } };
+  };
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    if (url.pathname !== '/changes') {
+      sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      if (!Number.isInteger(since) || since < 0) {
+        sendJson(res, 400, { error: 'since must be a non-negative integer' });
+        return;
+      }
+      sendJson(res, 200, pull(since));
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body;
+      try {
+        body = await readJson(req);
+      } catch (error) {
+        sendJson(res, 400, { error: error.message });
+        return;
+      }
+
+      if (!Number.isInteger(body?.baseRevision) || !Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+        sendJson(res, 400, { error: 'Expected { baseRevision, changes: [{ domain, id, value }] }' });
+        return;
+      }
+
+      const { status, body: response } = push(body);
+      sendJson(res, status, response);
+      return;
+    }
+
+    sendJson(res, 405, { error: `Method not allowed: ${req.method}` });
+  });
+}
+
+// Run directly: node server/syncServer.js [dataFile]
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT ?? 8787);
+  const dataFile = process.argv[2] ?? process.env.SYNC_DATA_FILE;
+
+  createSyncServer({ dataFile }).listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port}${dataFile ? `, storing data in ${dataFile}` : ''}`);
+  });
+}
@@ -4,19 +4,27 @@ import { HTML5Backend } from 'react-dnd-html5-backend';
 import { TouchBackend } from 'react-dnd-touch-backend';
 import { AppProviderWithPersistence } from './context/AppProviderWithPersistence';
 import { useAppContext } from './context/AppContext';
+import { useSchedule } from './hooks/useSchedule';
+import { useAutoScheduler } from './hooks/useAutoScheduler';
+import { useTaskDependencies } from './hooks/useTaskDependencies';
+import { useCrossTabSync } from './hooks/useCrossTabSync';
+import { useActionHistory } from './hooks/useActionHistory';
 import { ChannelGrid } from './components/ChannelGrid';
 import { TaskTemplateLibrary } from './components/TaskTemplateLibrary';
 import { TaskTemplateEditor } from './components/TaskTemplateEditor';
 import CalendarGrid from './components/CalendarGrid';
 import ChannelTaskCalendar from './components/ChannelTaskCalendar';
 import { AddTaskModal } from './components/AddTaskModal';
-import { ProgressTrackingDemo } from './components/ProgressTrackingDemo';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
 import { UserSettings } from './components/UserSettings';
-import NotificationProvider, { NotificationSystem } from './components/NotificationSystem';
+import { TimeTrackerIndicator } from './components/TimeTrackerIndicator';
+import { HistoryPanel } from './components/HistoryPanel';
+import NotificationProvider, { NotificationSystem, useNotifications } from './components/NotificationSystem';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { usePerformanceMonitor } from './hooks/usePerformanceMonitor';
 import { TaskTemplate } from './types';
+import { getTimeSlotForDate } from './utils/helpers';
 import './styles/App.css';
 
 // Detect touch device for drag-and-drop backend
@@ -26,11 +34,21 @@ interface AppContentProps {}
 
 const AppContent: React.FC<AppContentProps> = React.memo(() => {
   const { state, dispatch } = useAppContext();
+  const { goToNextWeek, goToPreviousWeek, goToCurrentWeek } = useSchedule();
+  const { tasksNeedingPlacement, autoScheduleWeek } = useAutoScheduler();
+  const { checkPlacement } = useTaskDependencies();
+  const { showSuccess, showWarning } = useNotifications();
   const [activeView, setActiveView] = useState<'dashboard' | 'templates' | 'calendar' | 'analytics' | 'settings'>('dashboard');
   const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<TaskTemplate | null>(null);
   const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
 
+  // Merge changes saved in other tabs, letting the user keep their version on conflicts
+  useCrossTabSync('prompt');
+
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo changes anywhere in the app
+  useActionHistory({ enableShortcuts: true });
+
   // Performance monitoring
   const { metrics } = usePerformanceMonitor('AppContent', { 
     logToConsole: import.meta.env.DEV,
@@ -71,15 +89,12 @@ const AppContent: React.FC<AppContentProps> = React.memo(() => {
   // Calendar task drop handler
   const handleTaskDrop = useCallback((taskId: string, newStart: Date, newEnd: Date) => {
     // Determine time slot based on the start time
-    const hour = newStart.getHours();
-    let timeSlot: 'morning' | 'afternoon' | 'evening' = 'morning';
-    
-    if (hour >= 17) {
-      timeSlot = 'evening';
-    } else if (hour >= 12) {
-      timeSlot = 'afternoon';
-    } else {
-      timeSlot = 'morning';
+    const timeSlot = getTimeSlotForDate(newStart);
+
+    // The move is still made; the calendar then shows the task out of order
+    const orderViolations = checkPlacement(taskId, newStart);
+    if (orderViolations.length > 0) {
+      showWarning('Task order conflict', orderViolations.join('; '));
     }
 
     dispatch({
@@ -93,15 +108,28 @@ const AppContent: React.FC<AppContentProps> = React.memo(() => {
         },
       },
     });
-  }, [dispatch]);
+  }, [checkPlacement, showWarning, dispatch]);
 
-  // Memoized current week start date
-  const currentWeekStart = useMemo(() => {
-    const now = new Date();
-    const dayOfWeek = now.getDay();
-    const diff = now.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1); // Adjust for Monday start
-    return new Date(now.setDate(diff));
-  }, []);
+  // Auto-schedule handler: place tasks into free capacity and explain what did not fit
+  const handleAutoSchedule = useCallback(() => {
+    const { placedTasks, unplacedTasks } = autoScheduleWeek();
+
+    if (unplacedTasks.length === 0) {
+      showSuccess('Tasks scheduled', `Placed ${placedTasks.length} task(s) into free working time`);
+      return;
+    }
+
+    showWarning(
+      `${unplacedTasks.length} task(s) could not be placed`,
+      unplacedTasks.map(({ task, message }) => `${task.title}: ${message}`).join('; ')
+    );
+  }, [autoScheduleWeek, showSuccess, showWarning]);
+
+  // Start date of the week selected in the schedule store
+  const selectedWeekStart = useMemo(
+    () => new Date(state.currentWeek.weekStartDate),
+    [state.currentWeek.weekStartDate]
+  );
 
   // Render active view content
   const renderActiveView = () => {
@@ -140,6 +168,27 @@ const AppContent: React.FC<AppContentProps> = React.memo(() => {
                   <h2>Weekly Calendar</h2>
                   <p>Drag and drop tasks to schedule your content creation workflow</p>
                 </div>
+                <div className="week-navigation">
+                  <button className="week-nav-button" onClick={goToPreviousWeek} aria-label="Previous week">
+                    ‹
+                  </button>
+                  <button className="week-nav-button" onClick={goToCurrentWeek}>
+                    Week of {selectedWeekStart.toLocaleDateString()}
+                  </button>
+                  <button className="week-nav-button" onClick={goToNextWeek} aria-label="Next week">
+                    ›
+                  </button>
+                </div>
+                <button
+                  className="week-nav-button"
+                  onClick={handleAutoSchedule}
+                  disabled={tasksNeedingPlacement.length === 0}
+                  title={tasksNeedingPlacement.length === 0
+                    ? "All planned tasks fit within working hours and capacity"
+                    : "Move conflicting or overloaded tasks into free working time"}
+                >
+                  Auto-schedule ({tasksNeedingPlacement.length})
+                </button>
                 <button 
                   className="add-task-button"
                   onClick={handleCreateTask}
@@ -167,7 +216,7 @@ const AppContent: React.FC<AppContentProps> = React.memo(() => {
               </div>
             ) : (
               <ChannelTaskCalendar
-                weekStartDate={currentWeekStart}
+                weekStartDate={selectedWeekStart}
                 workingHours={state.userSettings.workingHours}
                 workingDays={state.userSettings.workingDays}
                 onTaskDrop={handleTaskDrop}
@@ -181,9 +230,9 @@ const AppContent: React.FC<AppContentProps> = React.memo(() => {
           <div className="view-content">
             <div className="view-header">
               <h2>Progress & Analytics</h2>
-              <p>Track your progress and analyze workload distribution</p>
+              <p>Track utilization, completion and posting cadence across your schedule history</p>
             </div>
-            <ProgressTrackingDemo />
+            <AnalyticsDashboard />
           </div>
         );
 
@@ -263,6 +312,12 @@ const AppContent: React.FC<AppContentProps> = React.memo(() => {
           </button>
         </div>
 
+        {/* Running and paused task timers */}
+        <TimeTrackerIndicator />
+
+        {/* Undo, redo and the list of recent changes */}
+        <HistoryPanel />
+
         {/* Performance indicator (development only) */}
         {import.meta.env.DEV && (
           <div className="nav-performance">
@@ -85,14 +85,16 @@ describe('App Integration Tests', () => {
     });
   });
 
-  it('handles localStorage initialization', () => {
+  it('handles localStorage initialization', async () => {
     render(<App />);
 
-    // Verify localStorage initialization calls
-    expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_channels');
-    expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_task_templates');
-    expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_schedules');
-    expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_user_settings');
+    // Stored data is read once the storage backend has been initialized
+    await waitFor(() => {
+      expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_channels');
+      expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_task_templates');
+      expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_schedules');
+      expect(mockLocalStorage.getItem).toHaveBeenCalledWith('mcm_user_settings');
+    });
   });
 
   it('displays empty state when no channels exist', () => {
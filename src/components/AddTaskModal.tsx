@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Task, Channel } from '../types';
 import { useAppContext } from '../context/AppContext';
 import { useSchedule } from '../hooks/useSchedule';
+import { usePermissions } from '../hooks/usePermissions';
 import { generateId } from '../utils/helpers';
 import styles from './AddTaskModal.module.css';
 
@@ -19,6 +20,8 @@ interface FormData {
   estimatedHours: number;
   scheduledDate: string;
   scheduledTime: string;
+  dependsOn: string; // ID of a task that must be completed first, or '' for none
+  assigneeId: string; // Team member doing the task, or '' for unassigned
   notes: string;
 }
 
@@ -29,6 +32,8 @@ const initialFormData: FormData = {
   estimatedHours: 2,
   scheduledDate: '',
   scheduledTime: '09:00',
+  dependsOn: '',
+  assigneeId: '',
   notes: '',
 };
 
@@ -40,6 +45,7 @@ export const AddTaskModal: React.FC<AddTaskModalProps> = ({
 }) => {
   const { state } = useAppContext();
   const { addTask } = useSchedule();
+  const { can } = usePermissions();
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -90,6 +96,14 @@ export const AddTaskModal: React.FC<AddTaskModalProps> = ({
       newErrors.scheduledTime = 'Scheduled time is required';
     }
 
+    const dependency = state.currentWeek.tasks.find(task => task.id === formData.dependsOn);
+    if (dependency && formData.scheduledDate && formData.scheduledTime) {
+      const scheduledStart = new Date(`${formData.scheduledDate}T${formData.scheduledTime}:00`);
+      if (scheduledStart < new Date(dependency.scheduledEnd)) {
+        newErrors.dependsOn = `Must start after "${dependency.title}" ends`;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -118,6 +132,8 @@ export const AddTaskModal: React.FC<AddTaskModalProps> = ({
         scheduledStart,
         scheduledEnd,
         notes: formData.notes.trim() || undefined,
+        dependsOn: formData.dependsOn ? [formData.dependsOn] : undefined,
+        assigneeId: formData.assigneeId || undefined,
       };
 
       addTask(newTask);
@@ -295,6 +311,57 @@ export const AddTaskModal: React.FC<AddTaskModalProps> = ({
             )}
           </div>
 
+          {/* Dependency */}
+          <div className={styles.formGroup}>
+            <label htmlFor="dependsOn" className={styles.label}>
+              Must Follow (Optional)
+            </label>
+            <select
+              id="dependsOn"
+              value={formData.dependsOn}
+              onChange={(e) => handleInputChange('dependsOn', e.target.value)}
+              className={`${styles.select} ${errors.dependsOn ? styles.inputError : ''}`}
+              disabled={isSubmitting}
+            >
+              <option value="">No dependency</option>
+              {state.currentWeek.tasks
+                .filter(task => task.status !== 'completed')
+                .map(task => (
+                  <option key={task.id} value={task.id}>
+                    {task.title}
+                  </option>
+                ))}
+            </select>
+            {errors.dependsOn && (
+              <span className={styles.fieldError} role="alert">
+                {errors.dependsOn}
+              </span>
+            )}
+          </div>
+
+          {/* Assignee */}
+          {(state.userSettings.teamMembers ?? []).length > 0 && (
+            <div className={styles.formGroup}>
+              <label htmlFor="assigneeId" className={styles.label}>
+                Assignee (Optional)
+              </label>
+              <select
+                id="assigneeId"
+                value={formData.assigneeId}
+                onChange={(e) => handleInputChange('assigneeId', e.target.value)}
+                className={styles.select}
+                disabled={isSubmitting}
+              >
+                <option value="">Unassigned</option>
+                {state.userSettings.teamMembers!.map(member => (
+                  <option key={member.id} value={member.id}>
+                    {member.name} ({member.role})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Notes */}
           <div className={styles.formGroup}>
             <label htmlFor="notes" className={styles.label}>
@@ -324,7 +391,7 @@ export const AddTaskModal: React.FC<AddTaskModalProps> = ({
             <button
               type="submit"
               className={styles.submitButton}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !can('editSchedule')}
             >
               {isSubmitting ? 'Creating...' : 'Create Task'}
             </button>
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { useScheduleAnalytics } from '../hooks/useScheduleAnalytics';
+import { DateRange } from '../services/scheduleAnalytics';
+import { TASK_CATEGORIES } from '../utils/constants';
+import { getWeekStartFromKey } from '../utils/helpers';
+import { DateRangeFilter, getRecentWeeksRange } from './DateRangeFilter';
+import styles from './AnalyticsDashboard.module.css';
+
+// Bars are scaled so utilization up to this percentage fits the chart
+const UTILIZATION_SCALE_MAX = 150;
+
+const formatWeekLabel = (weekKey: string): string =>
+  getWeekStartFromKey(weekKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const getCategoryLabel = (category: string): string =>
+  TASK_CATEGORIES.find(option => option.value === category)?.label ?? 'Uncategorized';
+
+const getUtilizationStatus = (utilization: number): string => {
+  if (utilization > 100) return 'overloaded';
+  if (utilization > 90) return 'critical';
+  if (utilization > 75) return 'warning';
+  return 'healthy';
+};
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  historyRange: DateRange | null;
+  children: (range: DateRange) => React.ReactNode;
+}
+
+/**
+ * Chart container with its own date range
+ */
+const ChartCard: React.FC<ChartCardProps> = ({ title, description, historyRange, children }) => {
+  const [range, setRange] = useState<DateRange>(() => getRecentWeeksRange(12));
+
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div>
+          <h3 className={styles.cardTitle}>{title}</h3>
+          <p className={styles.cardDescription}>{description}</p>
+        </div>
+        <DateRangeFilter
+          value={range}
+          onChange={setRange}
+          historyRange={historyRange}
+          label={`${title} date range`}
+        />
+      </div>
+      <div className={styles.cardBody}>{children(range)}</div>
+    </section>
+  );
+};
+
+const EmptyChart: React.FC = () => (
+  <div className={styles.emptyChart}>No scheduled weeks in this range</div>
+);
+
+export const AnalyticsDashboard: React.FC = () => {
+  const {
+    historyRange,
+    getUtilizationTrend,
+    getChannelCompletionTrend,
+    getOverdueTrend,
+    getHoursByCategory,
+    getPostingCadence,
+  } = useScheduleAnalytics();
+
+  return (
+    <div className={styles.dashboard}>
+      <ChartCard
+        title="Weekly Utilization"
+        description="Scheduled hours as a share of weekly capacity"
+        historyRange={historyRange}
+      >
+        {(range) => {
+          const weeks = getUtilizationTrend(range);
+          if (weeks.length === 0) return <EmptyChart />;
+
+          return (
+            <div className={styles.columnChart} role="list">
+              {weeks.map(week => (
+                <div
+                  key={week.weekKey}
+                  className={styles.column}
+                  role="listitem"
+                  title={`${week.scheduledHours}h of ${week.capacityHours}h`}
+                >
+                  <span className={styles.columnValue}>{week.utilization}%</span>
+                  <div className={styles.columnTrack}>
+                    <div className={styles.capacityMarker} style={{ bottom: `${(100 / UTILIZATION_SCALE_MAX) * 100}%` }} />
+                    <div
+                      className={`${styles.columnFill} ${styles[getUtilizationStatus(week.utilization)]}`}
+                      style={{ height: `${(Math.min(week.utilization, UTILIZATION_SCALE_MAX) / UTILIZATION_SCALE_MAX) * 100}%` }}
+                    />
+                  </div>
+                  <span className={styles.columnLabel}>{formatWeekLabel(week.weekKey)}</span>
+                </div>
+              ))}
+            </div>
+          );
+        }}
+      </ChartCard>
+
+      <ChartCard
+        title="Channel Completion"
+        description="Share of each channel's work completed, week by week"
+        historyRange={historyRange}
+      >
+        {(range) => {
+          const trends = getChannelCompletionTrend(range);
+          if (trends.length === 0 || trends[0].weeks.length === 0) return <EmptyChart />;
+
+          return (
+            <div className={styles.tableWrapper}>
+              <table className={styles.heatmap}>
+                <thead>
+                  <tr>
+                    <th scope="col">Channel</th>
+                    {trends[0].weeks.map(week => (
+                      <th key={week.weekKey} scope="col">{formatWeekLabel(week.weekKey)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {trends.map(trend => (
+                    <tr key={trend.channelId}>
+                      <th scope="row">
+                        <span className={styles.channelDot} style={{ backgroundColor: trend.color }} />
+                        {trend.channelName}
+                      </th>
+                      {trend.weeks.map(week => (
+                        <td
+                          key={week.weekKey}
+                          style={week.completionRate !== null
+                            ? { backgroundColor: `rgba(16, 185, 129, ${0.1 + (week.completionRate / 100) * 0.6})` }
+                            : undefined}
+                        >
+                          {week.completionRate !== null ? `${week.completionRate}%` : '–'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        }}
+      </ChartCard>
+
+      <ChartCard
+        title="Overdue Tasks"
+        description="Tasks past their scheduled end without being completed"
+        historyRange={historyRange}
+      >
+        {(range) => {
+          const weeks = getOverdueTrend(range);
+          if (weeks.length === 0) return <EmptyChart />;
+
+          const maxOverdue = Math.max(1, ...weeks.map(week => week.overdue));
+          return (
+            <div className={styles.columnChart} role="list">
+              {weeks.map(week => (
+                <div
+                  key={week.weekKey}
+                  className={styles.column}
+                  role="listitem"
+                  title={`${week.overdue} of ${week.total} tasks overdue`}
+                >
+                  <span className={styles.columnValue}>{week.overdue}</span>
+                  <div className={styles.columnTrack}>
+                    <div
+                      className={`${styles.columnFill} ${styles.overdue}`}
+                      style={{ height: `${(week.overdue / maxOverdue) * 100}%` }}
+                    />
+                  </div>
+                  <span className={styles.columnLabel}>{formatWeekLabel(week.weekKey)}</span>
+                </div>
+              ))}
+            </div>
+          );
+        }}
+      </ChartCard>
+
+      <ChartCard
+        title="Hours by Category"
+        description="Estimated and logged hours by task template category"
+        historyRange={historyRange}
+      >
+        {(range) => {
+          const categories = getHoursByCategory(range);
+          if (categories.length === 0) return <div className={styles.emptyChart}>No tasks in this range</div>;
+
+          const maxHours = Math.max(1, ...categories.map(c => Math.max(c.estimatedHours, c.actualHours)));
+          return (
+            <div className={styles.barList}>
+              {categories.map(category => (
+                <div key={category.category} className={styles.barRow}>
+                  <span className={styles.barLabel}>{getCategoryLabel(category.category)}</span>
+                  <div className={styles.barPair}>
+                    <div
+                      className={`${styles.bar} ${styles.estimated}`}
+                      style={{ width: `${(category.estimatedHours / maxHours) * 100}%` }}
+                      title={`${category.estimatedHours}h estimated`}
+                    />
+                    <div
+                      className={`${styles.bar} ${styles.actual}`}
+                      style={{ width: `${(category.actualHours / maxHours) * 100}%` }}
+                      title={`${category.actualHours}h logged`}
+                    />
+                  </div>
+                  <span className={styles.barValue}>
+                    {Math.round(category.estimatedHours * 10) / 10}h / {Math.round(category.actualHours * 10) / 10}h
+                  </span>
+                </div>
+              ))}
+              <div className={styles.legend}>
+                <span><span className={`${styles.legendSwatch} ${styles.estimated}`} /> Estimated</span>
+                <span><span className={`${styles.legendSwatch} ${styles.actual}`} /> Logged</span>
+              </div>
+            </div>
+          );
+        }}
+      </ChartCard>
+
+      <ChartCard
+        title="Posting Cadence"
+        description="Posting days delivered against each channel's posting schedule"
+        historyRange={historyRange}
+      >
+        {(range) => {
+          const cadence = getPostingCadence(range);
+          if (cadence.length === 0) return <div className={styles.emptyChart}>No channels yet</div>;
+
+          return (
+            <div className={styles.barList}>
+              {cadence.map(channel => (
+                <div key={channel.channelId} className={styles.barRow}>
+                  <span className={styles.barLabel}>
+                    <span className={styles.channelDot} style={{ backgroundColor: channel.color }} />
+                    {channel.channelName}
+                  </span>
+                  <div className={styles.barTrack}>
+                    <div
+                      className={styles.bar}
+                      style={{ width: `${channel.adherence ?? 0}%`, backgroundColor: channel.color }}
+                    />
+                  </div>
+                  <span className={styles.barValue}>
+                    {channel.adherence !== null
+                      ? `${channel.delivered}/${channel.expected} (${channel.adherence}%)`
+                      : 'Nothing due'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          );
+        }}
+      </ChartCard>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { useAuditLog } from '../hooks/useAuditLog';
+import { usePermissions } from '../hooks/usePermissions';
+import { AuditChange, AuditEntityType, AuditEvent } from '../services/auditLog';
+import styles from './AuditLogPanel.module.css';
+
+const ENTITY_TYPE_LABELS: Record<AuditEntityType, string> = {
+  channel: 'Channel',
+  template: 'Template',
+  task: 'Task',
+  settings: 'Settings',
+};
+
+const CHANGE_LABELS: Record<AuditChange['change'], string> = {
+  added: 'added',
+  removed: 'removed',
+  updated: 'changed',
+};
+
+const PAGE_SIZE = 50;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+};
+
+const AuditLogPanel: React.FC = () => {
+  const { events, allEvents, filter, setFilter, retentionPolicy, updateRetentionPolicy, exportLog } = useAuditLog();
+  const { can } = usePermissions();
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [maxAgeDays, setMaxAgeDays] = useState(String(retentionPolicy.maxAgeDays ?? ''));
+  const [maxEvents, setMaxEvents] = useState(String(retentionPolicy.maxEvents ?? ''));
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Choices come from the log itself, so deleted channels, templates and tasks can still be picked
+  const entityChoices = useMemo(() => {
+    if (!filter.entityType) return [];
+    const names = new Map<string, string>();
+    allEvents.forEach(event => event.changes.forEach(change => {
+      if (change.entityType === filter.entityType && !names.has(change.entityId)) {
+        names.set(change.entityId, change.entityName);
+      }
+    }));
+    return [...names].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [allEvents, filter.entityType]);
+
+  const actorChoices = useMemo(() => {
+    const names = new Map<string, string>();
+    allEvents.forEach(event => {
+      if (event.actorId && !names.has(event.actorId)) names.set(event.actorId, event.actorName);
+    });
+    return [...names];
+  }, [allEvents]);
+
+  const handleSaveRetention = () => {
+    try {
+      const removed = updateRetentionPolicy({ maxAgeDays: parseLimit(maxAgeDays), maxEvents: parseLimit(maxEvents) });
+      setMessage({ type: 'success', text: `Retention saved${removed > 0 ? `, ${removed} older event(s) removed` : ''}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save retention' });
+    }
+  };
+
+  const renderChange = (change: AuditChange, index: number) => (
+    <li key={index} className={styles.change}>
+      <span>
+        {ENTITY_TYPE_LABELS[change.entityType]} <strong>{change.entityName}</strong> {CHANGE_LABELS[change.change]}
+      </span>
+      {change.change === 'updated' && change.fields && (
+        <ul className={styles.fields}>
+          {change.fields.map(field => (
+            <li key={field}>
+              <code>{field}</code>: {formatValue((change.before as Record<string, unknown>)[field])}
+              {' → '}
+              {formatValue((change.after as Record<string, unknown>)[field])}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+
+  const renderEvent = (event: AuditEvent) => (
+    <li key={event.id} className={styles.event}>
+      <button
+        type="button"
+        className={styles.eventSummary}
+        onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+        aria-expanded={expandedId === event.id}
+      >
+        <span className={styles.time}>{new Date(event.timestamp).toLocaleString()}</span>
+        <span className={styles.actor}>{event.actorName}</span>
+        <span className={styles.description}>{event.description}</span>
+      </button>
+      {expandedId === event.id && (
+        <ul className={styles.changes}>
+          {event.changes.map(renderChange)}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className={styles.auditLogPanel}>
+      <div className={styles.header}>
+        <h3>Audit Log</h3>
+        <p>Every change made in this browser, with who made it, when, and the values before and after.</p>
+      </div>
+
+      {message && (
+        <div className={`${styles.message} ${styles[message.type]}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className={styles.controls}>
+        <label className={styles.field}>
+          <span>Type</span>
+          <select
+            value={filter.entityType ?? ''}
+            onChange={e => {
+              setFilter({ ...filter, entityType: (e.target.value || undefined) as AuditEntityType | undefined, entityId: undefined });
+              setVisibleCount(PAGE_SIZE);
+            }}
+          >
+            <option value="">Everything</option>
+            {Object.entries(ENTITY_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {entityChoices.length > 0 && (
+          <label className={styles.field}>
+            <span>{ENTITY_TYPE_LABELS[filter.entityType!]}</span>
+            <select
+              value={filter.entityId ?? ''}
+              onChange={e => {
+                setFilter({ ...filter, entityId: e.target.value || undefined });
+                setVisibleCount(PAGE_SIZE);
+              }}
+            >
+              <option value="">All</option>
+              {entityChoices.map(([id, name]) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className={styles.field}>
+          <span>Changed by</span>
+          <select
+            value={filter.actorId ?? ''}
+            onChange={e => {
+              setFilter({ ...filter, actorId: e.target.value || undefined });
+              setVisibleCount(PAGE_SIZE);
+            }}
+          >
+            <option value="">Anyone</option>
+            {actorChoices.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <button type="button" className={styles.secondaryButton} onClick={exportLog} disabled={events.length === 0}>
+          📤 Export
+        </button>
+      </div>
+
+      {events.length === 0 ? (
+        <p className={styles.empty}>No changes recorded{allEvents.length > 0 ? ' for this filter' : ' yet'}.</p>
+      ) : (
+        <>
+          <ul className={styles.events}>
+            {events.slice(0, visibleCount).map(renderEvent)}
+          </ul>
+          {events.length > visibleCount && (
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            >
+              Show more ({events.length - visibleCount} left)
+            </button>
+          )}
+        </>
+      )}
+
+      <div className={styles.retention}>
+        <h4>Retention</h4>
+        <div className={styles.controls}>
+          <label className={styles.field}>
+            <span>Keep events for (days)</span>
+            <input
+              type="number"
+              min="1"
+              placeholder="Forever"
+              value={maxAgeDays}
+              onChange={e => setMaxAgeDays(e.target.value)}
+              disabled={!can('manageSettings')}
+            />
+          </label>
+          <label className={styles.field}>
+            <span>Keep at most (events)</span>
+            <input
+              type="number"
+              min="1"
+              placeholder="No limit"
+              value={maxEvents}
+              onChange={e => setMaxEvents(e.target.value)}
+              disabled={!can('manageSettings')}
+            />
+          </label>
+          <button
+            type="button"
+            className={styles.primaryButton}
+            onClick={handleSaveRetention}
+            disabled={!can('manageSettings')}
+          >
+            Save Retention
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { AuditChange } from '../services/auditLog';
+import { BackupDiff, BackupDiffer, BackupRestoreSelection } from '../services/backupDiff';
+import styles from './BackupDiffReview.module.css';
+
+interface BackupDiffReviewProps {
+  diff: BackupDiff;
+  canRestore: boolean; // Entities can only be restored into current data
+  isApplying: boolean;
+  onRestore: (selection: BackupRestoreSelection) => void;
+}
+
+const ENTITY_TYPE_LABELS: Record<AuditChange['entityType'], string> = {
+  channel: 'Channel',
+  template: 'Template',
+  task: 'Task',
+  settings: 'Settings',
+};
+
+const CHANGE_LABELS: Record<AuditChange['change'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  updated: 'Changed',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const getKey = (change: AuditChange) => `${change.entityType}:${change.entityId}`;
+
+const BackupDiffReview: React.FC<BackupDiffReviewProps> = ({ diff, canRestore, isApplying, onRestore }) => {
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const restorable = diff.changes.filter(BackupDiffer.isRestorable);
+  const selection = BackupDiffer.createSelection(restorable.filter(change => selectedKeys.has(getKey(change))));
+  const selectedCount = BackupDiffer.countSelection(selection);
+
+  const toggle = (key: string) => {
+    setSelectedKeys(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  if (diff.changes.length === 0) {
+    return <p className={styles.empty}>No differences: both hold the same channels, templates, tasks and settings.</p>;
+  }
+
+  return (
+    <div className={styles.backupDiffReview}>
+      <p className={styles.summary}>
+        {diff.counts.added} added, {diff.counts.removed} removed and {diff.counts.updated} changed
+        {diff.comparedDomains.length < 4 && ` (only ${diff.comparedDomains.join(', ')} were compared; older backups did not capture the rest)`}
+      </p>
+
+      {canRestore && (
+        <div className={styles.bulkActions}>
+          <button
+            className={styles.linkButton}
+            onClick={() => setSelectedKeys(new Set(restorable.map(getKey)))}
+            disabled={isApplying}
+          >
+            Select all
+          </button>
+          <button className={styles.linkButton} onClick={() => setSelectedKeys(new Set())} disabled={isApplying}>
+            Select none
+          </button>
+        </div>
+      )}
+
+      <ul className={styles.changes}>
+        {diff.changes.map(change => {
+          const key = getKey(change);
+          const label = (
+            <>
+              <span className={`${styles.badge} ${styles[change.change]}`}>{CHANGE_LABELS[change.change]}</span>
+              {ENTITY_TYPE_LABELS[change.entityType]}: <strong>{change.entityName}</strong>
+            </>
+          );
+
+          return (
+            <li key={key} className={styles.change}>
+              {canRestore && BackupDiffer.isRestorable(change) ? (
+                <label className={styles.changeTitle}>
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.has(key)}
+                    onChange={() => toggle(key)}
+                    disabled={isApplying}
+                  />
+                  {label}
+                </label>
+              ) : (
+                <div className={styles.changeTitle}>{label}</div>
+              )}
+              {change.change === 'updated' && change.fields && (
+                <ul className={styles.fields}>
+                  {change.fields.map(field => (
+                    <li key={field}>
+                      <code>{field}</code>: {formatValue((change.before as Record<string, unknown>)[field])}
+                      {' → '}
+                      {formatValue((change.after as Record<string, unknown>)[field])}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {canRestore && (
+        <div className={styles.actions}>
+          <button
+            className={styles.primaryButton}
+            onClick={() => onRestore(selection)}
+            disabled={isApplying || selectedCount === 0}
+          >
+            {isApplying ? 'Restoring...' : `Restore ${selectedCount} Selected`}
+          </button>
+          <small>Selected items go back to how the backup holds them; additions since the backup are removed.</small>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupDiffReview;
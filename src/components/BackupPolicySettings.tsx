@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { useBackupPolicy } from '../hooks/useBackupPolicy';
+import { usePermissions } from '../hooks/usePermissions';
+import { BACKUP_TIERS, BackupPolicy, BackupTier } from '../services/backupPolicy';
+import { BackupMetadata } from '../services/dataBackup';
+import styles from './BackupPolicySettings.module.css';
+
+interface BackupPolicySettingsProps {
+  backups: BackupMetadata[]; // Storage per tier is recounted whenever the backup list changes
+  onPolicySaved: () => void;
+}
+
+const TIER_LABELS: Record<BackupTier, { label: string; keep: string }> = {
+  hourly: { label: 'Hourly', keep: 'Hours to keep' },
+  daily: { label: 'Daily', keep: 'Days to keep' },
+  weekly: { label: 'Weekly', keep: 'Weeks to keep' },
+  manual: { label: 'Manual & safety', keep: 'Manual backups to keep' },
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const parseCount = (value: string, fallback: number): number => {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+};
+
+const BackupPolicySettings: React.FC<BackupPolicySettingsProps> = ({ backups, onPolicySaved }) => {
+  const { policy, tierUsage, unlocked, updatePolicy, refreshUsage, unlockBackups, lockBackups } = useBackupPolicy();
+  const { can } = usePermissions();
+  const [draft, setDraft] = useState<BackupPolicy>(policy);
+  const [changeThreshold, setChangeThreshold] = useState(String(policy.changeThreshold ?? ''));
+  const [maxTotalKB, setMaxTotalKB] = useState(String(policy.maxTotalKB ?? ''));
+  const [passphrase, setPassphrase] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const canEdit = can('manageSettings');
+
+  useEffect(refreshUsage, [backups, refreshUsage]);
+
+  const setRetention = (tier: BackupTier, value: string) => {
+    setDraft(current => ({
+      ...current,
+      retention: { ...current.retention, [tier]: parseCount(value, current.retention[tier]) },
+    }));
+  };
+
+  const handleUnlock = async () => {
+    try {
+      const opened = await unlockBackups(passphrase);
+      setPassphrase('');
+      setMessage({ type: 'success', text: `Backups unlocked${opened > 0 ? `, ${opened} encrypted backup(s) opened` : ''}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to unlock backups' });
+    }
+  };
+
+  const handleLock = () => {
+    lockBackups();
+    setMessage({ type: 'success', text: 'Backups locked. Encrypted backups cannot be read or created until unlocked again.' });
+  };
+
+  const handleSave = () => {
+    if (draft.encrypt && !unlocked) {
+      setMessage({ type: 'error', text: 'Unlock backups with a passphrase before turning on encryption' });
+      return;
+    }
+
+    try {
+      const removed = updatePolicy({
+        ...draft,
+        intervalMinutes: Math.max(1, draft.intervalMinutes),
+        changeThreshold: parseLimit(changeThreshold),
+        maxTotalKB: parseLimit(maxTotalKB),
+      });
+      onPolicySaved();
+      setMessage({ type: 'success', text: `Backup policy saved${removed > 0 ? `, ${removed} backup(s) removed` : ''}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save backup policy' });
+    }
+  };
+
+  const totalSize = BACKUP_TIERS.reduce((sum, tier) => sum + tierUsage[tier].size, 0);
+
+  return (
+    <div className={styles.backupPolicySettings}>
+      {message && (
+        <div className={`${styles.message} ${styles[message.type]}`}>
+          {message.text}
+        </div>
+      )}
+
+      <table className={styles.usageTable}>
+        <thead>
+          <tr>
+            <th>Tier</th>
+            <th>Backups</th>
+            <th>Storage</th>
+          </tr>
+        </thead>
+        <tbody>
+          {BACKUP_TIERS.map(tier => (
+            <tr key={tier}>
+              <td>{TIER_LABELS[tier].label}</td>
+              <td>{tierUsage[tier].count}</td>
+              <td>{formatSize(tierUsage[tier].size)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>Total</td>
+            <td>{BACKUP_TIERS.reduce((sum, tier) => sum + tierUsage[tier].count, 0)}</td>
+            <td>{formatSize(totalSize)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <fieldset className={styles.fields} disabled={!canEdit}>
+        <label className={styles.checkbox}>
+          <input
+            type="checkbox"
+            checked={draft.automaticBackups}
+            onChange={e => setDraft({ ...draft, automaticBackups: e.target.checked })}
+          />
+          Take automatic backups
+        </label>
+        <label className={styles.field}>
+          <span>Every (minutes)</span>
+          <input
+            type="number"
+            min="1"
+            value={draft.intervalMinutes}
+            onChange={e => setDraft({ ...draft, intervalMinutes: parseCount(e.target.value, draft.intervalMinutes) })}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>And after (changes)</span>
+          <input
+            type="number"
+            min="1"
+            placeholder="Off"
+            value={changeThreshold}
+            onChange={e => setChangeThreshold(e.target.value)}
+          />
+        </label>
+        {BACKUP_TIERS.map(tier => (
+          <label key={tier} className={styles.field}>
+            <span>{TIER_LABELS[tier].keep}</span>
+            <input
+              type="number"
+              min="0"
+              value={draft.retention[tier]}
+              onChange={e => setRetention(tier, e.target.value)}
+            />
+          </label>
+        ))}
+        <label className={styles.field}>
+          <span>Size cap (KB)</span>
+          <input
+            type="number"
+            min="1"
+            placeholder="No cap"
+            value={maxTotalKB}
+            onChange={e => setMaxTotalKB(e.target.value)}
+          />
+        </label>
+        <label className={styles.checkbox}>
+          <input
+            type="checkbox"
+            checked={draft.compress}
+            onChange={e => setDraft({ ...draft, compress: e.target.checked })}
+          />
+          Compress new backups
+        </label>
+        <label className={styles.checkbox}>
+          <input
+            type="checkbox"
+            checked={draft.encrypt}
+            onChange={e => setDraft({ ...draft, encrypt: e.target.checked })}
+          />
+          Encrypt new backups
+        </label>
+      </fieldset>
+
+      <div className={styles.passphrase}>
+        <span className={styles.lockStatus}>
+          {unlocked ? '🔓 Backups unlocked for this session' : '🔒 Backups locked'}
+        </span>
+        {unlocked ? (
+          <button className={styles.secondaryButton} onClick={handleLock}>
+            Lock
+          </button>
+        ) : (
+          <>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              placeholder="Backup passphrase"
+              aria-label="Backup passphrase"
+              autoComplete="current-password"
+            />
+            <button className={styles.secondaryButton} onClick={handleUnlock} disabled={!passphrase}>
+              Unlock
+            </button>
+          </>
+        )}
+      </div>
+
+      <p className={styles.hint}>
+        Automatic backups are thinned to the newest of each hour, day and week. The size cap removes the
+        oldest backups first, automatic before manual, and always keeps the newest. Encrypted backups use the
+        passphrase unlocked above, which is kept in memory only: without it they cannot be restored.
+      </p>
+
+      <button className={styles.primaryButton} onClick={handleSave} disabled={!canEdit}>
+        Save Backup Policy
+      </button>
+    </div>
+  );
+};
+
+export default BackupPolicySettings;
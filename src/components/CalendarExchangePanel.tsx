@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useCalendarExchange } from '../hooks/useCalendarExchange';
+import { CalendarExportScope } from '../services/icalendar';
+import styles from './CalendarExchangePanel.module.css';
+
+type ExportScopeType = CalendarExportScope['type'];
+
+const CalendarExchangePanel: React.FC = () => {
+  const { state } = useAppContext();
+  const { selectedWeekKey, exportCalendar, importCalendar } = useCalendarExchange();
+  const [scopeType, setScopeType] = useState<ExportScopeType>('week');
+  const [exportChannelId, setExportChannelId] = useState('');
+  const [importChannelId, setImportChannelId] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string; details?: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const channels = state.channels;
+  const selectedExportChannel = exportChannelId || channels[0]?.id || '';
+  const selectedImportChannel = importChannelId || channels[0]?.id || '';
+
+  const handleExport = () => {
+    const scope: CalendarExportScope = scopeType === 'week'
+      ? { type: 'week', weekKey: selectedWeekKey }
+      : scopeType === 'channel'
+        ? { type: 'channel', channelId: selectedExportChannel }
+        : { type: 'all' };
+
+    try {
+      const count = exportCalendar(scope);
+      setMessage({ type: 'success', text: `Exported ${count} ${count === 1 ? 'task' : 'tasks'}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: `Failed to export calendar: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { added, updated, skipped, warnings } = importCalendar(await file.text(), selectedImportChannel);
+      setMessage({
+        type: 'success',
+        text: `Imported ${added} new and ${updated} updated ${added + updated === 1 ? 'task' : 'tasks'}` +
+          (skipped > 0 ? `, skipped ${skipped}` : ''),
+        details: warnings,
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: `Failed to import calendar: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className={styles.calendarExchangePanel}>
+      <div className={styles.header}>
+        <h3>Calendar Sync</h3>
+        <p>Exchange scheduled tasks with Google Calendar, Outlook and other calendar apps as .ics files</p>
+      </div>
+
+      {message && (
+        <div className={`${styles.message} ${styles[message.type]}`} role="status">
+          {message.text}
+          {message.details && message.details.length > 0 && (
+            <ul className={styles.warnings}>
+              {message.details.map(detail => <li key={detail}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className={styles.section}>
+        <h4>Export</h4>
+        <p className={styles.sectionDescription}>
+          Exported events keep the same IDs, so importing a new export into your calendar updates the events already there
+        </p>
+        <div className={styles.controls}>
+          <label className={styles.field}>
+            <span>Tasks</span>
+            <select value={scopeType} onChange={(e) => setScopeType(e.target.value as ExportScopeType)}>
+              <option value="week">Selected week</option>
+              <option value="channel">One channel</option>
+              <option value="all">Everything</option>
+            </select>
+          </label>
+          {scopeType === 'channel' && (
+            <label className={styles.field}>
+              <span>Export channel</span>
+              <select value={selectedExportChannel} onChange={(e) => setExportChannelId(e.target.value)}>
+                {channels.map(channel => (
+                  <option key={channel.id} value={channel.id}>{channel.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            className={styles.primaryButton}
+            onClick={handleExport}
+            disabled={scopeType === 'channel' && !selectedExportChannel}
+          >
+            📅 Export .ics
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.section}>
+        <h4>Import</h4>
+        <p className={styles.sectionDescription}>
+          Events become tasks for the chosen channel; events exported from here update their original tasks
+        </p>
+        <div className={styles.controls}>
+          <label className={styles.field}>
+            <span>Import channel</span>
+            <select value={selectedImportChannel} onChange={(e) => setImportChannelId(e.target.value)}>
+              {channels.map(channel => (
+                <option key={channel.id} value={channel.id}>{channel.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={`${styles.fileInputLabel} ${!selectedImportChannel ? styles.disabled : ''}`}>
+            📥 Import .ics
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleImport}
+              disabled={!selectedImportChannel}
+              className={styles.fileInput}
+              aria-label="Calendar file"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarExchangePanel;
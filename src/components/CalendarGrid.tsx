@@ -1,6 +1,7 @@
 import React, { useMemo, useCallback } from 'react';
 import { Task, TimeSlot as TimeSlotType } from '../types';
 import { DAYS_OF_WEEK, TIME_SLOTS } from '../utils/constants';
+import { TaskSplitter } from '../services/taskSplitting';
 import TimeSlot from './TimeSlot';
 import styles from './CalendarGrid.module.css';
 
@@ -50,12 +51,14 @@ const CalendarGrid: React.FC<CalendarGridProps> = React.memo(({
   // Memoized task lookup for performance
   const tasksBySlot = useMemo(() => {
     const taskMap = new Map<string, Task[]>();
+    // Split tasks are shown through their parts
+    const workItems = TaskSplitter.getWorkItems(tasks);
     
     weekDates.forEach((date, dayIndex) => {
       timeSlots.forEach(timeSlot => {
         const slotKey = `${dayIndex}-${timeSlot.value}`;
         
-        const slotTasks = tasks.filter(task => {
+        const slotTasks = workItems.filter(task => {
           const taskDate = new Date(task.scheduledStart);
           const isSameDay = taskDate.toDateString() === date.toDateString();
           const isSameTimeSlot = task.timeSlot === timeSlot.value;
@@ -9,6 +9,7 @@ interface ChannelCardProps {
   onEdit?: (channel: Channel) => void;
   onToggleActive?: (channelId: string) => void;
   onDelete?: (channelId: string) => void;
+  canManage?: boolean; // Hides the activate and delete actions when false
 }
 
 export const ChannelCard: React.FC<ChannelCardProps> = ({
@@ -17,6 +18,7 @@ export const ChannelCard: React.FC<ChannelCardProps> = ({
   onEdit,
   onToggleActive,
   onDelete,
+  canManage = true,
 }) => {
   // Calculate channel statistics
   const channelTasks = tasks.filter(task => task.channelId === channel.id);
@@ -120,20 +122,24 @@ export const ChannelCard: React.FC<ChannelCardProps> = ({
         >
           ✏️
         </button>
-        <button 
-          className={`${styles.actionBtn} ${styles.toggle} ${channel.isActive ? styles.active : styles.inactive}`}
-          onClick={handleToggleActive}
-          title={channel.isActive ? 'Deactivate channel' : 'Activate channel'}
-        >
-          {channel.isActive ? '⏸️' : '▶️'}
-        </button>
-        <button 
-          className={`${styles.actionBtn} ${styles.delete}`}
-          onClick={handleDelete}
-          title="Delete channel"
-        >
-          🗑️
-        </button>
+        {canManage && (
+          <>
+            <button 
+              className={`${styles.actionBtn} ${styles.toggle} ${channel.isActive ? styles.active : styles.inactive}`}
+              onClick={handleToggleActive}
+              title={channel.isActive ? 'Deactivate channel' : 'Activate channel'}
+            >
+              {channel.isActive ? '⏸️' : '▶️'}
+            </button>
+            <button 
+              className={`${styles.actionBtn} ${styles.delete}`}
+              onClick={handleDelete}
+              title="Delete channel"
+            >
+              🗑️
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ import { ChannelCard } from './ChannelCard';
 import { AddChannelModal } from './AddChannelModal';
 import { ChannelSettings } from './ChannelSettings';
 import { useAppContext } from '../context/AppContext';
+import { usePermissions } from '../hooks/usePermissions';
 import styles from './ChannelGrid.module.css';
 
 interface ChannelGridProps {
@@ -18,6 +19,8 @@ export const ChannelGrid: React.FC<ChannelGridProps> = React.memo(({
   onEditChannel,
 }) => {
   const { state, dispatch } = useAppContext();
+  const { can } = usePermissions();
+  const canManageChannels = can('manageChannels');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
   const [selectedChannel, setSelectedChannel] = useState<Channel | null>(null);
@@ -93,6 +96,7 @@ export const ChannelGrid: React.FC<ChannelGridProps> = React.memo(({
             </p>
             <button 
               className={`${styles.addChannelBtn} ${styles.primary}`}
+              disabled={!canManageChannels}
               onClick={() => {
                 console.log('Create Your First Channel button clicked');
                 setIsAddModalOpen(true);
@@ -115,12 +119,14 @@ export const ChannelGrid: React.FC<ChannelGridProps> = React.memo(({
               {statistics.activeChannels} active, {statistics.totalChannels} total
             </span>
           </div>
-          <button 
-            className={`${styles.addChannelBtn} ${styles.secondary}`}
-            onClick={() => setIsAddModalOpen(true)}
-          >
-            + Add Channel
-          </button>
+          {canManageChannels && (
+            <button 
+              className={`${styles.addChannelBtn} ${styles.secondary}`}
+              onClick={() => setIsAddModalOpen(true)}
+            >
+              + Add Channel
+            </button>
+          )}
         </div>
 
         <div className={styles.channelGrid}>
@@ -132,6 +138,7 @@ export const ChannelGrid: React.FC<ChannelGridProps> = React.memo(({
               onEdit={handleEditChannel}
               onToggleActive={handleToggleChannelActive}
               onDelete={handleDeleteChannel}
+              canManage={canManageChannels}
             />
           ))}
         </div>
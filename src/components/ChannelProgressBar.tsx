@@ -17,10 +17,11 @@ export const ChannelProgressBar: React.FC<ChannelProgressBarProps> = ({
   showDetails = false,
   className = '',
 }) => {
-  const { getChannelCompletionRate, getChannelTaskStats } = useTaskStatus();
+  const { getChannelCompletionRate, getChannelTaskStats, getChannelStepStats } = useTaskStatus();
   
   const completionRate = getChannelCompletionRate(channelId);
   const stats = getChannelTaskStats(channelId);
+  const stepStats = getChannelStepStats(channelId);
   
   const getHealthStatus = () => {
     if (stats.overdue > 0) return 'critical';
@@ -85,6 +86,12 @@ export const ChannelProgressBar: React.FC<ChannelProgressBarProps> = ({
                 <span className={styles.statLabel}>Overdue</span>
               </div>
             )}
+            {stepStats.total > 0 && (
+              <div className={styles.statItem}>
+                <span className={styles.statValue}>{stepStats.completed}/{stepStats.total}</span>
+                <span className={styles.statLabel}>Steps Done</span>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Channel, ChannelContentType, PostingFrequency, ChannelTaskAssignment, TaskPriority } from '../types';
 import { useAppContext } from '../context/AppContext';
+import { usePermissions } from '../hooks/usePermissions';
 import { ChannelValidator } from '../services/validation';
 import { POSTING_FREQUENCIES, DAYS_OF_WEEK, CHANNEL_COLORS, TASK_PRIORITIES } from '../utils/constants';
 import { ContentTypeManager } from './ContentTypeManager';
@@ -35,6 +36,8 @@ interface FormErrors {
 
 export const ChannelSettings: React.FC<ChannelSettingsProps> = ({ isOpen, channel, onClose }) => {
   const { state, dispatch } = useAppContext();
+  const { can } = usePermissions();
+  const canManageChannels = can('manageChannels');
   const [formData, setFormData] = useState<FormData>({
     name: '',
     contentType: 'other',
@@ -641,7 +644,7 @@ export const ChannelSettings: React.FC<ChannelSettingsProps> = ({ isOpen, channe
             <div className={styles.generateTasksSection}>
               <h4 className={styles.sectionTitle}>Generate Calendar Tasks</h4>
               <p className={styles.helpText}>
-                Generate tasks on the calendar based on your assigned templates. This will create individual task cards that you can drag and arrange on the weekly calendar.
+                Generate tasks for the selected calendar week from your posting schedule and assigned templates. Tasks are placed on your preferred days and times; regenerating replaces generated tasks that haven't been started yet.
               </p>
               <button
                 type="button"
@@ -651,7 +654,7 @@ export const ChannelSettings: React.FC<ChannelSettingsProps> = ({ isOpen, channe
                   }
                 }}
                 className={styles.generateTasksButton}
-                disabled={isSubmitting}
+                disabled={isSubmitting || !can('editSchedule')}
               >
                 Generate Tasks for Calendar
               </button>
@@ -664,7 +667,7 @@ export const ChannelSettings: React.FC<ChannelSettingsProps> = ({ isOpen, channe
               type="button"
               onClick={handleDelete}
               className={styles.deleteButton}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !canManageChannels}
             >
               {showDeleteConfirm ? 'Confirm Delete' : 'Delete Channel'}
             </button>
@@ -680,7 +683,7 @@ export const ChannelSettings: React.FC<ChannelSettingsProps> = ({ isOpen, channe
               <button
                 type="submit"
                 className={styles.submitButton}
-                disabled={isSubmitting || showDeleteConfirm}
+                disabled={isSubmitting || showDeleteConfirm || !canManageChannels}
               >
                 {isSubmitting ? 'Saving...' : 'Save Changes'}
               </button>
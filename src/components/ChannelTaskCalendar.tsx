@@ -2,7 +2,12 @@ import React, { useMemo, useCallback, useState } from 'react';
 import { useDrag, useDrop } from 'react-dnd';
 import { Task, Channel, TimeSlot as TimeSlotType } from '../types';
 import { useAppContext } from '../context/AppContext';
+import { useTaskDependencies } from '../hooks/useTaskDependencies';
+import { useTaskStatus } from '../hooks/useTaskStatus';
+import { useTimeTracker } from '../hooks/useTimeTracker';
 import { DAYS_OF_WEEK, TIME_SLOTS } from '../utils/constants';
+import { TaskSplitter } from '../services/taskSplitting';
+import { TimeTracker } from '../services/timeTracking';
 import styles from './ChannelTaskCalendar.module.css';
 
 interface ChannelTaskCalendarProps {
@@ -22,9 +27,19 @@ interface TaskBlockProps {
   task: Task;
   channel: Channel;
   isDragging?: boolean;
+  blockedBy?: Task[]; // Unfinished tasks this task is waiting on
+  onToggleTimer?: (task: Task) => void;
+  onAdvanceStep?: (task: Task, stepIndex: number) => void; // Starts, completes or reopens a workflow step
 }
 
-const TaskBlock: React.FC<TaskBlockProps> = ({ task, channel, isDragging = false }) => {
+const TaskBlock: React.FC<TaskBlockProps> = ({
+  task,
+  channel,
+  isDragging = false,
+  blockedBy = [],
+  onToggleTimer,
+  onAdvanceStep,
+}) => {
   const [{ isDragging: dragState }, drag] = useDrag({
     type: 'task',
     item: { type: 'task', id: task.id, task },
@@ -34,23 +49,70 @@ const TaskBlock: React.FC<TaskBlockProps> = ({ task, channel, isDragging = false
   });
 
   const actualIsDragging = isDragging || dragState;
+  const isBlocked = blockedBy.length > 0;
+  const isTiming = TimeTracker.getTimerState(task) === 'running';
+  const canTime = !!onToggleTimer && !isBlocked && TimeTracker.canTrack(task);
+  const steps = onAdvanceStep && !isBlocked ? task.steps ?? [] : [];
+
+  const handleTimerClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleTimer?.(task);
+  };
+
+  const handleStepClick = (e: React.MouseEvent, stepIndex: number) => {
+    e.stopPropagation();
+    onAdvanceStep?.(task, stepIndex);
+  };
 
   return (
     <div
       ref={drag}
-      className={`${styles.taskBlock} ${actualIsDragging ? styles.dragging : ''}`}
+      className={`${styles.taskBlock} ${actualIsDragging ? styles.dragging : ''} ${isBlocked ? styles.blocked : ''} ${
+        isTiming ? styles.timing : ''
+      }`}
       style={{
         backgroundColor: channel.color,
         opacity: actualIsDragging ? 0.5 : 1,
       }}
       data-task-id={task.id}
+      title={isBlocked ? `Waiting on: ${blockedBy.map(t => t.title).join(', ')}` : undefined}
     >
+      {isBlocked && <div className={styles.blockedBadge}>Blocked</div>}
       <div className={styles.taskTitle}>{task.title}</div>
       <div className={styles.taskDuration}>{task.estimatedHours}h</div>
       <div className={styles.taskPriority}>
         <span className={`${styles.priorityDot} ${styles[task.priority]}`} />
         {task.priority}
       </div>
+      {canTime && (
+        <button
+          type="button"
+          className={styles.timerButton}
+          onClick={handleTimerClick}
+          aria-label={isTiming ? `Pause timer for ${task.title}` : `Start timer for ${task.title}`}
+        >
+          {isTiming ? '⏸' : '▶'}
+        </button>
+      )}
+      {steps.length > 0 && (
+        <ul className={styles.stepList}>
+          {steps.map((step, index) => {
+            const action = step.completedAt ? 'Reopen' : step.startedAt ? 'Complete' : 'Start';
+            return (
+              <li key={index} className={step.completedAt ? styles.stepDone : undefined}>
+                <button
+                  type="button"
+                  className={styles.stepButton}
+                  onClick={(e) => handleStepClick(e, index)}
+                  aria-label={`${action} ${step.name} for ${task.title}`}
+                >
+                  {step.completedAt ? '✓' : step.startedAt ? '◐' : '○'} {step.name}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </div>
   );
 };
@@ -58,9 +120,12 @@ const TaskBlock: React.FC<TaskBlockProps> = ({ task, channel, isDragging = false
 interface ChannelSectionProps {
   channel: Channel;
   tasks: Task[];
+  blockedTasks: Map<string, Task[]>;
+  onToggleTimer?: (task: Task) => void;
+  onAdvanceStep?: (task: Task, stepIndex: number) => void;
 }
 
-const ChannelSection: React.FC<ChannelSectionProps> = ({ channel, tasks }) => {
+const ChannelSection: React.FC<ChannelSectionProps> = ({ channel, tasks, blockedTasks, onToggleTimer, onAdvanceStep }) => {
   const unscheduledTasks = tasks.filter(task => !task.scheduledStart || task.status === 'planned');
 
   return (
@@ -76,7 +141,14 @@ const ChannelSection: React.FC<ChannelSectionProps> = ({ channel, tasks }) => {
       </div>
       <div className={styles.taskList}>
         {unscheduledTasks.map(task => (
-          <TaskBlock key={task.id} task={task} channel={channel} />
+          <TaskBlock
+            key={task.id}
+            task={task}
+            channel={channel}
+            blockedBy={blockedTasks.get(task.id)}
+            onToggleTimer={onToggleTimer}
+            onAdvanceStep={onAdvanceStep}
+          />
         ))}
         {unscheduledTasks.length === 0 && (
           <div className={styles.emptyState}>
@@ -92,16 +164,22 @@ interface TimeSlotDropZoneProps {
   date: Date;
   timeSlot: TimeSlotType;
   tasks: Task[];
+  blockedTasks: Map<string, Task[]>;
   isWorkingTime: boolean;
   onTaskDrop?: (taskId: string, newStart: Date, newEnd: Date) => void;
+  onToggleTimer?: (task: Task) => void;
+  onAdvanceStep?: (task: Task, stepIndex: number) => void;
 }
 
 const TimeSlotDropZone: React.FC<TimeSlotDropZoneProps> = ({
   date,
   timeSlot,
   tasks,
+  blockedTasks,
   isWorkingTime,
   onTaskDrop,
+  onToggleTimer,
+  onAdvanceStep,
 }) => {
   const { state } = useAppContext();
 
@@ -164,7 +242,14 @@ const TimeSlotDropZone: React.FC<TimeSlotDropZoneProps> = ({
       {scheduledTasks.map(task => {
         const channel = getChannelForTask(task);
         return channel ? (
-          <TaskBlock key={task.id} task={task} channel={channel} />
+          <TaskBlock
+            key={task.id}
+            task={task}
+            channel={channel}
+            blockedBy={blockedTasks.get(task.id)}
+            onToggleTimer={onToggleTimer}
+            onAdvanceStep={onAdvanceStep}
+          />
         ) : null;
       })}
       
@@ -190,6 +275,30 @@ const ChannelTaskCalendar: React.FC<ChannelTaskCalendarProps> = ({
   onTaskDrop,
 }) => {
   const { state } = useAppContext();
+  const { blockedTasks } = useTaskDependencies();
+  const { startTimer, pauseTimer } = useTimeTracker();
+  const { startTaskStep, completeTaskStep, reopenTaskStep } = useTaskStatus();
+
+  const handleToggleTimer = useCallback((task: Task) => {
+    if (TimeTracker.getTimerState(task) === 'running') {
+      pauseTimer(task.id);
+    } else {
+      startTimer(task.id);
+    }
+  }, [startTimer, pauseTimer]);
+
+  const handleAdvanceStep = useCallback((task: Task, stepIndex: number) => {
+    const step = task.steps?.[stepIndex];
+    if (!step) return;
+
+    if (step.completedAt) {
+      reopenTaskStep(task.id, stepIndex);
+    } else if (step.startedAt) {
+      completeTaskStep(task.id, stepIndex);
+    } else {
+      startTaskStep(task.id, stepIndex);
+    }
+  }, [startTaskStep, completeTaskStep, reopenTaskStep]);
 
   // Generate week dates
   const weekDates = useMemo(() => {
@@ -211,17 +320,22 @@ const ChannelTaskCalendar: React.FC<ChannelTaskCalendarProps> = ({
     return workingDays.includes(dayName);
   }, [workingDays]);
 
+  // Split tasks are scheduled and shown through their parts
+  const workItems = useMemo(() => {
+    return TaskSplitter.getWorkItems(state.currentWeek.tasks);
+  }, [state.currentWeek.tasks]);
+
   // Group tasks by channel
   const tasksByChannel = useMemo(() => {
     const grouped = new Map<string, Task[]>();
     
     state.channels.forEach(channel => {
-      const channelTasks = state.currentWeek.tasks.filter(task => task.channelId === channel.id);
+      const channelTasks = workItems.filter(task => task.channelId === channel.id);
       grouped.set(channel.id, channelTasks);
     });
     
     return grouped;
-  }, [state.channels, state.currentWeek.tasks]);
+  }, [state.channels, workItems]);
 
   return (
     <div className={styles.channelTaskCalendar}>
@@ -238,6 +352,9 @@ const ChannelTaskCalendar: React.FC<ChannelTaskCalendarProps> = ({
                 key={channel.id}
                 channel={channel}
                 tasks={tasksByChannel.get(channel.id) || []}
+                blockedTasks={blockedTasks}
+                onToggleTimer={handleToggleTimer}
+                onAdvanceStep={handleAdvanceStep}
               />
             ))}
             {state.channels.length === 0 && (
@@ -287,9 +404,12 @@ const ChannelTaskCalendar: React.FC<ChannelTaskCalendarProps> = ({
                       key={`${dayIndex}-${timeSlot.value}`}
                       date={date}
                       timeSlot={timeSlot.value as TimeSlotType}
-                      tasks={state.currentWeek.tasks}
+                      tasks={workItems}
+                      blockedTasks={blockedTasks}
                       isWorkingTime={isWorking}
                       onTaskDrop={onTaskDrop}
+                      onToggleTimer={handleToggleTimer}
+                      onAdvanceStep={handleAdvanceStep}
                     />
                   );
                 })}
@@ -0,0 +1,265 @@
+import React, { useRef, useState } from 'react';
+import { useCsvExchange } from '../hooks/useCsvExchange';
+import { CSV_COLUMNS, CsvColumnMapping, CsvPreview, CsvRecordType } from '../services/csvExchange';
+import { ImportOptions, ImportResult } from '../services/dataExport';
+import styles from './CsvExchangePanel.module.css';
+
+const RECORD_TYPE_LABELS: Record<CsvRecordType, string> = {
+  tasks: 'Tasks',
+  channels: 'Channels',
+  templates: 'Task templates',
+};
+
+const MERGE_MODE_LABELS: Record<ImportOptions['mergeMode'], string> = {
+  merge: 'Update existing rows by ID',
+  replace: 'Replace existing rows by ID',
+  skip_existing: 'Only add new rows',
+};
+
+interface PendingImport {
+  text: string;
+  fileName: string;
+  preview: CsvPreview;
+}
+
+const CsvExchangePanel: React.FC = () => {
+  const { exportCsv, previewCsv, importCsv } = useCsvExchange();
+  const [exportType, setExportType] = useState<CsvRecordType>('tasks');
+  const [exportColumns, setExportColumns] = useState<string[]>(() => CSV_COLUMNS.tasks.map(column => column.key));
+  const [importType, setImportType] = useState<CsvRecordType>('tasks');
+  const [mergeMode, setMergeMode] = useState<ImportOptions['mergeMode']>('merge');
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportTypeChange = (type: CsvRecordType) => {
+    setExportType(type);
+    setExportColumns(CSV_COLUMNS[type].map(column => column.key));
+  };
+
+  const toggleExportColumn = (key: string) => {
+    // Keep the default column order whichever columns are picked
+    setExportColumns(current => CSV_COLUMNS[exportType]
+      .map(column => column.key)
+      .filter(columnKey => (columnKey === key ? !current.includes(key) : current.includes(columnKey))));
+  };
+
+  const handleExport = () => {
+    try {
+      const count = exportCsv(exportType, exportColumns);
+      setMessage({ type: 'success', text: `Exported ${count} ${RECORD_TYPE_LABELS[exportType].toLowerCase()}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: `Failed to export CSV: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const preview = previewCsv(importType, text);
+    setPendingImport({ text, fileName: file.name, preview });
+    setMapping(preview.mapping);
+    setResult(null);
+    setMessage(null);
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImportTypeChange = (type: CsvRecordType) => {
+    setImportType(type);
+    if (pendingImport) {
+      const preview = previewCsv(type, pendingImport.text);
+      setPendingImport({ ...pendingImport, preview });
+      setMapping(preview.mapping);
+    }
+  };
+
+  const handleMappingChange = (index: number, key: string) => {
+    setMapping(current => current.map((columnKey, i) => {
+      if (i === index) return key || null;
+      // A column can only be read from one CSV column
+      return key && columnKey === key ? null : columnKey;
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+
+    try {
+      setIsImporting(true);
+      const importResult = await importCsv(importType, pendingImport.text, mapping, mergeMode);
+      setResult(importResult);
+      if (importResult.errors.length === 0) {
+        setPendingImport(null);
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: `Failed to import CSV: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.csvExchangePanel}>
+      <div className={styles.header}>
+        <h3>Spreadsheets</h3>
+        <p>Export tasks, channels and templates to CSV, edit them in a spreadsheet and import them back</p>
+      </div>
+
+      {message && (
+        <div className={`${styles.message} ${styles[message.type]}`} role="status">
+          {message.text}
+        </div>
+      )}
+
+      <div className={styles.section}>
+        <h4>Export CSV</h4>
+        <div className={styles.controls}>
+          <label className={styles.field}>
+            <span>Export</span>
+            <select value={exportType} onChange={(e) => handleExportTypeChange(e.target.value as CsvRecordType)}>
+              {Object.entries(RECORD_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <button className={styles.primaryButton} onClick={handleExport} disabled={exportColumns.length === 0}>
+            📤 Export CSV
+          </button>
+        </div>
+        <fieldset className={styles.columnPicker}>
+          <legend>Columns</legend>
+          {CSV_COLUMNS[exportType].map(column => (
+            <label key={column.key} className={styles.columnOption}>
+              <input
+                type="checkbox"
+                checked={exportColumns.includes(column.key)}
+                onChange={() => toggleExportColumn(column.key)}
+              />
+              {column.header}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+
+      <div className={styles.section}>
+        <h4>Import CSV</h4>
+        <div className={styles.controls}>
+          <label className={styles.field}>
+            <span>Import</span>
+            <select value={importType} onChange={(e) => handleImportTypeChange(e.target.value as CsvRecordType)}>
+              {Object.entries(RECORD_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>Existing rows</span>
+            <select value={mergeMode} onChange={(e) => setMergeMode(e.target.value as ImportOptions['mergeMode'])}>
+              {Object.entries(MERGE_MODE_LABELS).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.fileInputLabel}>
+            📥 Choose CSV
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className={styles.fileInput}
+              aria-label="CSV file"
+            />
+          </label>
+        </div>
+
+        {pendingImport && (
+          <div className={styles.mappingStep}>
+            <p className={styles.sectionDescription}>
+              Match the columns of <strong>{pendingImport.fileName}</strong> ({pendingImport.preview.rowCount} rows)
+            </p>
+            <table className={styles.mappingTable}>
+              <thead>
+                <tr>
+                  <th scope="col">CSV column</th>
+                  <th scope="col">Imported as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pendingImport.preview.headers.map((header, index) => (
+                  <tr key={index}>
+                    <td>{header || <em>Column {index + 1}</em>}</td>
+                    <td>
+                      <select
+                        value={mapping[index] ?? ''}
+                        onChange={(e) => handleMappingChange(index, e.target.value)}
+                        aria-label={`Import ${header || `column ${index + 1}`} as`}
+                      >
+                        <option value="">Ignore</option>
+                        {CSV_COLUMNS[importType].map(column => (
+                          <option key={column.key} value={column.key}>
+                            {column.header}{column.required ? ' *' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className={styles.controls}>
+              <button className={styles.primaryButton} onClick={handleImport} disabled={isImporting}>
+                {isImporting ? 'Importing...' : `Import ${pendingImport.preview.rowCount} rows`}
+              </button>
+              <button className={styles.secondaryButton} onClick={() => setPendingImport(null)} disabled={isImporting}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className={styles.report} role="status">
+            <div className={`${styles.message} ${result.success ? styles.success : styles.error}`}>
+              Imported {result.imported[importType]}, skipped {result.skipped[importType]}
+              {result.rowErrors && result.rowErrors.length > 0 && `, ${result.rowErrors.length} rows with errors`}
+            </div>
+            {result.errors.length > 0 && (
+              <ul className={styles.errorList}>
+                {result.errors.map((error, index) => <li key={index}>{error.message}</li>)}
+              </ul>
+            )}
+            {result.rowErrors && result.rowErrors.length > 0 && (
+              <table className={styles.mappingTable}>
+                <thead>
+                  <tr>
+                    <th scope="col">Row</th>
+                    <th scope="col">Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rowErrors.map(rowError => (
+                    <tr key={rowError.row}>
+                      <td>{rowError.row}{rowError.id ? ` (${rowError.id})` : ''}</td>
+                      <td>{rowError.errors.map(error => error.message).join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvExchangePanel;
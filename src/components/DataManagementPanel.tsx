@@ -1,5 +1,15 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { enhancedPersistenceService } from '../services/enhancedPersistence';
+import { BackupDiff, BackupDiffer, BackupRestoreSelection } from '../services/backupDiff';
+import { EncryptionError } from '../services/encryption';
+import { MergePlan, MergeResolutions } from '../services/importMerge';
+import { remoteSyncService, RemoteSyncState } from '../services/remoteSync';
+import { CURRENT_DATA, useBackupDiff } from '../hooks/useBackupDiff';
+import { useImportMerge } from '../hooks/useImportMerge';
+import { usePermissions } from '../hooks/usePermissions';
+import BackupDiffReview from './BackupDiffReview';
+import BackupPolicySettings from './BackupPolicySettings';
+import ImportMergeReview from './ImportMergeReview';
 import styles from './DataManagementPanel.module.css';
 
 interface DataManagementPanelProps {
@@ -10,7 +20,21 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
   const [backups, setBackups] = useState(enhancedPersistenceService.getAvailableBackups());
+  const [mergePlan, setMergePlan] = useState<MergePlan | null>(null);
+  const [comparison, setComparison] = useState<{ fromId: string; toId: string; diff: BackupDiff } | null>(null);
+  const [syncStatus, setSyncStatus] = useState(enhancedPersistenceService.getSyncStatus());
+  const [syncServerUrl, setSyncServerUrl] = useState('http://localhost:8787');
+  const [exportPassphrase, setExportPassphrase] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mergeFileInputRef = useRef<HTMLInputElement>(null);
+  const { prepareMerge, commitMerge } = useImportMerge();
+  const { compareBackups, restoreEntities } = useBackupDiff();
+  const { can } = usePermissions();
+  // Imports and restores replace channels, templates and schedules at once
+  const canReplaceData = can('manageChannels') && can('manageTemplates') && can('editSchedule');
+  const canManageSettings = can('manageSettings');
+
+  useEffect(() => remoteSyncService.onStatusChange(setSyncStatus), []);
 
   const showMessage = (type: 'success' | 'error' | 'info', text: string) => {
     setMessage({ type, text });
@@ -46,10 +70,53 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
     }
   };
 
-  const handleExportData = () => {
+  const handleCompareBackups = async (fromId: string, toId: string) => {
+    try {
+      setIsLoading(true);
+      const diff = await compareBackups(fromId, toId);
+      setComparison({ fromId, toId, diff });
+    } catch (error) {
+      showMessage('error', `Failed to compare backups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestoreSelected = async (selection: BackupRestoreSelection) => {
+    if (!comparison) return;
+
     try {
-      enhancedPersistenceService.exportData();
-      showMessage('success', 'Data exported successfully');
+      setIsLoading(true);
+      const restored = await restoreEntities(comparison.fromId, selection);
+      setBackups(enhancedPersistenceService.getAvailableBackups());
+      setComparison({ ...comparison, diff: BackupDiffer.excludeSelection(comparison.diff, selection) });
+      showMessage('success', `Restored ${restored} item(s) from the backup. Use undo to take the restore back.`);
+    } catch (error) {
+      showMessage('error', `Failed to restore items: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Run a file read without a passphrase first, asking for one only if the file turns out to be encrypted.
+   * Returns null if the user cancelled the prompt.
+   */
+  const withPassphrase = async <T,>(run: (passphrase?: string) => Promise<T>): Promise<T | null> => {
+    try {
+      return await run();
+    } catch (error) {
+      if (!(error instanceof EncryptionError) || error.code !== 'PASSPHRASE_REQUIRED') throw error;
+    }
+
+    const passphrase = prompt('This file is encrypted. Enter its passphrase:');
+    return passphrase ? run(passphrase) : null;
+  };
+
+  const handleExportData = async () => {
+    try {
+      await enhancedPersistenceService.exportData(exportPassphrase || undefined);
+      showMessage('success', exportPassphrase ? 'Data exported and encrypted successfully' : 'Data exported successfully');
     } catch (error) {
       showMessage('error', `Failed to export data: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -65,7 +132,11 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
 
     try {
       setIsLoading(true);
-      await enhancedPersistenceService.importData(file);
+      const imported = await withPassphrase(async passphrase => {
+        await enhancedPersistenceService.importData(file, passphrase);
+        return true;
+      });
+      if (!imported) return;
       setBackups(enhancedPersistenceService.getAvailableBackups());
       showMessage('success', 'Data imported successfully. Please refresh the page to see changes.');
     } catch (error) {
@@ -78,6 +149,83 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
     }
   };
 
+  const handleMergeFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setIsLoading(true);
+      const text = await file.text();
+      const plan = await withPassphrase(passphrase => prepareMerge(text, passphrase));
+      if (!plan) return;
+      if (plan.merges.length === 0 && plan.added.channels.length + plan.added.templates.length + plan.added.tasks.length === 0) {
+        showMessage('info', 'Nothing to merge: the file matches your current data');
+      } else {
+        setMergePlan(plan);
+      }
+    } catch (error) {
+      showMessage('error', `Failed to read merge file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+      if (mergeFileInputRef.current) {
+        mergeFileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleApplyMerge = async (resolutions: MergeResolutions) => {
+    if (!mergePlan) return;
+
+    try {
+      setIsLoading(true);
+      const result = await commitMerge(mergePlan, resolutions);
+      if (!result.success) {
+        throw new Error(result.errors.map(error => error.message).join(', '));
+      }
+      setMergePlan(null);
+      setBackups(enhancedPersistenceService.getAvailableBackups());
+      showMessage('success', 'Import merged successfully');
+    } catch (error) {
+      showMessage('error', `Failed to merge import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConnectSyncServer = async () => {
+    try {
+      setIsLoading(true);
+      const status = await enhancedPersistenceService.connectSyncServer(syncServerUrl.trim());
+      setBackups(enhancedPersistenceService.getAvailableBackups());
+      if (status.state === 'offline') {
+        showMessage('info', 'Sync server is not reachable yet. Changes are queued and synced once it is.');
+      } else {
+        showMessage('success', 'Connected to sync server');
+      }
+    } catch (error) {
+      showMessage('error', `Failed to connect to sync server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDisconnectSyncServer = () => {
+    if (syncStatus.queuedChanges > 0 &&
+        !confirm(`${syncStatus.queuedChanges} change(s) have not reached the sync server yet. Disconnect anyway?`)) {
+      return;
+    }
+    enhancedPersistenceService.disconnectSyncServer();
+    showMessage('info', 'Disconnected from sync server. Data is now kept in this browser only.');
+  };
+
+  const handleSyncNow = async () => {
+    try {
+      await remoteSyncService.sync();
+    } catch (error) {
+      showMessage('error', `Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleCleanupStorage = async () => {
     if (!confirm('Are you sure you want to cleanup old data? This will remove old schedules and backups.')) {
       return;
@@ -107,7 +255,16 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const syncStateLabels: Record<RemoteSyncState, string> = {
+    disconnected: 'Not connected',
+    syncing: '🔄 Syncing...',
+    online: '✅ Up to date',
+    offline: '📴 Offline, changes are queued',
+    error: '❌ Sync failed',
+  };
+
   const storageInfo = enhancedPersistenceService.getStorageInfo();
+  const backupPolicy = enhancedPersistenceService.getBackupPolicy();
 
   return (
     <div className={`${styles.dataManagementPanel} ${className}`}>
@@ -126,6 +283,10 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
       <div className={styles.section}>
         <h4>Storage Information</h4>
         <div className={styles.storageInfo}>
+          <div className={styles.storageItem}>
+            <span>Schedules & Backups:</span>
+            <span>{enhancedPersistenceService.getStorageBackendName() === 'indexeddb' ? 'IndexedDB' : 'localStorage'}</span>
+          </div>
           <div className={styles.storageItem}>
             <span>Used Space:</span>
             <span>{formatSize(storageInfo.usedSpace)}</span>
@@ -173,17 +334,80 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
                     {backup.description && <span>{backup.description}</span>}
                   </div>
                 </div>
-                <button 
-                  className={styles.secondaryButton}
-                  onClick={() => handleRestoreBackup(backup.id)}
-                  disabled={isLoading}
-                >
-                  Restore
-                </button>
+                <div className={styles.backupActions}>
+                  <button
+                    className={styles.secondaryButton}
+                    onClick={() => handleCompareBackups(backup.id, CURRENT_DATA)}
+                    disabled={isLoading}
+                  >
+                    Compare
+                  </button>
+                  <button 
+                    className={styles.secondaryButton}
+                    onClick={() => handleRestoreBackup(backup.id)}
+                    disabled={isLoading || !canReplaceData}
+                  >
+                    Restore
+                  </button>
+                </div>
               </div>
             ))
           )}
         </div>
+
+        {comparison && (
+          <div className={styles.comparison}>
+            <div className={styles.comparisonControls}>
+              <label>
+                <span>From</span>
+                <select
+                  value={comparison.fromId}
+                  onChange={e => handleCompareBackups(e.target.value, comparison.toId)}
+                  disabled={isLoading}
+                >
+                  {backups.map(backup => (
+                    <option key={backup.id} value={backup.id}>{formatDate(backup.timestamp)}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span>To</span>
+                <select
+                  value={comparison.toId}
+                  onChange={e => handleCompareBackups(comparison.fromId, e.target.value)}
+                  disabled={isLoading}
+                >
+                  <option value={CURRENT_DATA}>Current data</option>
+                  {backups.map(backup => (
+                    <option key={backup.id} value={backup.id}>{formatDate(backup.timestamp)}</option>
+                  ))}
+                </select>
+              </label>
+              <button className={styles.secondaryButton} onClick={() => setComparison(null)} disabled={isLoading}>
+                Close
+              </button>
+            </div>
+            <BackupDiffReview
+              key={`${comparison.fromId}:${comparison.toId}`}
+              diff={comparison.diff}
+              canRestore={comparison.toId === CURRENT_DATA}
+              isApplying={isLoading}
+              onRestore={handleRestoreSelected}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Backup Policy */}
+      <div className={styles.section}>
+        <h4>Backup Policy</h4>
+        <p className={styles.sectionDescription}>
+          How often automatic backups are taken, how many of each tier are kept, and the storage they use
+        </p>
+        <BackupPolicySettings
+          backups={backups}
+          onPolicySaved={() => setBackups(enhancedPersistenceService.getAvailableBackups())}
+        />
       </div>
 
       {/* Data Import/Export */}
@@ -205,11 +429,123 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
               type="file"
               accept=".json"
               onChange={handleImportData}
-              disabled={isLoading}
+              disabled={isLoading || !canReplaceData}
               className={styles.fileInput}
             />
           </label>
         </div>
+        <input
+          type="password"
+          value={exportPassphrase}
+          onChange={event => setExportPassphrase(event.target.value)}
+          placeholder="Passphrase to encrypt exports (optional)"
+          aria-label="Export passphrase"
+          autoComplete="new-password"
+          className={`${styles.syncServerInput} ${styles.passphraseInput}`}
+          disabled={isLoading}
+        />
+        <p className={styles.sectionDescription}>
+          Encrypted exports can only be imported with the same passphrase. It is not stored anywhere, so keep it safe.
+        </p>
+      </div>
+
+      {/* Merge Import */}
+      <div className={styles.section}>
+        <h4>Merge Import</h4>
+        <p className={styles.sectionDescription}>
+          Merge an export or backup into your data field by field, choosing a side wherever both changed
+        </p>
+        {mergePlan ? (
+          <ImportMergeReview
+            plan={mergePlan}
+            isApplying={isLoading}
+            onApply={handleApplyMerge}
+            onCancel={() => setMergePlan(null)}
+          />
+        ) : (
+          <label className={styles.fileInputLabel}>
+            🔀 Merge File
+            <input
+              ref={mergeFileInputRef}
+              type="file"
+              accept=".json"
+              onChange={handleMergeFile}
+              disabled={isLoading || !canReplaceData}
+              className={styles.fileInput}
+            />
+          </label>
+        )}
+      </div>
+
+      {/* Sync Server */}
+      <div className={styles.section}>
+        <h4>Sync Server</h4>
+        <p className={styles.sectionDescription}>
+          Share your plan with other machines through a self-hosted sync server. A backup is created before connecting.
+        </p>
+        {syncStatus.serverUrl ? (
+          <>
+            <div className={`${styles.storageInfo} ${styles.syncServerInfo}`}>
+              <div className={styles.storageItem}>
+                <span>Server:</span>
+                <span>{syncStatus.serverUrl}</span>
+              </div>
+              <div className={styles.storageItem}>
+                <span>Status:</span>
+                <span title={syncStatus.error}>{syncStateLabels[syncStatus.state]}</span>
+              </div>
+              <div className={styles.storageItem}>
+                <span>Revision:</span>
+                <span>{syncStatus.revision}</span>
+              </div>
+              <div className={styles.storageItem}>
+                <span>Queued changes:</span>
+                <span>{syncStatus.queuedChanges}</span>
+              </div>
+              {syncStatus.lastSyncedAt && (
+                <div className={styles.storageItem}>
+                  <span>Last synced:</span>
+                  <span>{formatDate(syncStatus.lastSyncedAt)}</span>
+                </div>
+              )}
+            </div>
+            <div className={styles.actionGrid}>
+              <button
+                className={styles.secondaryButton}
+                onClick={handleSyncNow}
+                disabled={isLoading || syncStatus.state === 'syncing'}
+              >
+                🔄 Sync Now
+              </button>
+              <button
+                className={styles.warningButton}
+                onClick={handleDisconnectSyncServer}
+                disabled={isLoading}
+              >
+                Disconnect
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className={styles.syncServerForm}>
+            <input
+              type="url"
+              value={syncServerUrl}
+              onChange={event => setSyncServerUrl(event.target.value)}
+              placeholder="http://localhost:8787"
+              aria-label="Sync server URL"
+              className={styles.syncServerInput}
+              disabled={isLoading}
+            />
+            <button
+              className={styles.primaryButton}
+              onClick={handleConnectSyncServer}
+              disabled={isLoading || !syncServerUrl.trim() || !canManageSettings}
+            >
+              Connect
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Storage Cleanup */}
@@ -221,7 +557,7 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
         <button 
           className={styles.warningButton}
           onClick={handleCleanupStorage}
-          disabled={isLoading}
+          disabled={isLoading || !canManageSettings}
         >
           🧹 Cleanup Storage
         </button>
@@ -236,12 +572,20 @@ const DataManagementPanel: React.FC<DataManagementPanelProps> = ({ className = '
             <small>Your data is automatically saved every few seconds</small>
           </div>
           <div className={styles.statusItem}>
-            <span>🔄 Auto-backup enabled</span>
-            <small>Automatic backups are created every 5 minutes</small>
+            <span>{backupPolicy.automaticBackups ? '🔄 Auto-backup enabled' : '⏸️ Auto-backup off'}</span>
+            <small>
+              {backupPolicy.automaticBackups
+                ? `Automatic backups are created every ${backupPolicy.intervalMinutes} minutes`
+                : 'Backups are only created manually and before risky changes'}
+            </small>
           </div>
           <div className={styles.statusItem}>
             <span>💾 Local storage</span>
-            <small>All data is stored locally in your browser</small>
+            <small>
+              {syncStatus.serverUrl
+                ? 'Data is stored in your browser and synced with your sync server'
+                : 'All data is stored locally in your browser'}
+            </small>
           </div>
         </div>
       </div>
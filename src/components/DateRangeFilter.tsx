@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { DateRange } from '../services/scheduleAnalytics';
+import { formatLocalDate, getWeekKey, getWeekStartFromKey } from '../utils/helpers';
+import styles from './DateRangeFilter.module.css';
+
+type RangePreset = '4' | '12' | '26' | 'all' | 'custom';
+
+interface DateRangeFilterProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  historyRange?: DateRange | null; // Range covered by stored weeks, used for "All time"
+  label?: string;
+}
+
+/**
+ * Get the range covering the last few weeks up to the end of the current week
+ */
+export const getRecentWeeksRange = (weeks: number, now: Date = new Date()): DateRange => {
+  const end = getWeekStartFromKey(getWeekKey(now));
+  end.setDate(end.getDate() + 7);
+  const start = new Date(end);
+  start.setDate(start.getDate() - weeks * 7);
+  return { start, end };
+};
+
+const parseDateInput = (value: string): Date | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const DateRangeFilter: React.FC<DateRangeFilterProps> = ({
+  value,
+  onChange,
+  historyRange,
+  label = 'Date range',
+}) => {
+  const [preset, setPreset] = useState<RangePreset>('12');
+
+  const handlePresetChange = (nextPreset: RangePreset) => {
+    setPreset(nextPreset);
+    if (nextPreset === 'custom') return;
+
+    if (nextPreset === 'all') {
+      const recent = getRecentWeeksRange(1);
+      onChange(historyRange
+        ? {
+            start: historyRange.start,
+            end: new Date(Math.max(historyRange.end.getTime(), recent.end.getTime())),
+          }
+        : recent);
+      return;
+    }
+
+    onChange(getRecentWeeksRange(Number(nextPreset)));
+  };
+
+  // The end input shows the last included day
+  const lastDay = new Date(value.end);
+  lastDay.setDate(lastDay.getDate() - 1);
+
+  const handleStartChange = (input: string) => {
+    const start = parseDateInput(input);
+    if (start && start < value.end) onChange({ ...value, start });
+  };
+
+  const handleEndChange = (input: string) => {
+    const end = parseDateInput(input);
+    if (!end) return;
+    end.setDate(end.getDate() + 1);
+    if (end > value.start) onChange({ ...value, end });
+  };
+
+  return (
+    <div className={styles.filter}>
+      <select
+        className={styles.select}
+        value={preset}
+        onChange={(e) => handlePresetChange(e.target.value as RangePreset)}
+        aria-label={label}
+      >
+        <option value="4">Last 4 weeks</option>
+        <option value="12">Last 12 weeks</option>
+        <option value="26">Last 26 weeks</option>
+        <option value="all">All time</option>
+        <option value="custom">Custom</option>
+      </select>
+      {preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            className={styles.dateInput}
+            value={formatLocalDate(value.start)}
+            onChange={(e) => handleStartChange(e.target.value)}
+            aria-label={`${label} start`}
+          />
+          <span className={styles.separator}>to</span>
+          <input
+            type="date"
+            className={styles.dateInput}
+            value={formatLocalDate(lastDay)}
+            onChange={(e) => handleEndChange(e.target.value)}
+            aria-label={`${label} end`}
+          />
+        </>
+      )}
+    </div>
+  );
+};
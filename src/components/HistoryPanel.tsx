@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useActionHistory } from '../hooks/useActionHistory';
+import { HistoryEntry } from '../services/actionHistory';
+import styles from './HistoryPanel.module.css';
+
+interface HistoryPanelProps {
+  className?: string;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ className = '' }) => {
+  const { entries, undoneEntries, canUndo, canRedo, nextUndo, nextRedo, undo, redo, clearHistory } = useActionHistory();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const renderEntry = (entry: HistoryEntry, isUndone: boolean) => (
+    <li key={entry.id} className={`${styles.entry} ${isUndone ? styles.undone : ''}`}>
+      <span className={styles.description}>
+        {entry.description}
+        {entry.actionCount > 1 && <span className={styles.count}> ×{entry.actionCount}</span>}
+      </span>
+      <span className={styles.time}>{formatTime(entry.timestamp)}</span>
+    </li>
+  );
+
+  return (
+    <div className={`${styles.historyPanel} ${className}`}>
+      <div className={styles.controls}>
+        <button
+          type="button"
+          onClick={undo}
+          disabled={!canUndo}
+          title={nextUndo ? `Undo: ${nextUndo.description} (Ctrl+Z)` : 'Nothing to undo'}
+          aria-label="Undo"
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          onClick={redo}
+          disabled={!canRedo}
+          title={nextRedo ? `Redo: ${nextRedo.description} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          aria-label="Redo"
+        >
+          ↷ Redo
+        </button>
+        <button
+          type="button"
+          className={styles.toggle}
+          onClick={() => setIsExpanded(expanded => !expanded)}
+          aria-expanded={isExpanded}
+        >
+          History ({entries.length + undoneEntries.length})
+        </button>
+      </div>
+
+      {isExpanded && (
+        entries.length + undoneEntries.length === 0 ? (
+          <p className={styles.empty}>Changes you make appear here.</p>
+        ) : (
+          <>
+            <ol className={styles.entries} aria-label="Change history, newest first">
+              {undoneEntries.map(entry => renderEntry(entry, true))}
+              {entries.map(entry => renderEntry(entry, false))}
+            </ol>
+            <button type="button" className={styles.clear} onClick={clearHistory}>
+              Clear history
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { FieldResolution, ImportMerger, MergePlan, MergeRecordType, MergeResolutions } from '../services/importMerge';
+import styles from './ImportMergeReview.module.css';
+
+interface ImportMergeReviewProps {
+  plan: MergePlan;
+  isApplying: boolean;
+  onApply: (resolutions: MergeResolutions) => void;
+  onCancel: () => void;
+}
+
+const RECORD_TYPE_LABELS: Record<MergeRecordType, string> = {
+  channel: 'Channel',
+  template: 'Template',
+  task: 'Task',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ImportMergeReview: React.FC<ImportMergeReviewProps> = ({ plan, isApplying, onApply, onCancel }) => {
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const summary = useMemo(() => ImportMerger.summarize(plan, resolutions), [plan, resolutions]);
+  const conflictCount = summary.conflictsKeptMine + summary.conflictsTookTheirs;
+
+  const setResolution = (key: string, field: string, resolution: FieldResolution) => {
+    setResolutions(current => ({ ...current, [key]: { ...current[key], [field]: resolution } }));
+  };
+
+  const setAllResolutions = (resolution: FieldResolution) => {
+    setResolutions(Object.fromEntries(plan.merges.map(merge => [
+      merge.key,
+      Object.fromEntries(merge.conflicts.map(conflict => [conflict.field, resolution])),
+    ])));
+  };
+
+  const addedRecords = [
+    ...plan.added.channels.map(channel => `Channel: ${channel.name}`),
+    ...plan.added.templates.map(template => `Template: ${template.title}`),
+    ...plan.added.tasks.map(task => `Task: ${task.title}`),
+  ];
+
+  return (
+    <div className={styles.importMergeReview}>
+      <p className={styles.baseInfo}>
+        {plan.baseBackupId
+          ? `Compared with backup ${plan.baseBackupId}, the latest from before this file was created.`
+          : 'No backup from before this file was created, so every differing field is shown as a conflict.'}
+      </p>
+
+      {addedRecords.length > 0 && (
+        <details className={styles.group}>
+          <summary>{addedRecords.length} new record{addedRecords.length === 1 ? '' : 's'}</summary>
+          <ul className={styles.addedList}>
+            {addedRecords.map((label, index) => <li key={index}>{label}</li>)}
+          </ul>
+        </details>
+      )}
+
+      {plan.merges.length > 0 && (
+        <div className={styles.group}>
+          <div className={styles.groupHeader}>
+            <strong>{plan.merges.length} changed record{plan.merges.length === 1 ? '' : 's'}</strong>
+            {conflictCount > 0 && (
+              <div className={styles.bulkActions}>
+                <button className={styles.linkButton} onClick={() => setAllResolutions('mine')} disabled={isApplying}>
+                  Keep all mine
+                </button>
+                <button className={styles.linkButton} onClick={() => setAllResolutions('theirs')} disabled={isApplying}>
+                  Take all theirs
+                </button>
+              </div>
+            )}
+          </div>
+
+          {plan.merges.map(merge => (
+            <div key={merge.key} className={styles.record}>
+              <div className={styles.recordTitle}>
+                {RECORD_TYPE_LABELS[merge.type]}: {merge.label}
+                {merge.takenFromTheirs.length > 0 && (
+                  <span className={styles.autoMerged}>
+                    Updated from import: {merge.takenFromTheirs.join(', ')}
+                  </span>
+                )}
+              </div>
+
+              {merge.conflicts.length > 0 && (
+                <table className={styles.conflictTable}>
+                  <thead>
+                    <tr>
+                      <th>Field</th>
+                      {merge.hasBase && <th>Before</th>}
+                      <th>Mine</th>
+                      <th>Theirs</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {merge.conflicts.map(conflict => {
+                      const resolution = resolutions[merge.key]?.[conflict.field] ?? 'mine';
+                      const name = `${merge.key}:${conflict.field}`;
+                      return (
+                        <tr key={conflict.field}>
+                          <td className={styles.field}>{conflict.field}</td>
+                          {merge.hasBase && <td className={styles.baseValue}>{formatValue(conflict.base)}</td>}
+                          <td className={resolution === 'mine' ? styles.chosen : undefined}>
+                            <label>
+                              <input
+                                type="radio"
+                                name={name}
+                                checked={resolution === 'mine'}
+                                onChange={() => setResolution(merge.key, conflict.field, 'mine')}
+                                disabled={isApplying}
+                              />
+                              {formatValue(conflict.mine)}
+                            </label>
+                          </td>
+                          <td className={resolution === 'theirs' ? styles.chosen : undefined}>
+                            <label>
+                              <input
+                                type="radio"
+                                name={name}
+                                checked={resolution === 'theirs'}
+                                onChange={() => setResolution(merge.key, conflict.field, 'theirs')}
+                                disabled={isApplying}
+                              />
+                              {formatValue(conflict.theirs)}
+                            </label>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className={styles.summary}>
+        <strong>Summary</strong>
+        <ul>
+          <li>
+            Add {summary.added.channels} channels, {summary.added.templates} templates and {summary.added.tasks} tasks
+          </li>
+          <li>
+            Update {summary.updated.channels} channels, {summary.updated.templates} templates and {summary.updated.tasks} tasks
+            ({summary.fieldsFromImport} fields from the import)
+          </li>
+          {conflictCount > 0 && (
+            <li>
+              Conflicts: keep mine for {summary.conflictsKeptMine}, take theirs for {summary.conflictsTookTheirs}
+            </li>
+          )}
+          <li>{plan.unchanged} shared records are already identical</li>
+        </ul>
+      </div>
+
+      <div className={styles.actions}>
+        <button className={styles.primaryButton} onClick={() => onApply(resolutions)} disabled={isApplying}>
+          {isApplying ? 'Applying...' : 'Apply Merge'}
+        </button>
+        <button className={styles.secondaryButton} onClick={onCancel} disabled={isApplying}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMergeReview;
@@ -15,13 +15,27 @@ export const RebalancingPanel: React.FC<RebalancingPanelProps> = ({ className })
     needsRebalancing,
     topSuggestion,
     quickWins,
+    previewSuggestion,
     applySuggestion,
+    undoSuggestion,
     totalPotentialImpact,
   } = useRebalancingSuggestions();
 
   const [expandedSuggestions, setExpandedSuggestions] = useState<Set<string>>(new Set());
   const [applyingIds, setApplyingIds] = useState<Set<string>>(new Set());
   const [appliedIds, setAppliedIds] = useState<Set<string>>(new Set());
+  const [previewIds, setPreviewIds] = useState<Set<string>>(new Set());
+  const [rollbackIds, setRollbackIds] = useState<Map<string, string>>(new Map());
+
+  const togglePreview = (suggestionId: string) => {
+    const newPreviews = new Set(previewIds);
+    if (newPreviews.has(suggestionId)) {
+      newPreviews.delete(suggestionId);
+    } else {
+      newPreviews.add(suggestionId);
+    }
+    setPreviewIds(newPreviews);
+  };
 
   const toggleExpanded = (suggestionId: string) => {
     const newExpanded = new Set(expandedSuggestions);
@@ -40,6 +54,9 @@ export const RebalancingPanel: React.FC<RebalancingPanelProps> = ({ className })
       const result = await applySuggestion(suggestion);
       if (result.success) {
         setAppliedIds(prev => new Set(prev).add(suggestion.id));
+        if (result.rollbackId) {
+          setRollbackIds(prev => new Map(prev).set(suggestion.id, result.rollbackId!));
+        }
       }
     } finally {
       setApplyingIds(prev => {
@@ -50,6 +67,69 @@ export const RebalancingPanel: React.FC<RebalancingPanelProps> = ({ className })
     }
   };
 
+  const handleUndoSuggestion = async (suggestion: RebalancingSuggestion) => {
+    const rollbackId = rollbackIds.get(suggestion.id);
+    if (!rollbackId) return;
+
+    const result = await undoSuggestion(rollbackId);
+    if (result.success) {
+      setAppliedIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(suggestion.id);
+        return newSet;
+      });
+      setRollbackIds(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(suggestion.id);
+        return newMap;
+      });
+    }
+  };
+
+  const formatChange = (value: number, unit: string) =>
+    `${value > 0 ? '+' : ''}${value.toFixed(1)}${unit}`;
+
+  const renderPreview = (suggestion: RebalancingSuggestion) => {
+    const preview = previewSuggestion(suggestion);
+
+    return (
+      <div className={styles.preview}>
+        <h6>Before / After</h6>
+        <div className={styles.previewSummary}>
+          <span>
+            Utilization: {preview.before.utilizationPercentage.toFixed(1)}% → {preview.after.utilizationPercentage.toFixed(1)}%
+            {' '}({formatChange(preview.utilizationChange, '%')})
+          </span>
+          <span>
+            Scheduled: {preview.before.totalScheduledHours.toFixed(1)}h → {preview.after.totalScheduledHours.toFixed(1)}h
+            {' '}({formatChange(preview.totalHoursChange, 'h')})
+          </span>
+          <span>{preview.taskUpdates.length + preview.taskSplits.length} task change(s)</span>
+        </div>
+        {preview.dailyChanges.length > 0 && (
+          <ul className={styles.previewDays}>
+            {preview.dailyChanges.map(day => (
+              <li key={day.date.toISOString()}>
+                <strong>{day.dayName}:</strong> {day.beforeHours.toFixed(1)}h → {day.afterHours.toFixed(1)}h
+                {' '}({formatChange(day.change, 'h')})
+              </li>
+            ))}
+          </ul>
+        )}
+        {preview.memberChanges.length > 0 && (
+          <ul className={styles.previewDays}>
+            {preview.memberChanges.map(member => (
+              <li key={member.memberId}>
+                <strong>{member.memberName}:</strong> {member.beforeHours.toFixed(1)}h → {member.afterHours.toFixed(1)}h
+                {' '}({formatChange(member.change, 'h')})
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
   const getPriorityColor = (priority: RebalancingSuggestion['priority']) => {
     switch (priority) {
       case 'high': return styles.priorityHigh;
@@ -170,6 +250,13 @@ export const RebalancingPanel: React.FC<RebalancingPanelProps> = ({ className })
                 >
                   {expandedSuggestions.has(suggestion.id) ? '▼' : '▶'}
                 </button>
+                <button
+                  className={styles.expandButton}
+                  onClick={() => togglePreview(suggestion.id)}
+                  disabled={appliedIds.has(suggestion.id)}
+                >
+                  {previewIds.has(suggestion.id) ? 'Hide Preview' : 'Preview'}
+                </button>
                 <button
                   className={styles.applyButton}
                   onClick={() => handleApplySuggestion(suggestion)}
@@ -178,11 +265,21 @@ export const RebalancingPanel: React.FC<RebalancingPanelProps> = ({ className })
                   {appliedIds.has(suggestion.id) ? '✅ Applied' : 
                    applyingIds.has(suggestion.id) ? 'Applying...' : 'Apply'}
                 </button>
+                {rollbackIds.has(suggestion.id) && (
+                  <button
+                    className={styles.undoButton}
+                    onClick={() => handleUndoSuggestion(suggestion)}
+                  >
+                    Undo
+                  </button>
+                )}
               </div>
             </div>
 
             <p className={styles.suggestionDescription}>{suggestion.description}</p>
 
+            {previewIds.has(suggestion.id) && !appliedIds.has(suggestion.id) && renderPreview(suggestion)}
+
             <div className={styles.suggestionImpact}>
               <span className={styles.impactItem}>
                 📉 {suggestion.impact.hoursReduced.toFixed(1)}h saved
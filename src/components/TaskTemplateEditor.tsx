@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { TaskTemplate, TaskCategory } from '../types';
 import { useAppContext } from '../context/AppContext';
+import { useEstimationAnalytics } from '../hooks/useEstimationAnalytics';
+import { usePermissions } from '../hooks/usePermissions';
+import { TaskDependencyManager } from '../services/taskDependencies';
 import { TASK_CATEGORIES } from '../utils/constants';
 import styles from './TaskTemplateEditor.module.css';
 
@@ -16,6 +19,8 @@ interface FormData {
   estimatedHours: number;
   category: TaskCategory;
   workflowSteps: string[];
+  createTaskPerStep: boolean;
+  dependsOnTemplateIds: string[];
 }
 
 interface FormErrors {
@@ -24,21 +29,30 @@ interface FormErrors {
   estimatedHours?: string;
   category?: string;
   workflowSteps?: string;
+  createTaskPerStep?: string;
+  dependsOnTemplateIds?: string;
   general?: string;
 }
 
 export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen, template, onClose }) => {
-  const { dispatch } = useAppContext();
+  const { state, dispatch } = useAppContext();
+  const { can } = usePermissions();
   const [formData, setFormData] = useState<FormData>({
     title: '',
     description: '',
     estimatedHours: 1,
     category: 'content-creation',
     workflowSteps: [],
+    createTaskPerStep: false,
+    dependsOnTemplateIds: [],
   });
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [newStepInput, setNewStepInput] = useState('');
+  const { getCalibration } = useEstimationAnalytics();
+
+  // Estimate suggested by how long this template's completed tasks actually took
+  const calibration = template ? getCalibration(template.id) : null;
 
   // Reset form when modal opens/closes or template changes
   useEffect(() => {
@@ -50,6 +64,8 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
           estimatedHours: template.estimatedHours,
           category: template.category,
           workflowSteps: [...template.workflowSteps],
+          createTaskPerStep: template.createTaskPerStep ?? false,
+          dependsOnTemplateIds: [...(template.dependsOnTemplateIds ?? [])],
         });
       } else {
         setFormData({
@@ -58,6 +74,8 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
           estimatedHours: 1,
           category: 'content-creation',
           workflowSteps: [],
+          createTaskPerStep: false,
+          dependsOnTemplateIds: [],
         });
       }
       setErrors({});
@@ -104,6 +122,26 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
     handleInputChange('workflowSteps', newSteps);
   };
 
+  // Templates this one may wait on: any template that does not already wait on it
+  const prerequisiteOptions = useMemo(() => {
+    const templates = state.taskTemplates ?? [];
+    if (!template) return templates;
+
+    const dependentIds = TaskDependencyManager.getDependentTemplateIds(template.id, templates);
+    return templates.filter(t => t.id !== template.id && !dependentIds.has(t.id));
+  }, [state.taskTemplates, template]);
+
+  // Handle prerequisite template toggling
+  const handleTogglePrerequisite = (templateId: string) => {
+    const { dependsOnTemplateIds } = formData;
+    handleInputChange(
+      'dependsOnTemplateIds',
+      dependsOnTemplateIds.includes(templateId)
+        ? dependsOnTemplateIds.filter(id => id !== templateId)
+        : [...dependsOnTemplateIds, templateId]
+    );
+  };
+
   // Validate form
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
@@ -153,6 +191,8 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
           estimatedHours: formData.estimatedHours,
           category: formData.category,
           workflowSteps: formData.workflowSteps,
+          createTaskPerStep: formData.createTaskPerStep,
+          dependsOnTemplateIds: formData.dependsOnTemplateIds,
         };
 
         dispatch({ 
@@ -171,6 +211,8 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
           estimatedHours: formData.estimatedHours,
           category: formData.category,
           workflowSteps: formData.workflowSteps,
+          createTaskPerStep: formData.createTaskPerStep,
+          dependsOnTemplateIds: formData.dependsOnTemplateIds,
           createdAt: new Date(),
         };
 
@@ -307,6 +349,24 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
                 {errors.estimatedHours}
               </span>
             )}
+            {calibration && formData.estimatedHours !== calibration.calibratedEstimate && (
+              <div className={styles.calibrationHint}>
+                <span>
+                  The last {calibration.sampleCount} tasks took{' '}
+                  {calibration.bias === 'underestimated' ? 'longer' : 'less time'} than estimated
+                  (typically {Math.round(calibration.ratio * 100)}% of the estimate).
+                  Suggested: {calibration.calibratedEstimate}h
+                </span>
+                <button
+                  type="button"
+                  className={styles.calibrationButton}
+                  onClick={() => handleInputChange('estimatedHours', calibration.calibratedEstimate)}
+                  disabled={isSubmitting}
+                >
+                  Apply calibrated estimate
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Category */}
@@ -399,6 +459,18 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
               </div>
             )}
             
+            {formData.workflowSteps.length > 1 && (
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={formData.createTaskPerStep}
+                  onChange={(e) => handleInputChange('createTaskPerStep', e.target.checked)}
+                  disabled={isSubmitting}
+                />
+                Create a separate task for each step, in order
+              </label>
+            )}
+            
             {errors.workflowSteps && (
               <span className={styles.fieldError} role="alert">
                 {errors.workflowSteps}
@@ -406,6 +478,28 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
             )}
           </div>
 
+          {/* Prerequisite Templates */}
+          {prerequisiteOptions.length > 0 && (
+            <div className={styles.formGroup}>
+              <label className={styles.label}>
+                Must Follow (Optional)
+              </label>
+              <div className={styles.prerequisiteList}>
+                {prerequisiteOptions.map(option => (
+                  <label key={option.id} className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={formData.dependsOnTemplateIds.includes(option.id)}
+                      onChange={() => handleTogglePrerequisite(option.id)}
+                      disabled={isSubmitting}
+                    />
+                    {option.title}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Form Actions */}
           <div className={styles.formActions}>
             <button
@@ -419,7 +513,7 @@ export const TaskTemplateEditor: React.FC<TaskTemplateEditorProps> = ({ isOpen,
             <button
               type="submit"
               className={styles.submitButton}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !can('manageTemplates')}
             >
               {isSubmitting ? 'Saving...' : template ? 'Update Template' : 'Create Template'}
             </button>
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { useAppContext } from '../context/AppContext';
+import { usePermissions } from '../hooks/usePermissions';
 import { TaskTemplate } from '../types';
 import { VirtualScrollList } from './VirtualScrollList';
 import { TASK_CATEGORIES } from '../utils/constants';
@@ -15,6 +16,8 @@ export const TaskTemplateLibrary: React.FC<TaskTemplateLibraryProps> = React.mem
   onCreateTemplate,
 }) => {
   const { state, dispatch } = useAppContext();
+  const { can } = usePermissions();
+  const canManageTemplates = can('manageTemplates');
   const { taskTemplates } = state;
   const [selectedCategory, setSelectedCategory] = useState<'all' | 'content-creation' | 'production' | 'marketing' | 'admin' | 'other'>('all');
 
@@ -67,33 +70,37 @@ export const TaskTemplateLibrary: React.FC<TaskTemplateLibraryProps> = React.mem
         </div>
       </div>
 
-      <div className={styles.templateActions}>
-        <button 
-          className={styles.editButton}
-          onClick={() => onEditTemplate?.(template)}
-        >
-          Edit
-        </button>
-        <button 
-          className={styles.deleteButton}
-          onClick={() => handleDeleteTemplate(template.id)}
-        >
-          Delete
-        </button>
-      </div>
+      {canManageTemplates && (
+        <div className={styles.templateActions}>
+          <button 
+            className={styles.editButton}
+            onClick={() => onEditTemplate?.(template)}
+          >
+            Edit
+          </button>
+          <button 
+            className={styles.deleteButton}
+            onClick={() => handleDeleteTemplate(template.id)}
+          >
+            Delete
+          </button>
+        </div>
+      )}
     </div>
-  ), [onEditTemplate, handleDeleteTemplate]);
+  ), [onEditTemplate, handleDeleteTemplate, canManageTemplates]);
 
   return (
     <div className={styles.taskTemplateLibrary}>
       <div className={styles.header}>
         <h2>Task Templates</h2>
-        <button 
-          className={styles.createButton}
-          onClick={onCreateTemplate}
-        >
-          Create Task Template
-        </button>
+        {canManageTemplates && (
+          <button 
+            className={styles.createButton}
+            onClick={onCreateTemplate}
+          >
+            Create Task Template
+          </button>
+        )}
       </div>
 
       <div className={styles.filters}>
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { useTeamMembers } from '../hooks/useTeamMembers';
+import { usePermissions } from '../hooks/usePermissions';
+import { ROLE_LABELS } from '../services/permissions';
+import { TeamMember, WorkspaceRole } from '../types';
+import { generateId } from '../utils/helpers';
+import { DEFAULT_USER_SETTINGS } from '../utils/constants';
+import styles from './TeamMembersPanel.module.css';
+
+const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const SUGGESTED_ROLES = ['Editor', 'Thumbnail Designer', 'Channel Manager', 'Writer'];
+
+type MemberForm = Omit<TeamMember, 'id'>;
+
+const emptyForm = (): MemberForm => ({
+  name: '',
+  role: '',
+  weeklyCapacityHours: DEFAULT_USER_SETTINGS.weeklyCapacityHours,
+  workingDays: [...DEFAULT_USER_SETTINGS.workingDays],
+  workingHours: { ...DEFAULT_USER_SETTINGS.workingHours },
+  accessRole: 'editor',
+});
+
+const TeamMembersPanel: React.FC = () => {
+  const { teamMembers, addTeamMember, updateTeamMember, removeTeamMember } = useTeamMembers();
+  const { role, currentMember, setCurrentMember, can } = usePermissions();
+  const canManageTeam = can('manageTeam');
+  const [form, setForm] = useState<MemberForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const isValid = form.name.trim() !== '' &&
+    form.role.trim() !== '' &&
+    form.workingDays.length > 0 &&
+    form.workingHours.end > form.workingHours.start;
+
+  const toggleWorkingDay = (day: string) => {
+    setForm(prev => ({
+      ...prev,
+      workingDays: prev.workingDays.includes(day)
+        ? prev.workingDays.filter(d => d !== day)
+        : [...prev.workingDays, day],
+    }));
+  };
+
+  const handleEdit = (member: TeamMember) => {
+    const { id, ...fields } = member;
+    setEditingId(id);
+    setForm({ ...fields, workingDays: [...fields.workingDays], workingHours: { ...fields.workingHours } });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const member = { ...form, name: form.name.trim(), role: form.role.trim() };
+    if (editingId) {
+      updateTeamMember(editingId, member);
+    } else {
+      const id = generateId();
+      addTeamMember({ id, ...member });
+      // Whoever sets up the team's first owner is that owner, or they would become a viewer
+      if (member.accessRole === 'owner' && !currentMember && role === 'owner') {
+        setCurrentMember(id);
+      }
+    }
+    handleCancel();
+  };
+
+  const handleRemove = (member: TeamMember) => {
+    if (window.confirm(`Remove ${member.name} from the team? Their tasks become unassigned.`)) {
+      removeTeamMember(member.id);
+      if (editingId === member.id) handleCancel();
+    }
+  };
+
+  return (
+    <div className={styles.teamMembersPanel}>
+      <div className={styles.header}>
+        <h3>Team</h3>
+        <p>Give each person their own capacity and working days; tasks can then be assigned to them.</p>
+      </div>
+
+      {teamMembers.length > 0 && (
+        <div className={styles.currentMember}>
+          <label className={styles.field}>
+            Using this browser
+            <select
+              value={currentMember?.id ?? ''}
+              onChange={e => setCurrentMember(e.target.value || null)}
+            >
+              <option value="">Not set</option>
+              {teamMembers.map(member => (
+                <option key={member.id} value={member.id}>{member.name}</option>
+              ))}
+            </select>
+          </label>
+          <span className={styles.roleBadge}>{ROLE_LABELS[role]}</span>
+        </div>
+      )}
+
+      {teamMembers.length > 0 && (
+        <ul className={styles.memberList}>
+          {teamMembers.map(member => (
+            <li key={member.id} className={styles.member}>
+              <div className={styles.memberInfo}>
+                <strong>{member.name}</strong> · {member.role} · {ROLE_LABELS[member.accessRole ?? 'editor']}
+                <span className={styles.memberDetails}>
+                  {member.weeklyCapacityHours}h/week · {member.workingDays.map(day => day.slice(0, 3)).join(', ')} · {member.workingHours.start}–{member.workingHours.end}
+                </span>
+              </div>
+              {canManageTeam && (
+                <div className={styles.memberActions}>
+                  <button type="button" className={styles.secondaryButton} onClick={() => handleEdit(member)}>
+                    Edit
+                  </button>
+                  <button type="button" className={styles.dangerButton} onClick={() => handleRemove(member)}>
+                    Remove
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManageTeam && (
+        <form className={styles.form} onSubmit={handleSubmit}>
+          <h4>{editingId ? 'Edit Team Member' : 'Add Team Member'}</h4>
+          <div className={styles.fields}>
+            <label className={styles.field}>
+              Name
+              <input
+                type="text"
+                value={form.name}
+                onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </label>
+            <label className={styles.field}>
+              Role
+              <input
+                type="text"
+                list="team-member-roles"
+                value={form.role}
+                onChange={e => setForm(prev => ({ ...prev, role: e.target.value }))}
+              />
+              <datalist id="team-member-roles">
+                {SUGGESTED_ROLES.map(role => <option key={role} value={role} />)}
+              </datalist>
+            </label>
+            <label className={styles.field}>
+              Access
+              <select
+                value={form.accessRole ?? 'editor'}
+                onChange={e => setForm(prev => ({ ...prev, accessRole: e.target.value as WorkspaceRole }))}
+              >
+                {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(accessRole => (
+                  <option key={accessRole} value={accessRole}>{ROLE_LABELS[accessRole]}</option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              Hours per week
+              <input
+                type="number"
+                min="0"
+                max="168"
+                value={form.weeklyCapacityHours}
+                onChange={e => setForm(prev => ({
+                  ...prev,
+                  weeklyCapacityHours: Math.max(0, Math.min(168, parseInt(e.target.value) || 0)),
+                }))}
+              />
+            </label>
+            <label className={styles.field}>
+              Start time
+              <input
+                type="time"
+                value={form.workingHours.start}
+                onChange={e => setForm(prev => ({ ...prev, workingHours: { ...prev.workingHours, start: e.target.value } }))}
+              />
+            </label>
+            <label className={styles.field}>
+              End time
+              <input
+                type="time"
+                value={form.workingHours.end}
+                onChange={e => setForm(prev => ({ ...prev, workingHours: { ...prev.workingHours, end: e.target.value } }))}
+              />
+            </label>
+          </div>
+
+          <fieldset className={styles.days}>
+            <legend>Working days</legend>
+            {DAYS_OF_WEEK.map(day => (
+              <label key={day} className={styles.dayOption}>
+                <input
+                  type="checkbox"
+                  checked={form.workingDays.includes(day)}
+                  onChange={() => toggleWorkingDay(day)}
+                />
+                {day.slice(0, 3)}
+              </label>
+            ))}
+          </fieldset>
+
+          <div className={styles.formActions}>
+            {editingId && (
+              <button type="button" className={styles.secondaryButton} onClick={handleCancel}>
+                Cancel
+              </button>
+            )}
+            <button type="submit" className={styles.primaryButton} disabled={!isValid}>
+              {editingId ? 'Save Member' : 'Add Member'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TeamMembersPanel;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { useTimeTracker } from '../hooks/useTimeTracker';
+import { TimeTracker } from '../services/timeTracking';
+import styles from './TimeTrackerIndicator.module.css';
+
+interface TimeTrackerIndicatorProps {
+  className?: string;
+}
+
+export const TimeTrackerIndicator: React.FC<TimeTrackerIndicatorProps> = ({ className = '' }) => {
+  const { activeTimers, startTimer, pauseTimer, stopTimer } = useTimeTracker();
+  const [now, setNow] = useState(() => new Date());
+
+  const hasRunningTimer = activeTimers.some(task => TimeTracker.getTimerState(task) === 'running');
+
+  // Tick once a second while a timer is running
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  if (activeTimers.length === 0) return null;
+
+  return (
+    <div className={`${styles.indicator} ${className}`} role="status" aria-label="Active timers">
+      {activeTimers.map(task => {
+        const isRunning = TimeTracker.getTimerState(task) === 'running';
+
+        return (
+          <div key={task.id} className={`${styles.timer} ${isRunning ? styles.running : styles.paused}`}>
+            <span className={styles.statusDot} aria-hidden="true" />
+            <div className={styles.timerInfo}>
+              <span className={styles.taskTitle} title={task.title}>{task.title}</span>
+              <span className={styles.elapsed}>
+                {TimeTracker.formatDuration(TimeTracker.getElapsedMs(task, now))}
+                {!isRunning && ' (paused)'}
+              </span>
+            </div>
+            <div className={styles.controls}>
+              {isRunning ? (
+                <button type="button" onClick={() => pauseTimer(task.id)} aria-label={`Pause timer for ${task.title}`}>
+                  ⏸
+                </button>
+              ) : (
+                <button type="button" onClick={() => startTimer(task.id)} aria-label={`Resume timer for ${task.title}`}>
+                  ▶
+                </button>
+              )}
+              <button type="button" onClick={() => stopTimer(task.id)} aria-label={`Stop timer for ${task.title}`}>
+                ⏹
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useUserSettings } from '../hooks/useUserSettings';
+import { usePermissions } from '../hooks/usePermissions';
 import DataManagementPanel from './DataManagementPanel';
+import CalendarExchangePanel from './CalendarExchangePanel';
+import CsvExchangePanel from './CsvExchangePanel';
+import TeamMembersPanel from './TeamMembersPanel';
+import AuditLogPanel from './AuditLogPanel';
 import styles from './UserSettings.module.css';
 
 interface UserSettingsProps {
@@ -24,6 +29,7 @@ const TIME_OPTIONS = Array.from({ length: 24 }, (_, i) => {
 
 export const UserSettings: React.FC<UserSettingsProps> = ({ onClose }) => {
   const { userSettings, updateUserSettings } = useUserSettings();
+  const { can } = usePermissions();
   
   const [formData, setFormData] = useState({
     weeklyCapacityHours: userSettings.weeklyCapacityHours,
@@ -197,10 +203,30 @@ export const UserSettings: React.FC<UserSettingsProps> = ({ onClose }) => {
           )}
         </section>
 
+        {/* Team Section */}
+        <section className={styles.section}>
+          <TeamMembersPanel />
+        </section>
+
+        {/* Audit Log Section */}
+        <section className={styles.section}>
+          <AuditLogPanel />
+        </section>
+
         {/* Data Management Section */}
         <section className={styles.section}>
           <DataManagementPanel />
         </section>
+
+        {/* Calendar Sync Section */}
+        <section className={styles.section}>
+          <CalendarExchangePanel />
+        </section>
+
+        {/* Spreadsheet Section */}
+        <section className={styles.section}>
+          <CsvExchangePanel />
+        </section>
       </div>
 
       <div className={styles.actions}>
@@ -213,7 +239,7 @@ export const UserSettings: React.FC<UserSettingsProps> = ({ onClose }) => {
         </button>
         <button
           onClick={handleSave}
-          disabled={!hasChanges || !validateWorkingHours() || formData.workingDays.length === 0}
+          disabled={!hasChanges || !validateWorkingHours() || formData.workingDays.length === 0 || !can('manageSettings')}
           className={styles.saveButton}
         >
           Save Settings
@@ -18,6 +18,7 @@ export const WorkloadOverview: React.FC<WorkloadOverviewProps> = ({
     hasOverloadedDays, 
     mostOverloadedDay,
     busiestChannel,
+    overloadedMembers,
     workloadDistribution 
   } = useWorkloadCalculation();
 
@@ -118,6 +119,28 @@ export const WorkloadOverview: React.FC<WorkloadOverviewProps> = ({
         )}
       </div>
 
+      {workloadMetrics.memberBreakdown.length > 0 && (
+        <div className={styles.team}>
+          <span className={styles.metricLabel}>Team</span>
+          <ul className={styles.memberList}>
+            {workloadMetrics.memberBreakdown.map(member => (
+              <li key={member.memberId} className={styles.member}>
+                <span className={styles.memberName}>
+                  {member.memberName}
+                  <span className={styles.memberRole}> · {member.role}</span>
+                  {overloadedMembers.includes(member) && (
+                    <span className={styles.overloadIndicator}> ⚠️</span>
+                  )}
+                </span>
+                <span className={getUtilizationColor(member.utilizationPercentage)}>
+                  {member.scheduledHours.toFixed(1)}h / {member.capacityHours}h
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {showSuggestions && needsRebalancing && (
         <div className={styles.suggestions}>
           <div className={styles.suggestionsHeader}>
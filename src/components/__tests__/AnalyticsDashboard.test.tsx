@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { AnalyticsDashboard } from '../AnalyticsDashboard';
+import { AppProvider } from '../../context/AppContext';
+import { AppState, Channel, Task, WeeklySchedule } from '../../types';
+import { getWeekKey, getWeekStartFromKey, shiftWeekKey } from '../../utils/helpers';
+import { ReactNode } from 'react';
+
+const thisWeekKey = getWeekKey(new Date());
+const lastYearWeekKey = shiftWeekKey(thisWeekKey, -52);
+
+const createTask = (id: string, weekKey: string, overrides: Partial<Task> = {}): Task => {
+  const start = getWeekStartFromKey(weekKey);
+  start.setHours(9);
+  const end = new Date(start);
+  end.setHours(13);
+
+  return {
+    id,
+    channelId: 'channel-1',
+    title: `Task ${id}`,
+    estimatedHours: 4,
+    status: 'completed',
+    scheduledStart: start,
+    scheduledEnd: end,
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  };
+};
+
+const createWeek = (weekKey: string, tasks: Task[]): WeeklySchedule => ({
+  weekStartDate: getWeekStartFromKey(weekKey),
+  tasks,
+  totalScheduledHours: tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
+  userCapacityHours: 40,
+  isOverloaded: false,
+});
+
+const channel: Channel = {
+  id: 'channel-1',
+  name: 'Gaming Channel',
+  contentType: 'gaming',
+  postingSchedule: { frequency: 'weekly', preferredDays: ['Monday'], preferredTimes: ['09:00'] },
+  color: '#ff0000',
+  createdAt: getWeekStartFromKey(lastYearWeekKey),
+  isActive: true,
+  assignedTasks: [],
+};
+
+const createMockState = (): AppState => {
+  const currentWeek = createWeek(thisWeekKey, [createTask('current', thisWeekKey)]);
+
+  return {
+    channels: [channel],
+    taskTemplates: [],
+    currentWeek,
+    schedules: {
+      [thisWeekKey]: currentWeek,
+      [lastYearWeekKey]: createWeek(lastYearWeekKey, [createTask('old', lastYearWeekKey, { estimatedHours: 20 })]),
+    },
+    selectedWeekKey: thisWeekKey,
+    userSettings: {
+      weeklyCapacityHours: 40,
+      workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+      workingHours: { start: '09:00', end: '17:00' },
+    },
+    ui: {
+      activeView: 'analytics',
+      isLoading: false,
+      errors: [],
+    },
+  };
+};
+
+const createWrapper = (initialState: AppState) => {
+  return ({ children }: { children: ReactNode }) => (
+    <AppProvider initialState={initialState}>
+      {children}
+    </AppProvider>
+  );
+};
+
+describe('AnalyticsDashboard', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should render every chart with its own date range', () => {
+    render(<AnalyticsDashboard />, { wrapper: createWrapper(createMockState()) });
+
+    ['Weekly Utilization', 'Channel Completion', 'Overdue Tasks', 'Hours by Category', 'Posting Cadence']
+      .forEach(title => {
+        expect(screen.getByText(title)).toBeInTheDocument();
+        expect(screen.getByLabelText(`${title} date range`)).toBeInTheDocument();
+      });
+  });
+
+  it('should only chart weeks within the selected range', () => {
+    render(<AnalyticsDashboard />, { wrapper: createWrapper(createMockState()) });
+
+    const utilization = screen.getByText('Weekly Utilization').closest('section')!;
+    expect(within(utilization).getByText('10%')).toBeInTheDocument();
+    expect(within(utilization).queryByText('50%')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Weekly Utilization date range'), { target: { value: 'all' } });
+
+    expect(within(utilization).getByText('50%')).toBeInTheDocument();
+    // Other charts keep their own range
+    const completion = screen.getByText('Channel Completion').closest('section')!;
+    expect(within(completion).getAllByText('100%')).toHaveLength(1);
+  });
+
+  it('should show date inputs for a custom range', () => {
+    render(<AnalyticsDashboard />, { wrapper: createWrapper(createMockState()) });
+
+    fireEvent.change(screen.getByLabelText('Overdue Tasks date range'), { target: { value: 'custom' } });
+
+    expect(screen.getByLabelText('Overdue Tasks date range start')).toBeInTheDocument();
+    expect(screen.getByLabelText('Overdue Tasks date range end')).toBeInTheDocument();
+  });
+});
@@ -198,4 +198,34 @@ describe('ChannelProgressBar', () => {
     expect(screen.getByText('0%')).toBeInTheDocument();
     expect(screen.getByText('good')).toBeInTheDocument(); // Default status for no tasks
   });
+
+  it('should count completed workflow steps as partial progress', () => {
+    const tasks = [
+      createMockTask({
+        id: '1',
+        status: 'in-progress',
+        steps: [
+          { name: 'Script', completedAt: new Date('2024-01-01T10:00:00') },
+          { name: 'Record' },
+        ],
+      }),
+      createMockTask({ id: '2', status: 'planned' }),
+    ];
+    const initialState = createMockState(tasks);
+    const wrapper = createWrapper(initialState);
+
+    render(
+      <ChannelProgressBar
+        channelId="channel-1"
+        channelName="Test Channel"
+        channelColor="#ff0000"
+        showDetails={true}
+      />,
+      { wrapper }
+    );
+
+    expect(screen.getByText('25%')).toBeInTheDocument(); // Half of one task out of two
+    expect(screen.getByText('1/2')).toBeInTheDocument();
+    expect(screen.getByText('Steps Done')).toBeInTheDocument();
+  });
 });
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DndProvider } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
+import ChannelTaskCalendar from '../ChannelTaskCalendar';
+import { AppProvider } from '../../context/AppContext';
+import { AppState, Task } from '../../types';
+
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  channelId: 'channel-1',
+  title: 'Launch video',
+  estimatedHours: 4,
+  status: 'planned',
+  priority: 'medium',
+  timeSlot: 'morning',
+  scheduledStart: new Date('2024-01-01T09:00:00'),
+  scheduledEnd: new Date('2024-01-01T13:00:00'),
+  steps: [{ name: 'Script' }, { name: 'Edit' }],
+  ...overrides,
+});
+
+const createMockState = (tasks: Task[]): AppState => ({
+  channels: [
+    {
+      id: 'channel-1',
+      name: 'Test Channel',
+      contentType: 'gaming',
+      postingSchedule: {
+        frequency: 'weekly',
+        preferredDays: ['Monday'],
+        preferredTimes: ['10:00'],
+      },
+      color: '#ff0000',
+      createdAt: new Date(),
+      isActive: true,
+      assignedTasks: [],
+    },
+  ],
+  taskTemplates: [],
+  currentWeek: {
+    weekStartDate: new Date('2024-01-01T00:00:00'),
+    tasks,
+    totalScheduledHours: tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
+    userCapacityHours: 40,
+    isOverloaded: false,
+  },
+  schedules: {},
+  selectedWeekKey: '2024-01-01',
+  selectedChannelId: undefined,
+  userSettings: {
+    weeklyCapacityHours: 40,
+    workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    workingHours: { start: '09:00', end: '17:00' },
+  },
+  ui: {
+    activeView: 'calendar',
+    isLoading: false,
+    errors: [],
+  },
+});
+
+const renderCalendar = (tasks: Task[]) => render(
+  <AppProvider initialState={createMockState(tasks)}>
+    <DndProvider backend={HTML5Backend}>
+      <ChannelTaskCalendar
+        weekStartDate={new Date('2024-01-01T00:00:00')}
+        workingHours={{ start: '09:00', end: '17:00' }}
+        workingDays={['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday']}
+      />
+    </DndProvider>
+  </AppProvider>
+);
+
+// A planned task shows both in the task library and in its time slot
+const clickStep = (label: string) => {
+  fireEvent.click(screen.getAllByRole('button', { name: label })[0]);
+};
+
+describe('ChannelTaskCalendar', () => {
+  it('should start, complete and reopen workflow steps from a task block', () => {
+    renderCalendar([createMockTask()]);
+
+    clickStep('Start Script for Launch video');
+    clickStep('Complete Script for Launch video');
+    expect(screen.getByRole('button', { name: 'Reopen Script for Launch video' })).toBeInTheDocument();
+
+    clickStep('Start Edit for Launch video');
+    clickStep('Complete Edit for Launch video');
+    expect(screen.getByRole('button', { name: 'Reopen Edit for Launch video' })).toBeInTheDocument();
+
+    clickStep('Reopen Script for Launch video');
+    expect(screen.getByRole('button', { name: 'Complete Script for Launch video' })).toBeInTheDocument();
+  });
+
+  it('should not offer step controls for a task waiting on another task', () => {
+    renderCalendar([
+      createMockTask({ id: 'task-0', title: 'Research', steps: undefined }),
+      createMockTask({ dependsOn: ['task-0'] }),
+    ]);
+
+    expect(screen.queryByRole('button', { name: 'Start Script for Launch video' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TimeTrackerIndicator } from '../TimeTrackerIndicator';
+import { AppProvider } from '../../context/AppContext';
+import { AppState, Task, WeeklySchedule } from '../../types';
+import { ReactNode } from 'react';
+
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  channelId: 'channel-1',
+  title: 'Edit Video',
+  estimatedHours: 4,
+  status: 'in-progress',
+  scheduledStart: new Date('2024-01-01T09:00:00'),
+  scheduledEnd: new Date('2024-01-01T13:00:00'),
+  timeSlot: 'morning',
+  priority: 'medium',
+  ...overrides,
+});
+
+const createMockState = (tasks: Task[]): AppState => {
+  const week: WeeklySchedule = {
+    weekStartDate: new Date('2024-01-01'),
+    tasks,
+    totalScheduledHours: tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
+    userCapacityHours: 40,
+    isOverloaded: false,
+  };
+
+  return {
+    channels: [],
+    taskTemplates: [],
+    currentWeek: week,
+    schedules: { '2024-01-01': week },
+    selectedWeekKey: '2024-01-01',
+    userSettings: {
+      weeklyCapacityHours: 40,
+      workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+      workingHours: { start: '09:00', end: '17:00' },
+    },
+    ui: {
+      activeView: 'dashboard',
+      isLoading: false,
+      errors: [],
+    },
+  };
+};
+
+const createWrapper = (initialState: AppState) => {
+  return ({ children }: { children: ReactNode }) => (
+    <AppProvider initialState={initialState}>
+      {children}
+    </AppProvider>
+  );
+};
+
+describe('TimeTrackerIndicator', () => {
+  it('should render nothing when no timer is active', () => {
+    const wrapper = createWrapper(createMockState([createMockTask()]));
+
+    const { container } = render(<TimeTrackerIndicator />, { wrapper });
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show the paused timer with its tracked time', () => {
+    const task = createMockTask({
+      timeEntries: [{
+        id: 'entry-1',
+        startedAt: new Date('2024-01-01T09:00:00'),
+        endedAt: new Date('2024-01-01T10:30:00'),
+        endReason: 'paused',
+      }],
+    });
+    const wrapper = createWrapper(createMockState([task]));
+
+    render(<TimeTrackerIndicator />, { wrapper });
+
+    expect(screen.getByText('Edit Video')).toBeInTheDocument();
+    expect(screen.getByText(/1:30:00/)).toBeInTheDocument();
+    expect(screen.getByText(/paused/)).toBeInTheDocument();
+  });
+
+  it('should pause a running timer and stop it', () => {
+    const task = createMockTask({
+      timeEntries: [{ id: 'entry-1', startedAt: new Date(Date.now() - 60 * 1000) }],
+    });
+    const wrapper = createWrapper(createMockState([task]));
+
+    render(<TimeTrackerIndicator />, { wrapper });
+
+    fireEvent.click(screen.getByLabelText('Pause timer for Edit Video'));
+    expect(screen.getByLabelText('Resume timer for Edit Video')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Stop timer for Edit Video'));
+    expect(screen.queryByText('Edit Video')).not.toBeInTheDocument();
+  });
+});
@@ -1,19 +1,31 @@
-import React, { createContext, useContext, useReducer, ReactNode, useEffect } from 'react';
-import { AppState, AppAction, WeeklySchedule } from '../types';
-import { debouncedLocalStorageService } from '../services/debouncedLocalStorage';
+import React, { createContext, useContext, useReducer, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { AppState, AppAction, Channel, HistoryPatch, Task, TaskTemplate, WeeklySchedule } from '../types';
+import { ActionHistory, ActionHistoryState, HistorySnapshot } from '../services/actionHistory';
+import { auditLogService, AuditedChange } from '../services/auditLog';
 import { enhancedPersistenceService } from '../services/enhancedPersistence';
+import { ErrorHandler } from '../services/errorHandling';
+import { localStorageService } from '../services/localStorage';
+import { permissionService, PermissionError } from '../services/permissions';
+import { RecurrenceEngine } from '../services/recurrenceEngine';
+import { TaskDependencyManager } from '../services/taskDependencies';
+import { TaskSplitter } from '../services/taskSplitting';
+import { getWeekKey, getWeekStartFromKey, shiftWeekKey } from '../utils/helpers';
+
+const initialWeekKey = getWeekKey(new Date());
 
 // Initial state
 const initialState: AppState = {
   channels: [],
   taskTemplates: [],
   currentWeek: {
-    weekStartDate: new Date(),
+    weekStartDate: getWeekStartFromKey(initialWeekKey),
     tasks: [],
     totalScheduledHours: 0,
     userCapacityHours: 40,
     isOverloaded: false,
   },
+  schedules: {},
+  selectedWeekKey: initialWeekKey,
   selectedChannelId: undefined,
   userSettings: {
     weeklyCapacityHours: 40,
@@ -28,6 +40,239 @@ const initialState: AppState = {
   },
 };
 
+// Schedule store helpers
+
+/**
+ * Create an empty schedule for a week that has not been loaded yet
+ */
+const createEmptyWeek = (weekKey: string, capacityHours: number): WeeklySchedule => ({
+  weekStartDate: getWeekStartFromKey(weekKey),
+  tasks: [],
+  totalScheduledHours: 0,
+  userCapacityHours: capacityHours,
+  isOverloaded: false,
+});
+
+/**
+ * Get a week from the store, starting it empty when it has not been loaded.
+ * Stored weeks an action changes are loaded before it is dispatched (see getTargetWeekKeys).
+ */
+const getOrCreateWeek = (
+  schedules: Record<string, WeeklySchedule>,
+  weekKey: string,
+  capacityHours: number
+): WeeklySchedule => {
+  return schedules[weekKey] ?? createEmptyWeek(weekKey, capacityHours);
+};
+
+/**
+ * Recalculate the derived totals of a week after its tasks changed
+ */
+const withTasks = (schedule: WeeklySchedule, tasks: Task[], capacityHours: number): WeeklySchedule => {
+  const totalScheduledHours = TaskSplitter.getWorkItems(tasks).reduce((sum, task) => sum + task.estimatedHours, 0);
+  return {
+    ...schedule,
+    tasks,
+    totalScheduledHours,
+    isOverloaded: totalScheduledHours > capacityHours,
+  };
+};
+
+/**
+ * Get all loaded weeks, treating currentWeek as the source of truth for the selected week
+ */
+const getScheduleStore = (state: AppState) => {
+  const selectedWeekKey = state.selectedWeekKey ?? getWeekKey(state.currentWeek.weekStartDate);
+  return {
+    selectedWeekKey,
+    schedules: { ...state.schedules, [selectedWeekKey]: state.currentWeek },
+  };
+};
+
+/**
+ * Write the schedule store back into state, keeping currentWeek in sync with the selection
+ */
+const commitScheduleStore = (
+  state: AppState,
+  schedules: Record<string, WeeklySchedule>,
+  selectedWeekKey: string
+): AppState => {
+  const currentWeek = getOrCreateWeek(schedules, selectedWeekKey, state.userSettings.weeklyCapacityHours);
+
+  return {
+    ...state,
+    schedules: { ...schedules, [selectedWeekKey]: currentWeek },
+    selectedWeekKey,
+    currentWeek,
+  };
+};
+
+/**
+ * Find the week that currently holds a task
+ */
+const findTaskWeekKey = (schedules: Record<string, WeeklySchedule>, taskId: string): string | undefined => {
+  return Object.keys(schedules).find(weekKey =>
+    schedules[weekKey].tasks.some(task => task.id === taskId)
+  );
+};
+
+/**
+ * Regenerate a channel's recurring tasks in every week overlapping [rangeStart, rangeEnd)
+ */
+const regenerateRecurringTasks = (
+  schedules: Record<string, WeeklySchedule>,
+  channel: Channel,
+  templates: TaskTemplate[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  capacityHours: number
+): Record<string, WeeklySchedule> => {
+  const updatedSchedules = { ...schedules };
+
+  for (
+    let weekKey = getWeekKey(rangeStart);
+    getWeekStartFromKey(weekKey) < rangeEnd;
+    weekKey = shiftWeekKey(weekKey, 1)
+  ) {
+    const weekStart = getWeekStartFromKey(weekKey);
+    const weekEnd = getWeekStartFromKey(shiftWeekKey(weekKey, 1));
+    const week = getOrCreateWeek(updatedSchedules, weekKey, capacityHours);
+
+    const tasks = RecurrenceEngine.regenerateTasks(
+      week.tasks,
+      channel,
+      templates,
+      weekStart > rangeStart ? weekStart : rangeStart,
+      weekEnd < rangeEnd ? weekEnd : rangeEnd
+    );
+    updatedSchedules[weekKey] = withTasks(week, tasks, capacityHours);
+  }
+
+  return updatedSchedules;
+};
+
+/**
+ * Merge updates into a task, moving it to another week if it was rescheduled there
+ */
+const updateTaskInStore = (state: AppState, payload: { id: string; updates: Partial<Task> }): AppState => {
+  const { schedules, selectedWeekKey } = getScheduleStore(state);
+  const sourceWeekKey = findTaskWeekKey(schedules, payload.id);
+  if (!sourceWeekKey) return state;
+
+  const capacityHours = state.userSettings.weeklyCapacityHours;
+  const sourceWeek = schedules[sourceWeekKey];
+  const existingTask = sourceWeek.tasks.find(task => task.id === payload.id)!;
+  const updatedTask = { ...existingTask, ...payload.updates };
+
+  // Only relocate when the task was explicitly rescheduled into another week
+  const targetWeekKey = payload.updates.scheduledStart
+    ? getWeekKey(new Date(updatedTask.scheduledStart))
+    : sourceWeekKey;
+
+  if (targetWeekKey === sourceWeekKey) {
+    return commitScheduleStore(state, {
+      ...schedules,
+      [sourceWeekKey]: withTasks(
+        sourceWeek,
+        sourceWeek.tasks.map(task =>
+          task.id === payload.id ? { ...task, ...payload.updates } : task
+        ),
+        capacityHours
+      ),
+    }, selectedWeekKey);
+  }
+
+  const targetWeek = getOrCreateWeek(schedules, targetWeekKey, capacityHours);
+  return commitScheduleStore(state, {
+    ...schedules,
+    [sourceWeekKey]: withTasks(
+      sourceWeek,
+      sourceWeek.tasks.filter(task => task.id !== updatedTask.id),
+      capacityHours
+    ),
+    [targetWeekKey]: withTasks(targetWeek, [...targetWeek.tasks, updatedTask], capacityHours),
+  }, selectedWeekKey);
+};
+
+/**
+ * Re-derive a split task from its parts after one of them changed
+ */
+const rollUpSplitTask = (state: AppState, parentId: string): AppState => {
+  const { schedules, selectedWeekKey } = getScheduleStore(state);
+  const weekKey = findTaskWeekKey(schedules, parentId);
+  if (!weekKey) return state;
+
+  const week = schedules[weekKey];
+  const parent = week.tasks.find(task => task.id === parentId)!;
+  const parts = TaskSplitter.getParts(parent, Object.values(schedules).flatMap(schedule => schedule.tasks));
+
+  // Parts sitting in weeks that are not loaded would skew the totals, so leave the parent as is
+  if (parts.length !== (parent.childTaskIds ?? []).length) return state;
+
+  return commitScheduleStore(state, {
+    ...schedules,
+    [weekKey]: withTasks(
+      week,
+      week.tasks.map(task => task.id === parentId ? TaskSplitter.rollUp(parent, parts) : task),
+      state.userSettings.weeklyCapacityHours
+    ),
+  }, selectedWeekKey);
+};
+
+/**
+ * Apply undo/redo changes to a list, putting restored entities back at their recorded position
+ */
+const applyListPatch = <T extends { id: string }, C extends { index: number }>(
+  list: T[],
+  changes: Record<string, C | null>,
+  getItem: (change: C) => T
+): T[] => {
+  // Lists can be missing from states saved by older versions; they are only touched when something changes
+  if (Object.keys(changes).length === 0) return list;
+
+  const result = list.filter(item => !(item.id in changes));
+  Object.values(changes)
+    .filter((change): change is C => change !== null)
+    .sort((a, b) => a.index - b.index)
+    .forEach(change => result.splice(Math.min(change.index, result.length), 0, getItem(change)));
+  return result;
+};
+
+/**
+ * Apply undo/redo changes to tasks, keeping their order within weeks they stay in
+ */
+const applyTaskPatch = (state: AppState, changes: HistoryPatch['tasks']): AppState => {
+  if (Object.keys(changes).length === 0) return state;
+
+  const { schedules, selectedWeekKey } = getScheduleStore(state);
+  const capacityHours = state.userSettings.weeklyCapacityHours;
+  const updatedSchedules = { ...schedules };
+  const placed = new Set<string>();
+
+  Object.entries(schedules).forEach(([weekKey, week]) => {
+    if (!week.tasks.some(task => task.id in changes)) return;
+
+    const tasks = week.tasks.flatMap(task => {
+      if (!(task.id in changes)) return [task];
+      const change = changes[task.id];
+      if (change?.weekKey !== weekKey) return [];
+      placed.add(task.id);
+      return [change.task];
+    });
+    updatedSchedules[weekKey] = withTasks(week, tasks, capacityHours);
+  });
+
+  Object.entries(changes).forEach(([taskId, change]) => {
+    if (!change || placed.has(taskId)) return;
+    // A week loaded from storage for the patch may still hold its stored copy of the task
+    const week = getOrCreateWeek(updatedSchedules, change.weekKey, capacityHours);
+    const tasks = week.tasks.filter(task => task.id !== taskId);
+    updatedSchedules[change.weekKey] = withTasks(week, [...tasks, change.task], capacityHours);
+  });
+
+  return commitScheduleStore(state, updatedSchedules, selectedWeekKey);
+};
+
 // App reducer
 export const appReducer = (state: AppState, action: AppAction): AppState => {
   switch (action.type) {
@@ -37,8 +282,8 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
         channels: [...state.channels, action.payload],
       };
 
-    case 'UPDATE_CHANNEL':
-      return {
+    case 'UPDATE_CHANNEL': {
+      const updatedState = {
         ...state,
         channels: state.channels.map(channel =>
           channel.id === action.payload.id
@@ -47,6 +292,33 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
         ),
       };
 
+      const previousChannel = state.channels.find(channel => channel.id === action.payload.id);
+      const updatedChannel = updatedState.channels.find(channel => channel.id === action.payload.id);
+      if (!previousChannel || !updatedChannel) return updatedState;
+
+      const recurrenceChanged =
+        JSON.stringify(previousChannel.postingSchedule) !== JSON.stringify(updatedChannel.postingSchedule) ||
+        JSON.stringify(previousChannel.assignedTasks) !== JSON.stringify(updatedChannel.assignedTasks);
+      if (!recurrenceChanged) return updatedState;
+
+      // Regenerate every week that already holds recurring tasks for this channel; stored ones were loaded first
+      const { schedules, selectedWeekKey } = getScheduleStore(updatedState);
+      const regeneratedSchedules = Object.keys(schedules)
+        .filter(weekKey => schedules[weekKey].tasks.some(task =>
+          RecurrenceEngine.isRecurringTask(task, updatedChannel.id)
+        ))
+        .reduce((result, weekKey) => regenerateRecurringTasks(
+          result,
+          updatedChannel,
+          state.taskTemplates,
+          getWeekStartFromKey(weekKey),
+          getWeekStartFromKey(shiftWeekKey(weekKey, 1)),
+          state.userSettings.weeklyCapacityHours
+        ), schedules);
+
+      return commitScheduleStore(updatedState, regeneratedSchedules, selectedWeekKey);
+    }
+
     case 'DELETE_CHANNEL':
       return {
         ...state,
@@ -78,86 +350,176 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
 
     case 'GENERATE_TASKS_FROM_TEMPLATES': {
       const channel = state.channels.find(c => c.id === action.payload.channelId);
-      if (!channel || !channel.assignedTasks.length) return state;
-
-      const newTasks = channel.assignedTasks.flatMap(assignment => {
-        const template = state.taskTemplates.find(t => t.id === assignment.templateId);
-        if (!template) return [];
-
-        return Array.from({ length: assignment.quantity }, (_, index) => ({
-          id: `${template.id}-${channel.id}-${Date.now()}-${index}`,
-          channelId: channel.id,
-          templateId: template.id,
-          title: `${template.title} ${assignment.quantity > 1 ? `(${index + 1})` : ''}`,
-          description: template.description,
-          estimatedHours: template.estimatedHours,
-          status: 'planned' as const,
-          scheduledStart: new Date(),
-          scheduledEnd: new Date(),
-          timeSlot: 'morning' as const,
-          priority: assignment.priority,
-        }));
-      });
+      if (!channel) return state;
+
+      // Default to the selected week when no explicit range is given
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+      const rangeStart = action.payload.rangeStart ?? getWeekStartFromKey(selectedWeekKey);
+      const rangeEnd = action.payload.rangeEnd ?? getWeekStartFromKey(shiftWeekKey(selectedWeekKey, 1));
+
+      return commitScheduleStore(
+        state,
+        regenerateRecurringTasks(
+          schedules,
+          channel,
+          state.taskTemplates,
+          rangeStart,
+          rangeEnd,
+          state.userSettings.weeklyCapacityHours
+        ),
+        selectedWeekKey
+      );
+    }
 
-      const totalNewHours = newTasks.reduce((sum, task) => sum + task.estimatedHours, 0);
+    case 'ADD_TASK': {
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+      const weekKey = getWeekKey(new Date(action.payload.scheduledStart));
+      const week = getOrCreateWeek(schedules, weekKey, state.userSettings.weeklyCapacityHours);
 
-      return {
-        ...state,
-        currentWeek: {
-          ...state.currentWeek,
-          tasks: [...state.currentWeek.tasks, ...newTasks],
-          totalScheduledHours: state.currentWeek.totalScheduledHours + totalNewHours,
-          isOverloaded: (state.currentWeek.totalScheduledHours + totalNewHours) > state.userSettings.weeklyCapacityHours,
-        },
-      };
+      return commitScheduleStore(state, {
+        ...schedules,
+        [weekKey]: withTasks(week, [...week.tasks, action.payload], state.userSettings.weeklyCapacityHours),
+      }, selectedWeekKey);
     }
 
-    case 'ADD_TASK':
-      return {
-        ...state,
-        currentWeek: {
-          ...state.currentWeek,
-          tasks: [...state.currentWeek.tasks, action.payload],
-          totalScheduledHours: state.currentWeek.totalScheduledHours + action.payload.estimatedHours,
-          isOverloaded: (state.currentWeek.totalScheduledHours + action.payload.estimatedHours) > state.userSettings.weeklyCapacityHours,
-        },
-      };
+    case 'UPDATE_TASK': {
+      const updatedState = updateTaskInStore(state, action.payload);
+      const { schedules } = getScheduleStore(updatedState);
+      const weekKey = findTaskWeekKey(schedules, action.payload.id);
+      const updatedTask = weekKey ? schedules[weekKey].tasks.find(task => task.id === action.payload.id) : undefined;
+      if (!updatedTask) return updatedState;
+
+      // A split task's status and hours always follow its parts
+      if (updatedTask.parentTaskId) return rollUpSplitTask(updatedState, updatedTask.parentTaskId);
+      if (TaskSplitter.isSplitParent(updatedTask)) {
+        // The parts are the scheduled work, so they go to whoever the task is reassigned to
+        const reassignedState = 'assigneeId' in action.payload.updates
+          ? (updatedTask.childTaskIds ?? []).reduce(
+              (nextState, id) => updateTaskInStore(nextState, { id, updates: { assigneeId: updatedTask.assigneeId } }),
+              updatedState
+            )
+          : updatedState;
+        return rollUpSplitTask(reassignedState, updatedTask.id);
+      }
+      return updatedState;
+    }
 
-    case 'UPDATE_TASK':
-      return {
-        ...state,
-        currentWeek: {
-          ...state.currentWeek,
-          tasks: state.currentWeek.tasks.map(task =>
-            task.id === action.payload.id
-              ? { ...task, ...action.payload.updates }
-              : task
-          ),
-        },
-      };
+    case 'UPDATE_TASKS':
+      return action.payload.reduce(
+        (nextState, payload) => appReducer(nextState, { type: 'UPDATE_TASK', payload }),
+        state
+      );
+
+    case 'DELETE_TASK': {
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+      const weekKey = findTaskWeekKey(schedules, action.payload);
+      if (!weekKey) return state;
+
+      const deletedTask = schedules[weekKey].tasks.find(task => task.id === action.payload)!;
+      const capacityHours = state.userSettings.weeklyCapacityHours;
+
+      // Deleting a split task removes its parts with it; tasks waiting on them are unlinked
+      const deletedIds = new Set([deletedTask.id, ...(deletedTask.childTaskIds ?? [])]);
+      const updatedSchedules = Object.fromEntries(
+        Object.entries(schedules).map(([key, week]) => [
+          key,
+          week.tasks.some(task => deletedIds.has(task.id) || task.dependsOn?.some(id => deletedIds.has(id)))
+            ? withTasks(
+                week,
+                TaskDependencyManager.removeDependencies(
+                  week.tasks.filter(task => !deletedIds.has(task.id)),
+                  deletedIds
+                ),
+                capacityHours
+              )
+            : week,
+        ])
+      );
+      const updatedState = commitScheduleStore(state, updatedSchedules, selectedWeekKey);
+
+      const parentId = deletedTask.parentTaskId;
+      const parentWeekKey = parentId && findTaskWeekKey(updatedSchedules, parentId);
+      if (!parentId || !parentWeekKey) return updatedState;
+
+      // Unlink the part from its parent; a parent without parts has nothing left to schedule
+      const parent = updatedSchedules[parentWeekKey].tasks.find(task => task.id === parentId)!;
+      const childTaskIds = (parent.childTaskIds ?? []).filter(id => id !== deletedTask.id);
+      if (childTaskIds.length === 0) {
+        return appReducer(updatedState, { type: 'DELETE_TASK', payload: parentId });
+      }
 
-    case 'DELETE_TASK':
-      const taskToDelete = state.currentWeek.tasks.find(task => task.id === action.payload);
-      const updatedTasks = state.currentWeek.tasks.filter(task => task.id !== action.payload);
-      const newTotalHours = taskToDelete 
-        ? state.currentWeek.totalScheduledHours - taskToDelete.estimatedHours
-        : state.currentWeek.totalScheduledHours;
+      return rollUpSplitTask(
+        updateTaskInStore(updatedState, { id: parentId, updates: { childTaskIds } }),
+        parentId
+      );
+    }
 
-      return {
-        ...state,
-        currentWeek: {
-          ...state.currentWeek,
-          tasks: updatedTasks,
-          totalScheduledHours: newTotalHours,
-          isOverloaded: newTotalHours > state.userSettings.weeklyCapacityHours,
-        },
+    case 'SPLIT_TASK': {
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+      const weekKey = findTaskWeekKey(schedules, action.payload.taskId);
+      if (!weekKey) return state;
+
+      const task = schedules[weekKey].tasks.find(t => t.id === action.payload.taskId)!;
+      if (!TaskSplitter.canSplit(task) || action.payload.parts.length < 2) return state;
+
+      const capacityHours = state.userSettings.weeklyCapacityHours;
+      const { parent, children } = TaskSplitter.splitTask(task, action.payload.parts);
+      const updatedSchedules = {
+        ...schedules,
+        [weekKey]: withTasks(
+          schedules[weekKey],
+          schedules[weekKey].tasks.map(t => t.id === task.id ? parent : t),
+          capacityHours
+        ),
       };
 
-    case 'SET_CURRENT_WEEK':
+      // Each part lives in the week it is scheduled in
+      children.forEach(child => {
+        const childWeekKey = getWeekKey(child.scheduledStart);
+        const week = getOrCreateWeek(updatedSchedules, childWeekKey, capacityHours);
+        updatedSchedules[childWeekKey] = withTasks(week, [...week.tasks, child], capacityHours);
+      });
+
+      return commitScheduleStore(state, updatedSchedules, selectedWeekKey);
+    }
+
+    case 'SET_CURRENT_WEEK': {
+      const { schedules } = getScheduleStore(state);
+      const weekKey = getWeekKey(new Date(action.payload.weekStartDate));
+
       return {
         ...state,
+        schedules: { ...schedules, [weekKey]: action.payload },
+        selectedWeekKey: weekKey,
         currentWeek: action.payload,
       };
+    }
+
+    case 'SET_SELECTED_WEEK': {
+      const { schedules } = getScheduleStore(state);
+      return commitScheduleStore(state, schedules, action.payload);
+    }
+
+    case 'LOAD_WEEK_SCHEDULES': {
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+
+      // Weeks already in memory may hold unsaved edits, so they win over stored copies
+      return commitScheduleStore(state, { ...action.payload, ...schedules }, selectedWeekKey);
+    }
+
+    case 'RESTORE_WEEK_SCHEDULES': {
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+      const capacityHours = state.userSettings.weeklyCapacityHours;
+      const restoredWeeks = Object.fromEntries(
+        Object.entries(action.payload).map(([weekKey, schedule]) => [
+          weekKey,
+          withTasks(schedule, schedule.tasks, capacityHours),
+        ])
+      );
+
+      // Restored copies replace whatever is in memory (e.g. when undoing a change)
+      return commitScheduleStore(state, { ...schedules, ...restoredWeeks }, selectedWeekKey);
+    }
 
     case 'SET_SELECTED_CHANNEL':
       return {
@@ -165,17 +527,23 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
         selectedChannelId: action.payload,
       };
 
-    case 'UPDATE_USER_SETTINGS':
+    case 'UPDATE_USER_SETTINGS': {
       const updatedSettings = { ...state.userSettings, ...action.payload };
-      return {
-        ...state,
-        userSettings: updatedSettings,
-        currentWeek: {
-          ...state.currentWeek,
+      const { schedules, selectedWeekKey } = getScheduleStore(state);
+      const updatedSchedules = Object.fromEntries(
+        Object.entries(schedules).map(([weekKey, week]) => [weekKey, {
+          ...week,
           userCapacityHours: updatedSettings.weeklyCapacityHours,
-          isOverloaded: state.currentWeek.totalScheduledHours > updatedSettings.weeklyCapacityHours,
-        },
-      };
+          isOverloaded: week.totalScheduledHours > updatedSettings.weeklyCapacityHours,
+        }])
+      );
+
+      return commitScheduleStore(
+        { ...state, userSettings: updatedSettings },
+        updatedSchedules,
+        selectedWeekKey
+      );
+    }
 
     case 'SET_ACTIVE_VIEW':
       return {
@@ -213,15 +581,199 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
         },
       };
 
+    case 'APPLY_HISTORY_PATCH': {
+      const { channels, taskTemplates, tasks, userSettings } = action.payload;
+      const patchedState = applyTaskPatch({
+        ...state,
+        channels: applyListPatch(state.channels, channels, change => change.channel),
+        taskTemplates: applyListPatch(state.taskTemplates, taskTemplates, change => change.template),
+      }, tasks);
+
+      return userSettings
+        ? appReducer(patchedState, { type: 'UPDATE_USER_SETTINGS', payload: userSettings })
+        : patchedState;
+    }
+
+    case 'RESTORE_BACKUP_ENTITIES':
+      // Unlike a history patch, a restore is a change of its own, so it is recorded and audited
+      return appReducer(state, { type: 'APPLY_HISTORY_PATCH', payload: action.payload.patch });
+
+    case 'BATCH_ACTIONS':
+      // Apply several actions as one state transition
+      return action.payload.reduce(appReducer, state);
+
+    default:
+      return state;
+  }
+};
+
+// Undo/redo and audit layer around appReducer
+interface HistoryState {
+  present: AppState;
+  history: ActionHistoryState;
+  recordedState?: AppState; // present as the last recorded action left it; edits only group while it is unchanged
+  unaudited: AuditedChange[]; // Changes made here that the audit log has not recorded yet
+}
+
+type HistoryAction =
+  | { type: 'DISPATCH'; action: AppAction; record: boolean; timestamp: number }
+  | { type: 'UNDO'; timestamp: number }
+  | { type: 'REDO'; timestamp: number }
+  | { type: 'CLEAR_HISTORY' }
+  | { type: 'MARK_AUDITED'; count: number };
+
+// Lists can be missing from states saved by older versions
+const takeSnapshot = (state: AppState): HistorySnapshot => ({
+  channels: state.channels ?? [],
+  taskTemplates: state.taskTemplates ?? [],
+  schedules: getScheduleStore(state).schedules,
+  userSettings: state.userSettings,
+});
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'DISPATCH': {
+      const present = appReducer(state.present, action.action);
+      if (present === state.present) return state;
+      if (!action.record || !ActionHistory.isRecorded(action.action)) return { ...state, present };
+
+      const before = takeSnapshot(state.present);
+      const after = takeSnapshot(present);
+      return {
+        present,
+        history: ActionHistory.record(
+          state.history,
+          action.action,
+          before,
+          after,
+          state.recordedState === state.present,
+          action.timestamp
+        ),
+        recordedState: present,
+        unaudited: [...state.unaudited, {
+          actionType: action.action.type,
+          description: ActionHistory.describe(action.action, before),
+          before,
+          after,
+          timestamp: action.timestamp,
+        }],
+      };
+    }
+
+    case 'UNDO':
+    case 'REDO': {
+      const patch = action.type === 'UNDO'
+        ? ActionHistory.getUndoPatch(state.history)
+        : ActionHistory.getRedoPatch(state.history);
+      const history = action.type === 'UNDO'
+        ? ActionHistory.undo(state.history)
+        : ActionHistory.redo(state.history);
+      if (history === state.history) return state;
+
+      const entry = action.type === 'UNDO'
+        ? state.history.past[state.history.past.length - 1]
+        : state.history.future[state.history.future.length - 1];
+      const present = patch ? appReducer(state.present, { type: 'APPLY_HISTORY_PATCH', payload: patch }) : state.present;
+      return {
+        present,
+        history,
+        unaudited: [...state.unaudited, {
+          actionType: action.type,
+          description: `${action.type === 'UNDO' ? 'Undo' : 'Redo'}: ${entry.description}`,
+          before: takeSnapshot(state.present),
+          after: takeSnapshot(present),
+          timestamp: action.timestamp,
+        }],
+      };
+    }
+
+    case 'CLEAR_HISTORY':
+      return { ...state, history: ActionHistory.createHistory(), recordedState: undefined };
+
+    case 'MARK_AUDITED':
+      return { ...state, unaudited: state.unaudited.slice(action.count) };
+
     default:
       return state;
   }
 };
 
+/**
+ * Weeks an action may change tasks in. The reducer only works on loaded weeks, so the provider
+ * loads stored copies of these weeks before dispatching; starting them empty would overwrite
+ * their stored tasks on the next save.
+ */
+const getTargetWeekKeys = (action: AppAction): string[] => {
+  switch (action.type) {
+    case 'UPDATE_CHANNEL': {
+      // A new posting schedule or task list regenerates the channel's recurring tasks in every week holding them
+      const { id, updates } = action.payload;
+      if (!('postingSchedule' in updates) && !('assignedTasks' in updates)) return [];
+
+      return Object.entries(localStorageService.getSchedules())
+        .filter(([, week]) => week.tasks.some(task => RecurrenceEngine.isRecurringTask(task, id)))
+        .map(([weekKey]) => weekKey);
+    }
+
+    case 'ADD_TASK':
+      return [getWeekKey(new Date(action.payload.scheduledStart))];
+
+    case 'UPDATE_TASK':
+      return action.payload.updates.scheduledStart
+        ? [getWeekKey(new Date(action.payload.updates.scheduledStart))]
+        : [];
+
+    case 'UPDATE_TASKS':
+      return action.payload.flatMap(payload => getTargetWeekKeys({ type: 'UPDATE_TASK', payload }));
+
+    case 'SPLIT_TASK':
+      return action.payload.parts.map(part => getWeekKey(new Date(part.start)));
+
+    case 'GENERATE_TASKS_FROM_TEMPLATES': {
+      // Without a range only the selected week is generated, and it is always loaded
+      const { rangeStart, rangeEnd } = action.payload;
+      if (!rangeStart || !rangeEnd) return [];
+
+      const weekKeys: string[] = [];
+      for (
+        let weekKey = getWeekKey(rangeStart);
+        getWeekStartFromKey(weekKey) < rangeEnd;
+        weekKey = shiftWeekKey(weekKey, 1)
+      ) {
+        weekKeys.push(weekKey);
+      }
+      return weekKeys;
+    }
+
+    case 'SET_SELECTED_WEEK':
+      return [action.payload];
+
+    case 'APPLY_HISTORY_PATCH':
+      return Object.values(action.payload.tasks).flatMap(change => (change ? [change.weekKey] : []));
+
+    case 'RESTORE_BACKUP_ENTITIES':
+      return getTargetWeekKeys({ type: 'APPLY_HISTORY_PATCH', payload: action.payload.patch });
+
+    case 'BATCH_ACTIONS':
+      return action.payload.flatMap(getTargetWeekKeys);
+
+    default:
+      return [];
+  }
+};
+
 // Context type
 interface AppContextType {
   state: AppState;
+  // Rejects actions the current member's role does not allow, reporting them through ErrorHandler
   dispatch: React.Dispatch<AppAction>;
+  // Skips the permission check, for changes already made and saved elsewhere: other tabs, the sync server, storage reloads
+  dispatchExternal: React.Dispatch<AppAction>;
+  // Changes made through dispatch, which undo and redo step through
+  history: ActionHistoryState;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
 }
 
 // Create context
@@ -237,7 +789,90 @@ export const AppProvider: React.FC<AppProviderProps> = ({
   children, 
   initialState: providedInitialState 
 }) => {
-  const [state, dispatch] = useReducer(appReducer, providedInitialState || initialState);
+  const [{ present: state, history, unaudited }, dispatchHistory] = useReducer(historyReducer, {
+    present: providedInitialState || initialState,
+    history: ActionHistory.createHistory(),
+    unaudited: [],
+  });
+  const teamMembersRef = useRef(state.userSettings.teamMembers);
+  teamMembersRef.current = state.userSettings.teamMembers;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  /**
+   * Check an action against the current member's role, reporting refusals through ErrorHandler
+   */
+  const isAllowed = useCallback((action: AppAction): boolean => {
+    try {
+      permissionService.assertAllowed(action, teamMembersRef.current);
+      return true;
+    } catch (error) {
+      if (!(error instanceof PermissionError)) throw error;
+      ErrorHandler.getInstance().handleError(error, { action: action.type, role: error.role, permission: error.permission });
+      return false;
+    }
+  }, []);
+
+  /**
+   * Load the stored weeks an action is about to change that are not loaded yet
+   */
+  const loadTargetWeeks = useCallback((action: AppAction) => {
+    const { schedules } = getScheduleStore(stateRef.current);
+    const weekKeys = getTargetWeekKeys(action).filter(weekKey => !schedules[weekKey]);
+    if (weekKeys.length === 0) return;
+
+    const storedWeeks = localStorageService.getSchedules();
+    const weeksToLoad = Object.fromEntries(
+      weekKeys.filter(weekKey => storedWeeks[weekKey]).map(weekKey => [weekKey, storedWeeks[weekKey]])
+    );
+    if (Object.keys(weeksToLoad).length === 0) return;
+
+    dispatchHistory({
+      type: 'DISPATCH',
+      action: { type: 'LOAD_WEEK_SCHEDULES', payload: weeksToLoad },
+      record: false,
+      timestamp: Date.now(),
+    });
+  }, []);
+
+  const dispatch = useCallback((action: AppAction) => {
+    if (!isAllowed(action)) return;
+    loadTargetWeeks(action);
+    dispatchHistory({ type: 'DISPATCH', action, record: true, timestamp: Date.now() });
+  }, [isAllowed, loadTargetWeeks]);
+
+  const dispatchExternal = useCallback((action: AppAction) => {
+    loadTargetWeeks(action);
+    dispatchHistory({ type: 'DISPATCH', action, record: false, timestamp: Date.now() });
+  }, [loadTargetWeeks]);
+
+  // Undoing or redoing a change needs the same permissions as making it
+  const undo = useCallback(() => {
+    const patch = ActionHistory.getUndoPatch(historyRef.current);
+    if (patch && !isAllowed({ type: 'APPLY_HISTORY_PATCH', payload: patch })) return;
+    if (patch) loadTargetWeeks({ type: 'APPLY_HISTORY_PATCH', payload: patch });
+    dispatchHistory({ type: 'UNDO', timestamp: Date.now() });
+  }, [isAllowed, loadTargetWeeks]);
+
+  const redo = useCallback(() => {
+    const patch = ActionHistory.getRedoPatch(historyRef.current);
+    if (patch && !isAllowed({ type: 'APPLY_HISTORY_PATCH', payload: patch })) return;
+    if (patch) loadTargetWeeks({ type: 'APPLY_HISTORY_PATCH', payload: patch });
+    dispatchHistory({ type: 'REDO', timestamp: Date.now() });
+  }, [isAllowed, loadTargetWeeks]);
+
+  const clearHistory = useCallback(() => {
+    dispatchHistory({ type: 'CLEAR_HISTORY' });
+  }, []);
+
+  // Write changes made here to the audit log
+  useEffect(() => {
+    if (unaudited.length === 0) return;
+    unaudited.forEach(change => auditLogService.record(change));
+    dispatchHistory({ type: 'MARK_AUDITED', count: unaudited.length });
+  }, [unaudited]);
 
   // Enhanced persistence with automatic backups
   useEffect(() => {
@@ -252,17 +887,18 @@ export const AppProvider: React.FC<AppProviderProps> = ({
     // Debounce the save operation
     const timeoutId = setTimeout(saveState, 500);
     return () => clearTimeout(timeoutId);
-  }, [state.channels, state.taskTemplates, state.currentWeek, state.userSettings]);
+  }, [state.channels, state.taskTemplates, state.schedules, state.currentWeek, state.userSettings]);
 
   // Flush pending updates when component unmounts
   useEffect(() => {
     return () => {
       enhancedPersistenceService.flushPendingSaves();
+      auditLogService.flush();
     };
   }, []);
 
   return (
-    <AppContext.Provider value={{ state, dispatch }}>
+    <AppContext.Provider value={{ state, dispatch, dispatchExternal, history, undo, redo, clearHistory }}>
       {children}
     </AppContext.Provider>
   );
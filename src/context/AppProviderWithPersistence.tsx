@@ -2,8 +2,9 @@ import React, { useEffect, useState, ReactNode } from 'react';
 import { AppProvider } from './AppContext';
 import { localStorageService } from '../services/localStorage';
 import { enhancedPersistenceService } from '../services/enhancedPersistence';
-import { ContentTypeMigration } from '../utils/contentTypeMigration';
+import { crossTabSyncService } from '../services/crossTabSync';
 import { AppState, WeeklySchedule } from '../types';
+import { getWeekKey, getWeekStartFromKey } from '../utils/helpers';
 
 interface AppProviderWithPersistenceProps {
   children: ReactNode;
@@ -20,15 +21,6 @@ export const AppProviderWithPersistence: React.FC<AppProviderWithPersistenceProp
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  /**
-   * Generate a week key for schedule storage
-   */
-  const getWeekKey = (date: Date): string => {
-    const startOfWeek = new Date(date);
-    startOfWeek.setDate(date.getDate() - date.getDay()); // Start of week (Sunday)
-    return startOfWeek.toISOString().split('T')[0]; // YYYY-MM-DD format
-  };
-
   /**
    * Load initial state from localStorage on component mount
    */
@@ -38,11 +30,18 @@ export const AppProviderWithPersistence: React.FC<AppProviderWithPersistenceProp
         setIsLoading(true);
         setError(null);
 
+        // Move large data to IndexedDB where available before anything reads it
+        await enhancedPersistenceService.initializeStorageBackend();
+
         // Initialize enhanced persistence service
         enhancedPersistenceService.initialize();
 
-        // Run content type migration if needed
-        ContentTypeMigration.autoMigrateIfNeeded();
+        // Upgrade data saved by older versions before reading it; stored data is left as it was if that fails
+        try {
+          await enhancedPersistenceService.migrateStoredData();
+        } catch (migrationError) {
+          console.error('❌ Data migration failed:', migrationError);
+        }
 
         // Try to load state using enhanced persistence service
         let restoredState = await enhancedPersistenceService.loadAppState();
@@ -60,7 +59,7 @@ export const AppProviderWithPersistence: React.FC<AppProviderWithPersistenceProp
           const currentWeekSchedule = localStorageService.getSchedule(currentWeekKey);
           
           const currentWeek: WeeklySchedule = currentWeekSchedule || {
-            weekStartDate: new Date(),
+            weekStartDate: getWeekStartFromKey(currentWeekKey),
             tasks: [],
             totalScheduledHours: 0,
             userCapacityHours: userSettings.weeklyCapacityHours,
@@ -71,6 +70,8 @@ export const AppProviderWithPersistence: React.FC<AppProviderWithPersistenceProp
             channels,
             taskTemplates,
             currentWeek,
+            schedules: { [currentWeekKey]: currentWeek },
+            selectedWeekKey: currentWeekKey,
             selectedChannelId: undefined,
             userSettings,
             ui: {
@@ -81,22 +82,28 @@ export const AppProviderWithPersistence: React.FC<AppProviderWithPersistenceProp
           };
         }
 
+        // Later saves write only what this tab changes from here on, and other tabs' changes stream in
+        crossTabSyncService.start(restoredState);
+        enhancedPersistenceService.resumeSyncServer();
         setInitialState(restoredState);
       } catch (error) {
         console.error('❌ Failed to load initial state:', error);
         setError('Failed to load saved data. Using default settings.');
         
         // Fallback to default state
+        const currentWeekKey = getWeekKey(new Date());
         const defaultState: AppState = {
           channels: [],
           taskTemplates: [],
           currentWeek: {
-            weekStartDate: new Date(),
+            weekStartDate: getWeekStartFromKey(currentWeekKey),
             tasks: [],
             totalScheduledHours: 0,
             userCapacityHours: 40,
             isOverloaded: false,
           },
+          schedules: {},
+          selectedWeekKey: currentWeekKey,
           selectedChannelId: undefined,
           userSettings: {
             weeklyCapacityHours: 40,
@@ -122,6 +129,7 @@ export const AppProviderWithPersistence: React.FC<AppProviderWithPersistenceProp
     // Cleanup on unmount
     return () => {
       enhancedPersistenceService.destroy();
+      crossTabSyncService.stop();
     };
   }, []);
 
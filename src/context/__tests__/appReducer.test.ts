@@ -246,6 +246,23 @@ describe('appReducer', () => {
       expect(newState.currentWeek.tasks[0].title).toBe('Test Task'); // Unchanged
     });
 
+    it('should handle UPDATE_TASKS as a single batch', () => {
+      const initialState = createInitialState();
+      initialState.currentWeek.tasks = [mockTask, { ...mockTask, id: 'task-2', title: 'Second Task' }];
+
+      const newState = appReducer(initialState, {
+        type: 'UPDATE_TASKS',
+        payload: [
+          { id: 'task-1', updates: { timeSlot: 'afternoon' } },
+          { id: 'task-2', updates: { status: 'in-progress' } },
+        ],
+      });
+
+      expect(newState.currentWeek.tasks[0].timeSlot).toBe('afternoon');
+      expect(newState.currentWeek.tasks[1].status).toBe('in-progress');
+      expect(newState.currentWeek.tasks[1].title).toBe('Second Task');
+    });
+
     it('should handle DELETE_TASK', () => {
       const initialState = createInitialState();
       initialState.currentWeek.tasks = [mockTask];
@@ -346,6 +363,354 @@ describe('appReducer', () => {
     });
   });
 
+  describe('Multi-week Schedule Store', () => {
+    const nextWeekTask: Task = {
+      ...mockTask,
+      id: 'task-2',
+      scheduledStart: new Date('2024-01-09T10:00:00'),
+      scheduledEnd: new Date('2024-01-09T12:00:00'),
+    };
+
+    it('should add tasks to the week they are scheduled in', () => {
+      const initialState = createInitialState();
+
+      const newState = appReducer(initialState, {
+        type: 'ADD_TASK',
+        payload: nextWeekTask,
+      });
+
+      expect(newState.currentWeek.tasks).toHaveLength(0);
+      expect(newState.schedules['2024-01-08'].tasks).toEqual([nextWeekTask]);
+      expect(newState.schedules['2024-01-08'].totalScheduledHours).toBe(8);
+    });
+
+    it('should keep tasks of other weeks when navigating with SET_SELECTED_WEEK', () => {
+      let state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: mockTask });
+      state = appReducer(state, { type: 'ADD_TASK', payload: nextWeekTask });
+
+      state = appReducer(state, { type: 'SET_SELECTED_WEEK', payload: '2024-01-08' });
+      expect(state.selectedWeekKey).toBe('2024-01-08');
+      expect(state.currentWeek.tasks.map(task => task.id)).toEqual(['task-2']);
+
+      state = appReducer(state, { type: 'SET_SELECTED_WEEK', payload: '2024-01-01' });
+      expect(state.currentWeek.tasks.map(task => task.id)).toEqual(['task-1']);
+    });
+
+    it('should create an empty week when selecting a week that is not loaded', () => {
+      const newState = appReducer(createInitialState(), {
+        type: 'SET_SELECTED_WEEK',
+        payload: '2024-02-05',
+      });
+
+      expect(newState.currentWeek.tasks).toHaveLength(0);
+      expect(newState.currentWeek.weekStartDate.getDate()).toBe(5);
+      expect(newState.currentWeek.userCapacityHours).toBe(40);
+      expect(newState.schedules['2024-02-05']).toBe(newState.currentWeek);
+    });
+
+    it('should lazy-load stored weeks without overwriting weeks already in memory', () => {
+      const state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: mockTask });
+      const storedWeek = {
+        weekStartDate: new Date('2024-01-08'),
+        tasks: [nextWeekTask],
+        totalScheduledHours: 8,
+        userCapacityHours: 40,
+        isOverloaded: false,
+      };
+
+      const newState = appReducer(state, {
+        type: 'LOAD_WEEK_SCHEDULES',
+        payload: {
+          '2024-01-01': { ...storedWeek, tasks: [] },
+          '2024-01-08': storedWeek,
+        },
+      });
+
+      expect(newState.currentWeek.tasks).toEqual([mockTask]);
+      expect(newState.schedules['2024-01-08']).toEqual(storedWeek);
+    });
+
+    it('should replace in-memory weeks with restored copies', () => {
+      const state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: mockTask });
+      const restoredTask = { ...mockTask, estimatedHours: 3 };
+
+      const newState = appReducer(state, {
+        type: 'RESTORE_WEEK_SCHEDULES',
+        payload: {
+          '2024-01-01': { ...state.currentWeek, tasks: [restoredTask], totalScheduledHours: 0 },
+        },
+      });
+
+      expect(newState.currentWeek.tasks).toEqual([restoredTask]);
+      expect(newState.currentWeek.totalScheduledHours).toBe(3);
+    });
+
+    it('should move a task between weeks when it is rescheduled', () => {
+      const state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: mockTask });
+
+      const newState = appReducer(state, {
+        type: 'UPDATE_TASK',
+        payload: {
+          id: 'task-1',
+          updates: {
+            scheduledStart: new Date('2024-01-10T09:00:00'),
+            scheduledEnd: new Date('2024-01-10T17:00:00'),
+          },
+        },
+      });
+
+      expect(newState.currentWeek.tasks).toHaveLength(0);
+      expect(newState.currentWeek.totalScheduledHours).toBe(0);
+      expect(newState.schedules['2024-01-08'].tasks[0].id).toBe('task-1');
+    });
+
+    it('should update and delete tasks in weeks other than the selected one', () => {
+      let state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: nextWeekTask });
+
+      state = appReducer(state, {
+        type: 'UPDATE_TASK',
+        payload: { id: 'task-2', updates: { status: 'completed' } },
+      });
+      expect(state.schedules['2024-01-08'].tasks[0].status).toBe('completed');
+
+      state = appReducer(state, { type: 'DELETE_TASK', payload: 'task-2' });
+      expect(state.schedules['2024-01-08'].tasks).toHaveLength(0);
+    });
+
+    it('should apply capacity changes to every loaded week', () => {
+      let state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: nextWeekTask });
+
+      state = appReducer(state, {
+        type: 'UPDATE_USER_SETTINGS',
+        payload: { weeklyCapacityHours: 5 },
+      });
+
+      expect(state.currentWeek.userCapacityHours).toBe(5);
+      expect(state.schedules['2024-01-08'].userCapacityHours).toBe(5);
+      expect(state.schedules['2024-01-08'].isOverloaded).toBe(true);
+    });
+  });
+
+  describe('Recurring Task Generation', () => {
+    const recurringChannel = {
+      ...mockChannel,
+      postingSchedule: {
+        frequency: 'weekly' as const,
+        preferredDays: ['Tuesday'],
+        preferredTimes: ['14:00'],
+      },
+      assignedTasks: [{ templateId: 'task-template-1', quantity: 1, priority: 'high' as const }],
+    };
+
+    const taskTemplate = {
+      id: 'task-template-1',
+      title: 'Edit Video',
+      description: 'Edit the weekly video',
+      estimatedHours: 3,
+      category: 'production' as const,
+      workflowSteps: ['Edit'],
+      createdAt: new Date('2024-01-01'),
+    };
+
+    const createRecurringState = (): AppState => ({
+      ...createInitialState(),
+      channels: [recurringChannel],
+      taskTemplates: [taskTemplate],
+    });
+
+    it('should place generated tasks on the preferred day and time of the selected week', () => {
+      const newState = appReducer(createRecurringState(), {
+        type: 'GENERATE_TASKS_FROM_TEMPLATES',
+        payload: { channelId: 'channel-1' },
+      });
+
+      expect(newState.currentWeek.tasks).toHaveLength(1);
+      const [task] = newState.currentWeek.tasks;
+      expect(task.scheduledStart.getDay()).toBe(2);
+      expect(task.scheduledStart.getHours()).toBe(14);
+      expect(task.timeSlot).toBe('afternoon');
+      expect(newState.currentWeek.totalScheduledHours).toBe(3);
+    });
+
+    it('should generate tasks into every week of an explicit range', () => {
+      const newState = appReducer(createRecurringState(), {
+        type: 'GENERATE_TASKS_FROM_TEMPLATES',
+        payload: {
+          channelId: 'channel-1',
+          rangeStart: new Date(2024, 0, 1),
+          rangeEnd: new Date(2024, 0, 22),
+        },
+      });
+
+      expect(newState.schedules['2024-01-01'].tasks).toHaveLength(1);
+      expect(newState.schedules['2024-01-08'].tasks).toHaveLength(1);
+      expect(newState.schedules['2024-01-15'].tasks).toHaveLength(1);
+    });
+
+    it('should not duplicate tasks when generating twice', () => {
+      let state = appReducer(createRecurringState(), {
+        type: 'GENERATE_TASKS_FROM_TEMPLATES',
+        payload: { channelId: 'channel-1' },
+      });
+      state = appReducer(state, {
+        type: 'GENERATE_TASKS_FROM_TEMPLATES',
+        payload: { channelId: 'channel-1' },
+      });
+
+      expect(state.currentWeek.tasks).toHaveLength(1);
+    });
+
+    it('should regenerate recurring tasks when the posting schedule changes', () => {
+      let state = appReducer(createRecurringState(), {
+        type: 'GENERATE_TASKS_FROM_TEMPLATES',
+        payload: { channelId: 'channel-1' },
+      });
+
+      state = appReducer(state, {
+        type: 'UPDATE_CHANNEL',
+        payload: {
+          id: 'channel-1',
+          updates: {
+            postingSchedule: { frequency: 'weekly', preferredDays: ['Friday'], preferredTimes: ['09:00'] },
+          },
+        },
+      });
+
+      expect(state.currentWeek.tasks).toHaveLength(1);
+      expect(state.currentWeek.tasks[0].scheduledStart.getDay()).toBe(5);
+      expect(state.currentWeek.tasks[0].timeSlot).toBe('morning');
+    });
+  });
+
+  describe('Task Splitting', () => {
+    const splitAction: AppAction = {
+      type: 'SPLIT_TASK',
+      payload: {
+        taskId: 'task-1',
+        parts: [
+          { start: new Date('2024-01-01T10:00:00'), hours: 6 },
+          { start: new Date('2024-01-09T10:00:00'), hours: 2 },
+        ],
+      },
+    };
+
+    const createSplitState = () =>
+      appReducer(appReducer(createInitialState(), { type: 'ADD_TASK', payload: mockTask }), splitAction);
+
+    it('should replace a task with linked parts in the weeks they are scheduled in', () => {
+      const state = createSplitState();
+
+      const parent = state.currentWeek.tasks.find(task => task.id === 'task-1')!;
+      expect(parent.childTaskIds).toEqual(['task-1-part-1', 'task-1-part-2']);
+      expect(state.currentWeek.tasks.map(task => task.id)).toEqual(['task-1', 'task-1-part-1']);
+      expect(state.schedules['2024-01-08'].tasks.map(task => task.id)).toEqual(['task-1-part-2']);
+      // The parent is not counted on top of its parts
+      expect(state.currentWeek.totalScheduledHours).toBe(6);
+      expect(state.schedules['2024-01-08'].totalScheduledHours).toBe(2);
+    });
+
+    it('should roll part progress up into the split task', () => {
+      let state = createSplitState();
+
+      state = appReducer(state, {
+        type: 'UPDATE_TASK',
+        payload: { id: 'task-1-part-2', updates: { status: 'completed', actualHours: 3 } },
+      });
+      let parent = state.currentWeek.tasks.find(task => task.id === 'task-1')!;
+      expect(parent.status).toBe('in-progress');
+      expect(parent.actualHours).toBe(3);
+
+      state = appReducer(state, {
+        type: 'UPDATE_TASK',
+        payload: { id: 'task-1-part-1', updates: { status: 'completed', actualHours: 5 } },
+      });
+      parent = state.currentWeek.tasks.find(task => task.id === 'task-1')!;
+      expect(parent.status).toBe('completed');
+      expect(parent.actualHours).toBe(8);
+    });
+
+    it('should keep a split task status derived from its parts', () => {
+      const state = appReducer(createSplitState(), {
+        type: 'UPDATE_TASK',
+        payload: { id: 'task-1', updates: { status: 'completed' } },
+      });
+
+      expect(state.currentWeek.tasks.find(task => task.id === 'task-1')!.status).toBe('planned');
+    });
+
+    it('should hand the parts to whoever the split task is reassigned to', () => {
+      const state = appReducer(createSplitState(), {
+        type: 'UPDATE_TASK',
+        payload: { id: 'task-1', updates: { assigneeId: 'editor' } },
+      });
+
+      expect(state.currentWeek.tasks.map(task => task.assigneeId)).toEqual(['editor', 'editor']);
+      expect(state.schedules['2024-01-08'].tasks[0].assigneeId).toBe('editor');
+    });
+
+    it('should delete parts with their split task', () => {
+      const state = appReducer(createSplitState(), { type: 'DELETE_TASK', payload: 'task-1' });
+
+      expect(state.currentWeek.tasks).toHaveLength(0);
+      expect(state.schedules['2024-01-08'].tasks).toHaveLength(0);
+    });
+
+    it('should unlink a deleted part and remove the split task with its last part', () => {
+      let state = appReducer(createSplitState(), { type: 'DELETE_TASK', payload: 'task-1-part-2' });
+
+      const parent = state.currentWeek.tasks.find(task => task.id === 'task-1')!;
+      expect(parent.childTaskIds).toEqual(['task-1-part-1']);
+      expect(parent.estimatedHours).toBe(6);
+
+      state = appReducer(state, { type: 'DELETE_TASK', payload: 'task-1-part-1' });
+      expect(state.currentWeek.tasks).toHaveLength(0);
+    });
+
+    it('should give every part the dependencies of the split task', () => {
+      let state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: { ...mockTask, dependsOn: ['task-0'] } });
+      state = appReducer(state, splitAction);
+
+      expect(state.currentWeek.tasks.find(task => task.id === 'task-1-part-1')!.dependsOn).toEqual(['task-0']);
+    });
+
+    it('should not split a task twice', () => {
+      const state = createSplitState();
+
+      expect(appReducer(state, splitAction)).toBe(state);
+    });
+  });
+
+  describe('Task Dependencies', () => {
+    it('should unlink a deleted task from the tasks that depend on it', () => {
+      const dependentTask: Task = { ...mockTask, id: 'task-2', dependsOn: ['task-1'] };
+      let state = appReducer(createInitialState(), { type: 'ADD_TASK', payload: mockTask });
+      state = appReducer(state, { type: 'ADD_TASK', payload: dependentTask });
+
+      state = appReducer(state, { type: 'DELETE_TASK', payload: 'task-1' });
+
+      expect(state.currentWeek.tasks).toHaveLength(1);
+      expect(state.currentWeek.tasks[0].dependsOn).toEqual([]);
+    });
+  });
+
+  describe('Batch Actions', () => {
+    it('should apply all actions in order as one update', () => {
+      const secondTask: Task = { ...mockTask, id: 'task-2', estimatedHours: 2 };
+
+      const newState = appReducer(createInitialState(), {
+        type: 'BATCH_ACTIONS',
+        payload: [
+          { type: 'ADD_TASK', payload: mockTask },
+          { type: 'ADD_TASK', payload: secondTask },
+          { type: 'DELETE_TASK', payload: 'task-1' },
+        ],
+      });
+
+      expect(newState.currentWeek.tasks.map(task => task.id)).toEqual(['task-2']);
+      expect(newState.currentWeek.totalScheduledHours).toBe(2);
+    });
+  });
+
   describe('User Settings Actions', () => {
     it('should handle UPDATE_USER_SETTINGS', () => {
       const initialState = createInitialState();
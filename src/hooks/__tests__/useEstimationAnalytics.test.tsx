@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useEstimationAnalytics } from '../useEstimationAnalytics';
+import { AppProvider } from '../../context/AppContext';
+import { localStorageService } from '../../services/localStorage';
+import { AppState, Task, WeeklySchedule } from '../../types';
+import { ReactNode } from 'react';
+
+const createTask = (id: string, scheduledStart: string, actualHours: number): Task => ({
+  id,
+  channelId: 'channel1',
+  title: `Video ${id}`,
+  estimatedHours: 4,
+  actualHours,
+  status: 'completed',
+  priority: 'medium',
+  timeSlot: 'morning',
+  scheduledStart: new Date(scheduledStart),
+  scheduledEnd: new Date(scheduledStart),
+});
+
+const createWeek = (weekStartDate: string, tasks: Task[]): WeeklySchedule => ({
+  weekStartDate: new Date(weekStartDate),
+  tasks,
+  totalScheduledHours: tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
+  userCapacityHours: 40,
+  isOverloaded: false,
+});
+
+const createState = (currentWeek: WeeklySchedule): AppState => ({
+  channels: [
+    {
+      id: 'channel1',
+      name: 'Gaming Channel',
+      contentType: 'gaming',
+      postingSchedule: { frequency: 'weekly', preferredDays: ['Monday'], preferredTimes: ['10:00'] },
+      color: '#ff0000',
+      createdAt: new Date('2024-01-01'),
+      isActive: true,
+      assignedTasks: [],
+    },
+  ],
+  taskTemplates: [],
+  currentWeek,
+  schedules: {},
+  selectedWeekKey: '2024-01-08',
+  selectedChannelId: undefined,
+  userSettings: {
+    weeklyCapacityHours: 40,
+    workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    workingHours: { start: '09:00', end: '17:00' },
+  },
+  ui: { activeView: 'analytics', isLoading: false, errors: [] },
+});
+
+describe('useEstimationAnalytics', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should include stored weeks that are not loaded, preferring the loaded copy of a week', () => {
+    localStorageService.setSchedule('2024-01-01', createWeek('2024-01-01T00:00:00', [createTask('old', '2024-01-02T09:00:00', 6)]));
+    localStorageService.setSchedule('2024-01-08', createWeek('2024-01-08T00:00:00', [createTask('stale', '2024-01-09T09:00:00', 2)]));
+    const currentWeek = createWeek('2024-01-08T00:00:00', [createTask('new', '2024-01-09T09:00:00', 5)]);
+
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <AppProvider initialState={createState(currentWeek)}>{children}</AppProvider>
+    );
+    const { result } = renderHook(() => useEstimationAnalytics(), { wrapper });
+
+    expect(result.current.statsByChannel[0]).toMatchObject({ sampleCount: 2, totalEstimated: 8, totalActual: 11 });
+  });
+});
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useRebalancingSuggestions } from '../useRebalancingSuggestions';
-import { AppProvider } from '../../context/AppContext';
+import { RollbackService } from '../../services/rollbackService';
+import { AppProvider, useAppContext } from '../../context/AppContext';
 import { AppState } from '../../types';
 import { ReactNode } from 'react';
 
@@ -363,4 +364,205 @@ describe('useRebalancingSuggestions', () => {
       expect(result_apply.summary).toContain('Applied 0 of 1');
     });
   });
-});
\ No newline at end of file
+
+  it('should preview, apply and undo a suggestion as one transaction', async () => {
+    localStorage.clear();
+    const state: AppState = {
+      ...createOverloadedState(),
+      schedules: {},
+      selectedWeekKey: '2024-01-01',
+    };
+    const suggestion = {
+      id: 'move-short',
+      type: 'redistribute_daily' as const,
+      priority: 'medium' as const,
+      title: 'Move Gaming Short',
+      description: 'Move to Wednesday',
+      impact: { hoursReduced: 4, utilizationImprovement: 10, affectedTasks: 2 },
+      actions: [
+        {
+          type: 'move_task' as const,
+          taskId: 'task2',
+          taskTitle: 'Gaming Short',
+          currentSchedule: {
+            start: new Date('2024-01-01T22:00:00'),
+            end: new Date('2024-01-02T02:00:00'),
+            hours: 4,
+          },
+          proposedSchedule: {
+            start: new Date('2024-01-03T09:00:00'),
+            end: new Date('2024-01-03T13:00:00'),
+            hours: 4,
+          },
+          reason: 'Move to less busy day',
+        },
+        {
+          type: 'reduce_hours' as const,
+          taskId: 'task1',
+          taskTitle: 'Heavy Gaming Video',
+          currentSchedule: {
+            start: new Date('2024-01-01T09:00:00'),
+            end: new Date('2024-01-01T21:00:00'),
+            hours: 12,
+          },
+          proposedSchedule: {
+            start: new Date('2024-01-01T09:00:00'),
+            end: new Date('2024-01-01T19:00:00'),
+            hours: 10,
+          },
+          reason: 'Optimize workflow',
+        },
+      ],
+      estimatedEffort: 'low' as const,
+    };
+
+    const { result } = renderHook(() => ({
+      rebalancing: useRebalancingSuggestions(),
+      context: useAppContext(),
+    }), {
+      wrapper: createWrapper(state),
+    });
+
+    const preview = result.current.rebalancing.previewSuggestion(suggestion);
+    expect(preview.totalHoursChange).toBe(-2);
+    expect(result.current.context.state.currentWeek.tasks[1].scheduledStart)
+      .toEqual(new Date('2024-01-01T22:00:00'));
+
+    let rollbackId: string | undefined;
+    await act(async () => {
+      const applyResult = await result.current.rebalancing.applySuggestion(suggestion);
+      expect(applyResult.success).toBe(true);
+      rollbackId = applyResult.rollbackId;
+    });
+
+    expect(rollbackId).toBeDefined();
+    const appliedTasks = result.current.context.state.currentWeek.tasks;
+    expect(appliedTasks.find(task => task.id === 'task2')!.scheduledStart)
+      .toEqual(new Date('2024-01-03T09:00:00'));
+    expect(appliedTasks.find(task => task.id === 'task1')!.estimatedHours).toBe(10);
+
+    await act(async () => {
+      const undoResult = await result.current.rebalancing.undoSuggestion(rollbackId!);
+      expect(undoResult.success).toBe(true);
+    });
+
+    const restoredTasks = result.current.context.state.currentWeek.tasks;
+    expect(restoredTasks.find(task => task.id === 'task2')!.scheduledStart)
+      .toEqual(new Date('2024-01-01T22:00:00'));
+    expect(restoredTasks.find(task => task.id === 'task1')!.estimatedHours).toBe(12);
+    expect(result.current.context.state.currentWeek.totalScheduledHours).toBe(22);
+  });
+
+  it('should undo only the changes of the suggestion, keeping later edits and removing split parts', async () => {
+    localStorage.clear();
+    const state: AppState = {
+      ...createOverloadedState(),
+      schedules: {},
+      selectedWeekKey: '2024-01-01',
+    };
+    const suggestion = {
+      id: 'split-video',
+      type: 'redistribute_daily' as const,
+      priority: 'high' as const,
+      title: 'Split Heavy Gaming Video',
+      description: 'Move part of the video to next week',
+      impact: { hoursReduced: 4, utilizationImprovement: 10, affectedTasks: 1 },
+      actions: [
+        {
+          type: 'split_task' as const,
+          taskId: 'task1',
+          taskTitle: 'Heavy Gaming Video',
+          currentSchedule: {
+            start: new Date('2024-01-01T09:00:00'),
+            end: new Date('2024-01-01T21:00:00'),
+            hours: 12,
+          },
+          proposedSchedule: {
+            start: new Date('2024-01-09T09:00:00'),
+            end: new Date('2024-01-09T13:00:00'),
+            hours: 4,
+          },
+          reason: 'Spread the work',
+        },
+      ],
+      estimatedEffort: 'medium' as const,
+    };
+
+    const { result } = renderHook(() => ({
+      rebalancing: useRebalancingSuggestions(),
+      context: useAppContext(),
+    }), {
+      wrapper: createWrapper(state),
+    });
+
+    let rollbackId: string | undefined;
+    await act(async () => {
+      rollbackId = (await result.current.rebalancing.applySuggestion(suggestion)).rollbackId;
+    });
+    expect(result.current.context.state.schedules['2024-01-08'].tasks.map(task => task.id)).toEqual(['task1-part-2']);
+
+    // An edit made after applying the suggestion is not part of it
+    act(() => {
+      result.current.context.dispatch({ type: 'UPDATE_TASK', payload: { id: 'task3', updates: { title: 'Edited later' } } });
+    });
+
+    // Undo works from the stored rollback point, also after the app is reloaded
+    const { result: reloaded } = renderHook(() => ({
+      rebalancing: useRebalancingSuggestions(),
+      context: useAppContext(),
+    }), {
+      wrapper: createWrapper(result.current.context.state),
+    });
+    await act(async () => {
+      expect((await reloaded.current.rebalancing.undoSuggestion(rollbackId!)).success).toBe(true);
+    });
+
+    const { currentWeek, schedules } = reloaded.current.context.state;
+    expect(currentWeek.tasks.map(task => task.id)).toEqual(['task1', 'task2', 'task3']);
+    expect(currentWeek.tasks[0].childTaskIds).toBeUndefined();
+    expect(currentWeek.tasks[2].title).toBe('Edited later');
+    expect(currentWeek.totalScheduledHours).toBe(22);
+    expect(schedules['2024-01-08'].tasks).toEqual([]);
+
+    // A suggestion is undone once
+    await act(async () => {
+      expect((await reloaded.current.rebalancing.undoSuggestion(rollbackId!)).success).toBe(false);
+    });
+  });
+
+  it('should report a suggestion the current member may not apply as failed', async () => {
+    localStorage.clear();
+    const state = createOverloadedState();
+    const viewerState: AppState = {
+      ...state,
+      userSettings: {
+        ...state.userSettings,
+        teamMembers: [{
+          id: 'olivia',
+          name: 'Olivia',
+          role: 'Producer',
+          weeklyCapacityHours: 40,
+          workingDays: ['Monday'],
+          workingHours: { start: '09:00', end: '17:00' },
+          accessRole: 'owner',
+        }],
+      },
+    };
+    const { result } = renderHook(() => ({
+      rebalancing: useRebalancingSuggestions(),
+      context: useAppContext(),
+    }), {
+      wrapper: createWrapper(viewerState),
+    });
+    const suggestion = result.current.rebalancing.suggestions.find(s => s.actions.length > 0)!;
+
+    let applied: Awaited<ReturnType<typeof result.current.rebalancing.applySuggestion>> | undefined;
+    await act(async () => {
+      applied = await result.current.rebalancing.applySuggestion(suggestion);
+    });
+
+    expect(applied).toMatchObject({ success: false, error: 'As viewer you cannot change the schedule' });
+    expect(result.current.context.state.currentWeek.tasks).toEqual(viewerState.currentWeek.tasks);
+    expect(RollbackService.getInstance().getRollbackPoints()).toHaveLength(0);
+  });
+});
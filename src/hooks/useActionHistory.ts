@@ -0,0 +1,55 @@
+import { useEffect, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+
+interface UseActionHistoryOptions {
+  enableShortcuts?: boolean; // Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo (Cmd on macOS)
+}
+
+/**
+ * Text fields keep their own undo, so shortcuts typed into them are left to the browser
+ */
+const isTextInput = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Custom hook for undoing and redoing changes, newest entries first
+ */
+export const useActionHistory = ({ enableShortcuts = false }: UseActionHistoryOptions = {}) => {
+  const { history, undo, redo, clearHistory } = useAppContext();
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  const entries = useMemo(() => [...history.past].reverse(), [history.past]);
+
+  return {
+    entries,
+    undoneEntries: history.future, // Also newest first; the last one is redone next
+    canUndo: entries.length > 0,
+    canRedo: history.future.length > 0,
+    nextUndo: entries[0],
+    nextRedo: history.future[history.future.length - 1],
+    undo,
+    redo,
+    clearHistory,
+  };
+};
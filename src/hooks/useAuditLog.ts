@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { AuditFilter, auditLogService, AuditRetentionPolicy, matchesFilter } from '../services/auditLog';
+import { permissionService } from '../services/permissions';
+
+/**
+ * Custom hook for browsing, exporting and pruning the audit log
+ */
+export const useAuditLog = () => {
+  const { state } = useAppContext();
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [allEvents, setAllEvents] = useState(() => auditLogService.getEvents());
+  const [retentionPolicy, setRetentionPolicyState] = useState(() => auditLogService.getRetentionPolicy());
+
+  useEffect(() => auditLogService.subscribe(() => setAllEvents(auditLogService.getEvents())), []);
+
+  // Every event is kept for the filter choices; these are the ones the filter keeps
+  const events = useMemo(() => allEvents.filter(event => matchesFilter(event, filter)), [allEvents, filter]);
+
+  /**
+   * Save a retention policy, removing events it no longer keeps. Returns the number removed.
+   */
+  const updateRetentionPolicy = useCallback((policy: AuditRetentionPolicy): number => {
+    permissionService.assertCan('manageSettings', state.userSettings.teamMembers);
+    const removed = auditLogService.setRetentionPolicy(policy);
+    setRetentionPolicyState(policy);
+    return removed;
+  }, [state.userSettings.teamMembers]);
+
+  const exportLog = useCallback(() => {
+    auditLogService.downloadExport(filter);
+  }, [filter]);
+
+  return {
+    events,
+    allEvents,
+    filter,
+    setFilter,
+    retentionPolicy,
+    updateRetentionPolicy,
+    exportLog,
+  };
+};
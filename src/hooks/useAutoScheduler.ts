@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { AutoScheduler, AutoScheduleResult } from '../services/autoScheduler';
+
+export const useAutoScheduler = () => {
+  const { state, dispatch } = useAppContext();
+
+  // Planned tasks in the selected week that break working time, conflict or capacity rules
+  const tasksNeedingPlacement = useMemo(() => {
+    return AutoScheduler.findTasksNeedingPlacement(
+      state.currentWeek.tasks,
+      state.currentWeek.weekStartDate,
+      state.userSettings
+    );
+  }, [state.currentWeek.tasks, state.currentWeek.weekStartDate, state.userSettings]);
+
+  // Compute placements for the selected week without changing state
+  const previewAutoSchedule = useCallback((): AutoScheduleResult => {
+    return AutoScheduler.autoScheduleWeek(state.currentWeek, state.userSettings, {
+      earliestStart: new Date(),
+    });
+  }, [state.currentWeek, state.userSettings]);
+
+  // Apply placements in a single update and report tasks that could not be placed
+  const autoScheduleWeek = useCallback((): AutoScheduleResult => {
+    const result = previewAutoSchedule();
+
+    if (result.placedTasks.length > 0) {
+      dispatch({
+        type: 'UPDATE_TASKS',
+        payload: result.placedTasks.map(task => ({
+          id: task.id,
+          updates: {
+            scheduledStart: task.scheduledStart,
+            scheduledEnd: task.scheduledEnd,
+            timeSlot: task.timeSlot,
+          },
+        })),
+      });
+    }
+
+    return result;
+  }, [previewAutoSchedule, dispatch]);
+
+  return {
+    tasksNeedingPlacement,
+    previewAutoSchedule,
+    autoScheduleWeek,
+  };
+};
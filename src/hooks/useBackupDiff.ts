@@ -0,0 +1,79 @@
+import { useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { BackupDiff, BackupDiffer, BackupRestoreSelection } from '../services/backupDiff';
+import { BackupData, DataBackupService } from '../services/dataBackup';
+import { localStorageService } from '../services/localStorage';
+import { permissionService } from '../services/permissions';
+import { AppAction } from '../types';
+import { useStorageSync } from './useStorageSync';
+
+// Compares against current data rather than a stored backup
+export const CURRENT_DATA = 'current';
+
+/**
+ * Custom hook for comparing backups and restoring individual channels, templates and tasks from one
+ */
+export const useBackupDiff = () => {
+  const { state, dispatch, dispatchExternal } = useAppContext();
+  const { flushToStorage } = useStorageSync();
+
+  const readSide = useCallback(async (backupId: string): Promise<BackupData> => {
+    const backupService = DataBackupService.getInstance();
+    if (backupId !== CURRENT_DATA) return backupService.readBackup(backupId);
+
+    // Current data is read from storage, so pending saves of loaded state must land first
+    await flushToStorage();
+    return backupService.captureBackupData();
+  }, [flushToStorage]);
+
+  /**
+   * What changed from one backup to another backup or to current data
+   */
+  const compareBackups = useCallback(async (fromId: string, toId: string): Promise<BackupDiff> => {
+    return BackupDiffer.compare(await readSide(fromId), await readSide(toId));
+  }, [readSide]);
+
+  /**
+   * Put the selected entities back as a backup holds them, leaving everything else as it is.
+   * The restore is one undoable change. Returns the number of entities restored.
+   */
+  const restoreEntities = useCallback(async (backupId: string, selection: BackupRestoreSelection): Promise<number> => {
+    const backupService = DataBackupService.getInstance();
+    const backup = backupService.readBackup(backupId);
+    const metadata = backupService.getBackupList().find(b => b.id === backupId);
+    const action: AppAction = {
+      type: 'RESTORE_BACKUP_ENTITIES',
+      payload: {
+        patch: BackupDiffer.createRestorePatch(backup, selection),
+        source: `the backup of ${new Date(metadata?.timestamp ?? backup.timestamp).toLocaleString()}`,
+      },
+    };
+    permissionService.assertAllowed(action, state.userSettings.teamMembers);
+
+    await flushToStorage();
+    await backupService.createBackup(`Auto-backup before restoring items from ${backupId}`);
+
+    // Restored tasks may live in, or move to, weeks that are not loaded. Loading those weeks first
+    // lets the restore move tasks instead of leaving a stored copy behind.
+    const taskIds = new Set(selection.tasks);
+    const targetWeekKeys = new Set(
+      Object.values(action.payload.patch.tasks).flatMap(change => (change ? [change.weekKey] : []))
+    );
+    const weeksToLoad = Object.fromEntries(
+      Object.entries(localStorageService.getSchedules()).filter(([weekKey, week]) =>
+        targetWeekKeys.has(weekKey) || week.tasks.some(task => taskIds.has(task.id))
+      )
+    );
+    if (Object.keys(weeksToLoad).length > 0) {
+      dispatchExternal({ type: 'LOAD_WEEK_SCHEDULES', payload: weeksToLoad });
+    }
+
+    dispatch(action);
+    return BackupDiffer.countSelection(selection);
+  }, [state.userSettings.teamMembers, dispatch, dispatchExternal, flushToStorage]);
+
+  return {
+    compareBackups,
+    restoreEntities,
+  };
+};
@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { BackupPolicy } from '../services/backupPolicy';
+import { enhancedPersistenceService } from '../services/enhancedPersistence';
+import { permissionService } from '../services/permissions';
+
+/**
+ * Custom hook for the automatic backup schedule, retention tiers and storage used per tier
+ */
+export const useBackupPolicy = () => {
+  const { state } = useAppContext();
+  const [policy, setPolicyState] = useState(() => enhancedPersistenceService.getBackupPolicy());
+  const [tierUsage, setTierUsage] = useState(() => enhancedPersistenceService.getBackupTierUsage());
+  const [unlocked, setUnlocked] = useState(() => enhancedPersistenceService.areBackupsUnlocked());
+
+  /**
+   * Re-read storage used per tier, after backups were created or deleted elsewhere
+   */
+  const refreshUsage = useCallback(() => {
+    setTierUsage(enhancedPersistenceService.getBackupTierUsage());
+  }, []);
+
+  /**
+   * Save a policy, removing backups it no longer keeps. Returns the number removed.
+   */
+  const updatePolicy = useCallback((next: BackupPolicy): number => {
+    permissionService.assertCan('manageSettings', state.userSettings.teamMembers);
+    const removed = enhancedPersistenceService.setBackupPolicy(next);
+    setPolicyState(next);
+    refreshUsage();
+    return removed;
+  }, [state.userSettings.teamMembers, refreshUsage]);
+
+  /**
+   * Use the backup passphrase for this session. Returns the number of encrypted backups it opened.
+   */
+  const unlockBackups = useCallback(async (passphrase: string): Promise<number> => {
+    const opened = await enhancedPersistenceService.unlockBackups(passphrase);
+    setUnlocked(true);
+    return opened;
+  }, []);
+
+  const lockBackups = useCallback(() => {
+    enhancedPersistenceService.lockBackups();
+    setUnlocked(false);
+  }, []);
+
+  return {
+    policy,
+    tierUsage,
+    unlocked,
+    updatePolicy,
+    refreshUsage,
+    unlockBackups,
+    lockBackups,
+  };
+};
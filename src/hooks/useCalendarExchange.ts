@@ -0,0 +1,105 @@
+import { useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { CalendarExportScope, iCalendarService } from '../services/icalendar';
+import { localStorageService } from '../services/localStorage';
+import { AppAction, WeeklySchedule } from '../types';
+import { getWeekKey } from '../utils/helpers';
+
+/**
+ * Custom hook for exchanging scheduled tasks with calendar apps as .ics files
+ */
+export const useCalendarExchange = () => {
+  const { state, dispatch } = useAppContext();
+
+  // Loaded weeks are newer than what storage holds until the next save
+  const getSchedules = useCallback((): Record<string, WeeklySchedule> => ({
+    ...localStorageService.getSchedules(),
+    ...state.schedules,
+    [state.selectedWeekKey]: state.currentWeek,
+  }), [state.schedules, state.selectedWeekKey, state.currentWeek]);
+
+  const getCalendarName = useCallback((scope: CalendarExportScope): string => {
+    switch (scope.type) {
+      case 'week':
+        return `Content Schedule – week of ${scope.weekKey}`;
+      case 'channel':
+        return `Content Schedule – ${state.channels.find(channel => channel.id === scope.channelId)?.name ?? 'Channel'}`;
+      default:
+        return 'Content Schedule';
+    }
+  }, [state.channels]);
+
+  /**
+   * Download the tasks in a scope as an .ics file. Returns the number of exported events.
+   */
+  const exportCalendar = useCallback((scope: CalendarExportScope): number => {
+    const tasks = iCalendarService.getTasksForScope(getSchedules(), scope);
+    const ics = iCalendarService.exportTasks(tasks, state.channels, getCalendarName(scope));
+
+    iCalendarService.downloadCalendar(ics, iCalendarService.getExportFilename(scope, state.channels));
+    return tasks.length;
+  }, [getSchedules, getCalendarName, state.channels]);
+
+  /**
+   * Import the events of an .ics file as tasks for a channel. Events that were exported from this app,
+   * or imported before, update their existing task's schedule and details instead of adding a copy.
+   */
+  const importCalendar = useCallback((ics: string, channelId: string) => {
+    const { tasks, warnings, skipped } = iCalendarService.importTasks(ics, channelId);
+    const schedules = getSchedules();
+    const existingWeekKeys = new Map(
+      Object.entries(schedules).flatMap(([weekKey, week]) => week.tasks.map(task => [task.id, weekKey] as const))
+    );
+
+    // Stored weeks touched by the import must be loaded, or adding to them would replace them on save
+    const touchedWeekKeys = new Set(tasks.flatMap(task => [
+      getWeekKey(task.scheduledStart),
+      ...(existingWeekKeys.has(task.id) ? [existingWeekKeys.get(task.id)!] : []),
+    ]));
+    const storedWeeks = Object.fromEntries(
+      Object.entries(localStorageService.getSchedules()).filter(([weekKey]) => touchedWeekKeys.has(weekKey))
+    );
+
+    const actions: AppAction[] = [{ type: 'LOAD_WEEK_SCHEDULES', payload: storedWeeks }];
+    let added = 0;
+    let updated = 0;
+
+    tasks.forEach(task => {
+      if (!existingWeekKeys.has(task.id)) {
+        actions.push({ type: 'ADD_TASK', payload: task });
+        added++;
+        return;
+      }
+
+      // Progress tracked in the app is kept; only what a calendar can change is applied
+      actions.push({
+        type: 'UPDATE_TASK',
+        payload: {
+          id: task.id,
+          updates: {
+            title: task.title,
+            description: task.description,
+            scheduledStart: task.scheduledStart,
+            scheduledEnd: task.scheduledEnd,
+            timeSlot: task.timeSlot,
+            estimatedHours: task.estimatedHours,
+            priority: task.priority,
+          },
+        },
+      });
+      updated++;
+    });
+
+    if (tasks.length > 0) {
+      dispatch({ type: 'BATCH_ACTIONS', payload: actions });
+    }
+
+    return { added, updated, skipped, warnings };
+  }, [getSchedules, dispatch]);
+
+  return {
+    selectedWeekKey: state.selectedWeekKey,
+    exportCalendar,
+    importCalendar,
+  };
+};
@@ -0,0 +1,137 @@
+import { useEffect, useRef } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { useNotifications } from '../components/NotificationSystem';
+import {
+  ConflictPolicy,
+  crossTabSyncService,
+  getStateData,
+  indexEntities,
+  parseEntity,
+  serializeEntity,
+  SyncMessage,
+} from '../services/crossTabSync';
+import { debouncedLocalStorageService } from '../services/debouncedLocalStorage';
+import { DataDomain } from '../services/storageSchema';
+import { AppAction, AppState, Channel, TaskTemplate, WeeklySchedule } from '../types';
+
+/**
+ * Keys the debounced storage service queues saves of a domain under
+ */
+const getPendingUpdateKeys = (domain: DataDomain, ids: string[]): string[] => {
+  switch (domain) {
+    case 'channels':
+      return ['channels'];
+    case 'templates':
+      return ['taskTemplates'];
+    case 'schedules':
+      return ids.map(weekKey => `schedule_${weekKey}`);
+    case 'userSettings':
+      return ['userSettings'];
+  }
+};
+
+/**
+ * Actions that put the given versions of entities into state, deleting those that are null
+ */
+const getEntityActions = (state: AppState, domain: DataDomain, entities: Array<[string, unknown]>): AppAction[] => {
+  switch (domain) {
+    case 'channels':
+      return entities.map(([id, channel]): AppAction => {
+        if (!channel) return { type: 'DELETE_CHANNEL', payload: id };
+        return state.channels.some(c => c.id === id)
+          ? { type: 'UPDATE_CHANNEL', payload: { id, updates: channel as Channel } }
+          : { type: 'ADD_CHANNEL', payload: channel as Channel };
+      });
+
+    case 'templates':
+      return entities.map(([id, template]): AppAction => {
+        if (!template) return { type: 'DELETE_TASK_TEMPLATE', payload: id };
+        return state.taskTemplates.some(t => t.id === id)
+          ? { type: 'UPDATE_TASK_TEMPLATE', payload: { id, updates: template as TaskTemplate } }
+          : { type: 'ADD_TASK_TEMPLATE', payload: template as TaskTemplate };
+      });
+
+    case 'schedules': {
+      // Only loaded weeks need refreshing; other weeks load from storage when visited
+      const loadedWeeks = getStateData(state).schedules;
+      const weeks = entities.filter(([weekKey, week]) => week && weekKey in loadedWeeks);
+      return weeks.length > 0
+        ? [{ type: 'RESTORE_WEEK_SCHEDULES', payload: Object.fromEntries(weeks) as Record<string, WeeklySchedule> }]
+        : [];
+    }
+
+    case 'userSettings':
+      return entities
+        .filter(([, settings]) => settings)
+        .map(([, settings]): AppAction => ({ type: 'UPDATE_USER_SETTINGS', payload: settings as AppState['userSettings'] }));
+  }
+};
+
+const describeEntity = (state: AppState, domain: DataDomain, id: string): string => {
+  switch (domain) {
+    case 'channels':
+      return `channel "${state.channels.find(c => c.id === id)?.name ?? id}"`;
+    case 'templates':
+      return `template "${state.taskTemplates.find(t => t.id === id)?.title ?? id}"`;
+    case 'schedules':
+      return `the week of ${id}`;
+    case 'userSettings':
+      return 'your settings';
+  }
+};
+
+/**
+ * Custom hook for merging changes saved in other tabs into loaded state.
+ * An incoming change to an entity this tab changed as well replaces the local version, as it was
+ * saved last, and raises a notification; with the `prompt` policy the user can keep their version.
+ */
+export const useCrossTabSync = (conflictPolicy: ConflictPolicy = 'last-writer-wins') => {
+  const { state, dispatch, dispatchExternal } = useAppContext();
+  const { addNotification } = useNotifications();
+
+  // Messages are handled against the latest state without resubscribing on every change
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => crossTabSyncService.subscribe((message: SyncMessage) => {
+    const current = stateRef.current;
+    const { domain } = message;
+    const localEntities = indexEntities(domain, getStateData(current)[domain]);
+    const conflicts = crossTabSyncService.findConflicts(message, localEntities);
+
+    const incoming = message.changes
+      .filter(change => change.value !== serializeEntity(localEntities[change.id]))
+      .map((change): [string, unknown] => [change.id, parseEntity(change.value)]);
+    const actions = getEntityActions(current, domain, incoming);
+    if (actions.length === 0) return;
+
+    // Queued saves hold state from before these changes and would write it back;
+    // the changed state is queued again once applied
+    getPendingUpdateKeys(domain, message.changes.map(change => change.id))
+      .forEach(key => debouncedLocalStorageService.cancelPendingUpdate(key));
+    // Made by whoever saved them, so the current member's role does not apply
+    dispatchExternal({ type: 'BATCH_ACTIONS', payload: actions });
+
+    if (conflicts.length === 0) return;
+
+    const entityNames = conflicts.map(conflict => describeEntity(current, domain, conflict.id)).join(', ');
+    const localVersions = conflicts.map((conflict): [string, unknown] => [conflict.id, localEntities[conflict.id] ?? null]);
+    addNotification({
+      type: 'warning',
+      title: 'Changed in another tab',
+      message: `Your changes to ${entityNames} were replaced by a newer version saved in another tab.`,
+      ...(conflictPolicy === 'prompt'
+        ? {
+            duration: 0,
+            action: {
+              label: 'Keep my version',
+              onClick: () => dispatch({
+                type: 'BATCH_ACTIONS',
+                payload: getEntityActions(stateRef.current, domain, localVersions),
+              }),
+            },
+          }
+        : { duration: 7000 }),
+    });
+  }), [dispatch, dispatchExternal, addNotification, conflictPolicy]);
+};
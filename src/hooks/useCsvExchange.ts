@@ -0,0 +1,92 @@
+import { useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { CsvColumnMapping, CsvRecordType, csvExchangeService } from '../services/csvExchange';
+import { ImportOptions, ImportResult } from '../services/dataExport';
+import { localStorageService } from '../services/localStorage';
+import { Permission, permissionService } from '../services/permissions';
+import { formatLocalDate } from '../utils/helpers';
+import { useStorageSync } from './useStorageSync';
+
+const IMPORT_PERMISSIONS: Record<CsvRecordType, Permission> = {
+  tasks: 'editSchedule',
+  channels: 'manageChannels',
+  templates: 'manageTemplates',
+};
+
+/**
+ * Custom hook for exchanging tasks, channels and templates with spreadsheets as CSV
+ */
+export const useCsvExchange = () => {
+  const { state } = useAppContext();
+  const { flushToStorage, reloadFromStorage } = useStorageSync();
+
+  /**
+   * Download records as CSV with the chosen columns. Returns the number of exported rows.
+   */
+  const exportCsv = useCallback((type: CsvRecordType, columnKeys?: string[]): number => {
+    let csv: string;
+    let count: number;
+
+    if (type === 'tasks') {
+      // Loaded weeks are newer than what storage holds until the next save
+      const tasks = Object.values({
+        ...localStorageService.getSchedules(),
+        ...state.schedules,
+        [state.selectedWeekKey]: state.currentWeek,
+      })
+        .flatMap(schedule => schedule.tasks)
+        .sort((a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime());
+      csv = csvExchangeService.exportCsv('tasks', tasks, columnKeys, state.channels);
+      count = tasks.length;
+    } else if (type === 'channels') {
+      csv = csvExchangeService.exportCsv('channels', state.channels, columnKeys);
+      count = state.channels.length;
+    } else {
+      csv = csvExchangeService.exportCsv('templates', state.taskTemplates, columnKeys);
+      count = state.taskTemplates.length;
+    }
+
+    csvExchangeService.downloadCsv(csv, `mcm-${type}-${formatLocalDate(new Date())}.csv`);
+    return count;
+  }, [state.schedules, state.selectedWeekKey, state.currentWeek, state.channels, state.taskTemplates]);
+
+  /**
+   * Read a CSV file's header and suggest a column mapping for it
+   */
+  const previewCsv = useCallback((type: CsvRecordType, text: string) => {
+    return csvExchangeService.previewCsv(type, text);
+  }, []);
+
+  /**
+   * Import CSV rows into storage, then bring the loaded state up to date with what was imported
+   */
+  const importCsv = useCallback(async (
+    type: CsvRecordType,
+    text: string,
+    mapping: CsvColumnMapping,
+    mergeMode: ImportOptions['mergeMode']
+  ): Promise<ImportResult> => {
+    permissionService.assertCan(IMPORT_PERMISSIONS[type], state.userSettings.teamMembers);
+
+    // The import reads and writes storage, so pending saves of loaded state must land first
+    await flushToStorage();
+
+    const result = await csvExchangeService.importCsv(type, text, mapping, {
+      mergeMode,
+      validateData: true,
+      createBackup: true,
+    });
+
+    if (result.imported[type] > 0) {
+      reloadFromStorage({ [type === 'tasks' ? 'schedules' : type]: true });
+    }
+
+    return result;
+  }, [state.userSettings.teamMembers, flushToStorage, reloadFromStorage]);
+
+  return {
+    exportCsv,
+    previewCsv,
+    importCsv,
+  };
+};
@@ -0,0 +1,51 @@
+import { useCallback, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { localStorageService } from '../services/localStorage';
+import { EstimationAnalytics, EstimateCalibration } from '../services/estimationAnalytics';
+
+/**
+ * Custom hook for estimation accuracy across all stored weeks, with loaded weeks taking precedence
+ */
+export const useEstimationAnalytics = () => {
+  const { state } = useAppContext();
+
+  const allTasks = useMemo(() => {
+    return Object.values({
+      ...localStorageService.getSchedules(),
+      ...state.schedules,
+      [state.selectedWeekKey]: state.currentWeek,
+    }).flatMap(schedule => schedule.tasks);
+  }, [state.schedules, state.selectedWeekKey, state.currentWeek]);
+
+  const statsByTemplate = useMemo(() => {
+    return EstimationAnalytics.getStatsByTemplate(allTasks, state.taskTemplates);
+  }, [allTasks, state.taskTemplates]);
+
+  const statsByCategory = useMemo(() => {
+    return EstimationAnalytics.getStatsByCategory(allTasks, state.taskTemplates);
+  }, [allTasks, state.taskTemplates]);
+
+  const statsByChannel = useMemo(() => {
+    return EstimationAnalytics.getStatsByChannel(allTasks, state.channels);
+  }, [allTasks, state.channels]);
+
+  const trend = useMemo(() => EstimationAnalytics.getTrend(allTasks), [allTasks]);
+
+  // Templates whose estimates are systematically off
+  const calibrations = useMemo(() => {
+    return EstimationAnalytics.getCalibrations(allTasks, state.taskTemplates);
+  }, [allTasks, state.taskTemplates]);
+
+  const getCalibration = useCallback((templateId: string): EstimateCalibration | null => {
+    return calibrations.find(calibration => calibration.templateId === templateId) ?? null;
+  }, [calibrations]);
+
+  return {
+    statsByTemplate,
+    statsByCategory,
+    statsByChannel,
+    trend,
+    calibrations,
+    getCalibration,
+  };
+};
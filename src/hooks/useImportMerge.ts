@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { dataExportService, ImportResult } from '../services/dataExport';
+import { PassphraseEncryption } from '../services/encryption';
+import { MergePlan, MergeResolutions } from '../services/importMerge';
+import { permissionService } from '../services/permissions';
+import { useStorageSync } from './useStorageSync';
+
+/**
+ * Custom hook for merging an export or backup file into local data field by field
+ */
+export const useImportMerge = () => {
+  const { state } = useAppContext();
+  const { flushToStorage, reloadFromStorage } = useStorageSync();
+
+  /**
+   * Compare a file with local data and return what merging it would change. Encrypted files need their passphrase.
+   */
+  const prepareMerge = useCallback(async (text: string, passphrase?: string): Promise<MergePlan> => {
+    const plainText = await PassphraseEncryption.open(text, passphrase);
+    // The plan compares against storage, so pending saves of loaded state must land first
+    await flushToStorage();
+    return dataExportService.prepareMerge(plainText);
+  }, [flushToStorage]);
+
+  /**
+   * Write the merge with the chosen side for each conflict, then load the merged records
+   */
+  const commitMerge = useCallback(async (plan: MergePlan, resolutions: MergeResolutions): Promise<ImportResult> => {
+    // A merge can touch every kind of record
+    permissionService.assertCan('manageChannels', state.userSettings.teamMembers);
+    permissionService.assertCan('manageTemplates', state.userSettings.teamMembers);
+    permissionService.assertCan('editSchedule', state.userSettings.teamMembers);
+
+    await flushToStorage();
+    const result = await dataExportService.commitMerge(plan, resolutions);
+
+    reloadFromStorage({
+      channels: result.imported.channels > 0,
+      templates: result.imported.templates > 0,
+      schedules: result.imported.tasks > 0,
+    });
+
+    return result;
+  }, [state.userSettings.teamMembers, flushToStorage, reloadFromStorage]);
+
+  return {
+    prepareMerge,
+    commitMerge,
+  };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { getMemberRole, Permission, permissionService, ROLE_PERMISSIONS } from '../services/permissions';
+
+/**
+ * Custom hook for the current team member's role, to hide or disable controls they may not use
+ */
+export const usePermissions = () => {
+  const { state } = useAppContext();
+  const [currentMemberId, setCurrentMemberIdState] = useState(permissionService.getCurrentMemberId());
+  const teamMembers = state.userSettings.teamMembers;
+
+  useEffect(() => permissionService.subscribe(setCurrentMemberIdState), []);
+
+  const setCurrentMember = useCallback((memberId: string | null) => {
+    permissionService.setCurrentMemberId(memberId);
+  }, []);
+
+  const role = useMemo(() => getMemberRole(currentMemberId, teamMembers), [currentMemberId, teamMembers]);
+
+  const can = useCallback((permission: Permission) => {
+    return ROLE_PERMISSIONS[role].includes(permission);
+  }, [role]);
+
+  return {
+    role,
+    currentMember: teamMembers?.find(member => member.id === currentMemberId),
+    setCurrentMember,
+    can,
+  };
+};
@@ -1,12 +1,45 @@
 import { useMemo, useCallback } from 'react';
-import { useAppContext } from '../context/AppContext';
+import { appReducer, useAppContext } from '../context/AppContext';
 import { useWorkloadCalculation } from './useWorkloadCalculation';
 import { 
   RebalancingSuggestionEngine, 
   RebalancingSuggestion, 
-  RebalancingOptions 
+  RebalancingOptions,
+  SuggestionPreview
 } from '../services/rebalancingSuggestions';
-import { Task } from '../types';
+import { permissionService } from '../services/permissions';
+import { RollbackService } from '../services/rollbackService';
+import { WorkloadCalculationEngine } from '../services/workloadCalculation';
+import { AppAction, AppState, HistoryPatch, Task } from '../types';
+import { STORAGE_KEYS } from '../utils/constants';
+
+const indexTasks = (state: AppState) => {
+  const tasks = new Map<string, { task: Task; weekKey: string }>();
+  Object.entries({ ...state.schedules, [state.selectedWeekKey]: state.currentWeek }).forEach(([weekKey, week]) => {
+    week.tasks.forEach(task => tasks.set(task.id, { task, weekKey }));
+  });
+  return tasks;
+};
+
+/**
+ * The inverse of a suggestion's own changes: the tasks it changed go back to how they were and the
+ * parts it split off are removed. Tasks it did not touch are left out, so later edits to them survive an undo.
+ */
+const createUndoPatch = (before: AppState, after: AppState, splitTaskIds: Set<string>): HistoryPatch => {
+  const beforeTasks = indexTasks(before);
+  const tasks: HistoryPatch['tasks'] = {};
+
+  indexTasks(after).forEach((entry, taskId) => {
+    const previous = beforeTasks.get(taskId);
+    if (previous) {
+      if (previous.task !== entry.task || previous.weekKey !== entry.weekKey) tasks[taskId] = previous;
+    } else if (entry.task.parentTaskId && splitTaskIds.has(entry.task.parentTaskId)) {
+      tasks[taskId] = null;
+    }
+  });
+
+  return { channels: {}, taskTemplates: {}, tasks };
+};
 
 export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>) => {
   const { state, dispatch } = useAppContext();
@@ -29,7 +62,11 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
 
   // Generate rebalancing suggestions
   const suggestions = useMemo((): RebalancingSuggestion[] => {
-    if (!workloadMetrics.isOverloaded && !workloadMetrics.dailyBreakdown.some(day => day.isOverloaded)) {
+    if (
+      !workloadMetrics.isOverloaded &&
+      !workloadMetrics.dailyBreakdown.some(day => day.isOverloaded) &&
+      !workloadMetrics.memberBreakdown.some(member => member.dailyBreakdown.some(day => day.isOverloaded))
+    ) {
       return [];
     }
 
@@ -63,6 +100,10 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
     suggestions.filter(s => s.type === 'redistribute_channel'), [suggestions]
   );
 
+  const reassignmentSuggestions = useMemo(() => 
+    suggestions.filter(s => s.type === 'reassign_member'), [suggestions]
+  );
+
   const scopeReductionSuggestions = useMemo(() => 
     suggestions.filter(s => s.type === 'reduce_scope'), [suggestions]
   );
@@ -71,37 +112,63 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
     suggestions.filter(s => s.type === 'extend_timeline'), [suggestions]
   );
 
-  // Apply a suggestion
+  // Preview the before/after workload of a suggestion without applying it
+  const previewSuggestion = useCallback((suggestion: RebalancingSuggestion): SuggestionPreview => {
+    return RebalancingSuggestionEngine.previewSuggestion(
+      suggestion,
+      state.currentWeek,
+      state.channels,
+      WorkloadCalculationEngine.calculateDailyCapacity(
+        state.userSettings.weeklyCapacityHours,
+        state.userSettings.workingDays
+      ),
+      state.userSettings.teamMembers
+    );
+  }, [state.currentWeek, state.channels, state.userSettings]);
+
+  // Apply all actions of a suggestion in a single update, recording a rollback point first
   const applySuggestion = useCallback(async (suggestion: RebalancingSuggestion): Promise<{
     success: boolean;
     summary: string;
+    rollbackId?: string;
     error?: string;
   }> => {
     try {
-      const result = RebalancingSuggestionEngine.applySuggestion(
+      const { taskUpdates, taskSplits } = RebalancingSuggestionEngine.getTaskChanges(
         suggestion,
-        state.currentWeek
+        state.currentWeek.tasks
       );
+      const appliedActions = taskUpdates.length + taskSplits.length;
+      const summary = `Applied ${appliedActions} of ${suggestion.actions.length} suggested changes. ${suggestion.title} completed.`;
 
-      // Update tasks in the state
-      const updatedSchedule = {
-        ...state.currentWeek,
-        tasks: result.updatedTasks,
-      };
-
-      // Recalculate totals
-      const newTotalHours = result.updatedTasks
-        .filter(task => task.status === 'planned' || task.status === 'in-progress')
-        .reduce((sum, task) => sum + task.estimatedHours, 0);
-
-      updatedSchedule.totalScheduledHours = newTotalHours;
-      updatedSchedule.isOverloaded = newTotalHours > state.userSettings.weeklyCapacityHours;
+      if (appliedActions === 0) {
+        return { success: true, summary };
+      }
 
-      dispatch({ type: 'SET_CURRENT_WEEK', payload: updatedSchedule });
+      const action: AppAction = {
+        type: 'BATCH_ACTIONS',
+        payload: [
+          ...taskUpdates.map(payload => ({ type: 'UPDATE_TASK' as const, payload })),
+          ...taskSplits.map(payload => ({ type: 'SPLIT_TASK' as const, payload })),
+        ],
+      };
+      // dispatch reports a refusal without throwing, so the role is checked before anything is recorded
+      permissionService.assertAllowed(action, state.userSettings.teamMembers);
+
+      // The undo patch is stored with the rollback point, so the suggestion can be undone after a reload
+      const rollbackId = await RollbackService.getInstance().createRollbackPoint(
+        'apply_rebalancing_suggestion',
+        suggestion.title,
+        [STORAGE_KEYS.SCHEDULES],
+        { schedules: { ...state.schedules, [state.selectedWeekKey]: state.currentWeek } },
+        createUndoPatch(state, appReducer(state, action), new Set(taskSplits.map(split => split.taskId)))
+      );
+      dispatch(action);
 
       return {
         success: true,
-        summary: result.summary,
+        summary,
+        rollbackId,
       };
     } catch (error) {
       return {
@@ -110,7 +177,33 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
-  }, [state.currentWeek, state.userSettings.weeklyCapacityHours, dispatch]);
+  }, [state, dispatch]);
+
+  // Revert the changes made by an applied suggestion, leaving everything else as it is now
+  const undoSuggestion = useCallback(async (rollbackId: string): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    try {
+      const rollbackService = RollbackService.getInstance();
+      const undoPatch = (await rollbackService.getRollbackPoint(rollbackId))?.undoPatch;
+      if (!undoPatch) {
+        throw new Error('This suggestion has already been undone or its rollback point has expired');
+      }
+
+      const action: AppAction = { type: 'APPLY_HISTORY_PATCH', payload: undoPatch };
+      permissionService.assertAllowed(action, state.userSettings.teamMembers);
+      dispatch(action);
+      await rollbackService.deleteRollbackPoint(rollbackId);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }, [state.userSettings.teamMembers, dispatch]);
 
   // Apply multiple suggestions
   const applyMultipleSuggestions = useCallback(async (
@@ -185,6 +278,9 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
     return workloadMetrics.isOverloaded || 
            workloadMetrics.dailyBreakdown.some(day => 
              day.isOverloaded && rebalancingOptions.workingDays.includes(day.dayName)
+           ) ||
+           workloadMetrics.memberBreakdown.some(member =>
+             member.dailyBreakdown.some(day => day.isOverloaded)
            );
   }, [workloadMetrics, rebalancingOptions.workingDays]);
 
@@ -209,6 +305,7 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
     lowPrioritySuggestions,
     dailyRedistributionSuggestions,
     channelRebalancingSuggestions,
+    reassignmentSuggestions,
     scopeReductionSuggestions,
     timelineExtensionSuggestions,
 
@@ -216,7 +313,9 @@ export const useRebalancingSuggestions = (options?: Partial<RebalancingOptions>)
     totalPotentialImpact,
 
     // Actions
+    previewSuggestion,
     applySuggestion,
+    undoSuggestion,
     applyMultipleSuggestions,
 
     // Configuration
@@ -1,6 +1,8 @@
 import { useCallback } from 'react';
 import { useAppContext } from '../context/AppContext';
+import { localStorageService } from '../services/localStorage';
 import { Task, WeeklySchedule, TaskStatus } from '../types';
+import { getWeekKey, shiftWeekKey } from '../utils/helpers';
 
 export const useSchedule = () => {
   const { state, dispatch } = useAppContext();
@@ -21,6 +23,39 @@ export const useSchedule = () => {
     dispatch({ type: 'SET_CURRENT_WEEK', payload: weekSchedule });
   }, [dispatch]);
 
+  /**
+   * Select a week, lazily loading it from storage the first time it is visited
+   */
+  const goToWeek = useCallback((weekKey: string) => {
+    if (!state.schedules[weekKey]) {
+      const storedWeek = localStorageService.getSchedule(weekKey);
+      if (storedWeek) {
+        dispatch({ type: 'LOAD_WEEK_SCHEDULES', payload: { [weekKey]: storedWeek } });
+      }
+    }
+    dispatch({ type: 'SET_SELECTED_WEEK', payload: weekKey });
+  }, [state.schedules, dispatch]);
+
+  const goToNextWeek = useCallback(() => {
+    goToWeek(shiftWeekKey(state.selectedWeekKey, 1));
+  }, [goToWeek, state.selectedWeekKey]);
+
+  const goToPreviousWeek = useCallback(() => {
+    goToWeek(shiftWeekKey(state.selectedWeekKey, -1));
+  }, [goToWeek, state.selectedWeekKey]);
+
+  const goToCurrentWeek = useCallback(() => {
+    goToWeek(getWeekKey(new Date()));
+  }, [goToWeek]);
+
+  const getTasksForWeek = useCallback((weekKey: string) => {
+    return state.schedules[weekKey]?.tasks ?? [];
+  }, [state.schedules]);
+
+  const getAllTasks = useCallback(() => {
+    return Object.values(state.schedules).flatMap(schedule => schedule.tasks);
+  }, [state.schedules]);
+
   const getTaskById = useCallback((id: string) => {
     return state.currentWeek.tasks.find(task => task.id === id);
   }, [state.currentWeek.tasks]);
@@ -70,11 +105,19 @@ export const useSchedule = () => {
 
   return {
     currentWeek: state.currentWeek,
+    selectedWeekKey: state.selectedWeekKey,
+    schedules: state.schedules,
     tasks: state.currentWeek.tasks,
     addTask,
     updateTask,
     deleteTask,
     setCurrentWeek,
+    goToWeek,
+    goToNextWeek,
+    goToPreviousWeek,
+    goToCurrentWeek,
+    getTasksForWeek,
+    getAllTasks,
     getTaskById,
     getTasksByChannel,
     getTasksByStatus,
@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { localStorageService } from '../services/localStorage';
+import { DateRange, ScheduleAnalytics } from '../services/scheduleAnalytics';
+import { WeeklySchedule } from '../types';
+
+/**
+ * Custom hook for analytics over every stored week, not only the weeks loaded in memory
+ */
+export const useScheduleAnalytics = () => {
+  const { state } = useAppContext();
+
+  // Loaded weeks are newer than what storage holds until the next save
+  const schedules = useMemo((): Record<string, WeeklySchedule> => ({
+    ...localStorageService.getSchedules(),
+    ...state.schedules,
+    [state.selectedWeekKey]: state.currentWeek,
+  }), [state.schedules, state.selectedWeekKey, state.currentWeek]);
+
+  const historyRange = useMemo(() => ScheduleAnalytics.getHistoryRange(schedules), [schedules]);
+
+  const getUtilizationTrend = useCallback((range: DateRange) => {
+    return ScheduleAnalytics.getUtilizationTrend(schedules, range);
+  }, [schedules]);
+
+  const getChannelCompletionTrend = useCallback((range: DateRange) => {
+    return ScheduleAnalytics.getChannelCompletionTrend(schedules, state.channels, range);
+  }, [schedules, state.channels]);
+
+  const getOverdueTrend = useCallback((range: DateRange) => {
+    return ScheduleAnalytics.getOverdueTrend(schedules, range);
+  }, [schedules]);
+
+  const getHoursByCategory = useCallback((range: DateRange) => {
+    return ScheduleAnalytics.getHoursByCategory(schedules, state.taskTemplates, range);
+  }, [schedules, state.taskTemplates]);
+
+  const getPostingCadence = useCallback((range: DateRange) => {
+    return ScheduleAnalytics.getPostingCadence(schedules, state.channels, range);
+  }, [schedules, state.channels]);
+
+  return {
+    historyRange,
+    getUtilizationTrend,
+    getChannelCompletionTrend,
+    getOverdueTrend,
+    getHoursByCategory,
+    getPostingCadence,
+  };
+};
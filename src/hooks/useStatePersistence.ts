@@ -2,6 +2,7 @@ import { useEffect, useCallback } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { localStorageService, LocalStorageError } from '../services/localStorage';
 import { AppState, WeeklySchedule } from '../types';
+import { getWeekKey } from '../utils/helpers';
 
 /**
  * Hook for managing state persistence with localStorage
@@ -10,15 +11,6 @@ import { AppState, WeeklySchedule } from '../types';
 export const useStatePersistence = () => {
   const { state, dispatch } = useAppContext();
 
-  /**
-   * Generate a week key for schedule storage
-   */
-  const getWeekKey = useCallback((date: Date): string => {
-    const startOfWeek = new Date(date);
-    startOfWeek.setDate(date.getDate() - date.getDay()); // Start of week (Sunday)
-    return startOfWeek.toISOString().split('T')[0]; // YYYY-MM-DD format
-  }, []);
-
   /**
    * Load initial state from localStorage
    */
@@ -44,6 +36,8 @@ export const useStatePersistence = () => {
         channels,
         templates,
         currentWeek,
+        schedules: { [currentWeekKey]: currentWeek },
+        selectedWeekKey: currentWeekKey,
         userSettings,
       };
     } catch (error) {
@@ -51,7 +45,7 @@ export const useStatePersistence = () => {
       dispatch({ type: 'ADD_ERROR', payload: 'Failed to load saved data. Using default settings.' });
       return {};
     }
-  }, [getWeekKey, dispatch]);
+  }, [dispatch]);
 
   /**
    * Save channels to localStorage
@@ -134,13 +128,12 @@ export const useStatePersistence = () => {
    */
   const saveCurrentWeek = useCallback(async () => {
     try {
-      const weekKey = getWeekKey(state.currentWeek.weekStartDate);
-      localStorageService.setSchedule(weekKey, state.currentWeek);
+      localStorageService.setSchedule(state.selectedWeekKey, state.currentWeek);
     } catch (error) {
       console.error('Failed to save current week schedule:', error);
       dispatch({ type: 'ADD_ERROR', payload: 'Failed to save schedule data.' });
     }
-  }, [state.currentWeek, getWeekKey, dispatch]);
+  }, [state.selectedWeekKey, state.currentWeek, dispatch]);
 
   /**
    * Save user settings to localStorage
@@ -166,7 +159,7 @@ export const useStatePersistence = () => {
       dispatch({ type: 'ADD_ERROR', payload: 'Failed to load schedule for selected week.' });
       return null;
     }
-  }, [getWeekKey, dispatch]);
+  }, [dispatch]);
 
   /**
    * Export all data as JSON
@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { enhancedPersistenceService } from '../services/enhancedPersistence';
+import { localStorageService } from '../services/localStorage';
+import { AppAction } from '../types';
+
+/**
+ * Custom hook for keeping loaded state and storage in step around imports that write storage directly
+ */
+export const useStorageSync = () => {
+  const { state, dispatchExternal } = useAppContext();
+
+  /**
+   * Write pending saves of loaded state, so imports read and merge with the latest data
+   */
+  const flushToStorage = useCallback(async () => {
+    await enhancedPersistenceService.flushPendingSaves();
+  }, []);
+
+  /**
+   * Replace loaded channels, templates and weeks with their stored versions
+   */
+  const reloadFromStorage = useCallback((parts: { channels?: boolean; templates?: boolean; schedules?: boolean }) => {
+    const actions: AppAction[] = [];
+
+    if (parts.channels) {
+      localStorageService.getChannels().forEach(channel => {
+        actions.push(state.channels.some(c => c.id === channel.id)
+          ? { type: 'UPDATE_CHANNEL', payload: { id: channel.id, updates: channel } }
+          : { type: 'ADD_CHANNEL', payload: channel });
+      });
+    }
+
+    if (parts.templates) {
+      localStorageService.getTaskTemplates().forEach(template => {
+        actions.push(state.taskTemplates.some(t => t.id === template.id)
+          ? { type: 'UPDATE_TASK_TEMPLATE', payload: { id: template.id, updates: template } }
+          : { type: 'ADD_TASK_TEMPLATE', payload: template });
+      });
+    }
+
+    if (parts.schedules) {
+      // Only loaded weeks need refreshing; other weeks load from storage when visited
+      const storedWeeks = localStorageService.getSchedules();
+      const loadedWeekKeys = new Set([...Object.keys(state.schedules), state.selectedWeekKey]);
+      actions.push({
+        type: 'RESTORE_WEEK_SCHEDULES',
+        payload: Object.fromEntries(Object.entries(storedWeeks).filter(([weekKey]) => loadedWeekKeys.has(weekKey))),
+      });
+    }
+
+    if (actions.length > 0) {
+      dispatchExternal({ type: 'BATCH_ACTIONS', payload: actions });
+    }
+  }, [state.channels, state.taskTemplates, state.schedules, state.selectedWeekKey, dispatchExternal]);
+
+  return {
+    flushToStorage,
+    reloadFromStorage,
+  };
+};
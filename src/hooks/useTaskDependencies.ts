@@ -0,0 +1,91 @@
+import { useCallback, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { TaskDependencyManager } from '../services/taskDependencies';
+import { Task } from '../types';
+
+/**
+ * Custom hook for managing task dependencies across all loaded weeks
+ */
+export const useTaskDependencies = () => {
+  const { state, dispatch } = useAppContext();
+
+  // Dependencies may point into any loaded week; the selected week is always current
+  const allTasks = useMemo(() => {
+    return Object.values({ ...state.schedules, [state.selectedWeekKey]: state.currentWeek })
+      .flatMap(schedule => schedule.tasks);
+  }, [state.schedules, state.selectedWeekKey, state.currentWeek]);
+
+  // Unfinished tasks mapped to the tasks they are waiting on
+  const blockedTasks = useMemo(() => {
+    return TaskDependencyManager.getBlockedTasks(allTasks);
+  }, [allTasks]);
+
+  // Tasks scheduled before a dependency ends, or caught in a dependency cycle
+  const dependencyViolations = useMemo(() => {
+    return TaskDependencyManager.findViolations(allTasks)
+      .filter(violation => violation.type !== 'missing_dependency');
+  }, [allTasks]);
+
+  const getBlockingTasks = useCallback((taskId: string): Task[] => {
+    return blockedTasks.get(taskId) ?? [];
+  }, [blockedTasks]);
+
+  const isTaskBlocked = useCallback((taskId: string): boolean => {
+    return blockedTasks.has(taskId);
+  }, [blockedTasks]);
+
+  /**
+   * Make a task wait on another. Throws if the dependency would create a cycle.
+   */
+  const addDependency = useCallback((taskId: string, dependencyId: string) => {
+    const task = allTasks.find(t => t.id === taskId);
+    if (!task) {
+      console.warn(`Task with id ${taskId} not found`);
+      return;
+    }
+
+    const dependsOn = TaskDependencyManager.addDependency(task, dependencyId, allTasks);
+    dispatch({ type: 'UPDATE_TASK', payload: { id: taskId, updates: { dependsOn } } });
+  }, [allTasks, dispatch]);
+
+  const removeDependency = useCallback((taskId: string, dependencyId: string) => {
+    const task = allTasks.find(t => t.id === taskId);
+    if (!task?.dependsOn?.includes(dependencyId)) return;
+
+    dispatch({
+      type: 'UPDATE_TASK',
+      payload: { id: taskId, updates: { dependsOn: task.dependsOn.filter(id => id !== dependencyId) } },
+    });
+  }, [allTasks, dispatch]);
+
+  /**
+   * Describe the ordering rules a task would break if it started at the given time
+   */
+  const checkPlacement = useCallback((taskId: string, newStart: Date): string[] => {
+    const task = allTasks.find(t => t.id === taskId);
+    if (!task) return [];
+
+    const dependencyMessages = TaskDependencyManager.getDependencies(task, allTasks)
+      .filter(dependency => newStart < new Date(dependency.scheduledEnd))
+      .map(dependency => `"${task.title}" would start before "${dependency.title}" ends`);
+
+    const dependentMessages = TaskDependencyManager.getDependents(taskId, allTasks)
+      .filter(dependent => {
+        const duration = new Date(task.scheduledEnd).getTime() - new Date(task.scheduledStart).getTime();
+        return new Date(dependent.scheduledStart).getTime() < newStart.getTime() + duration;
+      })
+      .map(dependent => `"${dependent.title}" would start before "${task.title}" ends`);
+
+    return [...dependencyMessages, ...dependentMessages];
+  }, [allTasks]);
+
+  return {
+    blockedTasks,
+    dependencyViolations,
+    getBlockingTasks,
+    isTaskBlocked,
+    addDependency,
+    removeDependency,
+    checkPlacement,
+  };
+};
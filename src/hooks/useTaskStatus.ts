@@ -1,6 +1,9 @@
 import { useCallback, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
+import { TaskDependencyManager } from '../services/taskDependencies';
 import { TaskStatusManager } from '../services/taskStatusManager';
+import { TaskSplitter } from '../services/taskSplitting';
+import { TaskStepTracker } from '../services/taskSteps';
 import { Task, TaskStatus } from '../types';
 
 /**
@@ -10,17 +13,47 @@ export const useTaskStatus = () => {
   const { state, dispatch } = useAppContext();
 
   /**
-   * Updates a task's status with automatic persistence
+   * Updates a task's status with automatic persistence.
+   * Returns the tasks that completing this task unblocks.
    */
   const updateTaskStatus = useCallback((
     taskId: string,
     newStatus: TaskStatus,
     actualHours?: number
-  ) => {
+  ): Task[] => {
     const task = state.currentWeek.tasks.find(t => t.id === taskId);
     if (!task) {
       console.warn(`Task with id ${taskId} not found`);
-      return;
+      return [];
+    }
+
+    const allTasks = Object.values({ ...state.schedules, [state.selectedWeekKey]: state.currentWeek })
+      .flatMap(schedule => schedule.tasks);
+
+    // Work cannot start until the tasks this one depends on are completed
+    if (newStatus !== 'planned' && TaskDependencyManager.isBlocked(task, allTasks)) {
+      const blockingTitles = TaskDependencyManager.getBlockingTasks(task, allTasks).map(t => t.title);
+      console.warn(`Task ${taskId} is waiting on: ${blockingTitles.join(', ')}`);
+      return [];
+    }
+
+    const unblockedTasks = newStatus === 'completed'
+      ? TaskDependencyManager.getTasksUnblockedBy(taskId, allTasks)
+      : [];
+
+    // A split task's status follows its parts, so the change is applied to them instead
+    if (TaskSplitter.isSplitParent(task)) {
+      const partUpdates = TaskStatusManager.updateSplitTaskStatus(
+        TaskSplitter.getParts(task, allTasks),
+        newStatus,
+        actualHours
+      );
+
+      dispatch({
+        type: 'BATCH_ACTIONS',
+        payload: partUpdates.map(payload => ({ type: 'UPDATE_TASK' as const, payload }))
+      });
+      return unblockedTasks;
     }
 
     const updates = TaskStatusManager.updateTaskStatus(task, newStatus, actualHours);
@@ -29,7 +62,52 @@ export const useTaskStatus = () => {
       type: 'UPDATE_TASK',
       payload: { id: taskId, updates }
     });
-  }, [state.currentWeek.tasks, dispatch]);
+
+    return unblockedTasks;
+  }, [state.currentWeek, state.schedules, state.selectedWeekKey, dispatch]);
+
+  /**
+   * Applies a workflow step change to a task. Blocked tasks cannot start steps.
+   */
+  const updateTaskStep = useCallback((
+    taskId: string,
+    getUpdates: (task: Task) => Partial<Task>
+  ): void => {
+    const task = state.currentWeek.tasks.find(t => t.id === taskId);
+    if (!task) {
+      console.warn(`Task with id ${taskId} not found`);
+      return;
+    }
+
+    const allTasks = Object.values({ ...state.schedules, [state.selectedWeekKey]: state.currentWeek })
+      .flatMap(schedule => schedule.tasks);
+
+    if (TaskDependencyManager.isBlocked(task, allTasks)) {
+      const blockingTitles = TaskDependencyManager.getBlockingTasks(task, allTasks).map(t => t.title);
+      console.warn(`Task ${taskId} is waiting on: ${blockingTitles.join(', ')}`);
+      return;
+    }
+
+    const updates = getUpdates(task);
+    if (Object.keys(updates).length === 0) return;
+
+    dispatch({
+      type: 'UPDATE_TASK',
+      payload: { id: taskId, updates }
+    });
+  }, [state.currentWeek, state.schedules, state.selectedWeekKey, dispatch]);
+
+  const startTaskStep = useCallback((taskId: string, stepIndex: number) => {
+    updateTaskStep(taskId, task => TaskStepTracker.startStep(task, stepIndex));
+  }, [updateTaskStep]);
+
+  const completeTaskStep = useCallback((taskId: string, stepIndex: number, actualHours?: number) => {
+    updateTaskStep(taskId, task => TaskStepTracker.completeStep(task, stepIndex, actualHours));
+  }, [updateTaskStep]);
+
+  const reopenTaskStep = useCallback((taskId: string, stepIndex: number) => {
+    updateTaskStep(taskId, task => TaskStepTracker.reopenStep(task, stepIndex));
+  }, [updateTaskStep]);
 
   /**
    * Gets completion rate for a specific channel
@@ -51,6 +129,16 @@ export const useTaskStatus = () => {
     );
   }, [state.currentWeek.tasks]);
 
+  /**
+   * Gets completed and total workflow steps for a channel
+   */
+  const getChannelStepStats = useCallback((channelId: string) => {
+    return TaskStatusManager.getChannelStepStats(
+      state.currentWeek.tasks,
+      channelId
+    );
+  }, [state.currentWeek.tasks]);
+
   /**
    * Gets tasks grouped by status
    */
@@ -106,8 +194,12 @@ export const useTaskStatus = () => {
 
   return {
     updateTaskStatus,
+    startTaskStep,
+    completeTaskStep,
+    reopenTaskStep,
     getChannelCompletionRate,
     getChannelTaskStats,
+    getChannelStepStats,
     getTasksByStatus,
     getTimeAccuracy,
     updateOverdueTasks,
@@ -0,0 +1,51 @@
+import { useCallback, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { TeamMember } from '../types';
+
+export const useTeamMembers = () => {
+  const { state, dispatch } = useAppContext();
+  const teamMembers = useMemo(() => state.userSettings.teamMembers ?? [], [state.userSettings.teamMembers]);
+
+  const addTeamMember = useCallback((member: TeamMember) => {
+    dispatch({ type: 'UPDATE_USER_SETTINGS', payload: { teamMembers: [...teamMembers, member] } });
+  }, [teamMembers, dispatch]);
+
+  const updateTeamMember = useCallback((id: string, updates: Partial<TeamMember>) => {
+    dispatch({
+      type: 'UPDATE_USER_SETTINGS',
+      payload: { teamMembers: teamMembers.map(member => (member.id === id ? { ...member, ...updates } : member)) },
+    });
+  }, [teamMembers, dispatch]);
+
+  // Removing someone unassigns their tasks in the loaded weeks; elsewhere the stale assignee counts as unassigned
+  const removeTeamMember = useCallback((id: string) => {
+    const assignedTasks = Object.values({ ...state.schedules, [state.selectedWeekKey]: state.currentWeek })
+      .flatMap(week => week.tasks)
+      .filter(task => task.assigneeId === id);
+
+    dispatch({
+      type: 'BATCH_ACTIONS',
+      payload: [
+        { type: 'UPDATE_USER_SETTINGS', payload: { teamMembers: teamMembers.filter(member => member.id !== id) } },
+        { type: 'UPDATE_TASKS', payload: assignedTasks.map(task => ({ id: task.id, updates: { assigneeId: undefined } })) },
+      ],
+    });
+  }, [teamMembers, state.schedules, state.selectedWeekKey, state.currentWeek, dispatch]);
+
+  const assignTask = useCallback((taskId: string, memberId: string | undefined) => {
+    dispatch({ type: 'UPDATE_TASK', payload: { id: taskId, updates: { assigneeId: memberId } } });
+  }, [dispatch]);
+
+  const getTeamMemberById = useCallback((id: string) => {
+    return teamMembers.find(member => member.id === id);
+  }, [teamMembers]);
+
+  return {
+    teamMembers,
+    addTeamMember,
+    updateTeamMember,
+    removeTeamMember,
+    assignTask,
+    getTeamMemberById,
+  };
+};
@@ -0,0 +1,89 @@
+import { useCallback, useMemo } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { TaskDependencyManager } from '../services/taskDependencies';
+import { TimeTracker } from '../services/timeTracking';
+import { AppAction, Task } from '../types';
+
+/**
+ * Custom hook for timing work on tasks across all loaded weeks
+ */
+export const useTimeTracker = () => {
+  const { state, dispatch } = useAppContext();
+
+  const allTasks = useMemo(() => {
+    return Object.values({ ...state.schedules, [state.selectedWeekKey]: state.currentWeek })
+      .flatMap(schedule => schedule.tasks);
+  }, [state.schedules, state.selectedWeekKey, state.currentWeek]);
+
+  // Tasks with a running or paused timer
+  const activeTimers = useMemo(() => TimeTracker.getActiveTimers(allTasks), [allTasks]);
+
+  const findTask = useCallback((taskId: string): Task | undefined => {
+    const task = allTasks.find(t => t.id === taskId);
+    if (!task) console.warn(`Task with id ${taskId} not found`);
+    return task;
+  }, [allTasks]);
+
+  const updateTask = useCallback((taskId: string, updates: Partial<Task>) => {
+    if (Object.keys(updates).length === 0) return;
+    dispatch({ type: 'UPDATE_TASK', payload: { id: taskId, updates } });
+  }, [dispatch]);
+
+  /**
+   * Start or resume a task's timer. Only one timer runs at a time, so any other running timer is paused.
+   */
+  const startTimer = useCallback((taskId: string): boolean => {
+    const task = findTask(taskId);
+    if (!task || !TimeTracker.canTrack(task)) return false;
+
+    if (TaskDependencyManager.isBlocked(task, allTasks)) {
+      const blockingTitles = TaskDependencyManager.getBlockingTasks(task, allTasks).map(t => t.title);
+      console.warn(`Task ${taskId} is waiting on: ${blockingTitles.join(', ')}`);
+      return false;
+    }
+
+    const now = new Date();
+    const actions: AppAction[] = activeTimers
+      .filter(other => other.id !== taskId && TimeTracker.getTimerState(other) === 'running')
+      .map(other => ({
+        type: 'UPDATE_TASK' as const,
+        payload: { id: other.id, updates: TimeTracker.pauseTimer(other, now) },
+      }));
+    actions.push({ type: 'UPDATE_TASK', payload: { id: taskId, updates: TimeTracker.startTimer(task, now) } });
+
+    dispatch({ type: 'BATCH_ACTIONS', payload: actions });
+    return true;
+  }, [findTask, allTasks, activeTimers, dispatch]);
+
+  const pauseTimer = useCallback((taskId: string) => {
+    const task = findTask(taskId);
+    if (task) updateTask(taskId, TimeTracker.pauseTimer(task));
+  }, [findTask, updateTask]);
+
+  const stopTimer = useCallback((taskId: string) => {
+    const task = findTask(taskId);
+    if (task) updateTask(taskId, TimeTracker.stopTimer(task));
+  }, [findTask, updateTask]);
+
+  /**
+   * Log time worked without the timer
+   */
+  const addTimeEntry = useCallback((taskId: string, startedAt: Date, endedAt: Date) => {
+    const task = findTask(taskId);
+    if (task) updateTask(taskId, TimeTracker.addEntry(task, startedAt, endedAt));
+  }, [findTask, updateTask]);
+
+  const removeTimeEntry = useCallback((taskId: string, entryId: string) => {
+    const task = findTask(taskId);
+    if (task) updateTask(taskId, TimeTracker.removeEntry(task, entryId));
+  }, [findTask, updateTask]);
+
+  return {
+    activeTimers,
+    startTimer,
+    pauseTimer,
+    stopTimer,
+    addTimeEntry,
+    removeTimeEntry,
+  };
+};
@@ -19,13 +19,15 @@ export const useWorkloadCalculation = () => {
     return WorkloadCalculationEngine.calculateWorkloadMetrics(
       state.currentWeek,
       state.channels,
-      dailyCapacity
+      dailyCapacity,
+      state.userSettings.teamMembers
     );
   }, [
     state.currentWeek,
     state.channels,
     state.userSettings.weeklyCapacityHours,
     state.userSettings.workingDays,
+    state.userSettings.teamMembers,
   ]);
 
   // Detect overload warnings
@@ -70,6 +72,13 @@ export const useWorkloadCalculation = () => {
     );
   }, [workloadMetrics.channelBreakdown]);
 
+  // Team members booked beyond their week or on any of their days
+  const overloadedMembers = useMemo(() => {
+    return workloadMetrics.memberBreakdown.filter(member =>
+      member.isOverloaded || member.dailyBreakdown.some(day => day.isOverloaded)
+    );
+  }, [workloadMetrics.memberBreakdown]);
+
   // Calculate workload distribution efficiency
   const workloadDistribution = useMemo(() => {
     const workingDays = workloadMetrics.dailyBreakdown.filter(day =>
@@ -103,18 +112,22 @@ export const useWorkloadCalculation = () => {
     // Analysis data
     mostOverloadedDay,
     busiestChannel,
+    overloadedMembers,
     workloadDistribution,
 
     // Utility functions
     getChannelWorkload: (channelId: string) => 
       workloadMetrics.channelBreakdown.find(channel => channel.channelId === channelId),
     
+    getMemberWorkload: (memberId: string) =>
+      workloadMetrics.memberBreakdown.find(member => member.memberId === memberId),
+
     getDayWorkload: (date: Date) =>
       workloadMetrics.dailyBreakdown.find(day => 
         day.date.toDateString() === date.toDateString()
       ),
 
-    getWarningsByType: (type: 'daily' | 'weekly' | 'channel') =>
+    getWarningsByType: (type: OverloadWarning['type']) =>
       overloadWarnings.filter(warning => warning.type === type),
 
     getWarningsBySeverity: (severity: 'low' | 'medium' | 'high') =>
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { ActionHistory, HistorySnapshot } from '../actionHistory';
+import { permissionService } from '../permissions';
+import { ErrorHandler } from '../errorHandling';
+import { AppProvider, useAppContext } from '../../context/AppContext';
+import { AppState, Channel, Task, TaskTemplate } from '../../types';
+import { getWeekKey } from '../../utils/helpers';
+
+describe('ActionHistory', () => {
+  const task: Task = {
+    id: 'task1',
+    channelId: 'c1',
+    title: 'Edit video',
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 15, 9),
+    scheduledEnd: new Date(2024, 0, 15, 11),
+    timeSlot: 'morning',
+    priority: 'medium',
+  };
+  const template = (id: string): TaskTemplate => ({
+    id,
+    title: `Template ${id}`,
+    description: '',
+    estimatedHours: 1,
+    category: 'production',
+    workflowSteps: [],
+    createdAt: new Date(2024, 0, 1),
+  });
+  const channel = (id: string): Channel => ({ id, name: `Channel ${id}`, isActive: true } as Channel);
+
+  const renderApp = () => renderHook(() => useAppContext(), {
+    wrapper: ({ children }: { children: ReactNode }) => createElement(AppProvider, null, children),
+  });
+
+  const findTask = (state: AppState, taskId: string) => {
+    for (const [weekKey, week] of Object.entries(state.schedules)) {
+      const found = week.tasks.find(t => t.id === taskId);
+      if (found) return { weekKey, task: found };
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    permissionService.setCurrentMemberId(null);
+  });
+
+  it('should group rapid edits of the same task into one entry', () => {
+    const snapshot = (tasks: Task[]): HistorySnapshot => ({
+      channels: [],
+      taskTemplates: [],
+      schedules: { '2024-01-15': { weekStartDate: new Date(2024, 0, 15), tasks, totalScheduledHours: 2, userCapacityHours: 40, isOverloaded: false } },
+      userSettings: { weeklyCapacityHours: 40, workingDays: [], workingHours: { start: '09:00', end: '17:00' } },
+    });
+    const move = (hour: number) => ({
+      type: 'UPDATE_TASK' as const,
+      payload: { id: 'task1', updates: { scheduledStart: new Date(2024, 0, 16, hour) } },
+    });
+    const s0 = snapshot([task]);
+    const s1 = snapshot([{ ...task, scheduledStart: new Date(2024, 0, 16, 10) }]);
+    const s2 = snapshot([{ ...task, scheduledStart: new Date(2024, 0, 16, 14) }]);
+
+    let history = ActionHistory.record(ActionHistory.createHistory(), move(10), s0, s1, false, 1000);
+    history = ActionHistory.record(history, move(14), s1, s2, true, 1500);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].actionCount).toBe(2);
+    expect(history.past[0].description).toMatch(/^Move task "Edit video" to /);
+    expect(ActionHistory.getUndoPatch(history)?.tasks.task1).toEqual({ task, weekKey: '2024-01-15' });
+
+    // Too late, or after something else changed state, starts a new entry
+    history = ActionHistory.record(history, move(10), s2, s1, true, 1500 + ActionHistory.GROUP_WINDOW_MS + 1);
+    expect(history.past).toHaveLength(2);
+    history = ActionHistory.record(history, move(14), s1, s2, false, 1500 + ActionHistory.GROUP_WINDOW_MS + 2);
+    expect(history.past).toHaveLength(3);
+
+    // Edits that end where they started leave nothing to undo
+    const moveBack = ActionHistory.record(ActionHistory.createHistory(), move(10), s0, s1, false, 0);
+    expect(ActionHistory.record(moveBack, move(9), s1, s0, true, 100).past).toEqual([]);
+  });
+
+  it('should undo and redo a deleted template in its original position', () => {
+    const { result } = renderApp();
+    act(() => {
+      ['t1', 't2', 't3'].forEach(id => result.current.dispatch({ type: 'ADD_TASK_TEMPLATE', payload: template(id) }));
+    });
+    act(() => {
+      result.current.dispatch({ type: 'DELETE_TASK_TEMPLATE', payload: 't2' });
+    });
+    expect(result.current.history.past.map(entry => entry.description)).toEqual([
+      'Add template "Template t1"',
+      'Add template "Template t2"',
+      'Add template "Template t3"',
+      'Delete template "Template t2"',
+    ]);
+
+    act(() => result.current.undo());
+    expect(result.current.state.taskTemplates.map(t => t.id)).toEqual(['t1', 't2', 't3']);
+    expect(result.current.history.future).toHaveLength(1);
+
+    act(() => result.current.redo());
+    expect(result.current.state.taskTemplates.map(t => t.id)).toEqual(['t1', 't3']);
+
+    // A new change clears what could be redone
+    act(() => result.current.undo());
+    act(() => {
+      result.current.dispatch({ type: 'ADD_CHANNEL', payload: channel('c1') });
+    });
+    expect(result.current.history.future).toEqual([]);
+  });
+
+  it('should move a task back to its week and leave other changes alone', () => {
+    const { result } = renderApp();
+    act(() => {
+      result.current.dispatch({ type: 'ADD_TASK', payload: task });
+    });
+    act(() => {
+      result.current.dispatch({
+        type: 'UPDATE_TASK',
+        payload: { id: 'task1', updates: { scheduledStart: new Date(2024, 0, 23, 9), scheduledEnd: new Date(2024, 0, 23, 11) } },
+      });
+      // Made elsewhere, so not recorded and not undone
+      result.current.dispatchExternal({ type: 'ADD_CHANNEL', payload: channel('remote') });
+      result.current.dispatch({ type: 'SET_ACTIVE_VIEW', payload: 'calendar' });
+    });
+    expect(findTask(result.current.state, 'task1')?.weekKey).toBe(getWeekKey(new Date(2024, 0, 23)));
+    expect(result.current.history.past).toHaveLength(2);
+
+    act(() => result.current.undo());
+    const restored = findTask(result.current.state, 'task1');
+    expect(restored?.weekKey).toBe(getWeekKey(new Date(2024, 0, 15)));
+    expect(restored?.task.scheduledStart).toEqual(task.scheduledStart);
+    expect(result.current.state.schedules[getWeekKey(new Date(2024, 0, 23))].totalScheduledHours).toBe(0);
+    expect(result.current.state.channels.map(c => c.id)).toEqual(['remote']);
+
+    act(() => result.current.undo());
+    expect(findTask(result.current.state, 'task1')).toBeUndefined();
+  });
+
+  it('should not let a member undo changes their role does not allow', () => {
+    const handleError = vi.spyOn(ErrorHandler.getInstance(), 'handleError');
+    const { result } = renderApp();
+    act(() => {
+      result.current.dispatch({ type: 'ADD_CHANNEL', payload: channel('c1') });
+    });
+    // Another tab makes someone else the only owner, so this browser becomes a viewer
+    act(() => {
+      result.current.dispatchExternal({
+        type: 'UPDATE_USER_SETTINGS',
+        payload: {
+          teamMembers: [{
+            id: 'olivia',
+            name: 'Olivia',
+            role: 'Channel Manager',
+            weeklyCapacityHours: 40,
+            workingDays: ['Monday'],
+            workingHours: { start: '09:00', end: '17:00' },
+            accessRole: 'owner',
+          }],
+        },
+      });
+    });
+
+    act(() => result.current.undo());
+    expect(result.current.state.channels.map(c => c.id)).toEqual(['c1']);
+    expect(result.current.history.past).toHaveLength(1);
+    expect(handleError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'PermissionError', message: 'As viewer you cannot add, change or delete channels' }),
+      expect.objectContaining({ action: 'APPLY_HISTORY_PATCH', role: 'viewer' })
+    );
+    handleError.mockRestore();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { auditLogService, getAuditChanges } from '../auditLog';
+import { HistorySnapshot } from '../actionHistory';
+import { permissionService } from '../permissions';
+import { AppProvider, useAppContext } from '../../context/AppContext';
+import { Channel, Task, TeamMember } from '../../types';
+import { STORAGE_KEYS } from '../../utils/constants';
+
+describe('AuditLogService', () => {
+  const task: Task = {
+    id: 'task1',
+    channelId: 'c1',
+    title: 'Edit video',
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date('2024-01-15T09:00:00Z'),
+    scheduledEnd: new Date('2024-01-15T11:00:00Z'),
+    timeSlot: 'morning',
+    priority: 'medium',
+  };
+  const channel = { id: 'c1', name: 'Cooking', isActive: true } as Channel;
+  const editor: TeamMember = {
+    id: 'eve',
+    name: 'Eve',
+    role: 'Editor',
+    weeklyCapacityHours: 40,
+    workingDays: ['Monday'],
+    workingHours: { start: '09:00', end: '17:00' },
+  };
+
+  const snapshot = (tasks: Task[], channels: Channel[] = [channel]): HistorySnapshot => ({
+    channels,
+    taskTemplates: [],
+    schedules: { '2024-01-15': { weekStartDate: new Date('2024-01-15'), tasks, totalScheduledHours: 2, userCapacityHours: 40, isOverloaded: false } },
+    userSettings: { weeklyCapacityHours: 40, workingDays: [], workingHours: { start: '09:00', end: '17:00' }, teamMembers: [editor] },
+  });
+  const movedTask = { ...task, scheduledStart: new Date('2024-01-19T09:00:00Z') };
+
+  beforeEach(() => {
+    auditLogService.flush();
+    localStorage.clear();
+    permissionService.setCurrentMemberId(null);
+  });
+
+  it('should record the fields that changed with their values before and after', () => {
+    expect(getAuditChanges(snapshot([task]), snapshot([movedTask]))).toEqual([{
+      entityType: 'task',
+      entityId: 'task1',
+      entityName: 'Edit video',
+      channelId: 'c1',
+      change: 'updated',
+      fields: ['scheduledStart'],
+      before: { scheduledStart: '2024-01-15T09:00:00.000Z' },
+      after: { scheduledStart: '2024-01-19T09:00:00.000Z' },
+    }]);
+
+    const changes = getAuditChanges(snapshot([task]), snapshot([], []));
+    expect(changes.map(change => [change.entityType, change.change])).toEqual([['channel', 'removed'], ['task', 'removed']]);
+    expect(getAuditChanges(snapshot([task]), snapshot([task]))).toEqual([]);
+  });
+
+  it('should filter events by channel, entity and actor and keep them across a flush', () => {
+    const hourAgo = Date.now() - 60 * 60 * 1000;
+    permissionService.setCurrentMemberId('eve');
+    auditLogService.record({
+      actionType: 'UPDATE_TASK',
+      description: 'Move task "Edit video"',
+      before: snapshot([task]),
+      after: snapshot([movedTask]),
+      timestamp: hourAgo,
+    });
+    permissionService.setCurrentMemberId(null);
+    auditLogService.record({
+      actionType: 'UPDATE_USER_SETTINGS',
+      description: 'Change settings',
+      before: snapshot([movedTask]),
+      after: { ...snapshot([movedTask]), userSettings: { ...snapshot([]).userSettings, weeklyCapacityHours: 30 } },
+      timestamp: hourAgo + 30 * 60 * 1000,
+    });
+    auditLogService.flush();
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS.AUDIT_LOG)!);
+    expect(stored).toHaveLength(2);
+    expect(auditLogService.getEvents().map(event => event.description)).toEqual(['Change settings', 'Move task "Edit video"']);
+
+    const [move] = auditLogService.getEvents({ entityType: 'channel', entityId: 'c1' });
+    expect(move).toMatchObject({ actorId: 'eve', actorName: 'Eve', timestamp: new Date(hourAgo).toISOString() });
+    expect(auditLogService.getEvents({ entityType: 'task', entityId: 'task1' })).toHaveLength(1);
+    expect(auditLogService.getEvents({ entityType: 'settings' })[0].actorName).toBe('Unidentified user');
+    expect(auditLogService.getEvents({ actorId: 'eve' })).toHaveLength(1);
+    expect(auditLogService.getEvents({ from: new Date(hourAgo + 1) })).toHaveLength(1);
+    expect(JSON.parse(auditLogService.exportLog({ actorId: 'eve' })).events).toHaveLength(1);
+  });
+
+  it('should prune events the retention policy no longer keeps', () => {
+    [1, 2, 3].forEach(day => auditLogService.record({
+      actionType: 'UPDATE_TASK',
+      description: `Edit ${day}`,
+      before: snapshot([task]),
+      after: snapshot([{ ...task, notes: `Day ${day}` }]),
+      timestamp: Date.parse(`2024-01-0${day}T12:00:00Z`),
+    }));
+
+    expect(auditLogService.setRetentionPolicy({ maxAgeDays: null, maxEvents: 2 })).toBe(1);
+    expect(auditLogService.getEvents().map(event => event.description)).toEqual(['Edit 3', 'Edit 2']);
+
+    localStorage.setItem(STORAGE_KEYS.AUDIT_RETENTION, JSON.stringify({ maxAgeDays: 1, maxEvents: null }));
+    expect(auditLogService.prune(new Date('2024-01-03T18:00:00Z'))).toBe(1);
+    expect(auditLogService.getEvents().map(event => event.description)).toEqual(['Edit 3']);
+  });
+
+  it('should audit changes dispatched here, including undo, but not external ones', () => {
+    const { result } = renderHook(() => useAppContext(), {
+      wrapper: ({ children }: { children: ReactNode }) => createElement(AppProvider, null, children),
+    });
+    act(() => {
+      result.current.dispatch({ type: 'ADD_CHANNEL', payload: channel });
+      result.current.dispatchExternal({ type: 'ADD_CHANNEL', payload: { ...channel, id: 'c2', name: 'Travel' } });
+    });
+    act(() => result.current.undo());
+
+    expect(auditLogService.getEvents().map(event => [event.actionType, event.description])).toEqual([
+      ['UNDO', 'Undo: Add channel "Cooking"'],
+      ['ADD_CHANNEL', 'Add channel "Cooking"'],
+    ]);
+    expect(auditLogService.getEvents()[0].changes[0]).toMatchObject({ entityId: 'c1', change: 'removed' });
+  });
+});
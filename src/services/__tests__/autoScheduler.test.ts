@@ -0,0 +1,265 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AutoScheduler, SchedulerSettings } from '../autoScheduler';
+import { BusinessRuleValidator, ValidationError } from '../validation';
+import { Task, WeeklySchedule } from '../../types';
+
+describe('AutoScheduler', () => {
+  // Week of Monday 2024-01-08
+  const weekStartDate = new Date(2024, 0, 8);
+
+  const settings: SchedulerSettings = {
+    weeklyCapacityHours: 20,
+    workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    workingHours: { start: '09:00', end: '17:00' },
+  };
+
+  const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    channelId: 'channel1',
+    title: `Task ${id}`,
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 11),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  const createSchedule = (tasks: Task[]): WeeklySchedule => ({
+    weekStartDate,
+    tasks,
+    totalScheduledHours: tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
+    userCapacityHours: settings.weeklyCapacityHours,
+    isOverloaded: false,
+  });
+
+  describe('findTasksNeedingPlacement', () => {
+    it('should keep tasks that already fit', () => {
+      const tasks = [
+        createTask('1'),
+        createTask('2', { scheduledStart: new Date(2024, 0, 8, 11), scheduledEnd: new Date(2024, 0, 8, 13) }),
+      ];
+
+      expect(AutoScheduler.findTasksNeedingPlacement(tasks, weekStartDate, settings)).toEqual([]);
+    });
+
+    it('should move the lower priority task of a conflict', () => {
+      const tasks = [createTask('low', { priority: 'low' }), createTask('high', { priority: 'high' })];
+
+      const result = AutoScheduler.findTasksNeedingPlacement(tasks, weekStartDate, settings);
+
+      expect(result.map(task => task.id)).toEqual(['low']);
+    });
+
+    it('should flag tasks outside working days or hours', () => {
+      const tasks = [
+        createTask('weekend', { scheduledStart: new Date(2024, 0, 13, 10), scheduledEnd: new Date(2024, 0, 13, 12) }),
+        createTask('late', { scheduledStart: new Date(2024, 0, 9, 16), scheduledEnd: new Date(2024, 0, 9, 18) }),
+      ];
+
+      const result = AutoScheduler.findTasksNeedingPlacement(tasks, weekStartDate, settings);
+
+      expect(result.map(task => task.id).sort()).toEqual(['late', 'weekend']);
+    });
+
+    it('should flag tasks that push a day over daily capacity', () => {
+      // Daily capacity is 20h / 5 days = 4h
+      const tasks = [
+        createTask('1'),
+        createTask('2', { scheduledStart: new Date(2024, 0, 8, 11), scheduledEnd: new Date(2024, 0, 8, 13) }),
+        createTask('3', { scheduledStart: new Date(2024, 0, 8, 13), scheduledEnd: new Date(2024, 0, 8, 15) }),
+      ];
+
+      const result = AutoScheduler.findTasksNeedingPlacement(tasks, weekStartDate, settings);
+
+      expect(result.map(task => task.id)).toEqual(['3']);
+    });
+
+    it('should flag tasks that start before a dependency ends', () => {
+      const tasks = [
+        createTask('record', { priority: 'low', scheduledStart: new Date(2024, 0, 9, 9), scheduledEnd: new Date(2024, 0, 9, 11) }),
+        createTask('edit', { priority: 'high', dependsOn: ['record'] }),
+      ];
+
+      const result = AutoScheduler.findTasksNeedingPlacement(tasks, weekStartDate, settings);
+
+      expect(result.map(task => task.id)).toEqual(['edit']);
+    });
+
+    it('should never move tasks that are in progress or completed', () => {
+      const tasks = [
+        createTask('started', { status: 'in-progress', scheduledStart: new Date(2024, 0, 13, 10), scheduledEnd: new Date(2024, 0, 13, 12) }),
+        createTask('done', { status: 'completed' }),
+      ];
+
+      expect(AutoScheduler.findTasksNeedingPlacement(tasks, weekStartDate, settings)).toEqual([]);
+    });
+  });
+
+  describe('scheduleTasks', () => {
+    it('should place tasks within working hours without conflicts', () => {
+      const fixed = [createTask('fixed', { status: 'in-progress' })];
+      const toPlace = [createTask('a'), createTask('b'), createTask('c')];
+
+      const result = AutoScheduler.scheduleTasks(toPlace, fixed, weekStartDate, settings);
+
+      expect(result.unplacedTasks).toEqual([]);
+      expect(result.placedTasks).toHaveLength(3);
+      expect(BusinessRuleValidator.checkSchedulingConflicts([...fixed, ...result.placedTasks])).toEqual([]);
+      result.placedTasks.forEach(task => {
+        expect(task.scheduledStart.getHours()).toBeGreaterThanOrEqual(9);
+        expect(task.scheduledEnd.getHours() + task.scheduledEnd.getMinutes() / 60).toBeLessThanOrEqual(17);
+      });
+    });
+
+    it('should respect daily capacity and spill onto following days', () => {
+      const toPlace = [createTask('a'), createTask('b'), createTask('c')];
+
+      const result = AutoScheduler.scheduleTasks(toPlace, [], weekStartDate, settings);
+      const days = result.placedTasks.map(task => task.scheduledStart.getDate());
+
+      expect(days.filter(day => day === 8)).toHaveLength(2);
+      expect(days.filter(day => day === 9)).toHaveLength(1);
+    });
+
+    it('should prefer the task time slot and update the time slot from the start', () => {
+      const toPlace = [createTask('a', { timeSlot: 'afternoon' })];
+
+      const [placed] = AutoScheduler.scheduleTasks(toPlace, [], weekStartDate, settings).placedTasks;
+
+      expect(placed.scheduledStart.getHours()).toBe(12);
+      expect(placed.timeSlot).toBe('afternoon');
+    });
+
+    it('should fall back to other slots when the preferred slot is full', () => {
+      const fixed = [
+        createTask('busy', {
+          status: 'in-progress',
+          estimatedHours: 0,
+          scheduledStart: new Date(2024, 0, 8, 12),
+          scheduledEnd: new Date(2024, 0, 8, 17),
+        }),
+      ];
+      const workdaySettings = { ...settings, workingDays: ['Monday'], weeklyCapacityHours: 8 };
+
+      const [placed] = AutoScheduler.scheduleTasks(
+        [createTask('a', { timeSlot: 'afternoon' })],
+        fixed,
+        weekStartDate,
+        workdaySettings
+      ).placedTasks;
+
+      expect(placed.scheduledStart.getHours()).toBe(9);
+      expect(placed.timeSlot).toBe('morning');
+    });
+
+    it('should place higher priority tasks first', () => {
+      const onlyMonday = { ...settings, workingDays: ['Monday'], weeklyCapacityHours: 2 };
+      const toPlace = [createTask('low', { priority: 'low' }), createTask('high', { priority: 'high' })];
+
+      const result = AutoScheduler.scheduleTasks(toPlace, [], weekStartDate, onlyMonday);
+
+      expect(result.placedTasks.map(task => task.id)).toEqual(['high']);
+      expect(result.unplacedTasks.map(({ task }) => task.id)).toEqual(['low']);
+      expect(result.unplacedTasks[0].reason).toBe('capacity_full');
+    });
+
+    it('should place tasks after the tasks they depend on', () => {
+      const toPlace = [
+        createTask('publish', { priority: 'high', estimatedHours: 1, dependsOn: ['edit'] }),
+        createTask('edit', { priority: 'high', dependsOn: ['record'] }),
+      ];
+      const fixed = [createTask('record', { status: 'in-progress', scheduledStart: new Date(2024, 0, 9, 9), scheduledEnd: new Date(2024, 0, 9, 11) })];
+
+      const result = AutoScheduler.scheduleTasks(toPlace, fixed, weekStartDate, settings);
+      const placed = new Map(result.placedTasks.map(task => [task.id, task]));
+
+      expect(placed.get('edit')!.scheduledStart).toEqual(new Date(2024, 0, 9, 11));
+      expect(placed.get('publish')!.scheduledStart.getTime()).toBeGreaterThanOrEqual(placed.get('edit')!.scheduledEnd.getTime());
+    });
+
+    it('should not place tasks whose dependency could not be placed', () => {
+      const onlyMonday = { ...settings, workingDays: ['Monday'], weeklyCapacityHours: 2 };
+      const toPlace = [
+        createTask('record', { estimatedHours: 3 }),
+        createTask('edit', { estimatedHours: 1, dependsOn: ['record'] }),
+      ];
+
+      const result = AutoScheduler.scheduleTasks(toPlace, [], weekStartDate, onlyMonday);
+
+      expect(result.unplacedTasks.map(({ task, reason }) => [task.id, reason])).toEqual([
+        ['record', 'exceeds_daily_capacity'],
+        ['edit', 'dependency_unplaced'],
+      ]);
+    });
+
+    it('should not place tasks before the earliest start', () => {
+      const result = AutoScheduler.scheduleTasks([createTask('a')], [], weekStartDate, settings, {
+        earliestStart: new Date(2024, 0, 10, 14, 30),
+      });
+
+      expect(result.placedTasks[0].scheduledStart).toEqual(new Date(2024, 0, 10, 14, 30));
+    });
+
+    it('should skip slots the business rules report as conflicts', () => {
+      // A rule stricter than plain overlap: tasks may not run back to back
+      const checkOverlap = BusinessRuleValidator.checkSchedulingConflicts;
+      vi.spyOn(BusinessRuleValidator, 'checkSchedulingConflicts').mockImplementation(([a, b]) => {
+        const backToBack = a.scheduledEnd.getTime() === b.scheduledStart.getTime()
+          || b.scheduledEnd.getTime() === a.scheduledStart.getTime();
+        return backToBack ? [new ValidationError('No break between tasks', 'scheduling_conflict')] : checkOverlap([a, b]);
+      });
+      const fixed = [createTask('fixed', {
+        status: 'in-progress',
+        estimatedHours: 1,
+        scheduledEnd: new Date(2024, 0, 8, 10),
+      })];
+
+      try {
+        const [placed] = AutoScheduler.scheduleTasks([createTask('a')], fixed, weekStartDate, settings).placedTasks;
+
+        // 10:00 on Monday does not overlap the fixed task, but follows it without a break
+        expect(placed.scheduledStart).toEqual(new Date(2024, 0, 9, 9));
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+
+    it('should explain why tasks could not be placed', () => {
+      const noDays = AutoScheduler.scheduleTasks([createTask('a')], [], weekStartDate, { ...settings, workingDays: [] });
+      const tooLong = AutoScheduler.scheduleTasks([createTask('a', { estimatedHours: 9 })], [], weekStartDate, settings);
+      const overCapacity = AutoScheduler.scheduleTasks([createTask('a', { estimatedHours: 5 })], [], weekStartDate, settings);
+      const noTimeLeft = AutoScheduler.scheduleTasks([createTask('a')], [], weekStartDate, settings, {
+        earliestStart: new Date(2024, 0, 12, 16),
+      });
+
+      expect(noDays.unplacedTasks[0].reason).toBe('no_working_days');
+      expect(tooLong.unplacedTasks[0].reason).toBe('exceeds_working_hours');
+      expect(overCapacity.unplacedTasks[0].reason).toBe('exceeds_daily_capacity');
+      expect(overCapacity.unplacedTasks[0].message).toContain('4.0h');
+      expect(noTimeLeft.unplacedTasks[0].reason).toBe('no_free_slot');
+    });
+  });
+
+  describe('autoScheduleWeek', () => {
+    it('should resolve tasks generated at the same posting time', () => {
+      const tasks = [
+        createTask('a', { priority: 'high' }),
+        createTask('b'),
+        createTask('c', { estimatedHours: 1, scheduledEnd: new Date(2024, 0, 8, 10) }),
+      ];
+
+      const result = AutoScheduler.autoScheduleWeek(createSchedule(tasks), settings);
+      const placedIds = new Set(result.placedTasks.map(task => task.id));
+      const finalTasks = [
+        ...tasks.filter(task => !placedIds.has(task.id)),
+        ...result.placedTasks,
+      ];
+
+      expect(placedIds.has('a')).toBe(false);
+      expect(result.unplacedTasks).toEqual([]);
+      expect(BusinessRuleValidator.checkSchedulingConflicts(finalTasks)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { BackupDiffer } from '../backupDiff';
+import { BackupData, DataBackupService } from '../dataBackup';
+import { AppProvider, useAppContext } from '../../context/AppContext';
+import { useBackupDiff } from '../../hooks/useBackupDiff';
+import { Channel, Task, TaskTemplate } from '../../types';
+import { APP_VERSION, STORAGE_KEYS } from '../../utils/constants';
+
+describe('BackupDiffer', () => {
+  const cooking = { id: 'c1', name: 'Cooking', isActive: true } as Channel;
+  const travel = { id: 'c2', name: 'Travel', isActive: true } as Channel;
+  const template = { id: 't1', title: 'Script', estimatedHours: 2, category: 'production' } as TaskTemplate;
+  const task: Task = {
+    id: 'task1',
+    channelId: 'c1',
+    title: 'Edit video',
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date('2024-01-15T09:00:00Z'),
+    scheduledEnd: new Date('2024-01-15T11:00:00Z'),
+    timeSlot: 'morning',
+    priority: 'medium',
+  };
+  const settings = { weeklyCapacityHours: 40, workingDays: [], workingHours: { start: '09:00', end: '17:00' } };
+
+  const backup = (channels: Channel[], templates: TaskTemplate[], tasks: Record<string, Task[]>, extra: Partial<BackupData> = {}): BackupData => ({
+    version: APP_VERSION,
+    timestamp: new Date('2024-01-20T12:00:00Z'),
+    channels,
+    templates,
+    schedules: Object.fromEntries(Object.entries(tasks).map(([weekKey, weekTasks]) => [
+      weekKey,
+      { weekStartDate: new Date(weekKey), tasks: weekTasks, totalScheduledHours: 0, userCapacityHours: 40, isOverloaded: false },
+    ])),
+    userSettings: settings,
+    domains: ['channels', 'templates', 'schedules', 'userSettings'],
+    ...extra,
+  });
+
+  it('should list entities added, removed and changed between two backups', () => {
+    const older = backup([cooking], [template], { '2024-01-15': [task] });
+    const newer = backup([{ ...cooking, name: 'Baking' }, travel], [], { '2024-01-22': [{ ...task, status: 'completed' }] });
+
+    const diff = BackupDiffer.compare(older, newer);
+    expect(diff.counts).toEqual({ added: 1, removed: 1, updated: 2 });
+    expect(diff.changes.map(change => [change.entityType, change.entityId, change.change, change.fields])).toEqual([
+      ['channel', 'c1', 'updated', ['name']],
+      ['channel', 'c2', 'added', undefined],
+      ['template', 't1', 'removed', undefined],
+      ['task', 'task1', 'updated', ['status']],
+    ]);
+    expect(BackupDiffer.compare(older, older).changes).toEqual([]);
+  });
+
+  it('should leave out domains an older backup did not capture', () => {
+    const legacy = backup([cooking], [], {}, { domains: undefined });
+    const current = backup([cooking], [template], {});
+
+    const diff = BackupDiffer.compare(legacy, current);
+    expect(diff.comparedDomains).toEqual(['channels', 'schedules', 'userSettings']);
+    expect(diff.changes).toEqual([]);
+  });
+
+  it('should restore selected entities as the backup holds them and remove later additions', () => {
+    const older = backup([cooking], [template], { '2024-01-15': [task] });
+    const patch = BackupDiffer.createRestorePatch(older, { channels: ['c1', 'c2'], templates: [], tasks: ['task1'] });
+
+    expect(patch).toEqual({
+      channels: { c1: { channel: cooking, index: 0 }, c2: null },
+      taskTemplates: {},
+      tasks: { task1: { task, weekKey: '2024-01-15' } },
+    });
+
+    const diff = BackupDiffer.compare(older, backup([travel], [template], { '2024-01-15': [task] }));
+    const selection = BackupDiffer.createSelection(diff.changes.filter(change => change.entityId === 'c2'));
+    expect(BackupDiffer.excludeSelection(diff, selection).changes.map(change => change.entityId)).toEqual(['c1']);
+  });
+
+  describe('restoring through the app', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should apply a selective restore as one undoable change', async () => {
+      const { result } = renderHook(() => ({ app: useAppContext(), backups: useBackupDiff() }), {
+        wrapper: ({ children }: { children: ReactNode }) => createElement(AppProvider, null, children),
+      });
+      act(() => {
+        result.current.app.dispatchExternal({ type: 'ADD_CHANNEL', payload: cooking });
+      });
+      localStorage.setItem(STORAGE_KEYS.CHANNELS, JSON.stringify([cooking]));
+      const backupId = await DataBackupService.getInstance().createBackup('Before travel');
+      act(() => {
+        result.current.app.dispatch({ type: 'UPDATE_CHANNEL', payload: { id: 'c1', updates: { name: 'Baking' } } });
+        result.current.app.dispatch({ type: 'ADD_CHANNEL', payload: travel });
+      });
+
+      await act(async () => {
+        expect(await result.current.backups.restoreEntities(backupId, { channels: ['c1'], templates: [], tasks: [] })).toBe(1);
+      });
+      expect(result.current.app.state.channels.map(channel => channel.name)).toEqual(['Cooking', 'Travel']);
+      expect(result.current.app.history.past[result.current.app.history.past.length - 1].description)
+        .toMatch(/^Restore 1 item\(s\) from the backup of /);
+
+      act(() => result.current.app.undo());
+      expect(result.current.app.state.channels.map(channel => channel.name)).toEqual(['Baking', 'Travel']);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BackupRetention, DEFAULT_BACKUP_POLICY, RetainedBackup } from '../backupPolicy';
+import { DataBackupService } from '../dataBackup';
+import { dataExportService } from '../dataExport';
+import { STORAGE_KEYS } from '../../utils/constants';
+import { compressText, decompressText, isCompressedText } from '../../utils/compression';
+
+describe('BackupRetention', () => {
+  const policy = { ...DEFAULT_BACKUP_POLICY, retention: { hourly: 2, daily: 2, weekly: 2, manual: 1 } };
+
+  // Local times, so hour and day boundaries do not depend on the machine's time zone
+  const automatic = (id: string, time: string, size = 100): RetainedBackup => ({
+    id,
+    timestamp: new Date(time).toISOString(),
+    size,
+    automatic: true,
+  });
+
+  it('should keep the newest automatic backup of each recent hour, day and week', () => {
+    const backups = [
+      automatic('now', '2024-01-17T10:40:00'),
+      automatic('same-hour', '2024-01-17T10:05:00'),
+      automatic('hour-before', '2024-01-17T09:30:00'),
+      automatic('earlier-today', '2024-01-17T08:00:00'),
+      automatic('yesterday', '2024-01-16T18:00:00'),
+      automatic('day-before', '2024-01-15T18:00:00'),
+      automatic('last-week', '2024-01-10T12:00:00'),
+      automatic('weeks-ago', '2024-01-03T12:00:00'),
+      { id: 'manual', timestamp: '2024-01-01T12:00:00.000Z', size: 100, description: 'Manual backup' },
+      { id: 'old-manual', timestamp: '2023-12-01T12:00:00.000Z', size: 100, description: 'Manual backup' },
+    ];
+
+    const tiers = BackupRetention.assignTiers(backups, policy);
+    expect(Object.fromEntries(tiers)).toEqual({
+      now: 'hourly',
+      'same-hour': null,
+      'hour-before': 'hourly',
+      'earlier-today': null,
+      yesterday: 'daily',
+      'day-before': null,
+      'last-week': 'weekly',
+      'weeks-ago': null,
+      manual: 'manual',
+      'old-manual': null,
+    });
+  });
+
+  it('should treat backups from before retention tiers as automatic by their description', () => {
+    const legacy = { id: 'legacy', timestamp: '2024-01-17T10:00:00.000Z', size: 100, description: 'Auto-backup (scheduled)' };
+    expect(BackupRetention.isAutomatic(legacy)).toBe(true);
+    expect(BackupRetention.isAutomatic({ ...legacy, description: 'Auto-backup before restore from 1' })).toBe(false);
+  });
+
+  it('should remove the oldest backups, automatic first, until the size cap is met', () => {
+    const backups = [
+      automatic('newest', '2024-01-17T10:00:00', 600),
+      automatic('older', '2024-01-17T09:00:00', 600),
+      { id: 'manual', timestamp: '2024-01-01T12:00:00.000Z', size: 500 },
+    ];
+
+    const tiers = BackupRetention.assignTiers(backups, { ...policy, maxTotalKB: 1 });
+    expect(Object.fromEntries(tiers)).toEqual({ newest: 'hourly', older: null, manual: null });
+
+    const usage = BackupRetention.getTierUsage(backups, { ...policy, maxTotalKB: 1 });
+    expect(usage.hourly).toEqual({ count: 1, size: 600 });
+    expect(usage.manual).toEqual({ count: 0, size: 0 });
+  });
+});
+
+describe('backup compression', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should round-trip text, including characters outside the basic range', () => {
+    const text = JSON.stringify({ title: 'Café ☕ 🎬', repeated: 'abcabcabcabcabcabc'.repeat(50), empty: '' });
+    const compressed = compressText(text);
+
+    expect(isCompressedText(compressed)).toBe(true);
+    expect(compressed.length).toBeLessThan(text.length / 2);
+    expect(decompressText(compressed)).toBe(text);
+    expect(decompressText(text)).toBe(text);
+    expect(decompressText(compressText(''))).toBe('');
+  });
+
+  it('should store compressed backups when the policy asks for it and read them back', async () => {
+    const backupService = DataBackupService.getInstance();
+    const channels = Array.from({ length: 20 }, (_, i) => ({ id: `c${i}`, name: `Channel ${i}`, isActive: true }));
+    localStorage.setItem(STORAGE_KEYS.CHANNELS, JSON.stringify(channels));
+    backupService.setPolicy({ ...DEFAULT_BACKUP_POLICY, compress: true });
+
+    const backupId = await backupService.createBackup('Manual backup');
+    const [metadata] = backupService.getBackupList();
+
+    expect(isCompressedText(localStorage.getItem(STORAGE_KEYS.BACKUP_PREFIX + backupId)!)).toBe(true);
+    expect(metadata).toMatchObject({ id: backupId, compressed: true });
+    expect(metadata.size).toBeLessThan(JSON.stringify(backupService.captureBackupData()).length);
+    expect(backupService.getBackupDetails(backupId)!.channels).toEqual(channels);
+    expect(backupService.getTierUsage().manual).toEqual({ count: 1, size: metadata.size });
+  });
+});
+
+describe('pre-import backups', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should be kept or pruned by the retention policy along with the other backups', async () => {
+    const backupService = DataBackupService.getInstance();
+    backupService.setPolicy({ ...DEFAULT_BACKUP_POLICY, retention: { ...DEFAULT_BACKUP_POLICY.retention, manual: 2 } });
+    await backupService.createBackup('Manual backup');
+    await backupService.createBackup('Manual backup');
+
+    const exported = dataExportService.exportData();
+    await dataExportService.importData(exported, { mergeMode: 'merge', validateData: true, createBackup: true });
+    const backups = backupService.getBackupList();
+
+    expect(backups).toHaveLength(2);
+    expect(backups.map(backup => backup.description)).toContain('Before import');
+    expect(Object.keys(localStorage).filter(key => key.startsWith(STORAGE_KEYS.BACKUP_PREFIX))).toHaveLength(3);
+    backups.forEach(backup => expect(localStorage.getItem(STORAGE_KEYS.BACKUP_PREFIX + backup.id)).not.toBeNull());
+  });
+});
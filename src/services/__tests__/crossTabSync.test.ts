@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { crossTabSyncService, serializeEntity, SyncMessage } from '../crossTabSync';
+import { debouncedLocalStorageService } from '../debouncedLocalStorage';
+import { localStorageService } from '../localStorage';
+import { AppState, Channel } from '../../types';
+import { STORAGE_KEYS } from '../../utils/constants';
+
+describe('CrossTabSyncService', () => {
+  const channel = (id: string, name: string) => ({ id, name, contentType: 'General' }) as unknown as Channel;
+
+  const createState = (channels: Channel[]): AppState => ({
+    channels,
+    taskTemplates: [],
+    currentWeek: {
+      weekStartDate: new Date(2024, 0, 8),
+      tasks: [],
+      totalScheduledHours: 0,
+      userCapacityHours: 40,
+      isOverloaded: false,
+    },
+    schedules: {},
+    selectedWeekKey: '2024-01-08',
+    selectedChannelId: undefined,
+    userSettings: {
+      weeklyCapacityHours: 40,
+      workingDays: ['Monday'],
+      workingHours: { start: '09:00', end: '17:00' },
+    },
+    ui: { activeView: 'dashboard', isLoading: false, errors: [] },
+  });
+
+  // Stands in for the same app open in another tab
+  let otherTab: BroadcastChannel;
+
+  beforeEach(() => {
+    localStorage.clear();
+    otherTab = new BroadcastChannel('mcm_sync');
+  });
+
+  afterEach(() => {
+    otherTab.close();
+    crossTabSyncService.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it('should save only changed channels, keeping channels another tab added', async () => {
+    const a = channel('a', 'Alpha');
+    const b = channel('b', 'Beta');
+    localStorage.setItem(STORAGE_KEYS.CHANNELS, JSON.stringify([a, b]));
+    crossTabSyncService.start(createState([a, b]));
+
+    // Another tab saves a new channel after this one loaded
+    localStorageService.addChannel(channel('c', 'Gamma'));
+
+    debouncedLocalStorageService.debouncedUpdateChannels([{ ...a, name: 'Alpha 2' }]);
+    await debouncedLocalStorageService.flushPendingUpdates();
+
+    expect(localStorageService.getChannels().map(c => [c.id, c.name])).toEqual([['a', 'Alpha 2'], ['c', 'Gamma']]);
+  });
+
+  it('should broadcast saved changes with the version they replace', async () => {
+    const a = channel('a', 'Alpha');
+    crossTabSyncService.start(createState([a]));
+    const received = new Promise<SyncMessage>(resolve => {
+      otherTab.onmessage = event => resolve(event.data);
+    });
+
+    debouncedLocalStorageService.debouncedUpdateChannels([{ ...a, name: 'Alpha 2' }]);
+    await debouncedLocalStorageService.flushPendingUpdates();
+
+    expect(await received).toMatchObject({
+      tabId: crossTabSyncService.getTabId(),
+      domain: 'channels',
+      changes: [{ id: 'a', value: serializeEntity({ ...a, name: 'Alpha 2' }), base: serializeEntity(a) }],
+    });
+  });
+
+  it('should deliver changes from other tabs and treat them as synced', async () => {
+    const a = channel('a', 'Alpha');
+    crossTabSyncService.start(createState([a]));
+    const listener = vi.fn();
+    crossTabSyncService.subscribe(listener);
+
+    const message: SyncMessage = {
+      tabId: 'other-tab',
+      sentAt: Date.now(),
+      domain: 'channels',
+      changes: [{ id: 'a', value: serializeEntity({ ...a, name: 'Renamed' }), base: serializeEntity(a) }],
+    };
+    otherTab.postMessage(message);
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(message));
+    expect(crossTabSyncService.getChanges('channels', { a: { ...a, name: 'Renamed' } })).toEqual([]);
+  });
+
+  it('should fall back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    crossTabSyncService.start(createState([]));
+    const listener = vi.fn();
+    crossTabSyncService.subscribe(listener);
+
+    const message: SyncMessage = { tabId: 'other-tab', sentAt: Date.now(), domain: 'userSettings', changes: [] };
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEYS.SYNC_MESSAGE, newValue: JSON.stringify(message) }));
+
+    return vi.waitFor(() => expect(listener).toHaveBeenCalledWith(message));
+  });
+
+  describe('conflict detection', () => {
+    const a = channel('a', 'Alpha');
+    const incoming = (base: Channel): SyncMessage => ({
+      tabId: 'other-tab',
+      sentAt: Date.now(),
+      domain: 'channels',
+      changes: [{ id: 'a', value: serializeEntity({ ...a, name: 'Theirs' }), base: serializeEntity(base) }],
+    });
+
+    beforeEach(() => {
+      crossTabSyncService.start(createState([a]));
+    });
+
+    it('should flag changes to entities with unsaved local edits', () => {
+      expect(crossTabSyncService.findConflicts(incoming(a), { a: { ...a, name: 'Mine' } })).toHaveLength(1);
+      expect(crossTabSyncService.findConflicts(incoming(a), { a })).toEqual([]);
+      expect(crossTabSyncService.findConflicts(incoming(a), { a: { ...a, name: 'Theirs' } })).toEqual([]);
+    });
+
+    it('should flag changes written over a local save the other tab never saw', async () => {
+      const mine = { ...a, name: 'Mine' };
+      debouncedLocalStorageService.debouncedUpdateChannels([mine]);
+      await debouncedLocalStorageService.flushPendingUpdates();
+
+      expect(crossTabSyncService.findConflicts(incoming(a), { a: mine })).toHaveLength(1);
+      expect(crossTabSyncService.findConflicts(incoming(mine), { a: mine })).toEqual([]);
+    });
+  });
+});
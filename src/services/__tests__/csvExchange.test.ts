@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { csvExchangeService } from '../csvExchange';
+import { localStorageService } from '../localStorage';
+import { Channel, Task, TaskTemplate } from '../../types';
+
+describe('CsvExchangeService', () => {
+  const channel: Channel = {
+    id: 'channel1',
+    name: 'Gaming',
+    contentType: 'gaming',
+    postingSchedule: { frequency: 'weekly', preferredDays: ['Monday', 'Thursday'], preferredTimes: ['09:00'] },
+    color: '#ff0000',
+    createdAt: new Date(2024, 0, 1),
+    isActive: true,
+    assignedTasks: [],
+  };
+
+  const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    channelId: 'channel1',
+    title: `Task ${id}`,
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 11),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  const importOptions = { mergeMode: 'merge' as const, validateData: true, createBackup: false };
+
+  const getStoredTasks = () => Object.values(localStorageService.getSchedules()).flatMap(week => week.tasks);
+
+  beforeEach(() => {
+    localStorage.clear();
+    localStorageService.addChannel(channel);
+  });
+
+  describe('exportCsv', () => {
+    it('should export the chosen columns in the order given', () => {
+      const csv = csvExchangeService.exportCsv('tasks', [createTask('a')], ['title', 'id', 'channelName'], [channel]);
+
+      expect(csv).toBe('Title,ID,Channel\r\nTask a,a,Gaming\r\n');
+    });
+
+    it('should quote cells with commas, quotes and line breaks', () => {
+      const csv = csvExchangeService.exportCsv(
+        'tasks',
+        [createTask('a', { title: 'Edit, then "polish"', notes: 'Line one\nLine two' })],
+        ['title', 'notes']
+      );
+
+      expect(csv).toBe('Title,Notes\r\n"Edit, then ""polish""","Line one\nLine two"\r\n');
+    });
+
+    it('should join list fields into one cell', () => {
+      const csv = csvExchangeService.exportCsv('channels', [channel], ['name', 'preferredDays']);
+
+      expect(csv).toBe('Name,Posting Days\r\nGaming,Monday|Thursday\r\n');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should parse quoted cells and skip blank lines', () => {
+      expect(csvExchangeService.parseCsv('﻿a,b\r\n"x, ""y""","multi\nline"\r\n\r\n1,\n')).toEqual([
+        ['a', 'b'],
+        ['x, "y"', 'multi\nline'],
+        ['1', ''],
+      ]);
+    });
+  });
+
+  describe('suggestColumnMapping', () => {
+    it('should match headers by name or key and ignore unknown headers', () => {
+      expect(csvExchangeService.suggestColumnMapping('tasks', ['Title', 'scheduled_start', 'Estimated hours', 'Mood']))
+        .toEqual(['title', 'scheduledStart', 'estimatedHours', null]);
+    });
+  });
+
+  describe('importCsv', () => {
+    const mapping = ['id', 'channelName', 'title', 'scheduledStart', 'estimatedHours'];
+
+    it('should import valid rows and report invalid rows by line number', async () => {
+      const csv = [
+        'ID,Channel,Title,Start,Hours',
+        'a,Gaming,Record video,2024-01-08T09:00,2',
+        'b,Gaming,,2024-01-09T09:00,2',
+        'c,Unknown,Edit video,2024-01-09T09:00,2',
+        'd,gaming,Upload,not a date,1',
+      ].join('\n');
+
+      const result = await csvExchangeService.importCsv('tasks', csv, mapping, importOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.imported.tasks).toBe(1);
+      expect(result.rowErrors!.map(rowError => rowError.row)).toEqual([3, 4, 5]);
+      expect(result.rowErrors![0]).toMatchObject({ id: 'b' });
+      expect(result.rowErrors![0].errors[0].field).toBe('title');
+      expect(result.rowErrors![1].errors.map(error => error.field)).toContain('channelId');
+      expect(result.rowErrors![2].errors.map(error => error.field)).toContain('scheduledStart');
+
+      expect(localStorageService.getSchedule('2024-01-08')!.tasks).toEqual([
+        expect.objectContaining({
+          id: 'a',
+          channelId: 'channel1',
+          title: 'Record video',
+          status: 'planned',
+          scheduledEnd: new Date(2024, 0, 8, 11),
+          timeSlot: 'morning',
+        }),
+      ]);
+      expect(localStorageService.getSchedule('2024-01-08')!.totalScheduledHours).toBe(2);
+    });
+
+    it('should reject a mapping without required columns', async () => {
+      const result = await csvExchangeService.importCsv('tasks', 'Title\nRecord', ['title'], importOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.errors.map(error => error.message)).toEqual([
+        'Missing required column: Start',
+        'Missing required column: Channel ID',
+      ]);
+    });
+
+    it('should only change mapped columns of existing tasks when merging', async () => {
+      localStorageService.setSchedule('2024-01-08', {
+        weekStartDate: new Date(2024, 0, 8),
+        tasks: [createTask('a', { notes: 'Keep me', status: 'in-progress' })],
+        totalScheduledHours: 2,
+        userCapacityHours: 40,
+        isOverloaded: false,
+      });
+
+      // Moving the task to the next week keeps its duration
+      const result = await csvExchangeService.importCsv(
+        'tasks',
+        'ID,Title,Start\na,Renamed,2024-01-16T14:00',
+        ['id', 'title', 'scheduledStart'],
+        importOptions
+      );
+
+      expect(result.success).toBe(true);
+      expect(localStorageService.getSchedule('2024-01-08')!.tasks).toEqual([]);
+      expect(localStorageService.getSchedule('2024-01-15')!.tasks).toEqual([
+        expect.objectContaining({
+          id: 'a',
+          title: 'Renamed',
+          notes: 'Keep me',
+          status: 'in-progress',
+          scheduledEnd: new Date(2024, 0, 16, 16),
+          timeSlot: 'afternoon',
+        }),
+      ]);
+    });
+
+    it('should leave existing records alone when only adding new ones', async () => {
+      localStorageService.setSchedule('2024-01-08', {
+        weekStartDate: new Date(2024, 0, 8),
+        tasks: [createTask('a')],
+        totalScheduledHours: 2,
+        userCapacityHours: 40,
+        isOverloaded: false,
+      });
+
+      const csv = 'ID,Channel ID,Title,Start,Hours\na,channel1,Renamed,2024-01-08T09:00,2\nb,channel1,New,2024-01-08T13:00,1';
+      const result = await csvExchangeService.importCsv(
+        'tasks',
+        csv,
+        ['id', 'channelId', 'title', 'scheduledStart', 'estimatedHours'],
+        { ...importOptions, mergeMode: 'skip_existing' }
+      );
+
+      expect(result.imported.tasks).toBe(1);
+      expect(result.skipped.tasks).toBe(1);
+      expect(getStoredTasks().map(task => task.title)).toEqual(['Task a', 'New']);
+    });
+
+    it('should report duplicate IDs within a file', async () => {
+      const csv = 'ID,Channel,Title,Start,Hours\na,Gaming,One,2024-01-08T09:00,1\na,Gaming,Two,2024-01-08T13:00,1';
+
+      const result = await csvExchangeService.importCsv('tasks', csv, mapping, importOptions);
+
+      expect(result.rowErrors).toEqual([
+        { row: 3, id: 'a', errors: [expect.objectContaining({ message: 'Duplicate ID, already used on row 2' })] },
+      ]);
+    });
+
+    it('should round-trip templates', async () => {
+      const template: TaskTemplate = {
+        id: 'edit',
+        title: 'Edit Video',
+        description: 'Cut, color and mix',
+        estimatedHours: 4,
+        category: 'production',
+        workflowSteps: ['Rough cut', 'Color', 'Mix'],
+        createdAt: new Date(2024, 0, 1),
+        createTaskPerStep: true,
+      };
+      const csv = csvExchangeService.exportCsv('templates', [template]);
+      const { mapping: suggested } = csvExchangeService.previewCsv('templates', csv);
+
+      const result = await csvExchangeService.importCsv('templates', csv, suggested, importOptions);
+
+      expect(result.success).toBe(true);
+      expect(localStorageService.getTaskTemplates()).toEqual([{ ...template, dependsOnTemplateIds: [] }]);
+    });
+
+    it('should validate channels with ChannelValidator', async () => {
+      const result = await csvExchangeService.importCsv(
+        'channels',
+        'Name,Color\nVlogs,#00ff00\nBad,red',
+        ['name', 'color'],
+        importOptions
+      );
+
+      expect(result.imported.channels).toBe(1);
+      expect(result.rowErrors!.map(rowError => [rowError.row, rowError.errors[0].field])).toEqual([[3, 'color']]);
+      expect(localStorageService.getChannels().map(c => c.name)).toEqual(['Gaming', 'Vlogs']);
+    });
+  });
+});
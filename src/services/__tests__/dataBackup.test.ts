@@ -1,5 +1,6 @@
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DataBackupService } from '../dataBackup';
+import { APP_VERSION } from '../../utils/constants';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -54,7 +55,7 @@ describe('DataBackupService', () => {
       const testTemplates = [{ id: '1', name: 'Test Template' }];
       
       localStorageMock.setItem('mcm_channels', JSON.stringify(testChannels));
-      localStorageMock.setItem('mcm_templates', JSON.stringify(testTemplates));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify(testTemplates));
 
       const backupId = await backupService.createBackup('Test backup');
 
@@ -69,7 +70,7 @@ describe('DataBackupService', () => {
       const parsedBackup = JSON.parse(backupData!);
       expect(parsedBackup.channels).toEqual(testChannels);
       expect(parsedBackup.templates).toEqual(testTemplates);
-      expect(parsedBackup.version).toBe('1.0.0');
+      expect(parsedBackup.version).toBe(APP_VERSION);
     });
 
     it('updates backup metadata', async () => {
@@ -120,13 +121,13 @@ describe('DataBackupService', () => {
       const testTemplates = [{ id: '1', name: 'Test Template' }];
       
       localStorageMock.setItem('mcm_channels', JSON.stringify(testChannels));
-      localStorageMock.setItem('mcm_templates', JSON.stringify(testTemplates));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify(testTemplates));
 
       const backupId = await backupService.createBackup('Test backup');
 
       // Modify current data
       localStorageMock.setItem('mcm_channels', JSON.stringify([{ id: '2', name: 'Modified' }]));
-      localStorageMock.setItem('mcm_templates', JSON.stringify([{ id: '2', name: 'Modified' }]));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify([{ id: '2', name: 'Modified' }]));
 
       // Restore only channels
       await backupService.restoreBackup(backupId, {
@@ -138,12 +139,46 @@ describe('DataBackupService', () => {
 
       // Check that only channels were restored
       const restoredChannels = JSON.parse(localStorageMock.getItem('mcm_channels')!);
-      const currentTemplates = JSON.parse(localStorageMock.getItem('mcm_templates')!);
+      const currentTemplates = JSON.parse(localStorageMock.getItem('mcm_task_templates')!);
 
       expect(restoredChannels).toEqual(testChannels);
       expect(currentTemplates).toEqual([{ id: '2', name: 'Modified' }]);
     });
 
+    it('migrates backups taken by older versions before restoring them', async () => {
+      localStorageMock.setItem('mcm_backup_old', JSON.stringify({
+        version: '1.0.0',
+        timestamp: new Date(),
+        channels: [{ id: '1', name: 'Test Channel', contentType: 'gaming' }],
+        templates: [],
+        schedules: {},
+        userSettings: { customContentTypes: ['General'] }
+      }));
+
+      await backupService.restoreBackup('old');
+
+      expect(JSON.parse(localStorageMock.getItem('mcm_channels')!)[0].contentType).toBe('Gaming');
+      expect(JSON.parse(localStorageMock.getItem('mcm_user_settings')!).customContentTypes).toEqual(['General', 'Gaming']);
+    });
+
+    it('leaves templates alone when restoring backups that predate recorded domains', async () => {
+      const templates = [{ id: '1', title: 'Current Template' }];
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify(templates));
+      localStorageMock.setItem('mcm_backup_legacy', JSON.stringify({
+        version: APP_VERSION,
+        timestamp: new Date(),
+        channels: [{ id: '1', name: 'Backup Channel' }],
+        templates: [],
+        schedules: {},
+        userSettings: {}
+      }));
+
+      await backupService.restoreBackup('legacy');
+
+      expect(JSON.parse(localStorageMock.getItem('mcm_channels')!)).toEqual([{ id: '1', name: 'Backup Channel' }]);
+      expect(JSON.parse(localStorageMock.getItem('mcm_task_templates')!)).toEqual(templates);
+    });
+
     it('throws error for non-existent backup', async () => {
       await expect(backupService.restoreBackup('non-existent')).rejects.toThrow();
     });
@@ -197,7 +232,7 @@ describe('DataBackupService', () => {
 
       expect(details).toBeDefined();
       expect(details!.channels).toEqual(testChannels);
-      expect(details!.version).toBe('1.0.0');
+      expect(details!.version).toBe(APP_VERSION);
     });
 
     it('returns null for non-existent backup', () => {
@@ -57,8 +57,8 @@ describe('DataRecoveryService', () => {
       localStorageMock.setItem('mcm_channels', JSON.stringify([
         { id: '1', name: 'Test Channel', postingSchedule: {} }
       ]));
-      localStorageMock.setItem('mcm_templates', JSON.stringify([
-        { id: '1', name: 'Test Template' }
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify([
+        { id: '1', title: 'Test Template' }
       ]));
       localStorageMock.setItem('mcm_schedules', JSON.stringify({}));
       localStorageMock.setItem('mcm_user_settings', JSON.stringify({}));
@@ -95,7 +95,7 @@ describe('DataRecoveryService', () => {
 
     it('detects non-array data where array expected', async () => {
       localStorageMock.setItem('mcm_channels', JSON.stringify({})); // should be array
-      localStorageMock.setItem('mcm_templates', JSON.stringify({})); // should be array
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify({})); // should be array
 
       const report = await recoveryService.checkDataIntegrity();
 
@@ -128,7 +128,7 @@ describe('DataRecoveryService', () => {
       expect(success).toBe(true);
       expect(report.repairedItems).toHaveLength(2);
       expect(JSON.parse(localStorageMock.getItem('mcm_channels')!)).toEqual([]);
-      expect(JSON.parse(localStorageMock.getItem('mcm_templates')!)).toEqual([]);
+      expect(JSON.parse(localStorageMock.getItem('mcm_task_templates')!)).toEqual([]);
     });
 
     it('repairs invalid object data', async () => {
@@ -166,7 +166,7 @@ describe('DataRecoveryService', () => {
     it('completes successfully with valid data', async () => {
       // Setup valid data
       localStorageMock.setItem('mcm_channels', JSON.stringify([]));
-      localStorageMock.setItem('mcm_templates', JSON.stringify([]));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify([]));
       localStorageMock.setItem('mcm_schedules', JSON.stringify({}));
       localStorageMock.setItem('mcm_user_settings', JSON.stringify({}));
 
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EncryptionError, PassphraseEncryption } from '../encryption';
+import { DataBackupService } from '../dataBackup';
+import { dataExportService } from '../dataExport';
+import { DEFAULT_BACKUP_POLICY } from '../backupPolicy';
+import { STORAGE_KEYS } from '../../utils/constants';
+
+// Few iterations keep key derivation fast in tests
+const ITERATIONS = 1000;
+
+const expectCode = async (promise: Promise<unknown>, code: string) => {
+  await expect(promise).rejects.toBeInstanceOf(EncryptionError);
+  await expect(promise).rejects.toMatchObject({ code });
+};
+
+describe('PassphraseEncryption', () => {
+  it('should round-trip text and hide it in the payload', async () => {
+    const text = JSON.stringify({ title: 'Secret plan ☕', notes: 'launch day' });
+    const encrypted = await PassphraseEncryption.encrypt(text, 'correct horse', { iterations: ITERATIONS });
+
+    expect(PassphraseEncryption.isEncrypted(encrypted)).toBe(true);
+    expect(PassphraseEncryption.isEncrypted(text)).toBe(false);
+    expect(encrypted).not.toContain('launch day');
+    expect(await PassphraseEncryption.decrypt(encrypted, 'correct horse')).toBe(text);
+  });
+
+  it('should tell a wrong passphrase apart from altered data', async () => {
+    const encrypted = await PassphraseEncryption.encrypt('{"a":1}', 'correct horse', { iterations: ITERATIONS });
+    await expectCode(PassphraseEncryption.decrypt(encrypted, 'battery staple'), 'WRONG_PASSPHRASE');
+
+    const envelope = JSON.parse(encrypted);
+    const data = atob(envelope.data);
+    const altered = String.fromCharCode(data.charCodeAt(0) ^ 1) + data.slice(1);
+    await expectCode(
+      PassphraseEncryption.decrypt(JSON.stringify({ ...envelope, data: btoa(altered) }), 'correct horse'),
+      'TAMPERED'
+    );
+  });
+
+  it('should reject envelopes with an unusable iteration count as altered', async () => {
+    const envelope = JSON.parse(await PassphraseEncryption.encrypt('{"a":1}', 'correct horse', { iterations: ITERATIONS }));
+
+    for (const iterations of [0, -5, 1.5, '1000', PassphraseEncryption.MAX_ITERATIONS + 1]) {
+      await expectCode(PassphraseEncryption.decrypt(JSON.stringify({ ...envelope, iterations }), 'correct horse'), 'TAMPERED');
+    }
+  });
+
+  it('should pass plain text through and ask for a passphrase for encrypted text', async () => {
+    const encrypted = await PassphraseEncryption.encrypt('{"a":1}', 'correct horse', { iterations: ITERATIONS });
+
+    expect(await PassphraseEncryption.open('{"a":1}')).toBe('{"a":1}');
+    await expectCode(PassphraseEncryption.open(encrypted), 'PASSPHRASE_REQUIRED');
+    expect(await PassphraseEncryption.open(encrypted, 'correct horse')).toBe('{"a":1}');
+  });
+});
+
+describe('encrypted backups', () => {
+  const backupService = DataBackupService.getInstance();
+  const channels = [{ id: 'c1', name: 'Main Channel', isActive: true }];
+
+  beforeEach(() => {
+    localStorage.clear();
+    backupService.lock();
+    localStorage.setItem(STORAGE_KEYS.CHANNELS, JSON.stringify(channels));
+    backupService.setPolicy({ ...DEFAULT_BACKUP_POLICY, encrypt: true });
+  });
+
+  afterEach(() => {
+    backupService.lock();
+  });
+
+  it('should not create encrypted backups until unlocked', async () => {
+    expect(backupService.isLocked()).toBe(true);
+    await expectCode(backupService.createBackup('Manual backup'), 'LOCKED');
+  });
+
+  it('should store backups encrypted and read them only once unlocked', async () => {
+    await backupService.unlock('correct horse');
+    const backupId = await backupService.createBackup('Manual backup');
+    const stored = localStorage.getItem(STORAGE_KEYS.BACKUP_PREFIX + backupId)!;
+
+    expect(PassphraseEncryption.isEncrypted(stored)).toBe(true);
+    expect(stored).not.toContain('Main Channel');
+    expect(backupService.getBackupList()[0]).toMatchObject({ id: backupId, encrypted: true });
+    expect(backupService.getBackupDetails(backupId)!.channels).toEqual(channels);
+
+    backupService.lock();
+    expect(() => backupService.readBackup(backupId)).toThrow(EncryptionError);
+    await expectCode(backupService.unlock('battery staple'), 'WRONG_PASSPHRASE');
+
+    expect(await backupService.unlock('correct horse')).toBe(1);
+    expect(backupService.readBackup(backupId).channels).toEqual(channels);
+  });
+
+  it('should refuse to import while locked and encrypt the backup taken before an import', async () => {
+    const exported = dataExportService.exportData();
+    const locked = await dataExportService.importData(exported);
+
+    expect(locked.success).toBe(false);
+    expect(locked.errors[0].message).toContain('Unlock them with the backup passphrase');
+    expect(backupService.getBackupList()).toHaveLength(0);
+
+    await backupService.unlock('correct horse');
+    await dataExportService.importData(exported);
+    const [backup] = backupService.getBackupList();
+
+    expect(backup).toMatchObject({ description: 'Before import', encrypted: true });
+    expect(localStorage.getItem(STORAGE_KEYS.BACKUP_PREFIX + backup.id)).not.toContain('Main Channel');
+  });
+
+  it('should import an encrypted file only with its passphrase', async () => {
+    backupService.setPolicy(DEFAULT_BACKUP_POLICY);
+    const content = await PassphraseEncryption.encrypt(
+      JSON.stringify(backupService.captureBackupData()),
+      'correct horse',
+      { iterations: ITERATIONS }
+    );
+    const file = new File([content], 'export.json', { type: 'application/json' });
+
+    await expectCode(backupService.importBackup(file), 'PASSPHRASE_REQUIRED');
+    await expectCode(backupService.importBackup(file, undefined, 'battery staple'), 'WRONG_PASSPHRASE');
+
+    const backupId = await backupService.importBackup(file, undefined, 'correct horse');
+    expect(backupService.readBackup(backupId).channels).toEqual(channels);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { EstimationAnalytics } from '../estimationAnalytics';
+import { Channel, Task, TaskTemplate } from '../../types';
+
+describe('EstimationAnalytics', () => {
+  const createTemplate = (id: string, overrides: Partial<TaskTemplate> = {}): TaskTemplate => ({
+    id,
+    title: `Template ${id}`,
+    description: '',
+    estimatedHours: 2,
+    category: 'production',
+    workflowSteps: [],
+    createdAt: new Date(2024, 0, 1),
+    ...overrides,
+  });
+
+  let taskCount = 0;
+  const createTask = (templateId: string, estimatedHours: number, actualHours: number, day = 8, overrides: Partial<Task> = {}): Task => ({
+    id: `task-${++taskCount}`,
+    channelId: 'channel-1',
+    templateId,
+    title: 'Task',
+    estimatedHours,
+    actualHours,
+    status: 'completed',
+    scheduledStart: new Date(2024, 0, day, 9),
+    scheduledEnd: new Date(2024, 0, day, 9 + estimatedHours),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  const editing = createTemplate('edit', { estimatedHours: 2 });
+  const thumbnails = createTemplate('thumb', { estimatedHours: 1, category: 'marketing' });
+
+  // Editing consistently takes 1.5x its estimate; thumbnails are on target
+  const tasks = [
+    createTask('edit', 2, 3, 8),
+    createTask('edit', 2, 2.8, 9),
+    createTask('edit', 2, 3.2, 15),
+    createTask('thumb', 1, 1, 8),
+    createTask('thumb', 1, 0.9, 9),
+    createTask('thumb', 1, 1.1, 15),
+  ];
+
+  describe('summarize', () => {
+    it('should detect systematic underestimation', () => {
+      const [editStats, thumbStats] = EstimationAnalytics.getStatsByTemplate(tasks, [editing, thumbnails]);
+
+      expect(editStats).toMatchObject({ sampleCount: 3, totalEstimated: 6, totalActual: 9, ratio: 1.5, bias: 'underestimated' });
+      expect(thumbStats.bias).toBe('accurate');
+    });
+
+    it('should not call a bias from too few or unfinished tasks', () => {
+      const stats = EstimationAnalytics.summarize('edit', 'Edit', [
+        createTask('edit', 2, 4),
+        createTask('edit', 2, 4),
+        createTask('edit', 2, 4, 8, { status: 'in-progress' }),
+      ]);
+
+      expect(stats.sampleCount).toBe(2);
+      expect(stats.bias).toBe('insufficient_data');
+    });
+
+    it('should not call a bias when only an outlier missed', () => {
+      const stats = EstimationAnalytics.summarize('edit', 'Edit', [
+        createTask('edit', 2, 6),
+        createTask('edit', 2, 2),
+        createTask('edit', 2, 2),
+      ]);
+
+      expect(stats.ratio).toBe(1);
+      expect(stats.bias).toBe('accurate');
+    });
+  });
+
+  describe('grouping', () => {
+    it('should group by template category and by channel', () => {
+      const channel = { id: 'channel-1', name: 'Gaming' } as Channel;
+
+      const categories = EstimationAnalytics.getStatsByCategory(tasks, [editing, thumbnails]);
+      const channels = EstimationAnalytics.getStatsByChannel(tasks, [channel]);
+
+      expect(categories.map(stats => [stats.key, stats.sampleCount])).toEqual([['production', 3], ['marketing', 3]]);
+      expect(channels[0]).toMatchObject({ label: 'Gaming', sampleCount: 6, totalEstimated: 9, totalActual: 12 });
+    });
+
+    it('should report estimated and actual hours per week', () => {
+      const trend = EstimationAnalytics.getTrend(tasks);
+
+      expect(trend.map(point => [point.weekKey, point.sampleCount])).toEqual([['2024-01-08', 4], ['2024-01-15', 2]]);
+      expect(trend[1].totalEstimated).toBe(3);
+      expect(trend[1].totalActual).toBeCloseTo(4.3);
+    });
+  });
+
+  describe('calibration', () => {
+    it('should propose an estimate from how long recent tasks took', () => {
+      const calibration = EstimationAnalytics.getCalibration(editing, tasks);
+
+      expect(calibration).toMatchObject({ currentEstimate: 2, calibratedEstimate: 3, sampleCount: 3, bias: 'underestimated' });
+      expect(EstimationAnalytics.getCalibration(createTemplate('new'), tasks)).toBeNull();
+    });
+
+    it('should only list templates whose estimates are off', () => {
+      const calibrations = EstimationAnalytics.getCalibrations(tasks, [editing, thumbnails]);
+
+      expect(calibrations.map(calibration => calibration.templateId)).toEqual(['edit']);
+    });
+
+    it('should round calibrated estimates to half hours', () => {
+      const overestimated = [
+        createTask('edit', 4, 1.4),
+        createTask('edit', 4, 1.5),
+        createTask('edit', 4, 1.6),
+      ];
+
+      expect(EstimationAnalytics.getCalibration({ ...editing, estimatedHours: 4 }, overestimated)).toMatchObject({
+        calibratedEstimate: 1.5,
+        bias: 'overestimated',
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { iCalendarService } from '../icalendar';
+import { Channel, Task, WeeklySchedule } from '../../types';
+
+describe('ICalendarService', () => {
+  const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    channelId: 'channel1',
+    title: `Task ${id}`,
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date(Date.UTC(2024, 0, 8, 9)),
+    scheduledEnd: new Date(Date.UTC(2024, 0, 8, 11)),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  const createWeek = (tasks: Task[]): WeeklySchedule => ({
+    weekStartDate: new Date(2024, 0, 8),
+    tasks,
+    totalScheduledHours: 0,
+    userCapacityHours: 40,
+    isOverloaded: false,
+  });
+
+  const channel: Channel = {
+    id: 'channel1',
+    name: 'Gaming, Tech & More',
+    contentType: 'gaming',
+    postingSchedule: { frequency: 'weekly', preferredDays: ['Monday'], preferredTimes: ['09:00'] },
+    color: '#ff0000',
+    createdAt: new Date(2024, 0, 1),
+    isActive: true,
+    assignedTasks: [],
+  };
+
+  const now = new Date(Date.UTC(2024, 0, 5, 12));
+
+  const getEvent = (ics: string) => ics.slice(ics.indexOf('BEGIN:VEVENT'), ics.indexOf('END:VEVENT'));
+
+  describe('exportTasks', () => {
+    it('should write an RFC 5545 calendar with one event per task', () => {
+      const ics = iCalendarService.exportTasks(
+        [createTask('a', { priority: 'high', description: 'Record intro' })],
+        [channel],
+        'My Schedule',
+        now
+      );
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('X-WR-CALNAME:My Schedule');
+
+      const event = getEvent(ics);
+      expect(event).toContain('UID:a@multi-channel-content-manager\r\n');
+      expect(event).toContain('DTSTAMP:20240105T120000Z\r\n');
+      expect(event).toContain('DTSTART:20240108T090000Z\r\n');
+      expect(event).toContain('DTEND:20240108T110000Z\r\n');
+      expect(event).toContain('DESCRIPTION:Record intro\r\n');
+      expect(event).toContain('PRIORITY:1\r\n');
+    });
+
+    it('should keep the same UID across exports so calendars update events', () => {
+      const first = iCalendarService.exportTasks([createTask('a')], [channel], 'Schedule', now);
+      const second = iCalendarService.exportTasks(
+        [createTask('a', { title: 'Renamed' })],
+        [channel],
+        'Schedule',
+        new Date()
+      );
+
+      expect(getEvent(second)).toContain('UID:a@multi-channel-content-manager');
+      expect(getEvent(first).match(/UID:.*/)![0]).toBe(getEvent(second).match(/UID:.*/)![0]);
+    });
+
+    it('should escape text values', () => {
+      const ics = iCalendarService.exportTasks(
+        [createTask('a', { title: 'Edit; cut, color\nthen export\\upload' })],
+        [channel],
+        'Schedule',
+        now
+      );
+
+      expect(ics).toContain('SUMMARY:Edit\\; cut\\, color\\nthen export\\\\upload\r\n');
+      expect(ics).toContain('CATEGORIES:Gaming\\, Tech & More\r\n');
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      const ics = iCalendarService.exportTasks(
+        [createTask('a', { description: 'ü'.repeat(100) })],
+        [channel],
+        'Schedule',
+        now
+      );
+      const encoder = new TextEncoder();
+
+      ics.split('\r\n').forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+      expect(ics).toContain('\r\n ü');
+    });
+  });
+
+  describe('getTasksForScope', () => {
+    const schedules = {
+      '2024-01-08': createWeek([
+        createTask('b', { scheduledStart: new Date(Date.UTC(2024, 0, 9, 9)) }),
+        createTask('a'),
+        createTask('split', { childTaskIds: ['split-1'] }),
+        createTask('split-1', { parentTaskId: 'split', channelId: 'channel2' }),
+      ]),
+      '2024-01-15': createWeek([createTask('c', { scheduledStart: new Date(Date.UTC(2024, 0, 15, 9)) })]),
+    };
+
+    it('should export work items of a week in start order', () => {
+      expect(iCalendarService.getTasksForScope(schedules, { type: 'week', weekKey: '2024-01-08' }).map(t => t.id))
+        .toEqual(['a', 'split-1', 'b']);
+    });
+
+    it('should export one channel across all weeks', () => {
+      expect(iCalendarService.getTasksForScope(schedules, { type: 'channel', channelId: 'channel1' }).map(t => t.id))
+        .toEqual(['a', 'b', 'c']);
+      expect(iCalendarService.getTasksForScope(schedules, { type: 'all' })).toHaveLength(4);
+    });
+  });
+
+  describe('importTasks', () => {
+    it('should map exported events back onto the same tasks', () => {
+      const task = createTask('a', { title: 'Edit; cut, color', description: 'Line one\nLine two', priority: 'low', status: 'in-progress' });
+      const ics = iCalendarService.exportTasks([task], [channel], 'Schedule', now);
+
+      const { tasks, warnings } = iCalendarService.importTasks(ics, 'channel1');
+
+      expect(warnings).toEqual([]);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toMatchObject({
+        id: 'a',
+        channelId: 'channel1',
+        title: task.title,
+        description: task.description,
+        estimatedHours: 2,
+        status: 'in-progress',
+        priority: 'low',
+        scheduledStart: task.scheduledStart,
+        scheduledEnd: task.scheduledEnd,
+      });
+    });
+
+    it('should import events from other calendar apps', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'UID:abc123@google.com',
+        'DTSTART:20240110T140000',
+        'DTEND:20240110T153000',
+        'SUMMARY:Thumbnail des',
+        ' ign',
+        'PRIORITY:2',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const { tasks } = iCalendarService.importTasks(ics, 'channel2');
+
+      expect(tasks[0]).toMatchObject({
+        id: 'ics-abc123@google.com',
+        channelId: 'channel2',
+        title: 'Thumbnail design',
+        description: undefined,
+        estimatedHours: 1.5,
+        status: 'planned',
+        priority: 'high',
+        scheduledStart: new Date(2024, 0, 10, 14),
+        timeSlot: 'afternoon',
+      });
+    });
+
+    it('should read DURATION, all-day and time zone events', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:duration',
+        'DTSTART:20240110T090000Z',
+        'DURATION:PT2H45M',
+        'SUMMARY:Script',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:all-day',
+        'DTSTART;VALUE=DATE:20240111',
+        'SUMMARY:Filming day',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:zoned',
+        'DTSTART;TZID=Europe/Berlin:20240112T100000',
+        'DTEND;TZID=Europe/Berlin:20240112T110000',
+        'SUMMARY:Call',
+        'RRULE:FREQ=WEEKLY',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      const { tasks, warnings } = iCalendarService.importTasks(ics, 'channel1');
+
+      expect(tasks.map(task => task.estimatedHours)).toEqual([2.75, 1, 1]);
+      expect(tasks[1].scheduledStart).toEqual(new Date(2024, 0, 11, 9));
+      expect(tasks[2].scheduledStart).toEqual(new Date(2024, 0, 12, 10));
+      expect(warnings).toEqual([
+        '"Call" repeats; only its first occurrence was imported',
+        '"Call" uses time zone Europe/Berlin; its times were read as local time',
+      ]);
+    });
+
+    it('should skip cancelled events and events without a start', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:cancelled',
+        'DTSTART:20240110T090000Z',
+        'STATUS:CANCELLED',
+        'SUMMARY:Old plan',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:no-start',
+        'SUMMARY:Someday',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const result = iCalendarService.importTasks(ics, 'channel1');
+
+      expect(result.tasks).toEqual([]);
+      expect(result.skipped).toBe(2);
+      expect(result.warnings).toEqual(['Skipped "Someday": missing or invalid start time']);
+    });
+
+    it('should warn when a file has no events', () => {
+      expect(iCalendarService.importTasks('not a calendar', 'channel1').warnings)
+        .toEqual(['No events found in the calendar file']);
+    });
+  });
+});
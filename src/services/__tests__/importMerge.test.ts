@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ImportMerger, MergeSource } from '../importMerge';
+import { dataExportService } from '../dataExport';
+import { localStorageService } from '../localStorage';
+import DataBackupService from '../dataBackup';
+import { APP_VERSION } from '../../utils/constants';
+import { Channel, Task } from '../../types';
+
+describe('ImportMerger', () => {
+  const channel: Channel = {
+    id: 'channel1',
+    name: 'Gaming',
+    contentType: 'Gaming',
+    postingSchedule: { frequency: 'weekly', preferredDays: ['Monday'], preferredTimes: ['09:00'] },
+    color: '#ff0000',
+    createdAt: new Date(2024, 0, 1),
+    isActive: true,
+    assignedTasks: [],
+  };
+
+  const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    channelId: 'channel1',
+    title: `Task ${id}`,
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 11),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  const createSource = (channels: Channel[], tasks: Task[] = []): MergeSource => ({
+    channels,
+    templates: [],
+    schedules: {
+      '2024-01-08': {
+        weekStartDate: new Date(2024, 0, 8),
+        tasks,
+        totalScheduledHours: tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
+        userCapacityHours: 40,
+        isOverloaded: false,
+      },
+    },
+  });
+
+  describe('mergeFields', () => {
+    it('should take fields changed on one side only and flag fields changed on both', () => {
+      const base = { id: 'a', name: 'Base', color: '#000', isActive: true };
+      const mine = { id: 'a', name: 'Mine', color: '#000', isActive: false };
+      const theirs = { id: 'a', name: 'Theirs', color: '#fff', isActive: true };
+
+      expect(ImportMerger.mergeFields(base, mine, theirs)).toEqual({
+        takenFromTheirs: ['color'],
+        conflicts: [{ field: 'name', base: 'Base', mine: 'Mine', theirs: 'Theirs' }],
+      });
+    });
+
+    it('should treat every difference as a conflict without a base', () => {
+      const result = ImportMerger.mergeFields(undefined, { id: 'a', name: 'Mine', tags: ['x'] }, { id: 'a', name: 'Theirs', tags: ['x'] });
+
+      expect(result.takenFromTheirs).toEqual([]);
+      expect(result.conflicts.map(conflict => conflict.field)).toEqual(['name']);
+    });
+
+    it('should compare nested values regardless of key order', () => {
+      const result = ImportMerger.mergeFields(
+        undefined,
+        { id: 'a', postingSchedule: { frequency: 'weekly', preferredDays: ['Monday'] } },
+        { id: 'a', postingSchedule: { preferredDays: ['Monday'], frequency: 'weekly' } }
+      );
+
+      expect(result).toEqual({ takenFromTheirs: [], conflicts: [] });
+    });
+  });
+
+  describe('createPlan', () => {
+    it('should add new records, merge shared ones and count identical ones', () => {
+      const base = createSource([channel], [createTask('a'), createTask('b')]);
+      const local = createSource([{ ...channel, name: 'Local Gaming' }], [createTask('a'), createTask('b', { status: 'completed' })]);
+      const incoming = createSource(
+        [{ ...channel, name: 'Their Gaming', color: '#00ff00' }],
+        [createTask('a'), createTask('b', { notes: 'From the team' }), createTask('c')]
+      );
+
+      const plan = ImportMerger.createPlan(incoming, local, base);
+
+      expect(plan.added.tasks.map(task => task.id)).toEqual(['c']);
+      expect(plan.unchanged).toBe(1);
+      expect(plan.merges.map(merge => [merge.key, merge.label, merge.takenFromTheirs, merge.conflicts.map(c => c.field)])).toEqual([
+        ['channel:channel1', 'Local Gaming', ['color'], ['name']],
+        ['task:b', 'Task b', ['notes'], []],
+      ]);
+    });
+  });
+
+  describe('resolvePlan', () => {
+    it('should keep mine for unresolved conflicts and take theirs where chosen', () => {
+      const local = createSource([{ ...channel, name: 'Local' }], [createTask('a', { notes: 'Mine' })]);
+      const incoming = createSource([{ ...channel, name: 'Theirs' }], [createTask('a')]);
+      const plan = ImportMerger.createPlan(incoming, local);
+      const resolutions = { 'task:a': { notes: 'theirs' as const } };
+
+      const records = ImportMerger.resolvePlan(plan, resolutions);
+
+      expect(records.channels[0].name).toBe('Local');
+      expect(records.tasks[0]).not.toHaveProperty('notes');
+      expect(ImportMerger.summarize(plan, resolutions)).toEqual({
+        added: { channels: 0, templates: 0, tasks: 0 },
+        updated: { channels: 0, templates: 0, tasks: 1 },
+        fieldsFromImport: 1,
+        conflictsKeptMine: 1,
+        conflictsTookTheirs: 1,
+      });
+    });
+  });
+
+  describe('with stored data', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      localStorageService.addChannel(channel);
+      localStorageService.setSchedule('2024-01-08', createSource([], [createTask('a')]).schedules['2024-01-08']);
+    });
+
+    it('should use the backup taken before the file as the base and write the merge', async () => {
+      await DataBackupService.getInstance().createBackup('Before sharing');
+      localStorageService.updateChannel('channel1', { name: 'Renamed locally' });
+
+      const file = JSON.stringify({
+        version: APP_VERSION,
+        exportDate: new Date(Date.now() + 60_000).toISOString(),
+        ...createSource([{ ...channel, color: '#00ff00' }], [createTask('a', { status: 'completed' }), createTask('b')]),
+      });
+
+      const plan = dataExportService.prepareMerge(file);
+
+      expect(plan.baseBackupId).toBeDefined();
+      expect(plan.merges.every(merge => merge.conflicts.length === 0)).toBe(true);
+
+      const result = await dataExportService.commitMerge(plan, {}, { createBackup: false });
+
+      expect(result.success).toBe(true);
+      expect(localStorageService.getChannels()[0]).toMatchObject({ name: 'Renamed locally', color: '#00ff00' });
+      expect(localStorageService.getSchedule('2024-01-08')!.tasks.map(task => [task.id, task.status]).sort()).toEqual([
+        ['a', 'completed'],
+        ['b', 'planned'],
+      ]);
+      expect(localStorageService.getSchedule('2024-01-08')!.totalScheduledHours).toBe(4);
+    });
+
+    it('should reject files that are not exports or backups', () => {
+      expect(() => dataExportService.prepareMerge('{"channels": []}')).toThrow('File must contain channels, templates and schedules');
+    });
+  });
+});
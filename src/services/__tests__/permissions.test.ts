@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { getRequiredPermissions, permissionService, PermissionError } from '../permissions';
+import { ErrorHandler } from '../errorHandling';
+import { enhancedPersistenceService } from '../enhancedPersistence';
+import { localStorageService } from '../localStorage';
+import { AppProvider, useAppContext } from '../../context/AppContext';
+import { AppState, Channel, TeamMember, WorkspaceRole } from '../../types';
+import { STORAGE_KEYS } from '../../utils/constants';
+
+describe('PermissionService', () => {
+  const member = (id: string, accessRole?: WorkspaceRole): TeamMember => ({
+    id,
+    name: id,
+    role: 'Editor',
+    weeklyCapacityHours: 40,
+    workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    workingHours: { start: '09:00', end: '17:00' },
+    accessRole,
+  });
+  const team = [member('olivia', 'owner'), member('max', 'manager'), member('eve'), member('vic', 'viewer')];
+  const channel = { id: 'c1', name: 'Cooking', isActive: true } as Channel;
+
+  beforeEach(() => {
+    localStorage.clear();
+    permissionService.setCurrentMemberId(null);
+  });
+
+  it('should map actions to the permissions they need', () => {
+    expect(getRequiredPermissions({ type: 'DELETE_CHANNEL', payload: 'c1' })).toEqual(['manageChannels']);
+    expect(getRequiredPermissions({ type: 'UPDATE_TASK_TEMPLATE', payload: { id: 't1', updates: {} } })).toEqual(['manageTemplates']);
+    expect(getRequiredPermissions({ type: 'UPDATE_USER_SETTINGS', payload: { weeklyCapacityHours: 30, teamMembers: [] } }))
+      .toEqual(['manageSettings', 'manageTeam']);
+    expect(getRequiredPermissions({
+      type: 'BATCH_ACTIONS',
+      payload: [{ type: 'DELETE_TASK', payload: 'a' }, { type: 'DELETE_TASK', payload: 'b' }],
+    })).toEqual(['editSchedule']);
+    expect(getRequiredPermissions({ type: 'SET_ACTIVE_VIEW', payload: 'calendar' })).toEqual([]);
+    expect(getRequiredPermissions({ type: 'RESTORE_WEEK_SCHEDULES', payload: {} })).toEqual([]);
+  });
+
+  it('should allow each role its own changes only', () => {
+    const deleteChannel = { type: 'DELETE_CHANNEL' as const, payload: 'c1' };
+    const deleteTask = { type: 'DELETE_TASK' as const, payload: 'task1' };
+
+    permissionService.setCurrentMemberId('max');
+    expect(() => permissionService.assertAllowed(deleteChannel, team)).not.toThrow();
+    expect(permissionService.can('manageTeam', team)).toBe(false);
+
+    permissionService.setCurrentMemberId('eve');
+    expect(permissionService.getRole(team)).toBe('editor');
+    expect(() => permissionService.assertAllowed(deleteTask, team)).not.toThrow();
+    expect(() => permissionService.assertAllowed(deleteChannel, team)).toThrow(PermissionError);
+
+    permissionService.setCurrentMemberId('vic');
+    expect(() => permissionService.assertAllowed(deleteTask, team))
+      .toThrow('As viewer you cannot change the schedule');
+  });
+
+  it('should treat a browser nobody picked as the owner until the team has one', () => {
+    expect(permissionService.getRole()).toBe('owner');
+    expect(permissionService.getRole([member('eve')])).toBe('owner');
+    expect(permissionService.getRole(team)).toBe('viewer');
+
+    permissionService.setCurrentMemberId('olivia');
+    expect(permissionService.getRole(team)).toBe('owner');
+    expect(localStorage.getItem(STORAGE_KEYS.CURRENT_MEMBER)).toBe('olivia');
+  });
+
+  it('should reject disallowed dispatches through ErrorHandler and apply external changes', () => {
+    const handleError = vi.spyOn(ErrorHandler.getInstance(), 'handleError');
+    permissionService.setCurrentMemberId('vic');
+
+    const { result } = renderHook(() => useAppContext(), {
+      wrapper: ({ children }: { children: ReactNode }) => createElement(AppProvider, null, children),
+    });
+    act(() => {
+      result.current.dispatchExternal({
+        type: 'UPDATE_USER_SETTINGS',
+        payload: { teamMembers: team } as Partial<AppState['userSettings']>,
+      });
+      result.current.dispatchExternal({ type: 'ADD_CHANNEL', payload: channel });
+    });
+    act(() => {
+      result.current.dispatch({ type: 'DELETE_CHANNEL', payload: 'c1' });
+    });
+
+    expect(result.current.state.channels).toEqual([channel]);
+    expect(handleError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'PermissionError', message: 'As viewer you cannot add, change or delete channels' }),
+      expect.objectContaining({ action: 'DELETE_CHANNEL', role: 'viewer' })
+    );
+    handleError.mockRestore();
+  });
+
+  it('should refuse imports, restores and storage cleanup by a viewer', async () => {
+    localStorageService.updateUserSettings({ teamMembers: team });
+    localStorageService.addChannel(channel);
+    permissionService.setCurrentMemberId('vic');
+    const file = new File([JSON.stringify({ channels: [] })], 'export.json', { type: 'application/json' });
+
+    await expect(enhancedPersistenceService.importData(file)).rejects.toThrow(PermissionError);
+    await expect(enhancedPersistenceService.restoreFromBackup('backup-1')).rejects.toThrow(PermissionError);
+    await expect(enhancedPersistenceService.cleanupStorage()).rejects.toThrow('As viewer you cannot change workspace settings');
+
+    expect(localStorageService.getChannels()).toEqual([channel]);
+    expect(enhancedPersistenceService.getAvailableBackups()).toHaveLength(0);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { RebalancingSuggestionEngine } from '../rebalancingSuggestions';
-import { Task, WeeklySchedule, Channel } from '../../types';
+import { Task, WeeklySchedule, Channel, TeamMember } from '../../types';
 import { WorkloadCalculationEngine } from '../workloadCalculation';
 
 describe('RebalancingSuggestionEngine', () => {
@@ -464,4 +464,249 @@ describe('RebalancingSuggestionEngine', () => {
       expect(result.summary).toContain('Applied 0 of 1');
     });
   });
+
+  describe('task splitting', () => {
+    const generateWithSplitting = (schedule: WeeklySchedule) =>
+      RebalancingSuggestionEngine.generateSuggestions(
+        schedule,
+        mockChannels,
+        WorkloadCalculationEngine.calculateWorkloadMetrics(schedule, mockChannels, 8),
+        { ...defaultOptions, allowTaskSplitting: true }
+      );
+
+    it('should suggest splitting tasks too large to move whole', () => {
+      const suggestions = generateWithSplitting(createOverloadedSchedule());
+
+      const splitAction = suggestions
+        .flatMap(s => s.actions)
+        .find(action => action.type === 'split_task' && action.taskId === 'task1');
+
+      expect(splitAction).toBeDefined();
+      expect(splitAction!.proposedSchedule!.hours).toBeGreaterThan(0);
+      expect(splitAction!.proposedSchedule!.hours).toBeLessThanOrEqual(8);
+    });
+
+    it('should not suggest splitting when task splitting is disabled', () => {
+      const schedule = createOverloadedSchedule();
+      const suggestions = RebalancingSuggestionEngine.generateSuggestions(
+        schedule,
+        mockChannels,
+        WorkloadCalculationEngine.calculateWorkloadMetrics(schedule, mockChannels, 8),
+        defaultOptions
+      );
+
+      expect(suggestions.flatMap(s => s.actions).some(action => action.type === 'split_task')).toBe(false);
+    });
+
+    it('should apply split_task actions as linked parts', () => {
+      const schedule = createOverloadedSchedule();
+      const suggestion = {
+        id: 'split-suggestion',
+        type: 'redistribute_daily' as const,
+        priority: 'high' as const,
+        title: 'Split Heavy Gaming Video',
+        description: 'Move part of the work to Wednesday',
+        impact: { hoursReduced: 4, utilizationImprovement: 10, affectedTasks: 1 },
+        actions: [
+          {
+            type: 'split_task' as const,
+            taskId: 'task1',
+            taskTitle: 'Heavy Gaming Video',
+            currentSchedule: {
+              start: new Date('2024-01-01T09:00:00'),
+              end: new Date('2024-01-01T21:00:00'),
+              hours: 12,
+            },
+            proposedSchedule: {
+              start: new Date('2024-01-03T09:00:00'),
+              end: new Date('2024-01-03T13:00:00'),
+              hours: 4,
+            },
+            reason: 'Split 4h off to Wednesday',
+          },
+        ],
+        estimatedEffort: 'low' as const,
+      };
+
+      const result = RebalancingSuggestionEngine.applySuggestion(suggestion, schedule);
+      const parts = result.updatedTasks.filter(task => task.parentTaskId === 'task1');
+      const preview = RebalancingSuggestionEngine.previewSuggestion(suggestion, schedule, mockChannels);
+
+      expect(parts.map(task => task.estimatedHours)).toEqual([8, 4]);
+      expect(parts[1].scheduledStart).toEqual(new Date('2024-01-03T09:00:00'));
+      expect(result.updatedTasks.find(task => task.id === 'task1')!.childTaskIds).toHaveLength(2);
+      expect(result.summary).toContain('Applied 1 of 1');
+      expect(preview.taskSplits).toHaveLength(1);
+      expect(preview.totalHoursChange).toBe(0);
+    });
+  });
+
+  describe('team members', () => {
+    const member = (id: string, name: string, role: string, workingDays: string[]): TeamMember => ({
+      id,
+      name,
+      role,
+      weeklyCapacityHours: 8 * workingDays.length,
+      workingDays,
+      workingHours: { start: '09:00', end: '17:00' },
+    });
+    const teamMembers = [
+      member('sam', 'Sam', 'Editor', ['Monday', 'Tuesday']),
+      member('kim', 'Kim', 'Editor', ['Monday', 'Tuesday', 'Wednesday']),
+      member('alex', 'Alex', 'Thumbnail Designer', ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday']),
+    ];
+
+    // Sam is booked for 10 hours on Monday; the week as a whole is not overloaded
+    const createTeamSchedule = (): WeeklySchedule => ({
+      weekStartDate: new Date('2024-01-01'),
+      tasks: [
+        {
+          id: 'edit1',
+          channelId: 'channel1',
+          title: 'Edit Gaming Video',
+          estimatedHours: 6,
+          status: 'planned',
+          scheduledStart: new Date('2024-01-01T09:00:00'),
+          scheduledEnd: new Date('2024-01-01T15:00:00'),
+          timeSlot: 'morning',
+          priority: 'high',
+          assigneeId: 'sam',
+        },
+        {
+          id: 'edit2',
+          channelId: 'channel2',
+          title: 'Edit Educational Short',
+          estimatedHours: 4,
+          status: 'planned',
+          scheduledStart: new Date('2024-01-01T15:00:00'),
+          scheduledEnd: new Date('2024-01-01T19:00:00'),
+          timeSlot: 'afternoon',
+          priority: 'medium',
+          assigneeId: 'sam',
+        },
+      ],
+      totalScheduledHours: 10,
+      userCapacityHours: 40,
+      isOverloaded: false,
+    });
+
+    const generate = (schedule: WeeklySchedule, members: TeamMember[] = teamMembers) =>
+      RebalancingSuggestionEngine.generateSuggestions(
+        schedule,
+        mockChannels,
+        WorkloadCalculationEngine.calculateWorkloadMetrics(schedule, mockChannels, 16, members),
+        { ...defaultOptions, maxDailyHours: 16 }
+      );
+
+    it('should suggest handing work to a teammate with the same role', () => {
+      const reassignment = generate(createTeamSchedule()).find(s => s.type === 'reassign_member');
+
+      expect(reassignment).toBeDefined();
+      expect(reassignment!.title).toBe("Reassign Sam's Tasks");
+      expect(reassignment!.actions).toEqual([
+        expect.objectContaining({
+          type: 'reassign_task',
+          taskId: 'edit2',
+          currentAssigneeId: 'sam',
+          proposedAssigneeId: 'kim',
+        }),
+      ]);
+    });
+
+    it('should suggest moving work to another of the member\'s working days', () => {
+      const redistribution = generate(createTeamSchedule())
+        .find(s => s.type === 'redistribute_daily' && s.title.includes('Sam'));
+
+      expect(redistribution).toBeDefined();
+      expect(redistribution!.actions).toEqual([
+        expect.objectContaining({ type: 'move_task', taskId: 'edit1' }),
+      ]);
+      expect(redistribution!.actions[0].proposedSchedule!.start).toEqual(new Date('2024-01-02T09:00:00'));
+    });
+
+    it('should not reassign to teammates in another role or off that day', () => {
+      const withoutKim = teamMembers.filter(m => m.id !== 'kim');
+      expect(generate(createTeamSchedule(), withoutKim).some(s => s.type === 'reassign_member')).toBe(false);
+
+      const kimOffMonday = teamMembers.map(m => (m.id === 'kim' ? { ...m, workingDays: ['Tuesday', 'Wednesday'] } : m));
+      expect(generate(createTeamSchedule(), kimOffMonday).some(s => s.type === 'reassign_member')).toBe(false);
+    });
+
+    it('should apply and preview reassignments as assignee changes', () => {
+      const schedule = createTeamSchedule();
+      const reassignment = generate(schedule).find(s => s.type === 'reassign_member')!;
+
+      const { updatedTasks } = RebalancingSuggestionEngine.applySuggestion(reassignment, schedule);
+      expect(updatedTasks.find(task => task.id === 'edit2')!.assigneeId).toBe('kim');
+      expect(updatedTasks.find(task => task.id === 'edit2')!.scheduledStart).toEqual(schedule.tasks[1].scheduledStart);
+
+      const preview = RebalancingSuggestionEngine.previewSuggestion(reassignment, schedule, mockChannels, 8, teamMembers);
+      expect(preview.dailyChanges).toEqual([]);
+      expect(preview.memberChanges).toEqual([
+        { memberId: 'sam', memberName: 'Sam', beforeHours: 10, afterHours: 6, change: -4 },
+        { memberId: 'kim', memberName: 'Kim', beforeHours: 0, afterHours: 4, change: 4 },
+      ]);
+    });
+  });
+
+  describe('previewSuggestion', () => {
+    const createMoveSuggestion = () => ({
+      id: 'move-suggestion',
+      type: 'redistribute_daily' as const,
+      priority: 'medium' as const,
+      title: 'Move Gaming Short',
+      description: 'Move to Wednesday',
+      impact: { hoursReduced: 4, utilizationImprovement: 10, affectedTasks: 1 },
+      actions: [
+        {
+          type: 'move_task' as const,
+          taskId: 'task2',
+          taskTitle: 'Gaming Short',
+          currentSchedule: {
+            start: new Date('2024-01-01T22:00:00'),
+            end: new Date('2024-01-02T02:00:00'),
+            hours: 4,
+          },
+          proposedSchedule: {
+            start: new Date('2024-01-03T14:00:00'),
+            end: new Date('2024-01-03T18:00:00'),
+            hours: 4,
+          },
+          reason: 'Move to less busy day',
+        },
+      ],
+      estimatedEffort: 'low' as const,
+    });
+
+    it('should report daily before/after hours without changing the schedule', () => {
+      const schedule = createOverloadedSchedule();
+
+      const preview = RebalancingSuggestionEngine.previewSuggestion(
+        createMoveSuggestion(),
+        schedule,
+        mockChannels
+      );
+
+      expect(preview.dailyChanges).toEqual([
+        expect.objectContaining({ dayName: 'Monday', beforeHours: 16, afterHours: 12, change: -4 }),
+        expect.objectContaining({ dayName: 'Wednesday', beforeHours: 0, afterHours: 4, change: 4 }),
+      ]);
+      expect(preview.totalHoursChange).toBe(0);
+      expect(preview.before.dailyBreakdown[0].isOverloaded).toBe(true);
+      expect(preview.after.dailyBreakdown[0].isOverloaded).toBe(true);
+      expect(schedule.tasks[1].scheduledStart).toEqual(new Date('2024-01-01T22:00:00'));
+    });
+
+    it('should expose the task updates that applying would make', () => {
+      const preview = RebalancingSuggestionEngine.previewSuggestion(
+        createMoveSuggestion(),
+        createOverloadedSchedule(),
+        mockChannels
+      );
+
+      expect(preview.taskUpdates).toHaveLength(1);
+      expect(preview.taskUpdates[0].id).toBe('task2');
+      expect(preview.taskUpdates[0].updates.timeSlot).toBe('afternoon');
+    });
+  });
 });
\ No newline at end of file
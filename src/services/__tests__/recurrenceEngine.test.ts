@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { RecurrenceEngine } from '../recurrenceEngine';
+import { Channel, Task, TaskTemplate } from '../../types';
+
+describe('RecurrenceEngine', () => {
+  const createChannel = (postingSchedule: Partial<Channel['postingSchedule']> = {}): Channel => ({
+    id: 'channel1',
+    name: 'Gaming Channel',
+    contentType: 'gaming',
+    postingSchedule: {
+      frequency: 'weekly',
+      preferredDays: ['Monday', 'Thursday'],
+      preferredTimes: ['10:00', '15:30'],
+      ...postingSchedule,
+    },
+    color: '#ff0000',
+    createdAt: new Date(2024, 0, 1), // Monday
+    isActive: true,
+    assignedTasks: [
+      { templateId: 'template1', quantity: 1, priority: 'high' },
+      { templateId: 'template2', quantity: 2, priority: 'low' },
+    ],
+  });
+
+  const templates: TaskTemplate[] = [
+    {
+      id: 'template1',
+      title: 'Record Video',
+      description: 'Record the main video',
+      estimatedHours: 2,
+      category: 'production',
+      workflowSteps: ['Setup', 'Record'],
+      createdAt: new Date(2024, 0, 1),
+    },
+    {
+      id: 'template2',
+      title: 'Thumbnail',
+      description: 'Design a thumbnail',
+      estimatedHours: 0.5,
+      category: 'marketing',
+      workflowSteps: ['Design'],
+      createdAt: new Date(2024, 0, 1),
+    },
+  ];
+
+  // Week of Monday 2024-01-08
+  const weekStart = new Date(2024, 0, 8);
+  const weekEnd = new Date(2024, 0, 15);
+
+  describe('expandPostingSchedule', () => {
+    it('should place weekly postings on preferred days and times', () => {
+      const occurrences = RecurrenceEngine.expandPostingSchedule(createChannel(), weekStart, weekEnd);
+
+      expect(occurrences.map(o => o.dateKey)).toEqual(['2024-01-08', '2024-01-11']);
+      expect(occurrences[0].date.getHours()).toBe(10);
+      expect(occurrences[1].date.getHours()).toBe(15);
+      expect(occurrences[1].date.getMinutes()).toBe(30);
+    });
+
+    it('should post every day for daily schedules without preferred days', () => {
+      const channel = createChannel({ frequency: 'daily', preferredDays: [] });
+
+      const occurrences = RecurrenceEngine.expandPostingSchedule(channel, weekStart, weekEnd);
+
+      expect(occurrences).toHaveLength(7);
+    });
+
+    it('should restrict daily schedules to preferred days when given', () => {
+      const channel = createChannel({
+        frequency: 'daily',
+        preferredDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+      });
+
+      const occurrences = RecurrenceEngine.expandPostingSchedule(channel, weekStart, weekEnd);
+
+      expect(occurrences).toHaveLength(5);
+    });
+
+    it('should skip alternate weeks for biweekly schedules', () => {
+      const channel = createChannel({ frequency: 'biweekly', preferredDays: ['Monday'] });
+
+      const occurrences = RecurrenceEngine.expandPostingSchedule(
+        channel,
+        new Date(2024, 0, 1),
+        new Date(2024, 1, 5)
+      );
+
+      expect(occurrences.map(o => o.dateKey)).toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+    });
+
+    it('should post on the first preferred weekday of each month for monthly schedules', () => {
+      const channel = createChannel({ frequency: 'monthly', preferredDays: ['Friday'] });
+
+      const occurrences = RecurrenceEngine.expandPostingSchedule(
+        channel,
+        new Date(2024, 0, 1),
+        new Date(2024, 3, 1)
+      );
+
+      expect(occurrences.map(o => o.dateKey)).toEqual(['2024-01-05', '2024-02-02', '2024-03-01']);
+    });
+
+    it('should fall back to the creation weekday and a default time', () => {
+      const channel = createChannel({ preferredDays: [], preferredTimes: [] });
+
+      const occurrences = RecurrenceEngine.expandPostingSchedule(channel, weekStart, weekEnd);
+
+      expect(occurrences.map(o => o.dateKey)).toEqual(['2024-01-08']);
+      expect(occurrences[0].date.getHours()).toBe(9);
+    });
+  });
+
+  describe('generateTasks', () => {
+    it('should create tasks for every occurrence and assigned template quantity', () => {
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+
+      // 2 occurrences x (1 recording + 2 thumbnails)
+      expect(tasks).toHaveLength(6);
+      expect(tasks.every(task => task.status === 'planned')).toBe(true);
+      expect(tasks.filter(task => task.templateId === 'template2').map(task => task.title))
+        .toEqual(['Thumbnail (1)', 'Thumbnail (2)', 'Thumbnail (1)', 'Thumbnail (2)']);
+    });
+
+    it('should schedule tasks at the posting time with duration and time slot', () => {
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+      const thursdayRecording = tasks.find(task =>
+        task.templateId === 'template1' && task.scheduledStart.getDate() === 11
+      )!;
+
+      expect(thursdayRecording.scheduledStart.getHours()).toBe(15);
+      expect(thursdayRecording.scheduledEnd.getHours()).toBe(17);
+      expect(thursdayRecording.scheduledEnd.getMinutes()).toBe(30);
+      expect(thursdayRecording.timeSlot).toBe('afternoon');
+      expect(thursdayRecording.priority).toBe('high');
+    });
+
+    it('should produce stable IDs so generation is repeatable', () => {
+      const first = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+      const second = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+
+      expect(first.map(task => task.id)).toEqual(second.map(task => task.id));
+      expect(first[0].recurrenceId).toBe('channel1-template1-2024-01-08-0');
+    });
+
+    it('should make tasks wait on the templates they depend on within a posting', () => {
+      const dependentTemplates = [templates[0], { ...templates[1], dependsOnTemplateIds: ['template1'] }];
+
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), dependentTemplates, weekStart, weekEnd);
+      const mondayTasks = tasks.filter(task => task.scheduledStart.getDate() === 8);
+      const recording = mondayTasks.find(task => task.templateId === 'template1')!;
+      const thumbnails = mondayTasks.filter(task => task.templateId === 'template2');
+
+      expect(thumbnails.every(task => task.dependsOn?.includes(recording.id))).toBe(true);
+      // Dependent tasks start when the recording ends
+      expect(thumbnails.every(task => task.scheduledStart.getTime() === recording.scheduledEnd.getTime())).toBe(true);
+    });
+
+    it('should track progress of the template workflow steps on each task', () => {
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+      const recording = tasks.find(task => task.templateId === 'template1')!;
+
+      expect(recording.steps).toEqual([{ name: 'Setup' }, { name: 'Record' }]);
+    });
+
+    it('should create one chained task per workflow step when requested', () => {
+      const stepTemplates = [{ ...templates[0], createTaskPerStep: true }];
+      const channel = { ...createChannel(), assignedTasks: [{ templateId: 'template1', quantity: 1, priority: 'high' as const }] };
+
+      const tasks = RecurrenceEngine.generateTasks(channel, stepTemplates, weekStart, weekEnd)
+        .filter(task => task.scheduledStart.getDate() === 8);
+
+      expect(tasks.map(task => task.title)).toEqual(['Record Video: Setup', 'Record Video: Record']);
+      expect(tasks.map(task => task.estimatedHours)).toEqual([1, 1]);
+      expect(tasks[1].dependsOn).toEqual([tasks[0].id]);
+      expect(tasks[1].scheduledStart).toEqual(tasks[0].scheduledEnd);
+      expect(tasks[1].recurrenceId).toBe('channel1-template1-2024-01-08-0-step-2');
+      expect(tasks.every(task => task.steps === undefined)).toBe(true);
+    });
+
+    it('should skip assignments whose template no longer exists', () => {
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), [templates[0]], weekStart, weekEnd);
+
+      expect(tasks).toHaveLength(2);
+    });
+  });
+
+  describe('regenerateTasks', () => {
+    it('should not duplicate tasks when regenerating an unchanged schedule', () => {
+      const channel = createChannel();
+      const tasks = RecurrenceEngine.generateTasks(channel, templates, weekStart, weekEnd);
+
+      const regenerated = RecurrenceEngine.regenerateTasks(tasks, channel, templates, weekStart, weekEnd);
+
+      expect(regenerated).toHaveLength(tasks.length);
+    });
+
+    it('should replace planned tasks when the posting schedule changes', () => {
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+      const changedChannel = createChannel({ preferredDays: ['Wednesday'] });
+
+      const regenerated = RecurrenceEngine.regenerateTasks(tasks, changedChannel, templates, weekStart, weekEnd);
+
+      expect(regenerated).toHaveLength(3);
+      expect(regenerated.every(task => task.scheduledStart.getDate() === 10)).toBe(true);
+    });
+
+    it('should keep started work and manual tasks when regenerating', () => {
+      const tasks = RecurrenceEngine.generateTasks(createChannel(), templates, weekStart, weekEnd);
+      tasks[0] = { ...tasks[0], status: 'in-progress' };
+      const manualTask: Task = {
+        id: 'manual',
+        channelId: 'channel1',
+        title: 'Collab call',
+        estimatedHours: 1,
+        status: 'planned',
+        scheduledStart: new Date(2024, 0, 9, 10),
+        scheduledEnd: new Date(2024, 0, 9, 11),
+        timeSlot: 'morning',
+        priority: 'medium',
+      };
+      const changedChannel = createChannel({ preferredDays: ['Wednesday'] });
+
+      const regenerated = RecurrenceEngine.regenerateTasks(
+        [...tasks, manualTask],
+        changedChannel,
+        templates,
+        weekStart,
+        weekEnd
+      );
+
+      expect(regenerated.map(task => task.id)).toContain(tasks[0].id);
+      expect(regenerated.map(task => task.id)).toContain('manual');
+      expect(regenerated).toHaveLength(5);
+    });
+  });
+});
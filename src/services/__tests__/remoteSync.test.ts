@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createSyncServer, SyncServer } from '../../../server/syncServer.js';
+import { remoteSyncService, PullResponse, RemoteEntity } from '../remoteSync';
+import { crossTabSyncService } from '../crossTabSync';
+import { debouncedLocalStorageService } from '../debouncedLocalStorage';
+import { localStorageService } from '../localStorage';
+import { STORAGE_KEYS } from '../../utils/constants';
+import { Channel } from '../../types';
+
+describe('RemoteSyncService', () => {
+  const channel = (id: string, name: string) => ({ id, name, contentType: 'General' }) as unknown as Channel;
+
+  let server: SyncServer;
+  let port: number;
+  let serverUrl: string;
+
+  const listen = () => new Promise<void>(resolve => server.listen(port, resolve));
+  const close = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+  // Another browser talking to the same server
+  const pullFromServer = async (): Promise<PullResponse> => (await fetch(`${serverUrl}/changes?since=0`)).json();
+  const getServerChannels = async () => (await pullFromServer()).changes
+    .filter(change => change.domain === 'channels')
+    .map(change => [change.id, (change.value as Channel).name]);
+  const pushToServer = (baseRevision: number, changes: RemoteEntity[]) => fetch(`${serverUrl}/changes`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ baseRevision, changes }),
+  });
+
+  const saveChannels = async (channels: Channel[]) => {
+    debouncedLocalStorageService.debouncedUpdateChannels(channels);
+    await debouncedLocalStorageService.flushPendingUpdates();
+    await remoteSyncService.sync();
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    server = createSyncServer();
+    port = 0;
+    await listen();
+    port = (server.address() as { port: number }).port;
+    serverUrl = `http://localhost:${port}`;
+  });
+
+  afterEach(async () => {
+    remoteSyncService.disconnect();
+    await close();
+  });
+
+  it('should load server data on first connecting and push entities only this browser has', async () => {
+    await pushToServer(0, [{ domain: 'channels', id: 'remote', value: channel('remote', 'From server') }]);
+    localStorageService.addChannel(channel('local', 'From browser'));
+
+    const status = await remoteSyncService.connect(serverUrl);
+
+    expect(status).toMatchObject({ state: 'online', revision: 2, queuedChanges: 0 });
+    expect(localStorageService.getChannels().map(c => c.id).sort()).toEqual(['local', 'remote']);
+    expect(await getServerChannels()).toEqual([['remote', 'From server'], ['local', 'From browser']]);
+  });
+
+  it('should push saved changes and save pulled changes for the app to merge', async () => {
+    await remoteSyncService.connect(serverUrl);
+    const listener = vi.fn();
+    const unsubscribe = crossTabSyncService.subscribe(listener);
+
+    await saveChannels([channel('a', 'Alpha')]);
+    expect(await getServerChannels()).toEqual([['a', 'Alpha']]);
+
+    const { revision } = await pullFromServer();
+    await pushToServer(revision, [{ domain: 'templates', id: 't1', value: { id: 't1', title: 'Edit video' } }]);
+    await remoteSyncService.sync();
+
+    expect(localStorageService.getTaskTemplates()).toEqual([{ id: 't1', title: 'Edit video' }]);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      domain: 'templates',
+      changes: [expect.objectContaining({ id: 't1' })],
+    }));
+    unsubscribe();
+  });
+
+  it('should queue changes while the server is unreachable and push them once it is back', async () => {
+    await remoteSyncService.connect(serverUrl);
+    await close();
+
+    await saveChannels([channel('a', 'Offline edit')]);
+
+    expect(remoteSyncService.getStatus()).toMatchObject({ state: 'offline', queuedChanges: 1 });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.REMOTE_SYNC)!).outbox).toHaveProperty(['channels:a']);
+
+    await listen();
+    await remoteSyncService.sync();
+
+    expect(remoteSyncService.getStatus()).toMatchObject({ state: 'online', queuedChanges: 0 });
+    expect(await getServerChannels()).toEqual([['a', 'Offline edit']]);
+  });
+
+  it('should keep queued local changes over concurrent server changes and apply the rest', async () => {
+    await remoteSyncService.connect(serverUrl);
+    await saveChannels([channel('a', 'Alpha')]);
+    await close();
+    await saveChannels([channel('a', 'Mine')]);
+    await listen();
+
+    // Another browser changes the same channel and adds one before this browser reconnects
+    const { revision } = await pullFromServer();
+    await pushToServer(revision, [
+      { domain: 'channels', id: 'a', value: channel('a', 'Theirs') },
+      { domain: 'channels', id: 'b', value: channel('b', 'Beta') },
+    ]);
+
+    await remoteSyncService.sync();
+
+    expect(localStorageService.getChannels().map(c => [c.id, c.name])).toEqual([['a', 'Mine'], ['b', 'Beta']]);
+    expect(await getServerChannels()).toEqual([['b', 'Beta'], ['a', 'Mine']]);
+  });
+
+  it('should have the server reject pushes over changes the client has not pulled', async () => {
+    await pushToServer(0, [{ domain: 'channels', id: 'a', value: channel('a', 'First') }]);
+
+    const stale = await pushToServer(0, [{ domain: 'channels', id: 'a', value: channel('a', 'Second') }]);
+    const repeated = await pushToServer(0, [{ domain: 'channels', id: 'a', value: channel('a', 'First') }]);
+    const invalid = await pushToServer(0, [{ domain: 'unknown' as never, id: 'a', value: null }]);
+
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toMatchObject({ revision: 1, conflicts: [{ id: 'a', revision: 1 }] });
+    expect(repeated.status).toBe(200);
+    expect(invalid.status).toBe(400);
+  });
+});
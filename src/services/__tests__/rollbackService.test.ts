@@ -54,7 +54,7 @@ describe('RollbackService', () => {
       const testTemplates = [{ id: '1', name: 'Test Template' }];
       
       localStorageMock.setItem('mcm_channels', JSON.stringify(testChannels));
-      localStorageMock.setItem('mcm_templates', JSON.stringify(testTemplates));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify(testTemplates));
 
       const rollbackId = await rollbackService.createRollbackPoint(
         'test_operation',
@@ -77,7 +77,7 @@ describe('RollbackService', () => {
       const testTemplates = [{ id: '1', name: 'Test Template' }];
       
       localStorageMock.setItem('mcm_channels', JSON.stringify(testChannels));
-      localStorageMock.setItem('mcm_templates', JSON.stringify(testTemplates));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify(testTemplates));
 
       const rollbackId = await rollbackService.createRollbackPoint(
         'channel_operation',
@@ -108,6 +108,27 @@ describe('RollbackService', () => {
       expect(rollbackPoint!.dataSnapshot.schedules).toEqual({});
       expect(rollbackPoint!.dataSnapshot.userSettings).toEqual({});
     });
+
+    it('prefers in-memory data over persisted data when provided', async () => {
+      localStorageMock.setItem('mcm_schedules', JSON.stringify({
+        '2024-01-01': { tasks: ['stale'] },
+        '2024-01-08': { tasks: ['persisted'] },
+      }));
+
+      const rollbackId = await rollbackService.createRollbackPoint(
+        'schedule_operation',
+        'Captures unsaved edits',
+        ['mcm_schedules'],
+        { schedules: { '2024-01-01': { tasks: ['in-memory'] } } }
+      );
+
+      const rollbackPoint = await rollbackService.getRollbackPoint(rollbackId);
+
+      expect(rollbackPoint!.dataSnapshot.schedules).toEqual({
+        '2024-01-01': { tasks: ['in-memory'] },
+        '2024-01-08': { tasks: ['persisted'] },
+      });
+    });
   });
 
   describe('rollback', () => {
@@ -144,7 +165,7 @@ describe('RollbackService', () => {
       const initialTemplates = [{ id: '1', name: 'Initial Template' }];
       
       localStorageMock.setItem('mcm_channels', JSON.stringify(initialChannels));
-      localStorageMock.setItem('mcm_templates', JSON.stringify(initialTemplates));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify(initialTemplates));
 
       // Create rollback point for channels only
       const rollbackId = await rollbackService.createRollbackPoint(
@@ -155,18 +176,40 @@ describe('RollbackService', () => {
 
       // Modify both channels and templates
       localStorageMock.setItem('mcm_channels', JSON.stringify([{ id: '2', name: 'Modified Channel' }]));
-      localStorageMock.setItem('mcm_templates', JSON.stringify([{ id: '2', name: 'Modified Template' }]));
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify([{ id: '2', name: 'Modified Template' }]));
 
       // Rollback
       await rollbackService.rollback(rollbackId, { createBackupBeforeRollback: false });
 
       // Verify only channels were restored
       const restoredChannels = JSON.parse(localStorageMock.getItem('mcm_channels')!);
-      const currentTemplates = JSON.parse(localStorageMock.getItem('mcm_templates')!);
+      const currentTemplates = JSON.parse(localStorageMock.getItem('mcm_task_templates')!);
 
       expect(restoredChannels).toEqual(initialChannels);
       expect(currentTemplates).toEqual([{ id: '2', name: 'Modified Template' }]);
     });
+
+    it('does not restore templates captured under the old templates key', async () => {
+      localStorageMock.setItem('mcm_task_templates', JSON.stringify([{ id: '1', title: 'Current Template' }]));
+      localStorageMock.setItem('mcm_rollback_points', JSON.stringify([{
+        id: 'rb_legacy',
+        timestamp: new Date(),
+        operation: 'legacy_operation',
+        description: 'Created before the storage schema',
+        dataSnapshot: { channels: [{ id: '1', name: 'Old Channel' }], templates: [] },
+        affectedKeys: ['mcm_channels', 'mcm_templates']
+      }]));
+
+      await rollbackService.rollback('rb_legacy', { createBackupBeforeRollback: false });
+
+      expect(JSON.parse(localStorageMock.getItem('mcm_channels')!)).toEqual([{ id: '1', name: 'Old Channel' }]);
+      expect(JSON.parse(localStorageMock.getItem('mcm_task_templates')!)).toEqual([{ id: '1', title: 'Current Template' }]);
+    });
+
+    it('rejects affected keys outside the storage schema', async () => {
+      await expect(rollbackService.createRollbackPoint('op', 'Unknown key', ['mcm_templates']))
+        .rejects.toThrow('Unknown storage key for rollback: mcm_templates');
+    });
   });
 
   describe('getRollbackPoints', () => {
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { ScheduleAnalytics } from '../scheduleAnalytics';
+import { Channel, Task, TaskTemplate, WeeklySchedule } from '../../types';
+
+describe('ScheduleAnalytics', () => {
+  const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    channelId: 'channel1',
+    title: `Task ${id}`,
+    estimatedHours: 4,
+    status: 'completed',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 13),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  const createWeek = (weekStart: Date, tasks: Task[]): WeeklySchedule => ({
+    weekStartDate: weekStart,
+    tasks,
+    totalScheduledHours: 0,
+    userCapacityHours: 20,
+    isOverloaded: false,
+  });
+
+  const channel: Channel = {
+    id: 'channel1',
+    name: 'Gaming',
+    contentType: 'gaming',
+    postingSchedule: { frequency: 'weekly', preferredDays: ['Monday'], preferredTimes: ['09:00'] },
+    color: '#ff0000',
+    createdAt: new Date(2024, 0, 1),
+    isActive: true,
+    assignedTasks: [],
+  };
+
+  const template: TaskTemplate = {
+    id: 'edit',
+    title: 'Edit Video',
+    description: '',
+    estimatedHours: 4,
+    category: 'production',
+    workflowSteps: [],
+    createdAt: new Date(2024, 0, 1),
+  };
+
+  // Week of Jan 8: both Monday tasks completed. Week of Jan 15: one Monday task still planned and overdue.
+  const schedules: Record<string, WeeklySchedule> = {
+    '2024-01-08': createWeek(new Date(2024, 0, 8), [
+      createTask('a', { templateId: 'edit', actualHours: 5, recurrenceId: 'channel1-edit-2024-01-08-0' }),
+      createTask('b', { estimatedHours: 6, actualHours: 6 }),
+    ]),
+    '2024-01-15': createWeek(new Date(2024, 0, 15), [
+      createTask('c', {
+        templateId: 'edit',
+        status: 'planned',
+        recurrenceId: 'channel1-edit-2024-01-15-0',
+        scheduledStart: new Date(2024, 0, 15, 9),
+        scheduledEnd: new Date(2024, 0, 15, 13),
+      }),
+      createTask('d', {
+        estimatedHours: 26,
+        scheduledStart: new Date(2024, 0, 16, 9),
+        scheduledEnd: new Date(2024, 0, 17, 11),
+      }),
+    ]),
+    '2024-02-05': createWeek(new Date(2024, 0, 5), []),
+  };
+
+  const january = { start: new Date(2024, 0, 8), end: new Date(2024, 0, 22) };
+
+  it('should only include weeks within the range', () => {
+    expect(ScheduleAnalytics.getWeeksInRange(schedules, january).map(([weekKey]) => weekKey))
+      .toEqual(['2024-01-08', '2024-01-15']);
+    // A range starting mid-week still includes that week
+    expect(ScheduleAnalytics.getWeeksInRange(schedules, { start: new Date(2024, 0, 17), end: new Date(2024, 0, 18) })
+      .map(([weekKey]) => weekKey)).toEqual(['2024-01-15']);
+  });
+
+  it('should report weekly utilization against capacity', () => {
+    expect(ScheduleAnalytics.getUtilizationTrend(schedules, january)).toEqual([
+      { weekKey: '2024-01-08', scheduledHours: 10, capacityHours: 20, utilization: 50 },
+      { weekKey: '2024-01-15', scheduledHours: 30, capacityHours: 20, utilization: 150 },
+    ]);
+  });
+
+  it('should report channel completion per week', () => {
+    const [trend] = ScheduleAnalytics.getChannelCompletionTrend(
+      schedules,
+      [channel, { ...channel, id: 'channel2', name: 'Vlogs' }],
+      january
+    );
+
+    expect(trend.weeks).toEqual([
+      { weekKey: '2024-01-08', completionRate: 100 },
+      { weekKey: '2024-01-15', completionRate: 50 },
+    ]);
+    expect(ScheduleAnalytics.getChannelCompletionTrend(schedules, [{ ...channel, id: 'channel2' }], january)[0].weeks
+      .every(week => week.completionRate === null)).toBe(true);
+  });
+
+  it('should count overdue tasks per week', () => {
+    expect(ScheduleAnalytics.getOverdueTrend(schedules, january).map(week => [week.overdue, week.total]))
+      .toEqual([[0, 2], [1, 2]]);
+  });
+
+  it('should group hours by template category', () => {
+    expect(ScheduleAnalytics.getHoursByCategory(schedules, [template], january)).toEqual([
+      { category: 'uncategorized', taskCount: 2, estimatedHours: 32, actualHours: 6 },
+      { category: 'production', taskCount: 2, estimatedHours: 8, actualHours: 5 },
+    ]);
+  });
+
+  it('should compare delivered postings with the posting schedule', () => {
+    const [cadence] = ScheduleAnalytics.getPostingCadence(schedules, [channel], january, new Date(2024, 0, 20));
+
+    // Mondays Jan 8 and Jan 15 were due; only Jan 8 was fully completed
+    expect(cadence).toMatchObject({ expected: 2, delivered: 1, adherence: 50 });
+  });
+
+  it('should not count posting days that have not happened yet', () => {
+    const [cadence] = ScheduleAnalytics.getPostingCadence(schedules, [channel], january, new Date(2024, 0, 10));
+
+    expect(cadence).toMatchObject({ expected: 1, delivered: 1, adherence: 100 });
+    expect(ScheduleAnalytics.getPostingCadence(schedules, [channel], january, new Date(2024, 0, 1))[0].adherence)
+      .toBeNull();
+  });
+
+  it('should find the posting day of generated and manual tasks', () => {
+    expect(ScheduleAnalytics.getPostingDateKey(createTask('x', { recurrenceId: 'ch-1-tpl-2-2024-01-08-0-step-2' })))
+      .toBe('2024-01-08');
+    expect(ScheduleAnalytics.getPostingDateKey(createTask('y', { scheduledStart: new Date(2024, 0, 9, 9) })))
+      .toBe('2024-01-09');
+  });
+
+  it('should report the range covered by stored weeks', () => {
+    expect(ScheduleAnalytics.getHistoryRange(schedules)).toEqual({
+      start: new Date(2024, 0, 8),
+      end: new Date(2024, 1, 12),
+    });
+    expect(ScheduleAnalytics.getHistoryRange({})).toBeNull();
+  });
+});
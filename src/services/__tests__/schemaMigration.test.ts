@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SchemaData, SchemaMigrator } from '../schemaMigration';
+import { enhancedPersistenceService } from '../enhancedPersistence';
+import { localStorageService } from '../localStorage';
+import DataBackupService from '../dataBackup';
+import { APP_VERSION, STORAGE_KEYS } from '../../utils/constants';
+import { Channel, WeeklySchedule } from '../../types';
+
+describe('SchemaMigrator', () => {
+  const createLegacyData = (): SchemaData => ({
+    channels: [
+      { id: 'channel1', name: 'Gaming Channel', contentType: 'gaming' },
+      { id: 'channel2', name: 'Cooking', contentType: 'Recipes' },
+    ],
+    templates: [],
+    schedules: {},
+    userSettings: { weeklyCapacityHours: 40 },
+  });
+
+  it('should compare versions part by part', () => {
+    expect(SchemaMigrator.compareVersions('1.0.0', '1.1.0')).toBeLessThan(0);
+    expect(SchemaMigrator.compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(SchemaMigrator.compareVersions('2.0', '2.0.0')).toBe(0);
+  });
+
+  it('should only run migrations newer than the data', () => {
+    expect(SchemaMigrator.getPendingMigrations('0.0.0').map(m => m.version)).toContain('1.1.0');
+    expect(SchemaMigrator.getPendingMigrations(APP_VERSION)).toEqual([]);
+  });
+
+  it('should convert predefined content types to custom content types', () => {
+    const legacy = createLegacyData();
+
+    const { data, report } = SchemaMigrator.migrate(legacy, '1.0.0');
+
+    expect((data.channels as Channel[]).map(channel => channel.contentType)).toEqual(['Gaming', 'Recipes']);
+    expect(data.userSettings).toEqual({ weeklyCapacityHours: 40, customContentTypes: ['Gaming', 'Recipes'] });
+    expect(report).toMatchObject({ fromVersion: '1.0.0', toVersion: APP_VERSION, dryRun: false, warnings: [] });
+    expect(report.steps).toEqual([
+      {
+        version: '1.1.0',
+        description: 'Convert predefined channel content types to custom content types',
+        changes: [
+          'Channel "Gaming Channel": content type "gaming" is now "Gaming"',
+          'Added custom content types: Gaming, Recipes',
+        ],
+      },
+      {
+        version: '1.1.0',
+        description: 'Key weekly schedules by the local date of the Monday starting each week',
+        changes: [],
+      },
+      {
+        version: '1.1.0',
+        description: 'Move templates saved under the old templates key into task templates',
+        changes: [],
+      },
+    ]);
+    // The input is left untouched so a dry run can discard the result
+    expect(legacy).toEqual(createLegacyData());
+  });
+
+  it('should re-key weeks by their local Monday and move tasks into the week they are scheduled in', () => {
+    const task = (id: string, start: string) => ({ id, estimatedHours: 2, scheduledStart: new Date(start).toISOString() });
+    const legacy: SchemaData = {
+      ...createLegacyData(),
+      schedules: {
+        // Sunday-based week, keyed by the UTC date of its start
+        '2023-12-31': {
+          weekStartDate: new Date('2023-12-31T09:30:00').toISOString(),
+          tasks: [task('monday', '2024-01-01T10:00:00'), task('sunday', '2023-12-31T10:00:00')],
+          totalScheduledHours: 4,
+          userCapacityHours: 3,
+          isOverloaded: true,
+        },
+        '2024-01-08': {
+          weekStartDate: new Date('2024-01-08T00:00:00').toISOString(),
+          tasks: [task('next', '2024-01-09T10:00:00')],
+          totalScheduledHours: 2,
+          userCapacityHours: 40,
+          isOverloaded: false,
+        },
+      },
+    };
+
+    const { data, report } = SchemaMigrator.migrate(legacy, '1.0.0');
+    const schedules = data.schedules as Record<string, WeeklySchedule>;
+
+    expect(Object.keys(schedules).sort()).toEqual(['2023-12-25', '2024-01-01', '2024-01-08']);
+    expect(schedules['2024-01-01']).toMatchObject({ totalScheduledHours: 2, isOverloaded: false });
+    expect(schedules['2024-01-01'].tasks.map(t => t.id)).toEqual(['monday']);
+    expect(schedules['2024-01-01'].weekStartDate).toEqual(new Date('2024-01-01T00:00:00'));
+    expect(schedules['2023-12-25'].tasks.map(t => t.id)).toEqual(['sunday']);
+    expect(schedules['2024-01-08'].tasks.map(t => t.id)).toEqual(['next']);
+    expect(report.steps[1].changes).toEqual([
+      'Week 2023-12-31 is now stored as week 2024-01-01',
+      'Moved 1 task(s) to the week they are scheduled in',
+    ]);
+
+    // Data already keyed this way is left as it is
+    expect(SchemaMigrator.migrate(data, '1.0.0').report.steps[1].changes).toEqual([]);
+  });
+
+  it('should not downgrade data saved by a newer version', () => {
+    const { data, report } = SchemaMigrator.migrate(createLegacyData(), '99.0.0');
+
+    expect(data).toEqual(createLegacyData());
+    expect(report.steps).toEqual([]);
+    expect(report.warnings).toHaveLength(1);
+  });
+
+  it('should run registered migrations in version order', () => {
+    SchemaMigrator.register({
+      version: '99.2.0',
+      description: 'Second',
+      migrate: data => ({ data: { ...data, templates: [...data.templates, 'second'] }, changes: [] }),
+    });
+    SchemaMigrator.register({
+      version: '99.1.0',
+      description: 'First',
+      migrate: data => ({ data: { ...data, templates: [...data.templates, 'first'] }, changes: [] }),
+    });
+
+    const { data, report } = SchemaMigrator.migrate(createLegacyData(), APP_VERSION, { toVersion: '99.2.0' });
+
+    expect(data.templates).toEqual(['first', 'second']);
+    expect(report.steps.map(step => step.version)).toEqual(['99.1.0', '99.2.0']);
+    expect(() => SchemaMigrator.register({ version: '99.1.0', description: 'Again', migrate: data => ({ data, changes: [] }) }))
+      .toThrow('already registered');
+  });
+
+  describe('stored data', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      localStorage.setItem(STORAGE_KEYS.APP_VERSION, '1.0.0');
+      localStorage.setItem(STORAGE_KEYS.CHANNELS, JSON.stringify(createLegacyData().channels));
+      localStorage.setItem(STORAGE_KEYS.USER_SETTINGS, JSON.stringify({ weeklyCapacityHours: 40 }));
+    });
+
+    it('should report a dry run without changing storage', () => {
+      const report = enhancedPersistenceService.previewMigration();
+
+      expect(report.dryRun).toBe(true);
+      expect(report.steps.map(step => step.version)).toEqual(['1.1.0', '1.1.0', '1.1.0']);
+      expect(localStorageService.getChannels()[0].contentType).toBe('gaming');
+      expect(localStorageService.getAppVersion()).toBe('1.0.0');
+    });
+
+    it('should back up and upgrade stored data', async () => {
+      const report = await enhancedPersistenceService.migrateStoredData();
+
+      expect(localStorageService.getChannels()[0].contentType).toBe('Gaming');
+      expect(localStorageService.getAppVersion()).toBe(APP_VERSION);
+      expect(DataBackupService.getInstance().getBackupDetails(report.backupId!)!.channels[0].contentType).toBe('gaming');
+
+      // Nothing is left to migrate afterwards
+      expect((await enhancedPersistenceService.migrateStoredData()).steps).toEqual([]);
+    });
+
+    it('should move templates saved under the old templates key into task templates', async () => {
+      localStorage.setItem(STORAGE_KEYS.TASK_TEMPLATES, JSON.stringify([{ id: 't1', title: 'Current' }]));
+      localStorage.setItem(STORAGE_KEYS.LEGACY_TEMPLATES, JSON.stringify([
+        { id: 't1', title: 'Stale copy' },
+        { id: 't2', title: 'Restored' },
+      ]));
+
+      const report = await enhancedPersistenceService.migrateStoredData();
+
+      expect(localStorageService.getTaskTemplates()).toEqual([{ id: 't1', title: 'Current' }, { id: 't2', title: 'Restored' }]);
+      expect(localStorage.getItem(STORAGE_KEYS.LEGACY_TEMPLATES)).toBeNull();
+      expect(report.steps[2].changes).toEqual(['Template "Restored" moved from the old templates key']);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { storageBackend } from '../storageBackend';
+import { IndexedDBAdapter, StorageAdapter } from '../storageAdapter';
+import { localStorageService } from '../localStorage';
+import { DataBackupService } from '../dataBackup';
+import { RollbackService } from '../rollbackService';
+import { STORAGE_KEYS } from '../../utils/constants';
+import { WeeklySchedule } from '../../types';
+
+describe('StorageBackend', () => {
+  const schedule: WeeklySchedule = {
+    weekStartDate: new Date(2024, 0, 8),
+    tasks: [],
+    totalScheduledHours: 0,
+    userCapacityHours: 40,
+    isOverloaded: false,
+  };
+
+  const readDatabase = async () => {
+    const adapter = await IndexedDBAdapter.open();
+    const entries = Object.fromEntries(await adapter.entries());
+    adapter.close();
+    return entries;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(async () => {
+    await storageBackend.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('should move existing schedules, backups and rollback points from localStorage to IndexedDB', async () => {
+    localStorage.setItem(STORAGE_KEYS.SCHEDULES, '{"2024-01-08":{}}');
+    localStorage.setItem(`${STORAGE_KEYS.BACKUP_PREFIX}1`, '{"version":"1.0.0"}');
+    localStorage.setItem(STORAGE_KEYS.BACKUP_METADATA, '[]');
+    localStorage.setItem(STORAGE_KEYS.ROLLBACK_POINTS, '[]');
+    localStorage.setItem(STORAGE_KEYS.CHANNELS, '[]');
+
+    expect(await storageBackend.initialize()).toBe('indexeddb');
+
+    expect(await readDatabase()).toEqual({
+      [STORAGE_KEYS.SCHEDULES]: '{"2024-01-08":{}}',
+      [`${STORAGE_KEYS.BACKUP_PREFIX}1`]: '{"version":"1.0.0"}',
+      [STORAGE_KEYS.BACKUP_METADATA]: '[]',
+      [STORAGE_KEYS.ROLLBACK_POINTS]: '[]',
+    });
+    expect(Object.keys(localStorage)).toEqual([STORAGE_KEYS.CHANNELS]);
+    expect(storageBackend.getItem(STORAGE_KEYS.SCHEDULES)).toBe('{"2024-01-08":{}}');
+  });
+
+  it('should persist service writes to IndexedDB across sessions', async () => {
+    await storageBackend.initialize();
+
+    localStorageService.setSchedule('2024-01-08', schedule);
+    const backupId = await DataBackupService.getInstance().createBackup('After moving');
+    await RollbackService.getInstance().createRollbackPoint('op', 'After moving');
+    await storageBackend.close();
+
+    // Only keys that stay small remain in localStorage
+    expect(localStorage.getItem(STORAGE_KEYS.SCHEDULES)).toBeNull();
+    expect(Object.keys(localStorage).some(key => key.startsWith(STORAGE_KEYS.BACKUP_PREFIX))).toBe(false);
+
+    await storageBackend.initialize();
+    expect(localStorageService.getSchedule('2024-01-08')).toEqual(schedule);
+    expect(DataBackupService.getInstance().getBackupDetails(backupId)!.schedules).toHaveProperty('2024-01-08');
+    expect(RollbackService.getInstance().getRollbackPoints()).toHaveLength(1);
+  });
+
+  it('should keep IndexedDB data over defaults written to localStorage before initialization', async () => {
+    await storageBackend.initialize();
+    localStorageService.setSchedule('2024-01-08', schedule);
+    await storageBackend.close();
+
+    localStorage.setItem(STORAGE_KEYS.SCHEDULES, '{}');
+    await storageBackend.initialize();
+
+    expect(localStorageService.getSchedule('2024-01-08')).toEqual(schedule);
+    expect(localStorage.getItem(STORAGE_KEYS.SCHEDULES)).toBeNull();
+  });
+
+  it('should keep everything in localStorage when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+
+    expect(await storageBackend.initialize()).toBe('localStorage');
+
+    localStorageService.setSchedule('2024-01-08', schedule);
+    expect(storageBackend.getBackendName()).toBe('localStorage');
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.SCHEDULES)!)).toHaveProperty('2024-01-08');
+  });
+
+  it('should fall back to localStorage when the adapter fails to load', async () => {
+    localStorage.setItem(STORAGE_KEYS.SCHEDULES, '{"2024-01-08":{}}');
+    const failingAdapter: StorageAdapter = {
+      name: 'indexeddb',
+      entries: () => Promise.reject(new Error('Database is corrupt')),
+      getItem: () => Promise.resolve(null),
+      setItem: () => Promise.resolve(),
+      removeItem: () => Promise.resolve(),
+      close: vi.fn(),
+    };
+
+    expect(await storageBackend.initialize(failingAdapter)).toBe('localStorage');
+    expect(failingAdapter.close).toHaveBeenCalled();
+    expect(storageBackend.getItem(STORAGE_KEYS.SCHEDULES)).toBe('{"2024-01-08":{}}');
+  });
+});
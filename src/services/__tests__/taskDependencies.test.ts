@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { TaskDependencyManager } from '../taskDependencies';
+import { Task, TaskTemplate } from '../../types';
+
+describe('TaskDependencyManager', () => {
+  const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    channelId: 'channel1',
+    title: `Task ${id}`,
+    estimatedHours: 2,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 11),
+    timeSlot: 'morning',
+    priority: 'medium',
+    ...overrides,
+  });
+
+  // Record -> Edit -> Publish
+  const record = createTask('record');
+  const edit = createTask('edit', {
+    dependsOn: ['record'],
+    scheduledStart: new Date(2024, 0, 8, 11),
+    scheduledEnd: new Date(2024, 0, 8, 13),
+  });
+  const publish = createTask('publish', {
+    dependsOn: ['edit'],
+    scheduledStart: new Date(2024, 0, 8, 13),
+    scheduledEnd: new Date(2024, 0, 8, 14),
+  });
+
+  describe('blocking', () => {
+    it('should block tasks until their dependencies are completed', () => {
+      const tasks = [record, edit, publish];
+
+      expect(TaskDependencyManager.isBlocked(record, tasks)).toBe(false);
+      expect(TaskDependencyManager.getBlockingTasks(edit, tasks)).toEqual([record]);
+      expect(Array.from(TaskDependencyManager.getBlockedTasks(tasks).keys())).toEqual(['edit', 'publish']);
+    });
+
+    it('should unblock what follows once a dependency is completed', () => {
+      const tasks = [{ ...record, status: 'completed' as const }, edit, publish];
+
+      expect(TaskDependencyManager.isBlocked(edit, tasks)).toBe(false);
+      expect(TaskDependencyManager.isBlocked(publish, tasks)).toBe(true);
+    });
+
+    it('should report which tasks completing a task would unblock', () => {
+      const review = createTask('review');
+      const upload = createTask('upload', { dependsOn: ['edit', 'review'] });
+      const tasks = [record, edit, review, upload];
+
+      expect(TaskDependencyManager.getTasksUnblockedBy('record', tasks)).toEqual([edit]);
+      expect(TaskDependencyManager.getTasksUnblockedBy('review', tasks)).toEqual([]);
+    });
+  });
+
+  describe('cycles', () => {
+    it('should detect dependencies that would create a cycle', () => {
+      const tasks = [record, edit, publish];
+
+      expect(TaskDependencyManager.wouldCreateCycle('record', 'publish', tasks)).toBe(true);
+      expect(TaskDependencyManager.wouldCreateCycle('record', 'record', tasks)).toBe(true);
+      expect(TaskDependencyManager.wouldCreateCycle('publish', 'record', tasks)).toBe(false);
+    });
+
+    it('should refuse to add a dependency that creates a cycle', () => {
+      const tasks = [record, edit, publish];
+
+      expect(() => TaskDependencyManager.addDependency(record, 'publish', tasks)).toThrow('cannot depend');
+      expect(TaskDependencyManager.addDependency(publish, 'record', tasks)).toEqual(['edit', 'record']);
+    });
+  });
+
+  describe('findViolations', () => {
+    it('should accept tasks scheduled in dependency order', () => {
+      expect(TaskDependencyManager.findViolations([record, edit, publish])).toEqual([]);
+    });
+
+    it('should flag tasks that start before a dependency ends', () => {
+      const earlyEdit = { ...edit, scheduledStart: new Date(2024, 0, 8, 10) };
+
+      const violations = TaskDependencyManager.findViolations([record, earlyEdit]);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].type).toBe('starts_before_dependency');
+      expect(violations[0].message).toContain('"Task edit"');
+    });
+
+    it('should flag missing dependencies and cycles', () => {
+      const violations = TaskDependencyManager.findViolations([
+        { ...record, dependsOn: ['edit'] },
+        edit,
+        createTask('orphan', { dependsOn: ['deleted'] }),
+      ]);
+
+      expect(violations.map(v => v.type)).toEqual([
+        'circular_dependency',
+        'circular_dependency',
+        'missing_dependency',
+      ]);
+    });
+  });
+
+  describe('ordering', () => {
+    it('should sort tasks after the tasks they depend on', () => {
+      const sorted = TaskDependencyManager.sortByDependencies([publish, edit, record]);
+
+      expect(sorted.map(task => task.id)).toEqual(['record', 'edit', 'publish']);
+    });
+
+    it('should move tasks after their dependencies while keeping durations', () => {
+      const tasks = TaskDependencyManager.scheduleAfterDependencies([
+        record,
+        { ...edit, scheduledStart: record.scheduledStart, scheduledEnd: new Date(2024, 0, 8, 11) },
+      ]);
+
+      expect(tasks[0]).toBe(record);
+      expect(tasks[1].scheduledStart).toEqual(new Date(2024, 0, 8, 11));
+      expect(tasks[1].scheduledEnd).toEqual(new Date(2024, 0, 8, 13));
+    });
+
+    it('should chain tasks in order', () => {
+      const chained = TaskDependencyManager.chain([createTask('a'), createTask('b'), createTask('c')]);
+
+      expect(chained.map(task => task.dependsOn)).toEqual([undefined, ['a'], ['b']]);
+    });
+  });
+
+  describe('getDependentTemplateIds', () => {
+    it('should find templates that wait on a template directly or indirectly', () => {
+      const createTemplate = (id: string, dependsOnTemplateIds?: string[]): TaskTemplate => ({
+        id,
+        title: id,
+        description: '',
+        estimatedHours: 1,
+        category: 'production',
+        workflowSteps: [],
+        createdAt: new Date(2024, 0, 1),
+        dependsOnTemplateIds,
+      });
+      const templates = [
+        createTemplate('record'),
+        createTemplate('edit', ['record']),
+        createTemplate('publish', ['edit']),
+        createTemplate('thumbnail'),
+      ];
+
+      expect(Array.from(TaskDependencyManager.getDependentTemplateIds('record', templates)).sort())
+        .toEqual(['edit', 'publish']);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { TaskSplitter } from '../taskSplitting';
+import { Task } from '../../types';
+
+describe('TaskSplitter', () => {
+  const createTask = (overrides: Partial<Task> = {}): Task => ({
+    id: 'task-1',
+    channelId: 'channel-1',
+    title: 'Edit Video',
+    estimatedHours: 6,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 15),
+    timeSlot: 'morning',
+    priority: 'high',
+    ...overrides,
+  });
+
+  const parts = [
+    { start: new Date(2024, 0, 8, 9), hours: 4 },
+    { start: new Date(2024, 0, 9, 14), hours: 2 },
+  ];
+
+  describe('splitTask', () => {
+    it('should create linked parts with proportional hours', () => {
+      const { parent, children } = TaskSplitter.splitTask(createTask(), parts);
+
+      expect(children.map(child => child.id)).toEqual(['task-1-part-1', 'task-1-part-2']);
+      expect(children.map(child => child.estimatedHours)).toEqual([4, 2]);
+      expect(children.every(child => child.parentTaskId === 'task-1')).toBe(true);
+      expect(children[1].title).toBe('Edit Video (Part 2/2)');
+      expect(parent.childTaskIds).toEqual(['task-1-part-1', 'task-1-part-2']);
+    });
+
+    it('should scale part hours so they add up to the task estimate', () => {
+      const { children } = TaskSplitter.splitTask(createTask({ estimatedHours: 3 }), [
+        { start: new Date(2024, 0, 8, 9), hours: 1 },
+        { start: new Date(2024, 0, 8, 13), hours: 1 },
+        { start: new Date(2024, 0, 8, 16), hours: 1 },
+      ]);
+
+      expect(children.reduce((sum, child) => sum + child.estimatedHours, 0)).toBe(3);
+      expect(children.map(child => child.estimatedHours)).toEqual([1, 1, 1]);
+    });
+
+    it('should schedule each part at its start with a matching time slot', () => {
+      const { parent, children } = TaskSplitter.splitTask(createTask(), parts);
+
+      expect(children[1].scheduledStart).toEqual(new Date(2024, 0, 9, 14));
+      expect(children[1].scheduledEnd).toEqual(new Date(2024, 0, 9, 16));
+      expect(children[1].timeSlot).toBe('afternoon');
+      expect(parent.scheduledStart).toEqual(new Date(2024, 0, 8, 9));
+      expect(parent.scheduledEnd).toEqual(new Date(2024, 0, 9, 16));
+    });
+
+    it('should carry started work over to the first part', () => {
+      const { parent, children } = TaskSplitter.splitTask(
+        createTask({ status: 'in-progress', actualHours: 1.5 }),
+        parts
+      );
+
+      expect(children[0].status).toBe('in-progress');
+      expect(children[0].actualHours).toBe(1.5);
+      expect(children[1].status).toBe('planned');
+      expect(parent.status).toBe('in-progress');
+      expect(parent.actualHours).toBe(1.5);
+    });
+
+    it('should reject tasks and parts that cannot be split', () => {
+      const { parent, children } = TaskSplitter.splitTask(createTask(), parts);
+
+      expect(() => TaskSplitter.splitTask(parent, parts)).toThrow('cannot be split');
+      expect(() => TaskSplitter.splitTask(children[0], parts)).toThrow('cannot be split');
+      expect(() => TaskSplitter.splitTask(createTask({ status: 'completed' }), parts)).toThrow('cannot be split');
+      expect(() => TaskSplitter.splitTask(createTask(), [parts[0]])).toThrow('at least two parts');
+      expect(() => TaskSplitter.splitTask(createTask(), [parts[0], { ...parts[1], hours: 0 }]))
+        .toThrow('positive number of hours');
+    });
+  });
+
+  describe('rollUp', () => {
+    it('should sum estimated and logged hours of the parts', () => {
+      const { parent, children } = TaskSplitter.splitTask(createTask(), parts);
+      const updatedChildren = [
+        { ...children[0], status: 'completed' as const, actualHours: 5 },
+        { ...children[1], estimatedHours: 3 },
+      ];
+
+      const rolledUp = TaskSplitter.rollUp(parent, updatedChildren);
+
+      expect(rolledUp.estimatedHours).toBe(7);
+      expect(rolledUp.actualHours).toBe(5);
+      expect(rolledUp.status).toBe('in-progress');
+    });
+  });
+
+  describe('rollUpStatus', () => {
+    const withStatuses = (...statuses: Task['status'][]) =>
+      statuses.map((status, index) => createTask({ id: `part-${index}`, status }));
+
+    it('should derive the task status from its parts', () => {
+      expect(TaskSplitter.rollUpStatus(withStatuses('planned', 'planned'))).toBe('planned');
+      expect(TaskSplitter.rollUpStatus(withStatuses('completed', 'planned'))).toBe('in-progress');
+      expect(TaskSplitter.rollUpStatus(withStatuses('in-progress', 'planned'))).toBe('in-progress');
+      expect(TaskSplitter.rollUpStatus(withStatuses('completed', 'overdue'))).toBe('overdue');
+      expect(TaskSplitter.rollUpStatus(withStatuses('completed', 'completed'))).toBe('completed');
+    });
+  });
+
+  describe('getWorkItems', () => {
+    it('should leave out split tasks so their hours are counted once', () => {
+      const { parent, children } = TaskSplitter.splitTask(createTask(), parts);
+      const other = createTask({ id: 'task-2' });
+
+      const workItems = TaskSplitter.getWorkItems([parent, ...children, other]);
+
+      expect(workItems.map(task => task.id)).toEqual(['task-1-part-1', 'task-1-part-2', 'task-2']);
+      expect(TaskSplitter.getParts(parent, [other, ...children])).toEqual(children);
+    });
+  });
+});
@@ -39,6 +39,31 @@ describe('TaskStatusManager', () => {
       expect(updates.actualHours).toBe(3);
     });
 
+    it('should stop a running timer and use tracked time when completing a task', () => {
+      const task = createMockTask({
+        timeEntries: [
+          { id: 'entry-1', startedAt: new Date('2024-01-01T09:00:00'), endedAt: new Date('2024-01-01T10:30:00') },
+          { id: 'entry-2', startedAt: new Date(Date.now() - 30 * 60 * 1000) },
+        ],
+      });
+      const updates = TaskStatusManager.updateTaskStatus(task, 'completed');
+
+      expect(updates.timeEntries![1].endedAt).toBeInstanceOf(Date);
+      expect(updates.timeEntries![1].endReason).toBe('stopped');
+      expect(updates.actualHours).toBe(2);
+    });
+
+    it('should mark remaining workflow steps done when completing a task', () => {
+      const completedAt = new Date('2024-01-01T10:00:00');
+      const task = createMockTask({
+        steps: [{ name: 'Script', startedAt: completedAt, completedAt }, { name: 'Record' }],
+      });
+      const updates = TaskStatusManager.updateTaskStatus(task, 'completed');
+
+      expect(updates.steps![0].completedAt).toBe(completedAt);
+      expect(updates.steps![1].completedAt).toBeInstanceOf(Date);
+    });
+
     it('should mark task as overdue if past scheduled end date', () => {
       const pastDate = new Date('2020-01-01T13:00:00');
       const task = createMockTask({ scheduledEnd: pastDate });
@@ -93,6 +118,21 @@ describe('TaskStatusManager', () => {
       const rate = TaskStatusManager.calculateChannelCompletionRate(tasks, 'channel-1');
       expect(rate).toBe(67); // 2 out of 3 tasks completed, rounded
     });
+
+    it('should count completed workflow steps as partial progress', () => {
+      const completedAt = new Date('2024-01-01T10:00:00');
+      const tasks = [
+        createMockTask({
+          id: '1',
+          status: 'in-progress',
+          steps: [{ name: 'Script', completedAt }, { name: 'Record', completedAt }, { name: 'Edit' }, { name: 'Upload' }],
+        }),
+        createMockTask({ id: '2', status: 'completed' }),
+      ];
+
+      expect(TaskStatusManager.calculateChannelCompletionRate(tasks, 'channel-1')).toBe(75);
+      expect(TaskStatusManager.getChannelStepStats(tasks, 'channel-1')).toEqual({ completed: 2, total: 4 });
+    });
   });
 
   describe('getChannelTaskStats', () => {
@@ -138,6 +178,36 @@ describe('TaskStatusManager', () => {
     });
   });
 
+  describe('split tasks', () => {
+    const parent = createMockTask({ id: 'parent', estimatedHours: 6, childTaskIds: ['part-1', 'part-2'] });
+    const parts = [
+      createMockTask({ id: 'part-1', estimatedHours: 4, parentTaskId: 'parent' }),
+      createMockTask({ id: 'part-2', estimatedHours: 2, parentTaskId: 'parent', status: 'completed' }),
+    ];
+
+    it('should apply status changes to the parts and share out actual hours', () => {
+      const updates = TaskStatusManager.updateSplitTaskStatus(parts, 'completed', 9);
+
+      expect(updates.map(update => update.id)).toEqual(['part-1', 'part-2']);
+      expect(updates.map(update => update.updates.actualHours)).toEqual([6, 3]);
+      expect(updates.every(update => update.updates.status === 'completed')).toBe(true);
+    });
+
+    it('should count parts rather than the split task in stats', () => {
+      const tasks = [parent, ...parts];
+
+      expect(TaskStatusManager.getChannelTaskStats(tasks, 'channel-1').total).toBe(2);
+      expect(TaskStatusManager.calculateChannelCompletionRate(tasks, 'channel-1')).toBe(50);
+      expect(TaskStatusManager.getTasksByStatus(tasks).planned.map(task => task.id)).toEqual(['part-1']);
+    });
+
+    it('should leave split tasks to become overdue through their parts', () => {
+      const overdueParent = { ...parent, scheduledEnd: new Date('2020-01-01T13:00:00') };
+
+      expect(TaskStatusManager.updateOverdueTasks([overdueParent])[0].status).toBe('planned');
+    });
+  });
+
   describe('getTasksByStatus', () => {
     it('should group tasks by status correctly', () => {
       const tasks = [
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { TaskStepTracker } from '../taskSteps';
+import { Task } from '../../types';
+
+describe('TaskStepTracker', () => {
+  const createTask = (overrides: Partial<Task> = {}): Task => ({
+    id: 'task-1',
+    channelId: 'channel-1',
+    title: 'Record Video',
+    estimatedHours: 3,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 12),
+    timeSlot: 'morning',
+    priority: 'high',
+    steps: TaskStepTracker.createSteps(['Setup', 'Record', 'Review']),
+    ...overrides,
+  });
+
+  const at = (hour: number) => new Date(2024, 0, 8, hour);
+
+  describe('startStep', () => {
+    it('should record when a step starts and start the task', () => {
+      const updates = TaskStepTracker.startStep(createTask(), 0, at(9));
+
+      expect(updates.steps![0].startedAt).toEqual(at(9));
+      expect(updates.status).toBe('in-progress');
+    });
+
+    it('should keep the first start time of a step', () => {
+      const task = createTask({ status: 'in-progress' });
+      const started = { ...task, ...TaskStepTracker.startStep(task, 0, at(9)) };
+
+      expect(TaskStepTracker.startStep(started, 0, at(10))).toEqual({});
+    });
+  });
+
+  describe('completeStep', () => {
+    it('should record completion and sum step hours into the task', () => {
+      let task = createTask();
+      task = { ...task, ...TaskStepTracker.completeStep(task, 0, 0.5, at(10)) };
+      task = { ...task, ...TaskStepTracker.completeStep(task, 1, 2, at(12)) };
+
+      expect(task.steps![0]).toEqual({ name: 'Setup', startedAt: at(10), completedAt: at(10), actualHours: 0.5 });
+      expect(task.actualHours).toBe(2.5);
+      expect(task.status).toBe('in-progress');
+    });
+
+    it('should complete the task when its last step is completed', () => {
+      let task = createTask();
+      [0, 1, 2].forEach(index => {
+        task = { ...task, ...TaskStepTracker.completeStep(task, index, 1, at(10 + index)) };
+      });
+
+      expect(task.status).toBe('completed');
+      expect(task.actualHours).toBe(3);
+    });
+
+    it('should reject steps the task does not have', () => {
+      expect(() => TaskStepTracker.completeStep(createTask(), 3)).toThrow('has no step 4');
+      expect(() => TaskStepTracker.startStep(createTask({ steps: undefined }), 0)).toThrow('has no step 1');
+    });
+  });
+
+  describe('reopenStep', () => {
+    it('should clear the step and reopen a completed task', () => {
+      let task = createTask();
+      [0, 1, 2].forEach(index => {
+        task = { ...task, ...TaskStepTracker.completeStep(task, index, 1, at(10 + index)) };
+      });
+
+      const updates = TaskStepTracker.reopenStep(task, 2);
+
+      expect(updates.steps![2]).toEqual({ name: 'Review', startedAt: at(12), completedAt: undefined, actualHours: undefined });
+      expect(updates.actualHours).toBe(2);
+      expect(updates.status).toBe('in-progress');
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should count completed steps as partial progress', () => {
+      const task = createTask();
+      const updated = { ...task, ...TaskStepTracker.completeStep(task, 0, 1, at(10)) };
+
+      expect(TaskStepTracker.getProgress(updated)).toBeCloseTo(1 / 3);
+    });
+
+    it('should fall back to the task status for tasks without steps', () => {
+      expect(TaskStepTracker.getProgress(createTask({ steps: undefined }))).toBe(0);
+      expect(TaskStepTracker.getProgress(createTask({ steps: undefined, status: 'completed' }))).toBe(1);
+      expect(TaskStepTracker.getProgress(createTask({ status: 'completed' }))).toBe(1);
+    });
+  });
+
+  describe('getStepCounts', () => {
+    it('should count steps of completed tasks as done', () => {
+      const task = createTask();
+      const tasks = [
+        { ...task, ...TaskStepTracker.completeStep(task, 0, 1, at(10)) },
+        createTask({ id: 'task-2', status: 'completed' }),
+        createTask({ id: 'task-3', steps: undefined }),
+      ];
+
+      expect(TaskStepTracker.getStepCounts(tasks)).toEqual({ completed: 4, total: 6 });
+    });
+  });
+});
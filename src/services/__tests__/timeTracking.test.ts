@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { TimeTracker } from '../timeTracking';
+import { Task } from '../../types';
+
+describe('TimeTracker', () => {
+  const createTask = (overrides: Partial<Task> = {}): Task => ({
+    id: 'task-1',
+    channelId: 'channel-1',
+    title: 'Edit Video',
+    estimatedHours: 3,
+    status: 'planned',
+    scheduledStart: new Date(2024, 0, 8, 9),
+    scheduledEnd: new Date(2024, 0, 8, 12),
+    timeSlot: 'morning',
+    priority: 'high',
+    ...overrides,
+  });
+
+  const at = (hour: number, minute = 0) => new Date(2024, 0, 8, hour, minute);
+  const apply = (task: Task, updates: Partial<Task>): Task => ({ ...task, ...updates });
+
+  describe('timer', () => {
+    it('should start a timer and move a planned task in progress', () => {
+      const task = apply(createTask(), TimeTracker.startTimer(createTask(), at(9)));
+
+      expect(task.status).toBe('in-progress');
+      expect(task.timeEntries).toHaveLength(1);
+      expect(TimeTracker.getTimerState(task)).toBe('running');
+      expect(TimeTracker.startTimer(task, at(10))).toEqual({});
+    });
+
+    it('should log an entry per session and derive actual hours from them', () => {
+      let task = createTask();
+      task = apply(task, TimeTracker.startTimer(task, at(9)));
+      task = apply(task, TimeTracker.pauseTimer(task, at(10, 30)));
+
+      expect(TimeTracker.getTimerState(task)).toBe('paused');
+      expect(task.actualHours).toBe(1.5);
+
+      task = apply(task, TimeTracker.startTimer(task, at(13)));
+      task = apply(task, TimeTracker.stopTimer(task, at(13, 45)));
+
+      expect(TimeTracker.getTimerState(task)).toBe('stopped');
+      expect(task.timeEntries).toHaveLength(2);
+      expect(task.actualHours).toBe(2.25);
+    });
+
+    it('should stop a paused timer without adding time', () => {
+      let task = createTask();
+      task = apply(task, TimeTracker.startTimer(task, at(9)));
+      task = apply(task, TimeTracker.pauseTimer(task, at(10)));
+      task = apply(task, TimeTracker.stopTimer(task, at(15)));
+
+      expect(TimeTracker.getTimerState(task)).toBe('stopped');
+      expect(task.actualHours).toBe(1);
+    });
+
+    it('should not track time on completed or split tasks', () => {
+      expect(() => TimeTracker.startTimer(createTask({ status: 'completed' }))).toThrow('cannot be tracked');
+      expect(TimeTracker.canTrack(createTask({ childTaskIds: ['task-1-part-1', 'task-1-part-2'] }))).toBe(false);
+    });
+  });
+
+  describe('entries', () => {
+    it('should add manual entries while keeping a running timer running', () => {
+      let task = createTask();
+      task = apply(task, TimeTracker.startTimer(task, at(13)));
+      task = apply(task, TimeTracker.addEntry(task, at(9), at(11)));
+
+      expect(TimeTracker.getTimerState(task)).toBe('running');
+      expect(task.timeEntries).toHaveLength(2);
+      expect(() => TimeTracker.addEntry(task, at(11), at(9))).toThrow('must end after it starts');
+    });
+
+    it('should recalculate actual hours when an entry is removed', () => {
+      let task = createTask();
+      task = apply(task, TimeTracker.addEntry(task, at(9), at(11)));
+      task = apply(task, TimeTracker.addEntry(task, at(13), at(14)));
+
+      const updates = TimeTracker.removeEntry(task, task.timeEntries![0].id);
+
+      expect(updates.actualHours).toBe(1);
+      expect(TimeTracker.removeEntry(apply(task, updates), task.timeEntries![1].id).actualHours).toBeUndefined();
+    });
+
+    it('should count a running entry up to now', () => {
+      const task = apply(createTask(), TimeTracker.startTimer(createTask(), at(9)));
+
+      expect(TimeTracker.getElapsedMs(task, at(9, 30))).toBe(30 * 60 * 1000);
+      expect(TimeTracker.getTrackedHours(task.timeEntries!, at(9, 30))).toBe(0.5);
+    });
+  });
+
+  describe('getActiveTimers', () => {
+    it('should list tasks with running or paused timers', () => {
+      const running = apply(createTask({ id: 'a' }), TimeTracker.startTimer(createTask({ id: 'a' }), at(9)));
+      const paused = apply(running, { id: 'b', ...TimeTracker.pauseTimer(running, at(10)) });
+      const stopped = apply(running, { id: 'c', ...TimeTracker.stopTimer(running, at(10)) });
+
+      expect(TimeTracker.getActiveTimers([running, paused, stopped, createTask()]).map(task => task.id))
+        .toEqual(['a', 'b']);
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format durations as hours, minutes and seconds', () => {
+      expect(TimeTracker.formatDuration(0)).toBe('0:00:00');
+      expect(TimeTracker.formatDuration((2 * 3600 + 5 * 60 + 9) * 1000)).toBe('2:05:09');
+    });
+  });
+});
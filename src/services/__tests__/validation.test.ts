@@ -361,6 +361,42 @@ describe('BusinessRuleValidator', () => {
     });
   });
 
+  describe('checkDependencyOrder', () => {
+    it('should flag tasks that start before a dependency ends', () => {
+      const errors = BusinessRuleValidator.checkDependencyOrder([task1, { ...task2, dependsOn: ['task-1'] }]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe('starts_before_dependency');
+    });
+
+    it('should flag dependency cycles', () => {
+      const errors = BusinessRuleValidator.checkDependencyOrder([
+        { ...task1, dependsOn: ['task-2'] },
+        { ...task2, dependsOn: ['task-1'] },
+      ]);
+      expect(errors.map(error => error.field)).toEqual(['circular_dependency', 'circular_dependency']);
+    });
+
+    it('should accept tasks that start after their dependencies end', () => {
+      const laterTask = {
+        ...task2,
+        dependsOn: ['task-1'],
+        scheduledStart: new Date('2024-01-01T14:00:00'),
+        scheduledEnd: new Date('2024-01-01T18:00:00'),
+      };
+      expect(BusinessRuleValidator.checkDependencyOrder([task1, laterTask])).toHaveLength(0);
+      expect(BusinessRuleValidator.checkDependencyIntegrity([laterTask])[0].field).toBe('invalid_dependency_reference');
+    });
+
+    it('should report cycles as an integrity problem but not tasks starting early', () => {
+      const errors = BusinessRuleValidator.checkDependencyIntegrity([
+        { ...task1, dependsOn: ['task-2'] },
+        { ...task2, dependsOn: ['task-1'] },
+        { ...task2, id: 'task-3', dependsOn: ['task-1'] },
+      ]);
+      expect(errors.map(error => error.field)).toEqual(['circular_dependency', 'circular_dependency']);
+    });
+  });
+
   describe('checkCapacityLimits', () => {
     it('should detect capacity overload', () => {
       const schedule: WeeklySchedule = {
@@ -498,4 +534,27 @@ describe('DataValidator', () => {
     expect(result.isValid).toBe(false);
     expect(result.errors.some(e => e.field === 'invalid_channel_reference')).toBe(true);
   });
+
+  it('should check dependencies across every week when schedules are given', () => {
+    const task = validState.currentWeek!.tasks[0];
+    const nextWeek = {
+      ...validState.currentWeek!,
+      weekStartDate: new Date('2024-01-08'),
+      tasks: [{ ...task, id: 'task-2', dependsOn: ['task-1'], scheduledStart: new Date('2024-01-08T10:00:00') }],
+    };
+
+    const valid = DataValidator.validateAppState({ schedules: { '2024-01-01': validState.currentWeek!, '2024-01-08': nextWeek } });
+    expect(valid.errors).toHaveLength(0);
+
+    const result = DataValidator.validateAppState({
+      selectedWeekKey: '2024-01-01',
+      currentWeek: { ...validState.currentWeek!, tasks: [{ ...task, dependsOn: ['task-2'] }] },
+      schedules: { '2024-01-08': { ...nextWeek, tasks: [...nextWeek.tasks, { ...task, id: 'task-3', dependsOn: ['task-9'] }] } },
+    });
+    expect(result.errors.map(e => e.field).sort()).toEqual([
+      'circular_dependency',
+      'circular_dependency',
+      'invalid_dependency_reference',
+    ]);
+  });
 });
\ No newline at end of file
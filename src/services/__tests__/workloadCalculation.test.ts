@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { WorkloadCalculationEngine } from '../workloadCalculation';
-import { Task, WeeklySchedule, Channel } from '../../types';
+import { TaskSplitter } from '../taskSplitting';
+import { Task, WeeklySchedule, Channel, TeamMember } from '../../types';
 
 describe('WorkloadCalculationEngine', () => {
   const mockChannels: Channel[] = [
@@ -107,6 +108,17 @@ describe('WorkloadCalculationEngine', () => {
       const result = WorkloadCalculationEngine.calculateTotalScheduledHours(tasksWithOverdue);
       expect(result).toBe(14); // Still 8 + 6, excluding completed and overdue
     });
+
+    it('should count the parts of a split task instead of the task itself', () => {
+      const splitTasks: Task[] = [
+        { ...mockTasks[0], childTaskIds: ['task1-part-1', 'task1-part-2'] },
+        { ...mockTasks[0], id: 'task1-part-1', estimatedHours: 5, parentTaskId: 'task1' },
+        { ...mockTasks[0], id: 'task1-part-2', estimatedHours: 3, parentTaskId: 'task1' },
+      ];
+
+      const result = WorkloadCalculationEngine.calculateTotalScheduledHours(splitTasks);
+      expect(result).toBe(8);
+    });
   });
 
   describe('calculateWorkloadMetrics', () => {
@@ -314,6 +326,103 @@ describe('WorkloadCalculationEngine', () => {
     });
   });
 
+  describe('team members', () => {
+    const teamMembers: TeamMember[] = [
+      {
+        id: 'editor',
+        name: 'Sam',
+        role: 'Editor',
+        weeklyCapacityHours: 20,
+        workingDays: ['Monday', 'Wednesday'],
+        workingHours: { start: '09:00', end: '19:00' },
+      },
+      {
+        id: 'designer',
+        name: 'Alex',
+        role: 'Thumbnail Designer',
+        weeklyCapacityHours: 10,
+        workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+        workingHours: { start: '09:00', end: '13:00' },
+      },
+    ];
+
+    const assign = (taskId: string, assigneeId: string) =>
+      mockTasks.map(task => (task.id === taskId ? { ...task, assigneeId } : task));
+
+    it('should break workload down by assignee against their own capacity', () => {
+      const tasks = assign('task1', 'editor');
+      const metrics = WorkloadCalculationEngine.calculateWorkloadMetrics(
+        { ...mockSchedule, tasks },
+        mockChannels,
+        8,
+        teamMembers
+      );
+
+      expect(metrics.memberBreakdown).toHaveLength(2);
+      expect(metrics.memberBreakdown[0]).toMatchObject({
+        memberId: 'editor',
+        scheduledHours: 8,
+        capacityHours: 20,
+        dailyCapacityHours: 10,
+        utilizationPercentage: 40,
+        isOverloaded: false,
+        taskCount: 1,
+      });
+      expect(metrics.memberBreakdown[1]).toMatchObject({ memberId: 'designer', scheduledHours: 0, taskCount: 0 });
+      // Unassigned work still counts toward the overall totals
+      expect(metrics.totalScheduledHours).toBe(14);
+    });
+
+    it('should treat work on a member\'s day off as an overload and warn about it', () => {
+      // task2 is on Tuesday, which the editor does not work
+      const tasks = assign('task2', 'editor');
+      const metrics = WorkloadCalculationEngine.calculateWorkloadMetrics(
+        { ...mockSchedule, tasks },
+        mockChannels,
+        8,
+        teamMembers
+      );
+
+      const editor = metrics.memberBreakdown[0];
+      expect(editor.isOverloaded).toBe(false);
+      expect(editor.dailyBreakdown.filter(day => day.isOverloaded).map(day => day.dayName)).toEqual(['Tuesday']);
+
+      const warnings = WorkloadCalculationEngine.detectOverloadWarnings(metrics);
+      expect(warnings).toContainEqual(expect.objectContaining({
+        type: 'member',
+        affectedMemberId: 'editor',
+        message: 'Sam is overloaded on Tuesday',
+      }));
+    });
+
+    it('should keep counting a split task for its assignee', () => {
+      const [task1, ...otherTasks] = assign('task1', 'editor');
+      const { parent, children } = TaskSplitter.splitTask(task1, [
+        { start: new Date('2024-01-01T09:00:00'), hours: 5 },
+        { start: new Date('2024-01-03T09:00:00'), hours: 3 },
+      ]);
+      const metrics = WorkloadCalculationEngine.calculateWorkloadMetrics(
+        { ...mockSchedule, tasks: [parent, ...children, ...otherTasks] },
+        mockChannels,
+        8,
+        teamMembers
+      );
+
+      expect(metrics.memberBreakdown[0]).toMatchObject({ memberId: 'editor', scheduledHours: 8, taskCount: 2 });
+    });
+
+    it('should ignore assignees who are not on the team', () => {
+      const metrics = WorkloadCalculationEngine.calculateWorkloadMetrics(
+        { ...mockSchedule, tasks: assign('task1', 'former-member') },
+        mockChannels,
+        8,
+        teamMembers
+      );
+
+      expect(metrics.memberBreakdown.every(member => member.scheduledHours === 0)).toBe(true);
+    });
+  });
+
   describe('calculateDailyCapacity', () => {
     it('should calculate daily capacity based on working days', () => {
       const result = WorkloadCalculationEngine.calculateDailyCapacity(
@@ -0,0 +1,315 @@
+import { AppAction, AppState, Channel, HistoryPatch, Task, TaskTemplate, WeeklySchedule } from '../types';
+import { generateId } from '../utils/helpers';
+
+/**
+ * The parts of state undo and redo can restore. schedules holds every loaded week, including the
+ * selected one.
+ */
+export interface HistorySnapshot {
+  channels: Channel[];
+  taskTemplates: TaskTemplate[];
+  schedules: Record<string, WeeklySchedule>;
+  userSettings: AppState['userSettings'];
+}
+
+export interface HistoryEntry {
+  id: string;
+  description: string;
+  timestamp: number;
+  groupKey?: string;
+  actionCount: number; // Rapid edits of the same thing are grouped into one entry
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface ActionHistoryState {
+  past: HistoryEntry[]; // Oldest first; the last entry is undone next
+  future: HistoryEntry[]; // The last entry is redone next
+}
+
+// Actions that only change the view, load saved data or replay history are not recorded
+const UNRECORDED_ACTIONS: ReadonlyArray<AppAction['type']> = [
+  'SET_SELECTED_WEEK',
+  'LOAD_WEEK_SCHEDULES',
+  'RESTORE_WEEK_SCHEDULES',
+  'SET_SELECTED_CHANNEL',
+  'SET_ACTIVE_VIEW',
+  'SET_LOADING',
+  'ADD_ERROR',
+  'CLEAR_ERRORS',
+  'APPLY_HISTORY_PATCH',
+];
+
+const indexTasks = (schedules: Record<string, WeeklySchedule>) => {
+  const tasks = new Map<string, { task: Task; weekKey: string }>();
+  Object.entries(schedules).forEach(([weekKey, week]) => {
+    week.tasks.forEach(task => tasks.set(task.id, { task, weekKey }));
+  });
+  return tasks;
+};
+
+/**
+ * Entities of a list that differ between two versions, with their value and position in `to`
+ */
+const diffList = <T extends { id: string }, K extends string>(
+  from: T[],
+  to: T[],
+  key: K
+): Record<string, ({ index: number } & Record<K, T>) | null> => {
+  const changes: Record<string, ({ index: number } & Record<K, T>) | null> = {};
+  const fromById = new Map(from.map(item => [item.id, item]));
+
+  to.forEach((item, index) => {
+    if (fromById.get(item.id) !== item) {
+      changes[item.id] = { index, [key]: item } as { index: number } & Record<K, T>;
+    }
+  });
+  const toIds = new Set(to.map(item => item.id));
+  from.forEach(item => {
+    if (!toIds.has(item.id)) changes[item.id] = null;
+  });
+
+  return changes;
+};
+
+const findTitle = (snapshot: HistorySnapshot, taskId: string): string => {
+  for (const week of Object.values(snapshot.schedules)) {
+    const task = week.tasks.find(t => t.id === taskId);
+    if (task) return `"${task.title}"`;
+  }
+  return 'a task';
+};
+
+const findChannelName = (snapshot: HistorySnapshot, channelId: string): string => {
+  const channel = snapshot.channels.find(c => c.id === channelId);
+  return channel ? `"${channel.name}"` : 'a channel';
+};
+
+const findTemplateTitle = (snapshot: HistorySnapshot, templateId: string): string => {
+  const template = snapshot.taskTemplates.find(t => t.id === templateId);
+  return template ? `"${template.title}"` : 'a template';
+};
+
+const formatMoveTarget = (date: Date | string): string => {
+  return new Date(date).toLocaleString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Undo/redo history for reducer actions. Each entry keeps the state before and after a change;
+ * undo and redo turn the difference into an entity-level patch, so changes made meanwhile to other
+ * channels, templates or tasks (for example in another tab) are left alone.
+ */
+export class ActionHistory {
+  static readonly MAX_ENTRIES = 100;
+  static readonly GROUP_WINDOW_MS = 1500;
+
+  static createHistory(): ActionHistoryState {
+    return { past: [], future: [] };
+  }
+
+  static isRecorded(action: AppAction): boolean {
+    if (action.type === 'BATCH_ACTIONS') return action.payload.some(ActionHistory.isRecorded);
+    return !UNRECORDED_ACTIONS.includes(action.type);
+  }
+
+  /**
+   * Key shared by edits that belong in one entry when made in quick succession, such as the
+   * drops of a drag sequence on the same task
+   */
+  static getGroupKey(action: AppAction): string | undefined {
+    switch (action.type) {
+      case 'UPDATE_TASK':
+      case 'UPDATE_CHANNEL':
+      case 'UPDATE_TASK_TEMPLATE':
+        return `${action.type}:${action.payload.id}:${Object.keys(action.payload.updates).sort().join(',')}`;
+      case 'UPDATE_USER_SETTINGS':
+        return `${action.type}:${Object.keys(action.payload).sort().join(',')}`;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Human-readable description of an action, looking names up in the state it was applied to
+   */
+  static describe(action: AppAction, snapshot: HistorySnapshot): string {
+    switch (action.type) {
+      case 'ADD_CHANNEL':
+        return `Add channel "${action.payload.name}"`;
+      case 'UPDATE_CHANNEL': {
+        const { updates } = action.payload;
+        const name = findChannelName(snapshot, action.payload.id);
+        if (Object.keys(updates).length === 1 && updates.isActive !== undefined) {
+          return `${updates.isActive ? 'Activate' : 'Pause'} channel ${name}`;
+        }
+        return `Edit channel ${name}`;
+      }
+      case 'DELETE_CHANNEL':
+        return `Delete channel ${findChannelName(snapshot, action.payload)}`;
+      case 'ADD_TASK_TEMPLATE':
+        return `Add template "${action.payload.title}"`;
+      case 'UPDATE_TASK_TEMPLATE':
+        return `Edit template ${findTemplateTitle(snapshot, action.payload.id)}`;
+      case 'DELETE_TASK_TEMPLATE':
+        return `Delete template ${findTemplateTitle(snapshot, action.payload)}`;
+      case 'ADD_TASK':
+        return `Add task "${action.payload.title}"`;
+      case 'UPDATE_TASK': {
+        const { updates } = action.payload;
+        const title = findTitle(snapshot, action.payload.id);
+        if (updates.scheduledStart) return `Move task ${title} to ${formatMoveTarget(updates.scheduledStart)}`;
+        if (updates.status) return `Mark task ${title} as ${updates.status}`;
+        if ('assigneeId' in updates) return `Reassign task ${title}`;
+        return `Edit task ${title}`;
+      }
+      case 'UPDATE_TASKS':
+        return action.payload.length === 1
+          ? `Edit task ${findTitle(snapshot, action.payload[0].id)}`
+          : `Edit ${action.payload.length} tasks`;
+      case 'DELETE_TASK':
+        return `Delete task ${findTitle(snapshot, action.payload)}`;
+      case 'SPLIT_TASK':
+        return `Split task ${findTitle(snapshot, action.payload.taskId)}`;
+      case 'GENERATE_TASKS_FROM_TEMPLATES':
+        return `Generate tasks for ${findChannelName(snapshot, action.payload.channelId)}`;
+      case 'SET_CURRENT_WEEK':
+        return 'Replace the week\'s schedule';
+      case 'UPDATE_USER_SETTINGS':
+        return Object.keys(action.payload).length === 1 && action.payload.teamMembers
+          ? 'Change team members'
+          : 'Change settings';
+      case 'RESTORE_BACKUP_ENTITIES': {
+        const { patch, source } = action.payload;
+        const count = Object.keys(patch.channels).length + Object.keys(patch.taskTemplates).length + Object.keys(patch.tasks).length;
+        return `Restore ${count} item(s) from ${source}`;
+      }
+      case 'BATCH_ACTIONS': {
+        const recorded = action.payload.filter(ActionHistory.isRecorded);
+        const first = ActionHistory.describe(recorded[0], snapshot);
+        return recorded.length === 1 ? first : `${first} and ${recorded.length - 1} more change(s)`;
+      }
+      default:
+        return 'Change';
+    }
+  }
+
+  /**
+   * The changes that turn `from` into `to`, or null when they hold the same data
+   */
+  static createPatch(from: HistorySnapshot, to: HistorySnapshot): HistoryPatch | null {
+    const fromTasks = indexTasks(from.schedules);
+    const toTasks = indexTasks(to.schedules);
+    const tasks: HistoryPatch['tasks'] = {};
+
+    toTasks.forEach((entry, taskId) => {
+      const previous = fromTasks.get(taskId);
+      if (previous?.task !== entry.task || previous.weekKey !== entry.weekKey) tasks[taskId] = entry;
+    });
+    fromTasks.forEach((_entry, taskId) => {
+      if (!toTasks.has(taskId)) tasks[taskId] = null;
+    });
+
+    const settingKeys = new Set([...Object.keys(from.userSettings), ...Object.keys(to.userSettings)]) as Set<
+      keyof AppState['userSettings']
+    >;
+    const changedSettings = [...settingKeys].filter(key => from.userSettings[key] !== to.userSettings[key]);
+
+    const patch: HistoryPatch = {
+      channels: diffList(from.channels, to.channels, 'channel'),
+      taskTemplates: diffList(from.taskTemplates, to.taskTemplates, 'template'),
+      tasks,
+      userSettings: changedSettings.length > 0
+        ? Object.fromEntries(changedSettings.map(key => [key, to.userSettings[key]]))
+        : undefined,
+    };
+
+    const isEmpty = Object.keys(patch.channels).length === 0 &&
+      Object.keys(patch.taskTemplates).length === 0 &&
+      Object.keys(patch.tasks).length === 0 &&
+      !patch.userSettings;
+    return isEmpty ? null : patch;
+  }
+
+  /**
+   * Add an action to the history, merging it into the previous entry when it continues the same
+   * edit. canGroup is false once anything else changed state after the previous entry.
+   */
+  static record(
+    history: ActionHistoryState,
+    action: AppAction,
+    before: HistorySnapshot,
+    after: HistorySnapshot,
+    canGroup: boolean,
+    now: number = Date.now()
+  ): ActionHistoryState {
+    const groupKey = ActionHistory.getGroupKey(action);
+    const last = history.past[history.past.length - 1];
+
+    if (canGroup && last && groupKey && last.groupKey === groupKey && now - last.timestamp <= ActionHistory.GROUP_WINDOW_MS) {
+      const past = history.past.slice(0, -1);
+      // An edit that was taken back within the group leaves nothing to undo
+      if (!ActionHistory.createPatch(last.before, after)) return { past, future: [] };
+
+      return {
+        past: [...past, {
+          ...last,
+          description: ActionHistory.describe(action, before),
+          timestamp: now,
+          actionCount: last.actionCount + 1,
+          after,
+        }],
+        future: [],
+      };
+    }
+
+    if (!ActionHistory.createPatch(before, after)) return history;
+
+    const entry: HistoryEntry = {
+      id: generateId(),
+      description: ActionHistory.describe(action, before),
+      timestamp: now,
+      groupKey,
+      actionCount: 1,
+      before,
+      after,
+    };
+    return {
+      past: [...history.past, entry].slice(-ActionHistory.MAX_ENTRIES),
+      future: [],
+    };
+  }
+
+  /**
+   * The patch that undoes the latest entry, or null when there is nothing to undo
+   */
+  static getUndoPatch(history: ActionHistoryState): HistoryPatch | null {
+    const entry = history.past[history.past.length - 1];
+    return entry ? ActionHistory.createPatch(entry.after, entry.before) : null;
+  }
+
+  /**
+   * The patch that redoes the latest undone entry, or null when there is nothing to redo
+   */
+  static getRedoPatch(history: ActionHistoryState): HistoryPatch | null {
+    const entry = history.future[history.future.length - 1];
+    return entry ? ActionHistory.createPatch(entry.before, entry.after) : null;
+  }
+
+  static undo(history: ActionHistoryState): ActionHistoryState {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return history;
+    return { past: history.past.slice(0, -1), future: [...history.future, entry] };
+  }
+
+  static redo(history: ActionHistoryState): ActionHistoryState {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) return history;
+    return { past: [...history.past, entry], future: history.future.slice(0, -1) };
+  }
+}
@@ -0,0 +1,351 @@
+import { AppAction, Channel, Task, TaskTemplate, TeamMember } from '../types';
+import { ActionHistory, HistorySnapshot } from './actionHistory';
+import { permissionService } from './permissions';
+import { storageBackend } from './storageBackend';
+import { STORAGE_KEYS } from '../utils/constants';
+import { generateId } from '../utils/helpers';
+
+export type AuditEntityType = 'channel' | 'template' | 'task' | 'settings';
+
+/**
+ * One entity touched by an audited change. For updates, before and after hold only the fields
+ * that changed; for additions and removals they hold the whole entity.
+ */
+export interface AuditChange {
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string;
+  channelId?: string; // The channel a task belongs to, so channel filters include its tasks
+  change: 'added' | 'removed' | 'updated';
+  fields?: string[];
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  timestamp: string; // ISO 8601
+  actorId: string | null; // Team member using the browser, or null when nobody was picked
+  actorName: string;
+  actionType: AppAction['type'] | 'UNDO' | 'REDO';
+  description: string;
+  changes: AuditChange[];
+}
+
+/**
+ * A change made in this browser, waiting to be written to the audit log
+ */
+export interface AuditedChange {
+  actionType: AuditEvent['actionType'];
+  description: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+  timestamp: number;
+}
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: string; // With entityType 'channel', also matches the channel's tasks
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditRetentionPolicy {
+  maxAgeDays: number | null; // null keeps events of any age
+  maxEvents: number | null; // null keeps any number of events
+}
+
+export const DEFAULT_AUDIT_RETENTION: AuditRetentionPolicy = {
+  maxAgeDays: 90,
+  maxEvents: 5000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored events are plain JSON, so values are converted up front (dates become ISO strings)
+const toJson = (value: unknown): unknown => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+const diffEntity = <T extends { id: string }>(
+  entityType: AuditEntityType,
+  entityName: string,
+  previous: T | undefined,
+  next: T | undefined,
+  channelId?: string
+): AuditChange | null => {
+  const id = (next ?? previous)!.id;
+  const base = { entityType, entityId: id, entityName, ...(channelId ? { channelId } : {}) };
+
+  if (!previous) return { ...base, change: 'added', after: toJson(next) };
+  if (!next) return { ...base, change: 'removed', before: toJson(previous) };
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof T & string>;
+  const fields = [...keys].filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+  if (fields.length === 0) return null;
+
+  return {
+    ...base,
+    change: 'updated',
+    fields,
+    before: toJson(Object.fromEntries(fields.map(key => [key, previous[key]]))),
+    after: toJson(Object.fromEntries(fields.map(key => [key, next[key]]))),
+  };
+};
+
+const findTask = (snapshot: HistorySnapshot, taskId: string): Task | undefined => {
+  for (const week of Object.values(snapshot.schedules)) {
+    const task = week.tasks.find(t => t.id === taskId);
+    if (task) return task;
+  }
+  return undefined;
+};
+
+/**
+ * Entity-level changes between two states, with the values before and after
+ */
+export const getAuditChanges = (before: HistorySnapshot, after: HistorySnapshot): AuditChange[] => {
+  const patch = ActionHistory.createPatch(before, after);
+  if (!patch) return [];
+
+  const changes: Array<AuditChange | null> = [
+    ...Object.keys(patch.channels).map(id => {
+      const previous = before.channels.find(c => c.id === id);
+      const next: Channel | undefined = patch.channels[id]?.channel;
+      return diffEntity('channel', (next ?? previous)!.name, previous, next, id);
+    }),
+    ...Object.keys(patch.taskTemplates).map(id => {
+      const previous = before.taskTemplates.find(t => t.id === id);
+      const next: TaskTemplate | undefined = patch.taskTemplates[id]?.template;
+      return diffEntity('template', (next ?? previous)!.title, previous, next);
+    }),
+    ...Object.keys(patch.tasks).map(id => {
+      const previous = findTask(before, id);
+      const next = patch.tasks[id]?.task;
+      const task = (next ?? previous)!;
+      return diffEntity('task', task.title, previous, next, task.channelId);
+    }),
+  ];
+
+  const settingFields = (Object.keys(patch.userSettings ?? {}) as Array<keyof HistorySnapshot['userSettings']>)
+    .filter(key => JSON.stringify(before.userSettings[key]) !== JSON.stringify(after.userSettings[key]));
+  if (settingFields.length > 0) {
+    changes.push({
+      entityType: 'settings',
+      entityId: 'settings',
+      entityName: 'Settings',
+      change: 'updated',
+      fields: settingFields,
+      before: toJson(Object.fromEntries(settingFields.map(key => [key, before.userSettings[key]]))),
+      after: toJson(Object.fromEntries(settingFields.map(key => [key, after.userSettings[key]]))),
+    });
+  }
+
+  return changes.filter((change): change is AuditChange => change !== null);
+};
+
+/**
+ * Whether an event passes a filter; filtering by channel also matches changes to the channel's tasks
+ */
+export const matchesFilter = (event: AuditEvent, filter: AuditFilter): boolean => {
+  const time = new Date(event.timestamp).getTime();
+  if (filter.from && time < filter.from.getTime()) return false;
+  if (filter.to && time > filter.to.getTime()) return false;
+  if (filter.actorId !== undefined && event.actorId !== filter.actorId) return false;
+  if (!filter.entityType && !filter.entityId) return true;
+
+  return event.changes.some(change => {
+    const isChannelTask = filter.entityType === 'channel' && change.channelId !== undefined;
+    if (filter.entityType && change.entityType !== filter.entityType && !isChannelTask) return false;
+    if (filter.entityId && change.entityId !== filter.entityId && !(isChannelTask && change.channelId === filter.entityId)) {
+      return false;
+    }
+    return true;
+  });
+};
+
+/**
+ * Append-only audit log of the changes made in this browser: who changed what, when, and the
+ * values before and after. Each tab records its own changes into shared storage, so changes
+ * that arrive from other tabs or the sync server are recorded where they were made.
+ * Events are only ever removed by the retention policy. Unlike the ErrorHandler log, the audit
+ * log is persisted.
+ */
+export class AuditLogService {
+  private static instance: AuditLogService;
+  private pending: AuditEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  static readonly FLUSH_DELAY_MS = 1000;
+
+  private constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', () => this.flush());
+    }
+  }
+
+  public static getInstance(): AuditLogService {
+    if (!AuditLogService.instance) {
+      AuditLogService.instance = new AuditLogService();
+    }
+    return AuditLogService.instance;
+  }
+
+  /**
+   * Record a change as an audit event, attributed to the team member using this browser.
+   * Returns null when the change did not alter any data.
+   */
+  public record(change: AuditedChange): AuditEvent | null {
+    const changes = getAuditChanges(change.before, change.after);
+    if (changes.length === 0) return null;
+
+    const event: AuditEvent = {
+      id: generateId(),
+      timestamp: new Date(change.timestamp).toISOString(),
+      ...this.getActor([
+        ...(change.before.userSettings.teamMembers ?? []),
+        ...(change.after.userSettings.teamMembers ?? []),
+      ]),
+      actionType: change.actionType,
+      description: change.description,
+      changes,
+    };
+
+    this.pending.push(event);
+    this.scheduleFlush();
+    this.notify();
+    return event;
+  }
+
+  /**
+   * Events matching a filter, newest first
+   */
+  public getEvents(filter: AuditFilter = {}): AuditEvent[] {
+    return [...this.readStored(), ...this.pending]
+      .filter(event => matchesFilter(event, filter))
+      .reverse();
+  }
+
+  public getRetentionPolicy(): AuditRetentionPolicy {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.AUDIT_RETENTION);
+      return stored ? { ...DEFAULT_AUDIT_RETENTION, ...JSON.parse(stored) } : { ...DEFAULT_AUDIT_RETENTION };
+    } catch {
+      return { ...DEFAULT_AUDIT_RETENTION };
+    }
+  }
+
+  /**
+   * Save a retention policy and remove the events it no longer keeps
+   */
+  public setRetentionPolicy(policy: AuditRetentionPolicy): number {
+    localStorage.setItem(STORAGE_KEYS.AUDIT_RETENTION, JSON.stringify(policy));
+    return this.prune();
+  }
+
+  /**
+   * Remove events the retention policy no longer keeps. Returns the number removed.
+   */
+  public prune(now: Date = new Date()): number {
+    const events = [...this.readStored(), ...this.pending];
+    const kept = this.applyRetention(events, now);
+    this.writeStored(kept);
+    this.pending = [];
+    this.notify();
+    return events.length - kept.length;
+  }
+
+  /**
+   * Events matching a filter as a JSON document, oldest first
+   */
+  public exportLog(filter: AuditFilter = {}): string {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      filter,
+      events: this.getEvents(filter).reverse(),
+    }, null, 2);
+  }
+
+  /**
+   * Trigger a download of the events matching a filter
+   */
+  public downloadExport(filter: AuditFilter = {}, filename?: string): void {
+    const blob = new Blob([this.exportLog(filter)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `audit-log-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Write recorded events to storage now instead of after the flush delay
+   */
+  public flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.length === 0) return;
+
+    try {
+      this.writeStored(this.applyRetention([...this.readStored(), ...this.pending], new Date()));
+      this.pending = [];
+    } catch (error) {
+      // Kept in memory and retried with the next flush
+      console.error('❌ Failed to write the audit log:', error);
+    }
+  }
+
+  /**
+   * Listen for new or pruned events. Returns a function that stops listening.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getActor(teamMembers: TeamMember[]): Pick<AuditEvent, 'actorId' | 'actorName'> {
+    const actorId = permissionService.getCurrentMemberId();
+    const member = teamMembers.find(m => m.id === actorId);
+    return { actorId, actorName: member?.name ?? (actorId ? 'Former team member' : 'Unidentified user') };
+  }
+
+  private applyRetention(events: AuditEvent[], now: Date): AuditEvent[] {
+    const { maxAgeDays, maxEvents } = this.getRetentionPolicy();
+    const cutoff = maxAgeDays !== null ? now.getTime() - maxAgeDays * DAY_MS : -Infinity;
+    const recent = events.filter(event => new Date(event.timestamp).getTime() >= cutoff);
+    return maxEvents !== null ? recent.slice(Math.max(0, recent.length - maxEvents)) : recent;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => this.flush(), AuditLogService.FLUSH_DELAY_MS);
+  }
+
+  private readStored(): AuditEvent[] {
+    try {
+      const stored = storageBackend.getItem(STORAGE_KEYS.AUDIT_LOG);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeStored(events: AuditEvent[]): void {
+    storageBackend.setItem(STORAGE_KEYS.AUDIT_LOG, JSON.stringify(events));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const auditLogService = AuditLogService.getInstance();
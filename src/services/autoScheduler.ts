@@ -0,0 +1,335 @@
+import { AppState, Task, TaskPriority, TimeSlot, WeeklySchedule } from '../types';
+import { DAYS_OF_WEEK } from '../utils/constants';
+import { dateRangesOverlap, formatLocalDate, getTimeSlotForDate } from '../utils/helpers';
+import { TaskDependencyManager } from './taskDependencies';
+import { TaskSplitter } from './taskSplitting';
+import { BusinessRuleValidator } from './validation';
+import { WorkloadCalculationEngine } from './workloadCalculation';
+
+export type SchedulerSettings = Pick<AppState['userSettings'], 'weeklyCapacityHours' | 'workingDays' | 'workingHours'>;
+
+export type UnplacedReason =
+  | 'no_working_days'
+  | 'exceeds_working_hours'
+  | 'exceeds_daily_capacity'
+  | 'capacity_full'
+  | 'no_free_slot'
+  | 'dependency_unplaced';
+
+export interface UnplacedTask {
+  task: Task;
+  reason: UnplacedReason;
+  message: string;
+}
+
+export interface AutoScheduleResult {
+  placedTasks: Task[];
+  unplacedTasks: UnplacedTask[];
+}
+
+export interface AutoScheduleOptions {
+  earliestStart?: Date; // Never place tasks before this moment (e.g. now)
+}
+
+interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// Slot boundaries in hours, consistent with getTimeSlotForDate
+const TIME_SLOT_HOURS: Record<TimeSlot, { start: number; end: number }> = {
+  morning: { start: 0, end: 12 },
+  afternoon: { start: 12, end: 17 },
+  evening: { start: 17, end: 24 },
+};
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export class AutoScheduler {
+  /**
+   * Re-place every planned task in a week that is outside working time, conflicts with
+   * another task or pushes its day over capacity
+   */
+  static autoScheduleWeek(
+    schedule: WeeklySchedule,
+    settings: SchedulerSettings,
+    options: AutoScheduleOptions = {}
+  ): AutoScheduleResult {
+    const workItems = TaskSplitter.getWorkItems(schedule.tasks);
+    const tasksToPlace = this.findTasksNeedingPlacement(workItems, schedule.weekStartDate, settings);
+    const placeIds = new Set(tasksToPlace.map(task => task.id));
+    const fixedTasks = workItems.filter(task => !placeIds.has(task.id));
+
+    return this.scheduleTasks(tasksToPlace, fixedTasks, schedule.weekStartDate, settings, options);
+  }
+
+  /**
+   * Find planned tasks whose current placement breaks a scheduling constraint.
+   * Tasks are kept greedily in priority order, so the lower-priority task of a conflict moves.
+   * A task that starts before a dependency ends, or whose dependency moves, moves as well.
+   */
+  static findTasksNeedingPlacement(
+    tasks: Task[],
+    weekStartDate: Date,
+    settings: SchedulerSettings
+  ): Task[] {
+    const dailyCapacity = this.getDailyCapacity(settings);
+    // Split tasks are placed through their parts
+    const workItems = TaskSplitter.getWorkItems(tasks);
+    const keptTasks = workItems.filter(task => task.status !== 'planned');
+    const dailyLoad = this.getDailyLoad(keptTasks, weekStartDate, dailyCapacity);
+    const needsPlacement: Task[] = [];
+
+    const plannedTasks = TaskDependencyManager.sortByDependencies(
+      this.sortByPriority(workItems.filter(task => task.status === 'planned'), task =>
+        new Date(task.scheduledStart).getTime()
+      )
+    );
+
+    plannedTasks.forEach(task => {
+      const start = new Date(task.scheduledStart);
+      const end = new Date(task.scheduledEnd);
+      const dateKey = formatLocalDate(start);
+      const workingWindow = this.getWorkingWindow(start, settings);
+
+      const fitsWorkingTime = this.isWorkingDay(start, settings) && start >= workingWindow.start && end <= workingWindow.end;
+      const fitsCapacity = (dailyLoad.get(dateKey) ?? 0) + task.estimatedHours <= dailyCapacity;
+      const followsDependencies = TaskDependencyManager.getDependencies(task, tasks).every(dependency =>
+        !needsPlacement.includes(dependency) && start >= new Date(dependency.scheduledEnd)
+      );
+
+      if (fitsWorkingTime && fitsCapacity && followsDependencies && !this.hasConflict(task, keptTasks)) {
+        keptTasks.push(task);
+        dailyLoad.set(dateKey, (dailyLoad.get(dateKey) ?? 0) + task.estimatedHours);
+      } else {
+        needsPlacement.push(task);
+      }
+    });
+
+    return needsPlacement;
+  }
+
+  /**
+   * Place tasks into free working time around a set of fixed tasks.
+   * Higher priority tasks are placed first, as early in the week as capacity allows,
+   * and no task is placed before the tasks it depends on end.
+   */
+  static scheduleTasks(
+    tasksToPlace: Task[],
+    fixedTasks: Task[],
+    weekStartDate: Date,
+    settings: SchedulerSettings,
+    options: AutoScheduleOptions = {}
+  ): AutoScheduleResult {
+    const dailyCapacity = this.getDailyCapacity(settings);
+    const dailyLoad = this.getDailyLoad(fixedTasks, weekStartDate, dailyCapacity);
+    const busyTasks = [...fixedTasks];
+    const placedTasks: Task[] = [];
+    const unplacedTasks: UnplacedTask[] = [];
+
+    const workingDates = this.getWeekDates(weekStartDate).filter(date => this.isWorkingDay(date, settings));
+    const workingDayHours = this.getWorkingDayHours(settings);
+
+    const sortedTasks = TaskDependencyManager.sortByDependencies(
+      this.sortByPriority(tasksToPlace, task => -task.estimatedHours)
+    );
+
+    sortedTasks.forEach(task => {
+      const unplaced = (reason: UnplacedReason, message: string) =>
+        unplacedTasks.push({ task, reason, message });
+
+      const unplacedDependency = unplacedTasks.find(({ task: other }) => task.dependsOn?.includes(other.id));
+      if (unplacedDependency) {
+        unplaced(
+          'dependency_unplaced',
+          `Waits on "${unplacedDependency.task.title}", which could not be placed`
+        );
+        return;
+      }
+
+      if (workingDates.length === 0) {
+        unplaced('no_working_days', 'No working days are configured in user settings');
+        return;
+      }
+      if (task.estimatedHours > workingDayHours) {
+        unplaced(
+          'exceeds_working_hours',
+          `Needs ${task.estimatedHours}h but a working day is only ${workingDayHours}h long`
+        );
+        return;
+      }
+      if (task.estimatedHours > dailyCapacity) {
+        unplaced(
+          'exceeds_daily_capacity',
+          `Needs ${task.estimatedHours}h but daily capacity is ${dailyCapacity.toFixed(1)}h`
+        );
+        return;
+      }
+
+      const datesWithCapacity = workingDates.filter(date =>
+        (dailyLoad.get(formatLocalDate(date)) ?? 0) + task.estimatedHours <= dailyCapacity
+      );
+      if (datesWithCapacity.length === 0) {
+        unplaced(
+          'capacity_full',
+          `Every working day is too full to fit another ${task.estimatedHours}h (daily capacity ${dailyCapacity.toFixed(1)}h)`
+        );
+        return;
+      }
+
+      const dependenciesEnd = TaskDependencyManager.getEarliestStart(task, busyTasks);
+      const earliestStart = dependenciesEnd && (!options.earliestStart || dependenciesEnd > options.earliestStart)
+        ? dependenciesEnd
+        : options.earliestStart;
+
+      const start = this.findSlot(task, datesWithCapacity, busyTasks, settings, { ...options, earliestStart });
+      if (!start) {
+        unplaced(
+          'no_free_slot',
+          dependenciesEnd
+            ? `No free ${task.estimatedHours}h window within working hours after its dependencies end`
+            : `No free ${task.estimatedHours}h window within working hours for the rest of the week`
+        );
+        return;
+      }
+
+      const scheduledEnd = new Date(start);
+      scheduledEnd.setMinutes(scheduledEnd.getMinutes() + Math.round(task.estimatedHours * 60));
+
+      const placedTask: Task = {
+        ...task,
+        scheduledStart: start,
+        scheduledEnd,
+        timeSlot: getTimeSlotForDate(start),
+      };
+
+      placedTasks.push(placedTask);
+      busyTasks.push(placedTask);
+      const dateKey = formatLocalDate(start);
+      dailyLoad.set(dateKey, (dailyLoad.get(dateKey) ?? 0) + task.estimatedHours);
+    });
+
+    return { placedTasks, unplacedTasks };
+  }
+
+  /**
+   * Find the earliest day with room for a task, trying its preferred time slot
+   * before any other working time on that day
+   */
+  private static findSlot(
+    task: Task,
+    dates: Date[],
+    busyTasks: Task[],
+    settings: SchedulerSettings,
+    options: AutoScheduleOptions
+  ): Date | null {
+    const durationMs = task.estimatedHours * 60 * 60 * 1000;
+    const windowFor = (date: Date, preferredOnly: boolean): TimeWindow => {
+      const workingWindow = this.getWorkingWindow(date, settings);
+      const window = preferredOnly
+        ? this.intersect(workingWindow, this.getSlotWindow(date, task.timeSlot))
+        : workingWindow;
+
+      if (options.earliestStart && options.earliestStart > window.start) {
+        return { start: new Date(options.earliestStart), end: window.end };
+      }
+      return window;
+    };
+
+    for (const date of dates) {
+      for (const preferredOnly of [true, false]) {
+        const start = this.findGap(task, windowFor(date, preferredOnly), durationMs, busyTasks);
+        if (start) return start;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the first gap in a window long enough for the duration. Candidate starts are the window
+   * start and the end of each busy task, vetted by BusinessRuleValidator.checkSchedulingConflicts.
+   */
+  private static findGap(task: Task, window: TimeWindow, durationMs: number, busyTasks: Task[]): Date | null {
+    const busyInWindow = busyTasks.filter(busy =>
+      dateRangesOverlap(new Date(busy.scheduledStart), new Date(busy.scheduledEnd), window.start, window.end)
+    );
+    const candidateStarts = [window.start.getTime(), ...busyInWindow.map(busy => new Date(busy.scheduledEnd).getTime())]
+      .filter(start => start >= window.start.getTime() && start + durationMs <= window.end.getTime())
+      .sort((a, b) => a - b);
+
+    const start = candidateStarts.find(candidate =>
+      !this.hasConflict(
+        { ...task, scheduledStart: new Date(candidate), scheduledEnd: new Date(candidate + durationMs) },
+        busyInWindow
+      )
+    );
+    return start === undefined ? null : new Date(start);
+  }
+
+  private static hasConflict(task: Task, otherTasks: Task[]): boolean {
+    return otherTasks.some(other => BusinessRuleValidator.checkSchedulingConflicts([task, other]).length > 0);
+  }
+
+  private static sortByPriority(tasks: Task[], tieBreaker: (task: Task) => number): Task[] {
+    return [...tasks].sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || tieBreaker(a) - tieBreaker(b)
+    );
+  }
+
+  private static getDailyCapacity(settings: SchedulerSettings): number {
+    return WorkloadCalculationEngine.calculateDailyCapacity(settings.weeklyCapacityHours, settings.workingDays);
+  }
+
+  private static getDailyLoad(tasks: Task[], weekStartDate: Date, dailyCapacity: number): Map<string, number> {
+    const breakdown = WorkloadCalculationEngine.calculateDailyBreakdown(tasks, weekStartDate, dailyCapacity);
+    return new Map(breakdown.map(day => [formatLocalDate(day.date), day.scheduledHours]));
+  }
+
+  private static getWeekDates(weekStartDate: Date): Date[] {
+    return Array.from({ length: 7 }, (_, i) => {
+      const date = new Date(weekStartDate);
+      date.setDate(date.getDate() + i);
+      date.setHours(0, 0, 0, 0);
+      return date;
+    });
+  }
+
+  private static isWorkingDay(date: Date, settings: SchedulerSettings): boolean {
+    return settings.workingDays.includes(DAYS_OF_WEEK[date.getDay()]);
+  }
+
+  private static getWorkingDayHours(settings: SchedulerSettings): number {
+    const window = this.getWorkingWindow(new Date(), settings);
+    return Math.max(0, (window.end.getTime() - window.start.getTime()) / (60 * 60 * 1000));
+  }
+
+  private static getWorkingWindow(date: Date, settings: SchedulerSettings): TimeWindow {
+    return {
+      start: this.atTime(date, settings.workingHours.start),
+      end: this.atTime(date, settings.workingHours.end),
+    };
+  }
+
+  private static getSlotWindow(date: Date, timeSlot: TimeSlot): TimeWindow {
+    const { start, end } = TIME_SLOT_HOURS[timeSlot] ?? TIME_SLOT_HOURS.morning;
+    const slotStart = new Date(date);
+    slotStart.setHours(start, 0, 0, 0);
+    const slotEnd = new Date(date);
+    slotEnd.setHours(end, 0, 0, 0);
+    return { start: slotStart, end: slotEnd };
+  }
+
+  private static intersect(a: TimeWindow, b: TimeWindow): TimeWindow {
+    const start = a.start > b.start ? a.start : b.start;
+    const end = a.end < b.end ? a.end : b.end;
+    return { start, end: end > start ? end : start };
+  }
+
+  private static atTime(date: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const result = new Date(date);
+    result.setHours(hours || 0, minutes || 0, 0, 0);
+    return result;
+  }
+}
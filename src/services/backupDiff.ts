@@ -0,0 +1,121 @@
+import { HistoryPatch } from '../types';
+import { HistorySnapshot } from './actionHistory';
+import { AuditChange, getAuditChanges } from './auditLog';
+import { BackupData } from './dataBackup';
+import { DataDomain, StorageSchema } from './storageSchema';
+
+/**
+ * What changed between two backups, or between a backup and current data, entity by entity.
+ * Changes read from `from` to `to`: an entity added since `from` is 'added'.
+ */
+export interface BackupDiff {
+  changes: AuditChange[];
+  counts: Record<'added' | 'removed' | 'updated', number>;
+  comparedDomains: DataDomain[]; // Domains both sides captured; the others are left out of the diff
+}
+
+/**
+ * Entities to restore from a backup, by type
+ */
+export interface BackupRestoreSelection {
+  channels: string[];
+  templates: string[];
+  tasks: string[];
+}
+
+export type RestorableEntityType = 'channel' | 'template' | 'task';
+
+const countChanges = (changes: AuditChange[]): BackupDiff['counts'] => {
+  const counts = { added: 0, removed: 0, updated: 0 };
+  changes.forEach(change => {
+    counts[change.change] += 1;
+  });
+  return counts;
+};
+
+/**
+ * Structured comparison of backups, and selective restore of individual entities out of one
+ */
+export class BackupDiffer {
+  /**
+   * The domains a comparison covers. Domains one side did not capture would show up as
+   * everything added or removed, so they are compared only when both sides have them.
+   */
+  static getComparedDomains(from: BackupData, to: BackupData): DataDomain[] {
+    const toDomains = StorageSchema.getCapturedDomains(to);
+    return StorageSchema.getCapturedDomains(from).filter(domain => toDomains.includes(domain));
+  }
+
+  static compare(from: BackupData, to: BackupData): BackupDiff {
+    const comparedDomains = BackupDiffer.getComparedDomains(from, to);
+    const changes = getAuditChanges(
+      BackupDiffer.toSnapshot(from, comparedDomains),
+      BackupDiffer.toSnapshot(to, comparedDomains, from)
+    );
+    return { changes, counts: countChanges(changes), comparedDomains };
+  }
+
+  /**
+   * The diff left once the selected entities have been restored
+   */
+  static excludeSelection(diff: BackupDiff, selection: BackupRestoreSelection): BackupDiff {
+    const changes = diff.changes.filter(change =>
+      !BackupDiffer.isRestorable(change) || !selection[`${change.entityType}s` as const].includes(change.entityId)
+    );
+    return { ...diff, changes, counts: countChanges(changes) };
+  }
+
+  static isRestorable(change: AuditChange): change is AuditChange & { entityType: RestorableEntityType } {
+    return change.entityType !== 'settings';
+  }
+
+  static createSelection(changes: AuditChange[]): BackupRestoreSelection {
+    const selection: BackupRestoreSelection = { channels: [], templates: [], tasks: [] };
+    changes.filter(BackupDiffer.isRestorable).forEach(change => {
+      selection[`${change.entityType}s` as const].push(change.entityId);
+    });
+    return selection;
+  }
+
+  static countSelection(selection: BackupRestoreSelection): number {
+    return selection.channels.length + selection.templates.length + selection.tasks.length;
+  }
+
+  /**
+   * Changes that put the selected entities back as the backup holds them. Entities the backup
+   * does not have are removed, so restoring an addition undoes it.
+   */
+  static createRestorePatch(backup: BackupData, selection: BackupRestoreSelection): HistoryPatch {
+    const patch: HistoryPatch = { channels: {}, taskTemplates: {}, tasks: {} };
+
+    selection.channels.forEach(id => {
+      const index = backup.channels.findIndex(channel => channel.id === id);
+      patch.channels[id] = index >= 0 ? { channel: backup.channels[index], index } : null;
+    });
+
+    selection.templates.forEach(id => {
+      const index = backup.templates.findIndex(template => template.id === id);
+      patch.taskTemplates[id] = index >= 0 ? { template: backup.templates[index], index } : null;
+    });
+
+    selection.tasks.forEach(id => {
+      patch.tasks[id] = null;
+      Object.entries(backup.schedules).forEach(([weekKey, week]) => {
+        const task = week.tasks.find(t => t.id === id);
+        if (task) patch.tasks[id] = { task, weekKey };
+      });
+    });
+
+    return patch;
+  }
+
+  // Domains left out of the comparison are emptied, or for settings taken from the other side
+  private static toSnapshot(data: BackupData, domains: DataDomain[], settingsFrom: BackupData = data): HistorySnapshot {
+    return {
+      channels: domains.includes('channels') ? data.channels : [],
+      taskTemplates: domains.includes('templates') ? data.templates : [],
+      schedules: domains.includes('schedules') ? data.schedules : {},
+      userSettings: domains.includes('userSettings') ? data.userSettings ?? {} : settingsFrom.userSettings ?? {},
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { getWeekKey } from '../utils/helpers';
+
+/**
+ * When automatic backups are taken and which backups are kept
+ */
+export interface BackupPolicy {
+  automaticBackups: boolean;
+  intervalMinutes: number; // Scheduled backup while the app is open
+  changeThreshold: number | null; // Also back up after this many saves; null turns it off
+  retention: {
+    hourly: number; // Newest automatic backup of each of the last N hours with one
+    daily: number; // ... of each of the last N days
+    weekly: number; // ... of each of the last N weeks
+    manual: number; // Newest N manual, imported and safety backups
+  };
+  maxTotalKB: number | null; // Oldest backups beyond the tiers' choice are removed above this size
+  compress: boolean;
+  encrypt: boolean; // With the passphrase unlocked for the session, which is never stored
+}
+
+export const DEFAULT_BACKUP_POLICY: BackupPolicy = {
+  automaticBackups: true,
+  intervalMinutes: 5,
+  changeThreshold: 10,
+  retention: { hourly: 24, daily: 7, weekly: 4, manual: 10 },
+  maxTotalKB: null,
+  compress: false,
+  encrypt: false,
+};
+
+export type BackupTier = 'hourly' | 'daily' | 'weekly' | 'manual';
+
+export const BACKUP_TIERS: BackupTier[] = ['hourly', 'daily', 'weekly', 'manual'];
+
+/**
+ * The backup fields retention needs
+ */
+export interface RetainedBackup {
+  id: string;
+  timestamp: Date | string;
+  size: number;
+  description?: string;
+  automatic?: boolean;
+}
+
+// Automatic backups taken before backups recorded how they were taken
+const LEGACY_AUTOMATIC_DESCRIPTIONS = [
+  'Auto-backup (scheduled)',
+  'Auto-backup after changes',
+  'Auto-backup before page unload',
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const TIER_PERIODS: Record<Exclude<BackupTier, 'manual'>, (date: Date) => string> = {
+  hourly: date => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}`,
+  daily: date => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+  weekly: date => getWeekKey(date),
+};
+
+/**
+ * Grandfather-father-son retention: automatic backups are thinned to one per hour, day and week,
+ * each tier keeping its most recent periods, and a size cap removes the oldest of what is left.
+ */
+export class BackupRetention {
+  static isAutomatic(backup: RetainedBackup): boolean {
+    return backup.automatic ?? LEGACY_AUTOMATIC_DESCRIPTIONS.includes(backup.description ?? '');
+  }
+
+  /**
+   * The tier keeping each backup, or null for backups the policy removes. A backup kept by
+   * several tiers counts towards the most frequent one.
+   */
+  static assignTiers<T extends RetainedBackup>(backups: T[], policy: BackupPolicy): Map<string, BackupTier | null> {
+    const newestFirst = [...backups].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    const tiers = new Map<string, BackupTier | null>(newestFirst.map(backup => [backup.id, null]));
+
+    const automatic = newestFirst.filter(backup => BackupRetention.isAutomatic(backup));
+    (Object.keys(TIER_PERIODS) as Array<keyof typeof TIER_PERIODS>).forEach(tier => {
+      const periods = new Set<string>();
+      automatic.forEach(backup => {
+        const period = TIER_PERIODS[tier](new Date(backup.timestamp));
+        if (periods.has(period) || periods.size >= policy.retention[tier]) return;
+        periods.add(period);
+        if (tiers.get(backup.id) === null) tiers.set(backup.id, tier);
+      });
+    });
+
+    newestFirst
+      .filter(backup => !BackupRetention.isAutomatic(backup))
+      .slice(0, policy.retention.manual)
+      .forEach(backup => tiers.set(backup.id, 'manual'));
+
+    if (policy.maxTotalKB !== null) {
+      BackupRetention.applySizeCap(newestFirst, tiers, policy.maxTotalKB * 1024);
+    }
+
+    return tiers;
+  }
+
+  /**
+   * Storage used by the backups each tier keeps
+   */
+  static getTierUsage<T extends RetainedBackup>(
+    backups: T[],
+    policy: BackupPolicy
+  ): Record<BackupTier, { count: number; size: number }> {
+    const usage = Object.fromEntries(BACKUP_TIERS.map(tier => [tier, { count: 0, size: 0 }])) as Record<
+      BackupTier,
+      { count: number; size: number }
+    >;
+    const tiers = BackupRetention.assignTiers(backups, policy);
+    backups.forEach(backup => {
+      const tier = tiers.get(backup.id);
+      if (!tier) return;
+      usage[tier].count += 1;
+      usage[tier].size += backup.size;
+    });
+    return usage;
+  }
+
+  // Drop the oldest kept backups, automatic ones first, until the rest fit. The newest is always kept.
+  private static applySizeCap<T extends RetainedBackup>(
+    newestFirst: T[],
+    tiers: Map<string, BackupTier | null>,
+    maxBytes: number
+  ): void {
+    const kept = newestFirst.filter(backup => tiers.get(backup.id) !== null);
+    let total = kept.reduce((sum, backup) => sum + backup.size, 0);
+    const removalOrder = [
+      ...kept.slice(1).filter(backup => BackupRetention.isAutomatic(backup)).reverse(),
+      ...kept.slice(1).filter(backup => !BackupRetention.isAutomatic(backup)).reverse(),
+    ];
+
+    for (const backup of removalOrder) {
+      if (total <= maxBytes) break;
+      tiers.set(backup.id, null);
+      total -= backup.size;
+    }
+  }
+}
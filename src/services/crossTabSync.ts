@@ -0,0 +1,299 @@
+import { AppState } from '../types';
+import { STORAGE_KEYS } from '../utils/constants';
+import { generateId, getWeekKey } from '../utils/helpers';
+import { DATA_DOMAIN_NAMES, DataDomain, StorageSchema, StoredData } from './storageSchema';
+import { storageBackend } from './storageBackend';
+
+/**
+ * A saved change to one entity of a data domain: a channel, a template, a week schedule or the user settings.
+ * Entities are serialized with sorted keys so equal entities compare equal; a null value means deleted.
+ */
+export interface EntityChange {
+  id: string;
+  value: string | null;
+  // The version the writing tab last synced, so receivers can tell it never saw their own write
+  base: string | null;
+}
+
+/**
+ * Changes one tab saved to a domain, broadcast to the other tabs
+ */
+export interface SyncMessage {
+  tabId: string;
+  sentAt: number;
+  domain: DataDomain;
+  changes: EntityChange[];
+}
+
+/**
+ * How a tab settles an incoming change to an entity it changed as well. Either way the
+ * incoming change is applied, as it was saved last; `prompt` lets the user restore their version.
+ */
+export type ConflictPolicy = 'last-writer-wins' | 'prompt';
+
+type SyncListener = (message: SyncMessage) => void;
+
+interface SyncTransport {
+  post(message: SyncMessage): void;
+  close(): void;
+}
+
+const CHANNEL_NAME = 'mcm_sync';
+const USER_SETTINGS_ID = 'userSettings';
+
+/**
+ * Serialize an entity for comparison and transport
+ */
+export const serializeEntity = (entity: unknown): string | null => {
+  if (entity === undefined || entity === null) return null;
+  return JSON.stringify(entity, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+      : value
+  );
+};
+
+/**
+ * Parse a serialized entity, reviving dates as storage does
+ */
+export const parseEntity = <T>(value: string | null): T | null => {
+  if (value === null) return null;
+  return JSON.parse(value, (_key, item) =>
+    typeof item === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(item) ? new Date(item) : item
+  );
+};
+
+/**
+ * The entities of a domain by id. Weeks are keyed by week key and the user settings are a single entity.
+ */
+export const indexEntities = <D extends DataDomain>(domain: D, data: StoredData[D]): Record<string, unknown> => {
+  if (domain === 'userSettings') return { [USER_SETTINGS_ID]: data };
+  if (Array.isArray(data)) return Object.fromEntries(data.map(entity => [entity.id, entity]));
+  return { ...data };
+};
+
+/**
+ * The domains of loaded app state, with the selected week taken from currentWeek
+ */
+export const getStateData = (state: AppState): StoredData => {
+  const selectedWeekKey = state.selectedWeekKey ?? getWeekKey(new Date(state.currentWeek.weekStartDate));
+  return {
+    channels: state.channels,
+    templates: state.taskTemplates,
+    schedules: { ...state.schedules, [selectedWeekKey]: state.currentWeek },
+    userSettings: state.userSettings,
+  };
+};
+
+// BroadcastChannel where available; otherwise storage events, which fire in every other tab
+// when a localStorage key changes
+const openTransport = (onMessage: SyncListener): SyncTransport => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEYS.SYNC_MESSAGE && event.newValue) {
+      onMessage(JSON.parse(event.newValue));
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => localStorage.setItem(STORAGE_KEYS.SYNC_MESSAGE, JSON.stringify(message)),
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+/**
+ * Keeps tabs of the app in step. Each tab remembers the version of every entity it last synced
+ * with storage, saves only the entities it changed since, and broadcasts those changes.
+ */
+export class CrossTabSyncService {
+  private static instance: CrossTabSyncService;
+  private readonly tabId = generateId();
+  private transport: SyncTransport | null = null;
+  private baselines = new Map<DataDomain, Map<string, string>>();
+  private listeners = new Set<SyncListener>();
+  private saveListeners = new Set<SyncListener>();
+
+  private constructor() {}
+
+  public static getInstance(): CrossTabSyncService {
+    if (!CrossTabSyncService.instance) {
+      CrossTabSyncService.instance = new CrossTabSyncService();
+    }
+    return CrossTabSyncService.instance;
+  }
+
+  /**
+   * Start syncing from the state this tab loaded
+   */
+  public start(state: AppState): void {
+    this.stop();
+
+    const data = getStateData(state);
+    DATA_DOMAIN_NAMES.forEach(domain => {
+      const baseline = new Map<string, string>();
+      Object.entries(indexEntities(domain, data[domain])).forEach(([id, entity]) => {
+        const value = serializeEntity(entity);
+        if (value !== null) baseline.set(id, value);
+      });
+      this.baselines.set(domain, baseline);
+    });
+
+    this.transport = openTransport(message => {
+      this.receive(message).catch(error => console.error('❌ Failed to apply changes from another tab:', error));
+    });
+  }
+
+  public stop(): void {
+    this.transport?.close();
+    this.transport = null;
+    this.baselines.clear();
+  }
+
+  public getTabId(): string {
+    return this.tabId;
+  }
+
+  /**
+   * Listen for changes saved by other tabs. Returns a function that stops listening.
+   */
+  public subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for changes this tab saved. Returns a function that stops listening.
+   */
+  public subscribeToSaves(listener: SyncListener): () => void {
+    this.saveListeners.add(listener);
+    return () => {
+      this.saveListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Entities that differ from what this tab last synced. With `removals`, synced entities
+   * missing from `entities` are reported as deleted. Before syncing starts, the stored data is the baseline.
+   */
+  public getChanges(domain: DataDomain, entities: Record<string, unknown>, options: { removals?: boolean } = {}): EntityChange[] {
+    const baseline = this.getBaseline(domain);
+    const changes: EntityChange[] = [];
+
+    Object.entries(entities).forEach(([id, entity]) => {
+      const value = serializeEntity(entity);
+      if (value !== baseline.get(id)) {
+        changes.push({ id, value, base: baseline.get(id) ?? null });
+      }
+    });
+
+    if (options.removals) {
+      baseline.forEach((base, id) => {
+        if (!(id in entities)) {
+          changes.push({ id, value: null, base });
+        }
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Record saved changes as synced and broadcast them once they are persisted
+   */
+  public async publish(domain: DataDomain, changes: EntityChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const message: SyncMessage = { tabId: this.tabId, sentAt: Date.now(), domain, changes };
+    this.markSynced(domain, changes);
+    this.saveListeners.forEach(listener => listener(message));
+    await this.broadcast(message);
+  }
+
+  /**
+   * Hand changes saved from outside the app, e.g. pulled from a sync server, to this tab's
+   * listeners as if another tab saved them, and broadcast them to the other tabs
+   */
+  public async deliver(domain: DataDomain, changes: EntityChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const message: SyncMessage = { tabId: this.tabId, sentAt: Date.now(), domain, changes };
+    this.listeners.forEach(listener => listener(message));
+    this.markSynced(domain, changes);
+    await this.broadcast(message);
+  }
+
+  /**
+   * Incoming changes to entities this tab holds a version of that the other tab never saw:
+   * either an unsaved local edit, or a local save the other tab overwrote
+   */
+  public findConflicts(message: SyncMessage, localEntities: Record<string, unknown>): EntityChange[] {
+    const baseline = this.baselines.get(message.domain);
+    if (!baseline) return [];
+
+    return message.changes.filter(change => {
+      const base = baseline.get(change.id);
+      if (base === undefined) return false;
+
+      const local = serializeEntity(localEntities[change.id]);
+      return local !== change.value && (local !== base || change.base !== base);
+    });
+  }
+
+  private getBaseline(domain: DataDomain): Map<string, string> {
+    const baseline = this.baselines.get(domain);
+    if (baseline) return baseline;
+
+    const stored = new Map<string, string>();
+    Object.entries(indexEntities(domain, StorageSchema.read(domain))).forEach(([id, entity]) => {
+      const value = serializeEntity(entity);
+      if (value !== null) stored.set(id, value);
+    });
+    return stored;
+  }
+
+  private markSynced(domain: DataDomain, changes: EntityChange[]): void {
+    const baseline = this.baselines.get(domain);
+    if (!baseline) return;
+
+    changes.forEach(({ id, value }) => {
+      if (value === null) {
+        baseline.delete(id);
+      } else {
+        baseline.set(id, value);
+      }
+    });
+  }
+
+  private async broadcast(message: SyncMessage): Promise<void> {
+    if (!this.transport) return;
+
+    try {
+      await storageBackend.flush();
+      this.transport?.post(message);
+    } catch (error) {
+      console.error(`❌ Failed to broadcast ${message.domain} changes:`, error);
+    }
+  }
+
+  private async receive(message: SyncMessage): Promise<void> {
+    if (message.tabId === this.tabId) return;
+
+    // Weeks live in IndexedDB behind a per-tab cache, which the other tab's write did not update
+    await storageBackend.reload(StorageSchema.getKey(message.domain));
+
+    // Listeners compare with the baseline from before the change, so it is recorded after them
+    this.listeners.forEach(listener => listener(message));
+    this.markSynced(message.domain, message.changes);
+  }
+}
+
+// Export singleton instance
+export const crossTabSyncService = CrossTabSyncService.getInstance();
@@ -0,0 +1,435 @@
+import { Channel, Task, TaskTemplate } from '../types';
+import { generateId, getTimeSlotForDate } from '../utils/helpers';
+import { dataExportService, ImportOptions, ImportResult, ImportRowError } from './dataExport';
+import { localStorageService } from './localStorage';
+import { ChannelValidator, TaskTemplateValidator, TaskValidator, ValidationError, ValidationResult } from './validation';
+
+/**
+ * Kinds of records that can be exchanged as CSV
+ */
+export type CsvRecordType = 'tasks' | 'channels' | 'templates';
+
+/**
+ * The record each kind of CSV record is read into
+ */
+export interface CsvRecordMap {
+  tasks: Task;
+  channels: Channel;
+  templates: TaskTemplate;
+}
+
+/**
+ * A CSV column and how it maps onto a record field
+ */
+export interface CsvColumn<T> {
+  key: string;
+  header: string;
+  required?: boolean;
+  format: (record: T) => string;
+  parse?: (value: string, record: Partial<T>) => void;
+}
+
+/**
+ * Column mapping for an import: the column key each CSV column is read into, or null to ignore it
+ */
+export type CsvColumnMapping = Array<string | null>;
+
+/**
+ * Header and rows of a CSV file, ready for column mapping
+ */
+export interface CsvPreview {
+  headers: string[];
+  rowCount: number;
+  mapping: CsvColumnMapping;
+}
+
+// Separates the items of list fields such as workflow steps inside a single cell
+const LIST_SEPARATOR = '|';
+
+const formatDate = (date: Date | undefined) => (date ? new Date(date).toISOString() : '');
+const formatList = (items: string[] | undefined) => (items ?? []).join(LIST_SEPARATOR);
+const parseList = (value: string) => value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+const parseNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+const parseBoolean = (value: string) => ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+
+const TASK_COLUMNS: CsvColumn<Task>[] = [
+  { key: 'id', header: 'ID', format: t => t.id, parse: (v, t) => { t.id = v; } },
+  { key: 'channelId', header: 'Channel ID', format: t => t.channelId, parse: (v, t) => { if (v) t.channelId = v; } },
+  // Finds the channel by name when no channel ID is given; resolved in getTaskDefaults
+  { key: 'channelName', header: 'Channel', format: () => '' },
+  { key: 'title', header: 'Title', required: true, format: t => t.title, parse: (v, t) => { t.title = v; } },
+  { key: 'description', header: 'Description', format: t => t.description ?? '', parse: (v, t) => { t.description = v || undefined; } },
+  { key: 'status', header: 'Status', format: t => t.status, parse: (v, t) => { t.status = v.toLowerCase() as Task['status']; } },
+  { key: 'priority', header: 'Priority', format: t => t.priority, parse: (v, t) => { t.priority = v.toLowerCase() as Task['priority']; } },
+  { key: 'scheduledStart', header: 'Start', required: true, format: t => formatDate(t.scheduledStart), parse: (v, t) => { t.scheduledStart = new Date(v); } },
+  { key: 'scheduledEnd', header: 'End', format: t => formatDate(t.scheduledEnd), parse: (v, t) => { t.scheduledEnd = new Date(v); } },
+  { key: 'estimatedHours', header: 'Estimated Hours', format: t => String(t.estimatedHours), parse: (v, t) => { t.estimatedHours = parseNumber(v); } },
+  { key: 'actualHours', header: 'Actual Hours', format: t => t.actualHours?.toString() ?? '', parse: (v, t) => { t.actualHours = parseNumber(v); } },
+  { key: 'timeSlot', header: 'Time Slot', format: t => t.timeSlot, parse: (v, t) => { t.timeSlot = v.toLowerCase() as Task['timeSlot']; } },
+  { key: 'templateId', header: 'Template ID', format: t => t.templateId ?? '', parse: (v, t) => { t.templateId = v || undefined; } },
+  { key: 'dependsOn', header: 'Depends On', format: t => formatList(t.dependsOn), parse: (v, t) => { t.dependsOn = parseList(v); } },
+  { key: 'notes', header: 'Notes', format: t => t.notes ?? '', parse: (v, t) => { t.notes = v || undefined; } },
+];
+
+const CHANNEL_COLUMNS: CsvColumn<Channel>[] = [
+  { key: 'id', header: 'ID', format: c => c.id, parse: (v, c) => { c.id = v; } },
+  { key: 'name', header: 'Name', required: true, format: c => c.name, parse: (v, c) => { c.name = v; } },
+  { key: 'contentType', header: 'Content Type', format: c => c.contentType, parse: (v, c) => { c.contentType = v.toLowerCase(); } },
+  {
+    key: 'frequency',
+    header: 'Posting Frequency',
+    format: c => c.postingSchedule.frequency,
+    parse: (v, c) => { c.postingSchedule = { ...c.postingSchedule!, frequency: v.toLowerCase() as Channel['postingSchedule']['frequency'] }; },
+  },
+  {
+    key: 'preferredDays',
+    header: 'Posting Days',
+    format: c => formatList(c.postingSchedule.preferredDays),
+    parse: (v, c) => { c.postingSchedule = { ...c.postingSchedule!, preferredDays: parseList(v) }; },
+  },
+  {
+    key: 'preferredTimes',
+    header: 'Posting Times',
+    format: c => formatList(c.postingSchedule.preferredTimes),
+    parse: (v, c) => { c.postingSchedule = { ...c.postingSchedule!, preferredTimes: parseList(v) }; },
+  },
+  { key: 'color', header: 'Color', format: c => c.color, parse: (v, c) => { c.color = v; } },
+  { key: 'isActive', header: 'Active', format: c => String(c.isActive), parse: (v, c) => { c.isActive = parseBoolean(v); } },
+  { key: 'createdAt', header: 'Created', format: c => formatDate(c.createdAt), parse: (v, c) => { c.createdAt = new Date(v); } },
+];
+
+const TEMPLATE_COLUMNS: CsvColumn<TaskTemplate>[] = [
+  { key: 'id', header: 'ID', format: t => t.id, parse: (v, t) => { t.id = v; } },
+  { key: 'title', header: 'Title', required: true, format: t => t.title, parse: (v, t) => { t.title = v; } },
+  { key: 'description', header: 'Description', format: t => t.description, parse: (v, t) => { t.description = v; } },
+  { key: 'category', header: 'Category', format: t => t.category, parse: (v, t) => { t.category = v.toLowerCase() as TaskTemplate['category']; } },
+  { key: 'estimatedHours', header: 'Estimated Hours', format: t => String(t.estimatedHours), parse: (v, t) => { t.estimatedHours = parseNumber(v); } },
+  { key: 'workflowSteps', header: 'Workflow Steps', format: t => formatList(t.workflowSteps), parse: (v, t) => { t.workflowSteps = parseList(v); } },
+  { key: 'dependsOnTemplateIds', header: 'Depends On', format: t => formatList(t.dependsOnTemplateIds), parse: (v, t) => { t.dependsOnTemplateIds = parseList(v); } },
+  { key: 'createTaskPerStep', header: 'Task Per Step', format: t => String(t.createTaskPerStep ?? false), parse: (v, t) => { t.createTaskPerStep = parseBoolean(v); } },
+  { key: 'createdAt', header: 'Created', format: t => formatDate(t.createdAt), parse: (v, t) => { t.createdAt = new Date(v); } },
+];
+
+/**
+ * Available columns for each record type, in default export order
+ */
+export const CSV_COLUMNS: { [K in CsvRecordType]: CsvColumn<CsvRecordMap[K]>[] } = {
+  tasks: TASK_COLUMNS,
+  channels: CHANNEL_COLUMNS,
+  templates: TEMPLATE_COLUMNS,
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * CSV export and import of tasks, channels and task templates for spreadsheet round-tripping
+ */
+export class CsvExchangeService {
+  private static instance: CsvExchangeService;
+
+  private constructor() {}
+
+  public static getInstance(): CsvExchangeService {
+    if (!CsvExchangeService.instance) {
+      CsvExchangeService.instance = new CsvExchangeService();
+    }
+    return CsvExchangeService.instance;
+  }
+
+  /**
+   * Export records as CSV with the given columns, in the order given
+   */
+  public exportCsv(type: 'tasks', records: Task[], columnKeys?: string[], channels?: Channel[]): string;
+  public exportCsv(type: 'channels', records: Channel[], columnKeys?: string[]): string;
+  public exportCsv(type: 'templates', records: TaskTemplate[], columnKeys?: string[]): string;
+  public exportCsv(type: CsvRecordType, records: Array<Task | Channel | TaskTemplate>, columnKeys?: string[], channels: Channel[] = []): string {
+    const columns = this.getColumns(type).filter(column => !columnKeys || columnKeys.includes(column.key));
+    if (columnKeys) {
+      columns.sort((a, b) => columnKeys.indexOf(a.key) - columnKeys.indexOf(b.key));
+    }
+
+    const channelNames = new Map(channels.map(channel => [channel.id, channel.name]));
+    const rows = records.map(record => columns.map(column =>
+      column.key === 'channelName'
+        ? channelNames.get((record as Task).channelId) ?? ''
+        : column.format(record)
+    ));
+
+    return [columns.map(column => column.header), ...rows]
+      .map(row => row.map(value => this.escapeCell(value)).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Trigger a download of a CSV file
+   */
+  public downloadCsv(csv: string, filename: string): void {
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Parse CSV text (RFC 4180) into rows of cells. Blank lines are dropped.
+   */
+  public parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(value => value.trim() !== ''));
+  }
+
+  /**
+   * Read the header of a CSV file and suggest which column each CSV column maps to
+   */
+  public previewCsv(type: CsvRecordType, text: string): CsvPreview {
+    const [headers = [], ...rows] = this.parseCsv(text);
+    return { headers, rowCount: rows.length, mapping: this.suggestColumnMapping(type, headers) };
+  }
+
+  /**
+   * Match CSV headers to columns by header or key, ignoring case, spaces and punctuation
+   */
+  public suggestColumnMapping(type: CsvRecordType, headers: string[]): CsvColumnMapping {
+    const columns = this.getColumns(type);
+    const used = new Set<string>();
+
+    return headers.map(header => {
+      const normalized = normalizeHeader(header);
+      const column = columns.find(c =>
+        !used.has(c.key) && (normalizeHeader(c.header) === normalized || normalizeHeader(c.key) === normalized)
+      );
+      if (!column) return null;
+
+      used.add(column.key);
+      return column.key;
+    });
+  }
+
+  /**
+   * Import CSV rows through the column mapping. Each row is validated on its own; valid rows are
+   * imported with the merge mode's rules and invalid rows are reported in rowErrors by line number.
+   */
+  public async importCsv(
+    type: CsvRecordType,
+    text: string,
+    mapping: CsvColumnMapping,
+    options: ImportOptions = { mergeMode: 'merge', validateData: true, createBackup: true }
+  ): Promise<ImportResult> {
+    const [, ...rows] = this.parseCsv(text);
+    const columns = this.getColumns(type);
+    const rowErrors: ImportRowError[] = [];
+
+    // Rows with an ID may update existing records from a few columns; other rows need every required column
+    const missingHeaders = mapping.includes('id')
+      ? []
+      : columns.filter(column => column.required && !mapping.includes(column.key)).map(column => column.header);
+    if (type === 'tasks' && !mapping.includes('id') && !mapping.includes('channelId') && !mapping.includes('channelName')) {
+      missingHeaders.push(TASK_COLUMNS.find(column => column.key === 'channelId')!.header);
+    }
+    if (missingHeaders.length > 0) {
+      return this.createFailedResult(
+        missingHeaders.map(header => new ValidationError(`Missing required column: ${header}`, 'mapping'))
+      );
+    }
+
+    const records: Array<Task | Channel | TaskTemplate> = [];
+    const seenIds = new Map<string, number>();
+
+    rows.forEach((cells, index) => {
+      // Line numbers as a spreadsheet shows them, counting the header as line 1
+      const row = index + 2;
+      const values: Record<string, string> = {};
+      mapping.forEach((key, column) => {
+        if (key) values[key] = (cells[column] ?? '').trim();
+      });
+
+      const record = this.buildRecord(type, values, options.mergeMode);
+      const errors = options.validateData ? this.validateRecord(type, record).errors : [];
+
+      if (seenIds.has(record.id)) {
+        errors.push(new ValidationError(`Duplicate ID, already used on row ${seenIds.get(record.id)}`, 'id'));
+      }
+      seenIds.set(record.id, row);
+
+      if (errors.length > 0) {
+        rowErrors.push({ row, id: values.id || undefined, errors });
+      } else {
+        records.push(record);
+      }
+    });
+
+    const result = records.length > 0
+      ? await dataExportService.importRecords({ [type]: records }, options)
+      : this.createFailedResult([]);
+
+    result.rowErrors = rowErrors;
+    result.success = result.errors.length === 0 && rowErrors.length === 0;
+    if (rowErrors.length > 0) {
+      result.warnings.push(`${rowErrors.length} of ${rows.length} rows had errors and were not imported`);
+    }
+
+    return result;
+  }
+
+  private getColumns<K extends CsvRecordType>(type: K): CsvColumn<CsvRecordMap[K]>[] {
+    return CSV_COLUMNS[type];
+  }
+
+  /**
+   * Build a record from a row. In merge mode a row for an existing record only changes its mapped columns.
+   */
+  private buildRecord(type: CsvRecordType, values: Record<string, string>, mergeMode: ImportOptions['mergeMode']) {
+    const draft: Record<string, any> = type === 'tasks'
+      ? this.getTaskDefaults(values)
+      : type === 'channels' ? this.getChannelDefaults() : this.getTemplateDefaults();
+
+    const existing = values.id ? this.findExisting(type, values.id) : undefined;
+    if (existing && mergeMode === 'merge') {
+      Object.assign(draft, existing);
+    }
+
+    this.getColumns(type).forEach(column => {
+      if (column.key in values && column.parse) {
+        column.parse(values[column.key], draft);
+      }
+    });
+
+    if (!draft.id) draft.id = generateId();
+    return type === 'tasks' ? this.completeTask(draft as Task, values) : draft as Channel | TaskTemplate;
+  }
+
+  private getTaskDefaults(values: Record<string, string>): Partial<Task> {
+    const channelName = values.channelName?.toLowerCase();
+    const channel = channelName
+      ? localStorageService.getChannels().find(c => c.name.toLowerCase() === channelName)
+      : undefined;
+
+    return { channelId: channel?.id ?? '', status: 'planned', priority: 'medium' };
+  }
+
+  private getChannelDefaults(): Partial<Channel> {
+    return {
+      contentType: 'other',
+      postingSchedule: { frequency: 'weekly', preferredDays: [], preferredTimes: [] },
+      color: '#3b82f6',
+      isActive: true,
+      createdAt: new Date(),
+      assignedTasks: [],
+    };
+  }
+
+  private getTemplateDefaults(): Partial<TaskTemplate> {
+    return { description: '', category: 'other', workflowSteps: [], createdAt: new Date() };
+  }
+
+  /**
+   * Fill in the fields of a task that follow from its schedule: missing end, hours or time slot
+   */
+  private completeTask(task: Task, values: Record<string, string>): Task {
+    const start = task.scheduledStart;
+    if (!start || isNaN(start.getTime())) return task;
+
+    if (!values.scheduledEnd && task.estimatedHours > 0) {
+      task.scheduledEnd = new Date(start.getTime() + task.estimatedHours * 60 * 60 * 1000);
+    } else if (task.estimatedHours === undefined && task.scheduledEnd && !isNaN(task.scheduledEnd.getTime())) {
+      task.estimatedHours = Math.round(((task.scheduledEnd.getTime() - start.getTime()) / (60 * 60 * 1000)) * 4) / 4;
+    }
+    if (!values.timeSlot) {
+      task.timeSlot = getTimeSlotForDate(start);
+    }
+
+    return task;
+  }
+
+  private findExisting(type: CsvRecordType, id: string): Task | Channel | TaskTemplate | undefined {
+    switch (type) {
+      case 'tasks':
+        return Object.values(localStorageService.getSchedules())
+          .flatMap(schedule => schedule.tasks)
+          .find(task => task.id === id);
+      case 'channels':
+        return localStorageService.getChannel(id) ?? undefined;
+      default:
+        return localStorageService.getTaskTemplate(id) ?? undefined;
+    }
+  }
+
+  private validateRecord(type: CsvRecordType, record: Task | Channel | TaskTemplate): ValidationResult {
+    switch (type) {
+      case 'tasks': {
+        const result = TaskValidator.validate(record as Task);
+        const channelId = (record as Task).channelId;
+        if (channelId && !localStorageService.getChannel(channelId)) {
+          result.errors.push(new ValidationError(`Unknown channel: ${channelId}`, 'channelId'));
+        }
+        return { isValid: result.errors.length === 0, errors: result.errors };
+      }
+      case 'channels':
+        return ChannelValidator.validate(record as Channel);
+      default:
+        return TaskTemplateValidator.validate(record as TaskTemplate);
+    }
+  }
+
+  private createFailedResult(errors: ValidationError[]): ImportResult {
+    return {
+      success: false,
+      errors,
+      warnings: [],
+      imported: { channels: 0, templates: 0, schedules: 0, tasks: 0, userSettings: false },
+      skipped: { channels: 0, templates: 0, schedules: 0, tasks: 0 },
+    };
+  }
+
+  private escapeCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
+
+// Export singleton instance
+export const csvExchangeService = CsvExchangeService.getInstance();
@@ -1,4 +1,11 @@
 import { Channel, TaskTemplate, WeeklySchedule } from '../types';
+import { APP_VERSION, STORAGE_KEYS } from '../utils/constants';
+import { compressText, decompressText } from '../utils/compression';
+import { BackupPolicy, BackupRetention, BackupTier, DEFAULT_BACKUP_POLICY } from './backupPolicy';
+import { EncryptionError, PassphraseEncryption } from './encryption';
+import { SchemaMigrator } from './schemaMigration';
+import { DataDomain, StorageSchema } from './storageSchema';
+import { storageBackend } from './storageBackend';
 
 export interface BackupData {
   version: string;
@@ -7,22 +14,28 @@ export interface BackupData {
   templates: TaskTemplate[];
   schedules: Record<string, WeeklySchedule>;
   userSettings: any;
+  domains?: DataDomain[];
 }
 
 export interface BackupMetadata {
   id: string;
   timestamp: Date;
-  size: number;
+  size: number; // Stored size, after compression
   description?: string;
   version: string;
+  automatic?: boolean; // Taken by the backup schedule rather than by a person or before a risky change
+  compressed?: boolean;
+  encrypted?: boolean;
 }
 
 export class DataBackupService {
   private static instance: DataBackupService;
-  private readonly BACKUP_KEY_PREFIX = 'mcm_backup_';
-  private readonly BACKUP_METADATA_KEY = 'mcm_backup_metadata';
-  private readonly MAX_BACKUPS = 10;
-  private readonly CURRENT_VERSION = '1.0.0';
+  private readonly BACKUP_KEY_PREFIX = STORAGE_KEYS.BACKUP_PREFIX;
+  private readonly BACKUP_METADATA_KEY = STORAGE_KEYS.BACKUP_METADATA;
+  private readonly CURRENT_VERSION = APP_VERSION;
+  // The backup passphrase is kept in memory only; encrypted backups read this session are cached decrypted
+  private passphrase: string | null = null;
+  private decryptedBackups = new Map<string, string>();
 
   private constructor() {}
 
@@ -36,42 +49,74 @@ export class DataBackupService {
   /**
    * Create a backup of current application data
    */
-  async createBackup(description?: string): Promise<string> {
+  async createBackup(description?: string, options: { automatic?: boolean } = {}): Promise<string> {
     try {
       const backupId = this.generateBackupId();
-      const timestamp = new Date();
-
-      // Collect all data from localStorage
-      const channels = this.getFromStorage('mcm_channels', []);
-      const templates = this.getFromStorage('mcm_templates', []);
-      const schedules = this.getFromStorage('mcm_schedules', {});
-      const userSettings = this.getFromStorage('mcm_user_settings', {});
-
-      const backupData: BackupData = {
-        version: this.CURRENT_VERSION,
-        timestamp,
-        channels,
-        templates,
-        schedules,
-        userSettings
-      };
+      const backupData = this.captureBackupData();
+      const timestamp = backupData.timestamp;
 
       // Store backup
-      const backupKey = this.BACKUP_KEY_PREFIX + backupId;
-      localStorage.setItem(backupKey, JSON.stringify(backupData));
+      const stored = await this.storeBackupData(backupId, backupData);
 
       // Update metadata
-      await this.updateBackupMetadata(backupId, timestamp, backupData, description);
+      await this.updateBackupMetadata(backupId, timestamp, backupData, description, { ...stored, automatic: options.automatic });
 
-      // Clean up old backups
-      await this.cleanupOldBackups();
+      // Remove backups the retention policy no longer keeps
+      this.pruneBackups();
 
       return backupId;
     } catch (error) {
+      if (error instanceof EncryptionError) throw error;
       throw new Error(`Failed to create backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Collect every data domain from storage as backup data, without storing it
+   */
+  captureBackupData(): BackupData {
+    const snapshot = StorageSchema.readSnapshot();
+    return {
+      version: this.CURRENT_VERSION,
+      timestamp: new Date(),
+      channels: snapshot.channels!,
+      templates: snapshot.templates!,
+      schedules: snapshot.schedules!,
+      userSettings: snapshot.userSettings!,
+      domains: snapshot.domains,
+    };
+  }
+
+  /**
+   * Read a stored backup, upgraded to the current schema and with dates revived as storage does
+   */
+  readBackup(backupId: string): BackupData {
+    const backupDataStr = this.readBackupText(backupId);
+
+    if (!backupDataStr) {
+      throw new Error(`Backup with ID ${backupId} not found`);
+    }
+
+    const storedBackup: BackupData = JSON.parse(backupDataStr, (_, value) =>
+      typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value) ? new Date(value) : value
+    );
+
+    // Validate backup data
+    if (!this.isValidBackupData(storedBackup)) {
+      throw new Error('Invalid backup data format');
+    }
+
+    // Backups taken by older versions are upgraded to the current schema
+    const { data } = SchemaMigrator.migrate(storedBackup, storedBackup.version);
+    return {
+      ...storedBackup,
+      channels: data.channels as Channel[],
+      templates: data.templates as TaskTemplate[],
+      schedules: data.schedules as Record<string, WeeklySchedule>,
+      userSettings: data.userSettings,
+    };
+  }
+
   /**
    * Restore data from a backup
    */
@@ -89,41 +134,22 @@ export class DataBackupService {
         restoreUserSettings = true
       } = options;
 
-      const backupKey = this.BACKUP_KEY_PREFIX + backupId;
-      const backupDataStr = localStorage.getItem(backupKey);
-
-      if (!backupDataStr) {
-        throw new Error(`Backup with ID ${backupId} not found`);
-      }
-
-      const backupData: BackupData = JSON.parse(backupDataStr);
-
-      // Validate backup data
-      if (!this.isValidBackupData(backupData)) {
-        throw new Error('Invalid backup data format');
-      }
+      const backupData = this.readBackup(backupId);
 
       // Create a backup of current state before restoring
       await this.createBackup(`Auto-backup before restore from ${backupId}`);
 
-      // Restore selected data
-      if (restoreChannels && backupData.channels) {
-        localStorage.setItem('mcm_channels', JSON.stringify(backupData.channels));
-      }
-
-      if (restoreTemplates && backupData.templates) {
-        localStorage.setItem('mcm_templates', JSON.stringify(backupData.templates));
-      }
-
-      if (restoreSchedules && backupData.schedules) {
-        localStorage.setItem('mcm_schedules', JSON.stringify(backupData.schedules));
-      }
-
-      if (restoreUserSettings && backupData.userSettings) {
-        localStorage.setItem('mcm_user_settings', JSON.stringify(backupData.userSettings));
-      }
+      // Restore selected data. Domains the backup did not capture are left as they are.
+      const selectedDomains: DataDomain[] = [
+        ...(restoreChannels ? ['channels' as const] : []),
+        ...(restoreTemplates ? ['templates' as const] : []),
+        ...(restoreSchedules ? ['schedules' as const] : []),
+        ...(restoreUserSettings ? ['userSettings' as const] : []),
+      ];
+      StorageSchema.writeSnapshot(backupData, selectedDomains);
 
     } catch (error) {
+      if (error instanceof EncryptionError) throw error;
       throw new Error(`Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -133,7 +159,7 @@ export class DataBackupService {
    */
   getBackupList(): BackupMetadata[] {
     try {
-      const metadataStr = localStorage.getItem(this.BACKUP_METADATA_KEY);
+      const metadataStr = storageBackend.getItem(this.BACKUP_METADATA_KEY);
       if (!metadataStr) {
         return [];
       }
@@ -152,31 +178,34 @@ export class DataBackupService {
   deleteBackup(backupId: string): void {
     try {
       const backupKey = this.BACKUP_KEY_PREFIX + backupId;
-      localStorage.removeItem(backupKey);
+      storageBackend.removeItem(backupKey);
+      this.decryptedBackups.delete(backupId);
 
       // Update metadata
       const metadata = this.getBackupList();
       const updatedMetadata = metadata.filter(backup => backup.id !== backupId);
-      localStorage.setItem(this.BACKUP_METADATA_KEY, JSON.stringify(updatedMetadata));
+      storageBackend.setItem(this.BACKUP_METADATA_KEY, JSON.stringify(updatedMetadata));
     } catch (error) {
       throw new Error(`Failed to delete backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Export backup as downloadable file
+   * Export backup as downloadable file, encrypted with the passphrase when one is given
    */
-  exportBackup(backupId: string): void {
+  async exportBackup(backupId: string, passphrase?: string): Promise<void> {
     try {
-      const backupKey = this.BACKUP_KEY_PREFIX + backupId;
-      const backupDataStr = localStorage.getItem(backupKey);
+      const backupDataStr = this.readBackupText(backupId);
 
       if (!backupDataStr) {
         throw new Error(`Backup with ID ${backupId} not found`);
       }
 
-      const backupData = JSON.parse(backupDataStr);
-      const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
+      const content = JSON.stringify(JSON.parse(backupDataStr), null, 2);
+      const blob = new Blob(
+        [passphrase ? await PassphraseEncryption.encrypt(content, passphrase) : content],
+        { type: 'application/json' }
+      );
       const url = URL.createObjectURL(blob);
 
       const link = document.createElement('a');
@@ -188,16 +217,17 @@ export class DataBackupService {
 
       URL.revokeObjectURL(url);
     } catch (error) {
+      if (error instanceof EncryptionError) throw error;
       throw new Error(`Failed to export backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Import backup from file
+   * Import backup from file. Encrypted files need their passphrase.
    */
-  async importBackup(file: File, description?: string): Promise<string> {
+  async importBackup(file: File, description?: string, passphrase?: string): Promise<string> {
     try {
-      const fileContent = await this.readFileAsText(file);
+      const fileContent = await PassphraseEncryption.open(await this.readFileAsText(file), passphrase);
       const backupData: BackupData = JSON.parse(fileContent);
 
       if (!this.isValidBackupData(backupData)) {
@@ -205,21 +235,23 @@ export class DataBackupService {
       }
 
       const backupId = this.generateBackupId();
-      const backupKey = this.BACKUP_KEY_PREFIX + backupId;
 
       // Store imported backup
-      localStorage.setItem(backupKey, JSON.stringify(backupData));
+      const stored = await this.storeBackupData(backupId, backupData);
 
       // Update metadata
       await this.updateBackupMetadata(
         backupId, 
         new Date(), 
         backupData, 
-        description || `Imported from ${file.name}`
+        description || `Imported from ${file.name}`,
+        stored
       );
+      this.pruneBackups();
 
       return backupId;
     } catch (error) {
+      if (error instanceof EncryptionError) throw error;
       throw new Error(`Failed to import backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -229,8 +261,7 @@ export class DataBackupService {
    */
   getBackupDetails(backupId: string): BackupData | null {
     try {
-      const backupKey = this.BACKUP_KEY_PREFIX + backupId;
-      const backupDataStr = localStorage.getItem(backupKey);
+      const backupDataStr = this.readBackupText(backupId);
 
       if (!backupDataStr) {
         return null;
@@ -243,6 +274,101 @@ export class DataBackupService {
     }
   }
 
+  /**
+   * The saved backup policy, or the defaults
+   */
+  getPolicy(): BackupPolicy {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.BACKUP_POLICY);
+      if (!stored) return { ...DEFAULT_BACKUP_POLICY };
+      const policy = JSON.parse(stored);
+      return { ...DEFAULT_BACKUP_POLICY, ...policy, retention: { ...DEFAULT_BACKUP_POLICY.retention, ...policy.retention } };
+    } catch {
+      return { ...DEFAULT_BACKUP_POLICY };
+    }
+  }
+
+  /**
+   * Save a backup policy and remove the backups it no longer keeps. Returns the number removed.
+   */
+  setPolicy(policy: BackupPolicy): number {
+    localStorage.setItem(STORAGE_KEYS.BACKUP_POLICY, JSON.stringify(policy));
+    return this.pruneBackups();
+  }
+
+  /**
+   * Remove backups the retention policy no longer keeps. Returns the number removed.
+   */
+  pruneBackups(): number {
+    const metadata = this.getBackupList();
+    const tiers = BackupRetention.assignTiers(metadata, this.getPolicy());
+    const removed = metadata.filter(backup => tiers.get(backup.id) === null);
+    if (removed.length === 0) return 0;
+
+    removed.forEach(backup => storageBackend.removeItem(this.BACKUP_KEY_PREFIX + backup.id));
+    storageBackend.setItem(
+      this.BACKUP_METADATA_KEY,
+      JSON.stringify(metadata.filter(backup => tiers.get(backup.id) !== null))
+    );
+    return removed.length;
+  }
+
+  /**
+   * Use a passphrase for encrypted backups this session: encrypted backups it opens become
+   * readable, and new backups are encrypted with it when the policy asks for encryption.
+   * Returns the number of encrypted backups unlocked.
+   */
+  async unlock(passphrase: string): Promise<number> {
+    const encrypted = this.getBackupList()
+      .map(backup => ({ id: backup.id, stored: storageBackend.getItem(this.BACKUP_KEY_PREFIX + backup.id) }))
+      .filter((backup): backup is { id: string; stored: string } =>
+        backup.stored !== null && PassphraseEncryption.isEncrypted(backup.stored)
+      );
+
+    // Backups encrypted with an earlier passphrase stay locked
+    const decrypted = new Map<string, string>();
+    for (const backup of encrypted) {
+      try {
+        decrypted.set(backup.id, await PassphraseEncryption.decrypt(backup.stored, passphrase));
+      } catch (error) {
+        if (!(error instanceof EncryptionError) || error.code !== 'WRONG_PASSPHRASE') throw error;
+      }
+    }
+    if (encrypted.length > 0 && decrypted.size === 0) {
+      throw new EncryptionError('WRONG_PASSPHRASE');
+    }
+
+    this.passphrase = passphrase;
+    decrypted.forEach((text, id) => this.decryptedBackups.set(id, text));
+    return decrypted.size;
+  }
+
+  /**
+   * Forget the backup passphrase and the backups it decrypted
+   */
+  lock(): void {
+    this.passphrase = null;
+    this.decryptedBackups.clear();
+  }
+
+  isUnlocked(): boolean {
+    return this.passphrase !== null;
+  }
+
+  /**
+   * Whether new backups cannot be created: the policy encrypts them, but no passphrase is unlocked
+   */
+  isLocked(): boolean {
+    return this.getPolicy().encrypt && !this.isUnlocked();
+  }
+
+  /**
+   * Number and stored size of the backups each retention tier keeps
+   */
+  getTierUsage(): Record<BackupTier, { count: number; size: number }> {
+    return BackupRetention.getTierUsage(this.getBackupList(), this.getPolicy());
+  }
+
   /**
    * Check if localStorage has enough space for backup
    */
@@ -286,50 +412,53 @@ export class DataBackupService {
     return Date.now().toString() + '_' + Math.random().toString(36).substring(2, 11);
   }
 
-  private getFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch {
-      return defaultValue;
+  // Backups are compressed, then encrypted, when the policy asks for it; reading accepts any form
+  private async storeBackupData(
+    backupId: string,
+    backupData: BackupData
+  ): Promise<Pick<BackupMetadata, 'size' | 'compressed' | 'encrypted'>> {
+    const { compress, encrypt } = this.getPolicy();
+    if (encrypt && !this.passphrase) {
+      throw new EncryptionError('LOCKED', 'Backups are set to be encrypted. Unlock them with the backup passphrase first.');
     }
+
+    const json = JSON.stringify(backupData);
+    const text = compress ? compressText(json) : json;
+    const payload = encrypt ? await PassphraseEncryption.encrypt(text, this.passphrase!) : text;
+    storageBackend.setItem(this.BACKUP_KEY_PREFIX + backupId, payload);
+    if (encrypt) this.decryptedBackups.set(backupId, text);
+
+    return { size: payload.length, compressed: compress, encrypted: encrypt };
+  }
+
+  private readBackupText(backupId: string): string | null {
+    let stored = storageBackend.getItem(this.BACKUP_KEY_PREFIX + backupId);
+    if (stored !== null && PassphraseEncryption.isEncrypted(stored)) {
+      stored = this.decryptedBackups.get(backupId) ?? null;
+      if (stored === null) throw new EncryptionError('LOCKED');
+    }
+    return stored === null ? null : decompressText(stored);
   }
 
   private async updateBackupMetadata(
     backupId: string, 
     timestamp: Date, 
     backupData: BackupData, 
-    description?: string
+    description: string | undefined,
+    stored: Pick<BackupMetadata, 'size' | 'compressed' | 'encrypted' | 'automatic'>
   ): Promise<void> {
     const metadata = this.getBackupList();
-    const size = JSON.stringify(backupData).length;
 
     const newMetadata: BackupMetadata = {
       id: backupId,
       timestamp,
-      size,
       description,
-      version: backupData.version
+      version: backupData.version,
+      ...stored,
     };
 
     metadata.push(newMetadata);
-    localStorage.setItem(this.BACKUP_METADATA_KEY, JSON.stringify(metadata));
-  }
-
-  private async cleanupOldBackups(): Promise<void> {
-    const metadata = this.getBackupList();
-    
-    if (metadata.length > this.MAX_BACKUPS) {
-      const backupsToDelete = metadata.slice(this.MAX_BACKUPS);
-      
-      for (const backup of backupsToDelete) {
-        const backupKey = this.BACKUP_KEY_PREFIX + backup.id;
-        localStorage.removeItem(backupKey);
-      }
-
-      const remainingMetadata = metadata.slice(0, this.MAX_BACKUPS);
-      localStorage.setItem(this.BACKUP_METADATA_KEY, JSON.stringify(remainingMetadata));
-    }
+    storageBackend.setItem(this.BACKUP_METADATA_KEY, JSON.stringify(metadata));
   }
 
   private isValidBackupData(data: any): data is BackupData {
@@ -1,7 +1,15 @@
-import { Channel, TaskTemplate, WeeklySchedule, AppState } from '../types';
+import { Channel, Task, TaskTemplate, WeeklySchedule, AppState } from '../types';
 import { localStorageService } from './localStorage';
 import { DataValidator, ValidationError } from './validation';
-import { APP_VERSION } from '../utils/constants';
+import { SchemaMigrator } from './schemaMigration';
+import { ImportMerger, MergePlan, MergeResolutions, MergeSource } from './importMerge';
+import DataBackupService from './dataBackup';
+import { storageBackend } from './storageBackend';
+import { APP_VERSION, STORAGE_KEYS } from '../utils/constants';
+import { getWeekKey, getWeekStartFromKey } from '../utils/helpers';
+import { decompressText } from '../utils/compression';
+import { EncryptionError, PassphraseEncryption } from './encryption';
+import { TaskSplitter } from './taskSplitting';
 
 /**
  * Export data structure
@@ -22,6 +30,25 @@ export interface ImportOptions {
   mergeMode: 'replace' | 'merge' | 'skip_existing';
   validateData: boolean;
   createBackup: boolean;
+  passphrase?: string; // For encrypted files
+}
+
+/**
+ * Records to import individually rather than as whole exports
+ */
+export interface ImportRecords {
+  channels?: Channel[];
+  templates?: TaskTemplate[];
+  tasks?: Task[];
+}
+
+/**
+ * Validation errors for one row of a tabular import
+ */
+export interface ImportRowError {
+  row: number;
+  id?: string;
+  errors: ValidationError[];
 }
 
 /**
@@ -35,13 +62,16 @@ export interface ImportResult {
     channels: number;
     templates: number;
     schedules: number;
+    tasks: number;
     userSettings: boolean;
   };
   skipped: {
     channels: number;
     templates: number;
     schedules: number;
+    tasks: number;
   };
+  rowErrors?: ImportRowError[];
 }
 
 /**
@@ -80,12 +110,13 @@ export class DataExportService {
   }
 
   /**
-   * Export data and trigger download
+   * Export data and trigger download, encrypted with the passphrase when one is given
    */
-  public downloadExport(filename?: string): void {
+  public async downloadExport(filename?: string, passphrase?: string): Promise<void> {
     try {
       const jsonData = this.exportData();
-      const blob = new Blob([jsonData], { type: 'application/json' });
+      const content = passphrase ? await PassphraseEncryption.encrypt(jsonData, passphrase) : jsonData;
+      const blob = new Blob([content], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       
       const link = document.createElement('a');
@@ -102,7 +133,8 @@ export class DataExportService {
   }
 
   /**
-   * Import data from JSON string
+   * Import data from JSON string. Encrypted data without the right passphrase throws an
+   * EncryptionError, so the caller can ask for the passphrase and try again.
    */
   public async importData(
     jsonData: string, 
@@ -116,10 +148,12 @@ export class DataExportService {
       success: false,
       errors: [],
       warnings: [],
-      imported: { channels: 0, templates: 0, schedules: 0, userSettings: false },
-      skipped: { channels: 0, templates: 0, schedules: 0 }
+      imported: { channels: 0, templates: 0, schedules: 0, tasks: 0, userSettings: false },
+      skipped: { channels: 0, templates: 0, schedules: 0, tasks: 0 }
     };
 
+    jsonData = await PassphraseEncryption.open(jsonData, options.passphrase);
+
     try {
       // Create backup if requested
       if (options.createBackup) {
@@ -146,12 +180,30 @@ export class DataExportService {
       const versionWarnings = this.checkVersionCompatibility(importData.version);
       result.warnings.push(...versionWarnings);
 
+      // Upgrade files exported by older versions to the current schema
+      const migration = SchemaMigrator.migrate(importData, importData.version);
+      importData = {
+        ...importData,
+        version: migration.report.toVersion,
+        channels: migration.data.channels as Channel[],
+        templates: migration.data.templates as TaskTemplate[],
+        schedules: migration.data.schedules as Record<string, WeeklySchedule>,
+        userSettings: migration.data.userSettings as AppState['userSettings'],
+      };
+      migration.report.steps.forEach(step => {
+        result.warnings.push(`Migrated to ${step.version}: ${step.description}`);
+      });
+
       // Validate data if requested
       if (options.validateData) {
         const dataValidation = DataValidator.validateAppState({
           channels: importData.channels,
           templates: importData.templates,
-          currentWeek: Object.values(importData.schedules)[0] // Validate first schedule as sample
+          currentWeek: Object.values(importData.schedules)[0], // Validate first schedule as sample
+          // Imported tasks may depend on tasks that are already stored
+          schedules: options.mergeMode === 'replace'
+            ? importData.schedules
+            : { ...localStorageService.getSchedules(), ...importData.schedules },
         });
         
         if (!dataValidation.isValid) {
@@ -205,6 +257,127 @@ export class DataExportService {
     }
   }
 
+  /**
+   * Import individual channels, templates and tasks, e.g. rows read from a spreadsheet.
+   * Tasks are placed into the stored week of their scheduled start.
+   */
+  public async importRecords(
+    records: ImportRecords,
+    options: ImportOptions = {
+      mergeMode: 'merge',
+      validateData: true,
+      createBackup: true
+    }
+  ): Promise<ImportResult> {
+    const result: ImportResult = {
+      success: false,
+      errors: [],
+      warnings: [],
+      imported: { channels: 0, templates: 0, schedules: 0, tasks: 0, userSettings: false },
+      skipped: { channels: 0, templates: 0, schedules: 0, tasks: 0 }
+    };
+
+    try {
+      if (options.createBackup) {
+        await this.createBackup();
+      }
+
+      if (records.channels) {
+        const channelResult = await this.importChannels(records.channels, options.mergeMode);
+        result.imported.channels = channelResult.imported;
+        result.skipped.channels = channelResult.skipped;
+        result.errors.push(...channelResult.errors);
+      }
+
+      if (records.templates) {
+        const templateResult = await this.importTemplates(records.templates, options.mergeMode);
+        result.imported.templates = templateResult.imported;
+        result.skipped.templates = templateResult.skipped;
+        result.errors.push(...templateResult.errors);
+      }
+
+      if (records.tasks) {
+        const taskResult = await this.importTasks(records.tasks, options.mergeMode);
+        result.imported.tasks = taskResult.imported;
+        result.skipped.tasks = taskResult.skipped;
+        result.errors.push(...taskResult.errors);
+      }
+
+      result.success = result.errors.length === 0;
+      return result;
+    } catch (error) {
+      result.errors.push(new ValidationError(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'import'));
+      return result;
+    }
+  }
+
+  /**
+   * Plan a field-level merge of an export or backup file with local data. Nothing is written.
+   * The newest backup taken before the file was created serves as the common base, so fields
+   * changed on only one side merge cleanly and only fields changed on both sides conflict.
+   */
+  public prepareMerge(jsonData: string): MergePlan {
+    let data: any;
+    try {
+      // Revive dates as storage does, so both sides of a field compare and display alike
+      data = JSON.parse(jsonData, (_, value) =>
+        typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value) ? new Date(value) : value
+      );
+    } catch (error) {
+      throw new ValidationError('Invalid JSON format', 'json_parse');
+    }
+
+    if (typeof data !== 'object' || data === null || !Array.isArray(data.channels) ||
+        !Array.isArray(data.templates) || typeof data.schedules !== 'object' || data.schedules === null) {
+      throw new ValidationError('File must contain channels, templates and schedules', 'structure');
+    }
+
+    const version = typeof data.version === 'string' ? data.version : APP_VERSION;
+    const incoming = SchemaMigrator.migrate(
+      { channels: data.channels, templates: data.templates, schedules: data.schedules, userSettings: data.userSettings ?? {} },
+      version
+    ).data as MergeSource;
+
+    const local: MergeSource = {
+      channels: localStorageService.getChannels(),
+      templates: localStorageService.getTaskTemplates(),
+      schedules: localStorageService.getSchedules(),
+    };
+
+    // Exports record exportDate; backups record timestamp
+    const sourceDateValue = data.exportDate ?? data.timestamp;
+    const sourceDate = sourceDateValue ? new Date(sourceDateValue) : undefined;
+    const backupService = DataBackupService.getInstance();
+    const baseBackup = sourceDate && !isNaN(sourceDate.getTime())
+      ? backupService.getBackupList().find(backup => new Date(backup.timestamp) <= sourceDate)
+      : undefined;
+    const baseData = baseBackup ? backupService.getBackupDetails(baseBackup.id) : null;
+    const base = baseData
+      ? SchemaMigrator.migrate({ ...baseData, userSettings: baseData.userSettings ?? {} }, baseData.version).data as MergeSource
+      : undefined;
+
+    return {
+      ...ImportMerger.createPlan(incoming, local, base),
+      sourceDate,
+      baseBackupId: baseData ? baseBackup!.id : undefined,
+    };
+  }
+
+  /**
+   * Write a merge plan with the chosen side for each conflicting field
+   */
+  public async commitMerge(
+    plan: MergePlan,
+    resolutions: MergeResolutions = {},
+    options: Pick<ImportOptions, 'createBackup'> = { createBackup: true }
+  ): Promise<ImportResult> {
+    return this.importRecords(ImportMerger.resolvePlan(plan, resolutions), {
+      mergeMode: 'replace',
+      validateData: false,
+      createBackup: options.createBackup,
+    });
+  }
+
   /**
    * Import data from file
    */
@@ -231,40 +404,18 @@ export class DataExportService {
   }
 
   /**
-   * Create backup of current data
+   * Create a backup of current data, kept or pruned by the backup retention policy
    */
   private async createBackup(): Promise<void> {
     try {
-      const backupData = this.exportData();
-      const backupKey = `mcm_backup_${Date.now()}`;
-      localStorage.setItem(backupKey, backupData);
-      
-      // Clean up old backups (keep only last 5)
-      this.cleanupOldBackups();
+      await DataBackupService.getInstance().createBackup('Before import');
     } catch (error) {
+      // Refuse to import rather than go without the encrypted backup the policy asks for
+      if (error instanceof EncryptionError) throw error;
       console.warn('Failed to create backup:', error);
     }
   }
 
-  /**
-   * Clean up old backup files
-   */
-  private cleanupOldBackups(): void {
-    try {
-      const backupKeys = Object.keys(localStorage)
-        .filter(key => key.startsWith('mcm_backup_'))
-        .sort()
-        .reverse();
-      
-      // Remove all but the 5 most recent backups
-      backupKeys.slice(5).forEach(key => {
-        localStorage.removeItem(key);
-      });
-    } catch (error) {
-      console.warn('Failed to cleanup old backups:', error);
-    }
-  }
-
   /**
    * Validate import data structure
    */
@@ -427,6 +578,73 @@ export class DataExportService {
     return result;
   }
 
+  /**
+   * Import tasks into their stored weeks with merge logic
+   */
+  private async importTasks(tasks: Task[], mergeMode: ImportOptions['mergeMode']): Promise<{
+    imported: number;
+    skipped: number;
+    errors: ValidationError[];
+  }> {
+    const result = { imported: 0, skipped: 0, errors: [] as ValidationError[] };
+    const schedules = localStorageService.getSchedules();
+    const capacityHours = localStorageService.getUserSettings().weeklyCapacityHours;
+    const changedWeekKeys = new Set<string>();
+
+    for (const task of tasks) {
+      try {
+        const existingWeekKey = Object.keys(schedules).find(weekKey =>
+          schedules[weekKey].tasks.some(t => t.id === task.id)
+        );
+
+        let importedTask = task;
+        if (existingWeekKey) {
+          if (mergeMode === 'skip_existing') {
+            result.skipped++;
+            continue;
+          }
+
+          const existingTask = schedules[existingWeekKey].tasks.find(t => t.id === task.id)!;
+          if (mergeMode === 'merge') {
+            importedTask = { ...existingTask, ...task };
+          }
+
+          schedules[existingWeekKey] = {
+            ...schedules[existingWeekKey],
+            tasks: schedules[existingWeekKey].tasks.filter(t => t.id !== task.id),
+          };
+          changedWeekKeys.add(existingWeekKey);
+        }
+
+        const weekKey = getWeekKey(new Date(importedTask.scheduledStart));
+        const week = schedules[weekKey] ?? {
+          weekStartDate: getWeekStartFromKey(weekKey),
+          tasks: [],
+          totalScheduledHours: 0,
+          userCapacityHours: capacityHours,
+          isOverloaded: false,
+        };
+        schedules[weekKey] = { ...week, tasks: [...week.tasks, importedTask] };
+        changedWeekKeys.add(weekKey);
+        result.imported++;
+      } catch (error) {
+        result.errors.push(new ValidationError(`Failed to import task ${task.title}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'task'));
+      }
+    }
+
+    changedWeekKeys.forEach(weekKey => {
+      const week = schedules[weekKey];
+      const totalScheduledHours = TaskSplitter.getWorkItems(week.tasks).reduce((sum, task) => sum + task.estimatedHours, 0);
+      localStorageService.setSchedule(weekKey, {
+        ...week,
+        totalScheduledHours,
+        isOverloaded: totalScheduledHours > week.userCapacityHours,
+      });
+    });
+
+    return result;
+  }
+
   /**
    * Generate export filename with timestamp
    */
@@ -442,11 +660,11 @@ export class DataExportService {
   public getAvailableBackups(): Array<{ key: string; date: Date; size: number }> {
     const backups: Array<{ key: string; date: Date; size: number }> = [];
     
-    Object.keys(localStorage).forEach(key => {
-      if (key.startsWith('mcm_backup_')) {
-        const timestamp = key.replace('mcm_backup_', '');
+    storageBackend.keys().forEach(key => {
+      if (key.startsWith(STORAGE_KEYS.BACKUP_PREFIX)) {
+        const timestamp = key.replace(STORAGE_KEYS.BACKUP_PREFIX, '');
         const date = new Date(parseInt(timestamp));
-        const data = localStorage.getItem(key);
+        const data = storageBackend.getItem(key);
         const size = data ? data.length : 0;
         
         backups.push({ key, date, size });
@@ -460,10 +678,11 @@ export class DataExportService {
    * Restore from backup
    */
   public async restoreFromBackup(backupKey: string): Promise<ImportResult> {
-    const backupData = localStorage.getItem(backupKey);
-    if (!backupData) {
+    const storedBackup = storageBackend.getItem(backupKey);
+    if (!storedBackup) {
       throw new Error(`Backup not found: ${backupKey}`);
     }
+    const backupData = decompressText(storedBackup);
     
     return this.importData(backupData, {
       mergeMode: 'replace',
@@ -476,7 +695,7 @@ export class DataExportService {
    * Delete backup
    */
   public deleteBackup(backupKey: string): void {
-    localStorage.removeItem(backupKey);
+    storageBackend.removeItem(backupKey);
   }
 }
 
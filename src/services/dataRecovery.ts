@@ -1,5 +1,8 @@
 import { DataBackupService } from './dataBackup';
 import ErrorHandler from './errorHandling';
+import RollbackService from './rollbackService';
+import { DATA_DOMAINS, DATA_DOMAIN_NAMES, DataDomain, DataSnapshot, StorageSchema } from './storageSchema';
+import { STORAGE_KEYS } from '../utils/constants';
 
 export interface RecoveryOptions {
   createBackupBeforeRecovery?: boolean;
@@ -14,12 +17,18 @@ export interface DataIntegrityReport {
   unrepairedItems: string[];
 }
 
+export interface SnapshotSelfTestReport {
+  passed: boolean;
+  issues: string[];
+  warnings: string[];
+}
+
 export class DataRecoveryService {
   private static instance: DataRecoveryService;
   private backupService: DataBackupService;
   private errorHandler: ErrorHandler;
-  private readonly RECOVERY_LOG_KEY = 'mcm_recovery_log';
-  private readonly LAST_KNOWN_GOOD_KEY = 'mcm_last_known_good';
+  private readonly RECOVERY_LOG_KEY = STORAGE_KEYS.RECOVERY_LOG;
+  private readonly LAST_KNOWN_GOOD_KEY = STORAGE_KEYS.LAST_KNOWN_GOOD;
 
   private constructor() {
     this.backupService = DataBackupService.getInstance();
@@ -190,21 +199,10 @@ export class DataRecoveryService {
         return await this.restoreFromLatestBackup();
       }
 
-      const goodState = JSON.parse(lastKnownGood);
+      const goodState: DataSnapshot = JSON.parse(lastKnownGood);
       
-      // Restore each data type
-      if (goodState.channels) {
-        localStorage.setItem('mcm_channels', JSON.stringify(goodState.channels));
-      }
-      if (goodState.templates) {
-        localStorage.setItem('mcm_templates', JSON.stringify(goodState.templates));
-      }
-      if (goodState.schedules) {
-        localStorage.setItem('mcm_schedules', JSON.stringify(goodState.schedules));
-      }
-      if (goodState.userSettings) {
-        localStorage.setItem('mcm_user_settings', JSON.stringify(goodState.userSettings));
-      }
+      // Restore each captured data domain
+      StorageSchema.writeSnapshot(goodState);
 
       this.logRecoveryAction('Restored from last known good state');
       return true;
@@ -276,10 +274,7 @@ export class DataRecoveryService {
     try {
       const currentState = {
         timestamp: new Date().toISOString(),
-        channels: this.getFromStorage('mcm_channels', []),
-        templates: this.getFromStorage('mcm_templates', []),
-        schedules: this.getFromStorage('mcm_schedules', {}),
-        userSettings: this.getFromStorage('mcm_user_settings', {})
+        ...StorageSchema.readSnapshot()
       };
 
       localStorage.setItem(this.LAST_KNOWN_GOOD_KEY, JSON.stringify(currentState));
@@ -289,6 +284,44 @@ export class DataRecoveryService {
     }
   }
 
+  /**
+   * Check that backups and rollback points capture every data domain exactly as stored.
+   * Fresh snapshots are taken without being stored; stored backups that predate a domain are reported as warnings.
+   */
+  async runSnapshotSelfTest(): Promise<SnapshotSelfTestReport> {
+    const report: SnapshotSelfTestReport = { passed: true, issues: [], warnings: [] };
+    const stored = StorageSchema.readSnapshot();
+
+    const snapshots: Array<[string, DataSnapshot]> = [
+      ['Backup', this.backupService.captureBackupData()],
+      ['Rollback point', { ...RollbackService.getInstance().captureSnapshot(), domains: DATA_DOMAIN_NAMES }],
+    ];
+
+    snapshots.forEach(([source, snapshot]) => {
+      DATA_DOMAIN_NAMES.forEach(domain => {
+        const { label } = DATA_DOMAINS[domain];
+        if (!StorageSchema.getCapturedDomains(snapshot).includes(domain)) {
+          report.issues.push(`${source} does not capture ${label.toLowerCase()}`);
+        } else if (JSON.stringify(snapshot[domain]) !== JSON.stringify(stored[domain])) {
+          report.issues.push(`${source} captures ${label.toLowerCase()} that differ from storage`);
+        }
+      });
+    });
+
+    this.backupService.getBackupList().forEach(backup => {
+      const details = this.backupService.getBackupDetails(backup.id);
+      const missing = details ? StorageSchema.getMissingDomains(details) : DATA_DOMAIN_NAMES;
+      if (missing.length > 0) {
+        const labels = missing.map(domain => DATA_DOMAINS[domain].label.toLowerCase()).join(', ');
+        report.warnings.push(`Backup ${backup.id} cannot restore ${labels}`);
+      }
+    });
+
+    report.passed = report.issues.length === 0;
+    this.logRecoveryAction(`Snapshot self-test ${report.passed ? 'passed' : `failed: ${report.issues.join(', ')}`}`);
+    return report;
+  }
+
   /**
    * Get recovery logs
    */
@@ -323,13 +356,14 @@ export class DataRecoveryService {
     const issues: string[] = [];
     
     try {
-      const channels = this.getFromStorage('mcm_channels', []);
-      
-      if (!Array.isArray(channels)) {
-        issues.push('Channels data is not an array');
+      const shapeIssue = StorageSchema.inspect('channels');
+      if (shapeIssue) {
+        issues.push(shapeIssue);
         return issues;
       }
 
+      const channels = StorageSchema.read('channels');
+
       for (let i = 0; i < channels.length; i++) {
         const channel = channels[i];
         if (!channel.id || !channel.name) {
@@ -350,16 +384,16 @@ export class DataRecoveryService {
     const issues: string[] = [];
     
     try {
-      const templates = this.getFromStorage('mcm_templates', []);
-      
-      if (!Array.isArray(templates)) {
-        issues.push('Templates data is not an array');
+      const shapeIssue = StorageSchema.inspect('templates');
+      if (shapeIssue) {
+        issues.push(shapeIssue);
         return issues;
       }
 
+      const templates = StorageSchema.read('templates');
       for (let i = 0; i < templates.length; i++) {
         const template = templates[i];
-        if (!template.id || !template.name) {
+        if (!template.id || !template.title) {
           issues.push(`Template at index ${i} missing required fields`);
         }
       }
@@ -374,13 +408,14 @@ export class DataRecoveryService {
     const issues: string[] = [];
     
     try {
-      const schedules = this.getFromStorage('mcm_schedules', {});
-      
-      if (typeof schedules !== 'object' || schedules === null) {
-        issues.push('Schedules data is not an object');
+      const shapeIssue = StorageSchema.inspect('schedules');
+      if (shapeIssue) {
+        issues.push(shapeIssue);
         return issues;
       }
 
+      const schedules = StorageSchema.read('schedules');
+
       for (const [key, schedule] of Object.entries(schedules)) {
         if (!schedule || typeof schedule !== 'object') {
           issues.push(`Schedule for ${key} is invalid`);
@@ -397,10 +432,9 @@ export class DataRecoveryService {
     const issues: string[] = [];
     
     try {
-      const settings = this.getFromStorage('mcm_user_settings', {});
-      
-      if (typeof settings !== 'object' || settings === null) {
-        issues.push('User settings data is not an object');
+      const shapeIssue = StorageSchema.inspect('userSettings');
+      if (shapeIssue) {
+        issues.push(shapeIssue);
       }
     } catch (error) {
       issues.push(`Failed to validate user settings: ${error}`);
@@ -411,23 +445,10 @@ export class DataRecoveryService {
 
   private async attemptRepair(issue: string): Promise<boolean> {
     try {
-      if (issue.includes('Channels data is not an array')) {
-        localStorage.setItem('mcm_channels', JSON.stringify([]));
-        return true;
-      }
-      
-      if (issue.includes('Templates data is not an array')) {
-        localStorage.setItem('mcm_templates', JSON.stringify([]));
-        return true;
-      }
-      
-      if (issue.includes('Schedules data is not an object')) {
-        localStorage.setItem('mcm_schedules', JSON.stringify({}));
-        return true;
-      }
-      
-      if (issue.includes('User settings data is not an object')) {
-        localStorage.setItem('mcm_user_settings', JSON.stringify({}));
+      // Unreadable or misshapen domains are reset to their defaults
+      const domain: DataDomain | undefined = StorageSchema.getDomainForIssue(issue);
+      if (domain) {
+        StorageSchema.write(domain, DATA_DOMAINS[domain].defaultValue());
         return true;
       }
 
@@ -443,7 +464,7 @@ export class DataRecoveryService {
       const keysToCheck = [];
       for (let i = 0; i < localStorage.length; i++) {
         const key = localStorage.key(i);
-        if (key && key.startsWith('mcm_') && !this.isKnownKey(key)) {
+        if (key && key.startsWith('mcm_') && !StorageSchema.isKnownKey(key)) {
           keysToCheck.push(key);
         }
       }
@@ -471,20 +492,6 @@ export class DataRecoveryService {
     }
   }
 
-  private isKnownKey(key: string): boolean {
-    const knownKeys = [
-      'mcm_channels',
-      'mcm_templates',
-      'mcm_schedules',
-      'mcm_user_settings',
-      'mcm_backup_metadata',
-      this.RECOVERY_LOG_KEY,
-      this.LAST_KNOWN_GOOD_KEY
-    ];
-
-    return knownKeys.includes(key) || key.startsWith('mcm_backup_');
-  }
-
   private logRecoveryAction(action: string): void {
     try {
       const logs = this.getRecoveryLogs();
@@ -500,15 +507,6 @@ export class DataRecoveryService {
       console.error('Failed to log recovery action:', error);
     }
   }
-
-  private getFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch {
-      return defaultValue;
-    }
-  }
 }
 
 export default DataRecoveryService;
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { LocalStorageService } from './localStorage';
+import { LocalStorageError, LocalStorageService } from './localStorage';
+import { crossTabSyncService, indexEntities } from './crossTabSync';
+import { DataDomain } from './storageSchema';
 import { Channel, TaskTemplate, WeeklySchedule, AppState } from '../types';
 
 /**
@@ -26,60 +28,28 @@ export class DebouncedLocalStorageService {
    * Debounced update for channels
    */
   public debouncedUpdateChannels(channels: Channel[]): void {
-    this.debouncedUpdate('channels', channels, () => {
-      // Clear existing channels and add new ones
-      const currentChannels = this.localStorageService.getChannels();
-      currentChannels.forEach(channel => {
-        try {
-          this.localStorageService.deleteChannel(channel.id);
-        } catch {
-          // Channel might not exist, ignore error
-        }
-      });
-      
-      channels.forEach(channel => {
-        this.localStorageService.addChannel(channel);
-      });
-    });
+    this.debouncedUpdate('channels', channels, () => this.writeChannels(channels));
   }
 
   /**
    * Debounced update for task templates
    */
   public debouncedUpdateTaskTemplates(templates: TaskTemplate[]): void {
-    this.debouncedUpdate('taskTemplates', templates, () => {
-      // Clear existing templates and add new ones
-      const currentTemplates = this.localStorageService.getTaskTemplates();
-      currentTemplates.forEach(template => {
-        try {
-          this.localStorageService.deleteTaskTemplate(template.id);
-        } catch {
-          // Template might not exist, ignore error
-        }
-      });
-      
-      templates.forEach(template => {
-        this.localStorageService.addTaskTemplate(template);
-      });
-    });
+    this.debouncedUpdate('taskTemplates', templates, () => this.writeTaskTemplates(templates));
   }
 
   /**
    * Debounced update for schedule
    */
   public debouncedUpdateSchedule(weekKey: string, schedule: WeeklySchedule): void {
-    this.debouncedUpdate(`schedule_${weekKey}`, schedule, () => {
-      this.localStorageService.setSchedule(weekKey, schedule);
-    });
+    this.debouncedUpdate(`schedule_${weekKey}`, schedule, () => this.writeSchedule(weekKey, schedule));
   }
 
   /**
    * Debounced update for user settings
    */
   public debouncedUpdateUserSettings(settings: AppState['userSettings']): void {
-    this.debouncedUpdate('userSettings', settings, () => {
-      this.localStorageService.updateUserSettings(settings);
-    });
+    this.debouncedUpdate('userSettings', settings, () => this.writeUserSettings(settings));
   }
 
   /**
@@ -125,32 +95,14 @@ export class DebouncedLocalStorageService {
         if (pendingData) {
           try {
             if (key === 'channels') {
-              this.localStorageService.getChannels().forEach(channel => {
-                try {
-                  this.localStorageService.deleteChannel(channel.id);
-                } catch {
-                  // Ignore errors
-                }
-              });
-              (pendingData as Channel[]).forEach(channel => {
-                this.localStorageService.addChannel(channel);
-              });
+              this.writeChannels(pendingData as Channel[]);
             } else if (key === 'taskTemplates') {
-              this.localStorageService.getTaskTemplates().forEach(template => {
-                try {
-                  this.localStorageService.deleteTaskTemplate(template.id);
-                } catch {
-                  // Ignore errors
-                }
-              });
-              (pendingData as TaskTemplate[]).forEach(template => {
-                this.localStorageService.addTaskTemplate(template);
-              });
+              this.writeTaskTemplates(pendingData as TaskTemplate[]);
             } else if (key.startsWith('schedule_')) {
               const weekKey = key.replace('schedule_', '');
-              this.localStorageService.setSchedule(weekKey, pendingData as WeeklySchedule);
+              this.writeSchedule(weekKey, pendingData as WeeklySchedule);
             } else if (key === 'userSettings') {
-              this.localStorageService.updateUserSettings(pendingData as AppState['userSettings']);
+              this.writeUserSettings(pendingData as AppState['userSettings']);
             }
           } catch (error) {
             console.error(`Failed to flush update for ${key}:`, error);
@@ -198,6 +150,79 @@ export class DebouncedLocalStorageService {
   public getLocalStorageService(): LocalStorageService {
     return this.localStorageService;
   }
+
+  /**
+   * Save versions of single entities of a domain, deleting those that are null, and leave
+   * every other stored entity as it is
+   */
+  public saveEntities(domain: DataDomain, entities: Array<[string, unknown]>): void {
+    entities.forEach(([id, entity]) => {
+      try {
+        switch (domain) {
+          case 'channels':
+            if (!entity) {
+              this.localStorageService.deleteChannel(id);
+            } else if (this.localStorageService.getChannel(id)) {
+              this.localStorageService.updateChannel(id, entity as Channel);
+            } else {
+              this.localStorageService.addChannel(entity as Channel);
+            }
+            break;
+          case 'templates':
+            if (!entity) {
+              this.localStorageService.deleteTaskTemplate(id);
+            } else if (this.localStorageService.getTaskTemplate(id)) {
+              this.localStorageService.updateTaskTemplate(id, entity as TaskTemplate);
+            } else {
+              this.localStorageService.addTaskTemplate(entity as TaskTemplate);
+            }
+            break;
+          case 'schedules':
+            if (!entity) {
+              this.localStorageService.deleteSchedule(id);
+            } else {
+              this.localStorageService.setSchedule(id, entity as WeeklySchedule);
+            }
+            break;
+          case 'userSettings':
+            if (entity) {
+              this.localStorageService.updateUserSettings(entity as AppState['userSettings']);
+            }
+            break;
+        }
+      } catch (error) {
+        // Deleting an entity that is already gone is fine
+        if (!(error instanceof LocalStorageError && error.code === 'NOT_FOUND')) throw error;
+      }
+    });
+  }
+
+  // Writers save only the entities this tab changed since it last synced, so changes other tabs
+  // saved in the meantime are kept, and broadcast what they saved
+
+  private writeChannels(channels: Channel[]): void {
+    const changes = crossTabSyncService.getChanges('channels', indexEntities('channels', channels), { removals: true });
+    this.saveEntities('channels', changes.map(({ id }) => [id, channels.find(c => c.id === id)]));
+    crossTabSyncService.publish('channels', changes);
+  }
+
+  private writeTaskTemplates(templates: TaskTemplate[]): void {
+    const changes = crossTabSyncService.getChanges('templates', indexEntities('templates', templates), { removals: true });
+    this.saveEntities('templates', changes.map(({ id }) => [id, templates.find(t => t.id === id)]));
+    crossTabSyncService.publish('templates', changes);
+  }
+
+  private writeSchedule(weekKey: string, schedule: WeeklySchedule): void {
+    const changes = crossTabSyncService.getChanges('schedules', { [weekKey]: schedule });
+    this.saveEntities('schedules', changes.map(({ id }) => [id, schedule]));
+    crossTabSyncService.publish('schedules', changes);
+  }
+
+  private writeUserSettings(settings: AppState['userSettings']): void {
+    const changes = crossTabSyncService.getChanges('userSettings', indexEntities('userSettings', settings));
+    this.saveEntities('userSettings', changes.map(({ id }) => [id, settings]));
+    crossTabSyncService.publish('userSettings', changes);
+  }
 }
 
 // Export singleton instance
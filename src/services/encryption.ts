@@ -0,0 +1,187 @@
+/**
+ * Passphrase encryption of exports and backups with the Web Crypto API: AES-GCM with a key
+ * derived from the passphrase by PBKDF2
+ */
+
+const ENCRYPTED_FORMAT = 'mcm-encrypted';
+const ENVELOPE_VERSION = 1;
+
+export type EncryptionErrorCode = 'PASSPHRASE_REQUIRED' | 'WRONG_PASSPHRASE' | 'TAMPERED' | 'LOCKED' | 'UNSUPPORTED';
+
+const ERROR_MESSAGES: Record<EncryptionErrorCode, string> = {
+  PASSPHRASE_REQUIRED: 'This data is encrypted. Enter its passphrase to open it.',
+  WRONG_PASSPHRASE: 'The passphrase is incorrect.',
+  TAMPERED: 'The encrypted data has been altered or damaged, so it cannot be decrypted.',
+  LOCKED: 'This backup is encrypted. Unlock backups with the backup passphrase first.',
+  UNSUPPORTED: 'Encrypted data cannot be handled here: this browser or file format is not supported.',
+};
+
+export class EncryptionError extends Error {
+  constructor(public code: EncryptionErrorCode, message: string = ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Encrypted payload as written to files and storage. keyCheck is derived alongside the key, so a
+ * wrong passphrase is told apart from altered data, which fails AES-GCM's authentication instead.
+ */
+interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  cipher: 'AES-GCM';
+  kdf: 'PBKDF2-SHA-256';
+  iterations: number;
+  salt: string; // Base64
+  iv: string;
+  keyCheck: string;
+  data: string;
+}
+
+interface DerivedKey {
+  key: CryptoKey;
+  keyCheck: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const getSubtle = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) throw new EncryptionError('UNSUPPORTED');
+  return crypto.subtle;
+};
+
+// Deriving a key is slow by design, so keys are reused for the same passphrase and salt
+const derivedKeys = new Map<string, Promise<DerivedKey>>();
+const sessionSalts = new Map<string, Uint8Array<ArrayBuffer>>();
+
+const deriveKey = (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<DerivedKey> => {
+  const cacheKey = `${iterations}:${toBase64(salt)}:${passphrase}`;
+  let derived = derivedKeys.get(cacheKey);
+
+  if (!derived) {
+    derived = (async () => {
+      const subtle = getSubtle();
+      const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+      const bits = new Uint8Array(await subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 512));
+      const key = await subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+      return { key, keyCheck: toBase64(bits.slice(32)) };
+    })();
+    derivedKeys.set(cacheKey, derived);
+    derived.catch(() => derivedKeys.delete(cacheKey));
+  }
+
+  return derived;
+};
+
+const parseEnvelope = (text: string): EncryptedEnvelope | null => {
+  if (!text.includes(ENCRYPTED_FORMAT)) return null;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && parsed.format === ENCRYPTED_FORMAT ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export class PassphraseEncryption {
+  static readonly ITERATIONS = 600000;
+  // Envelopes asking for more iterations than this are rejected rather than stalling the browser
+  static readonly MAX_ITERATIONS = 10000000;
+
+  static isEncrypted(text: string): boolean {
+    return parseEnvelope(text) !== null;
+  }
+
+  /**
+   * Encrypt text with a passphrase. Within a session the salt is kept per passphrase, so
+   * repeated backups do not each pay for deriving a key; every payload gets a fresh IV.
+   */
+  static async encrypt(text: string, passphrase: string, options: { iterations?: number } = {}): Promise<string> {
+    const iterations = options.iterations ?? PassphraseEncryption.ITERATIONS;
+    let salt = sessionSalts.get(passphrase);
+    if (!salt) {
+      salt = crypto.getRandomValues(new Uint8Array(16));
+      sessionSalts.set(passphrase, salt);
+    }
+
+    const { key, keyCheck } = await deriveKey(passphrase, salt, iterations);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await getSubtle().encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+
+    const envelope: EncryptedEnvelope = {
+      format: ENCRYPTED_FORMAT,
+      version: ENVELOPE_VERSION,
+      cipher: 'AES-GCM',
+      kdf: 'PBKDF2-SHA-256',
+      iterations,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      keyCheck,
+      data: toBase64(new Uint8Array(data)),
+    };
+    return JSON.stringify(envelope);
+  }
+
+  static async decrypt(text: string, passphrase: string): Promise<string> {
+    const envelope = parseEnvelope(text);
+    if (!envelope) throw new EncryptionError('TAMPERED');
+    if (envelope.version !== ENVELOPE_VERSION || envelope.cipher !== 'AES-GCM') {
+      throw new EncryptionError('UNSUPPORTED');
+    }
+
+    const { iterations } = envelope;
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > PassphraseEncryption.MAX_ITERATIONS) {
+      throw new EncryptionError('TAMPERED');
+    }
+
+    let salt: Uint8Array<ArrayBuffer>, iv: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>;
+    try {
+      salt = fromBase64(envelope.salt);
+      iv = fromBase64(envelope.iv);
+      data = fromBase64(envelope.data);
+    } catch {
+      throw new EncryptionError('TAMPERED');
+    }
+
+    let derived: DerivedKey;
+    try {
+      derived = await deriveKey(passphrase, salt, iterations);
+    } catch (error) {
+      if (error instanceof EncryptionError) throw error;
+      throw new EncryptionError('TAMPERED');
+    }
+
+    const { key, keyCheck } = derived;
+    if (keyCheck !== envelope.keyCheck) throw new EncryptionError('WRONG_PASSPHRASE');
+
+    try {
+      return new TextDecoder().decode(await getSubtle().decrypt({ name: 'AES-GCM', iv }, key, data));
+    } catch {
+      throw new EncryptionError('TAMPERED');
+    }
+  }
+
+  /**
+   * The plain text of a payload that may be encrypted: encrypted payloads need the passphrase,
+   * anything else is returned as it is
+   */
+  static async open(text: string, passphrase?: string): Promise<string> {
+    if (!PassphraseEncryption.isEncrypted(text)) return text;
+    if (!passphrase) throw new EncryptionError('PASSPHRASE_REQUIRED');
+    return PassphraseEncryption.decrypt(text, passphrase);
+  }
+}
@@ -1,7 +1,16 @@
 import { localStorageService } from './localStorage';
 import { debouncedLocalStorageService } from './debouncedLocalStorage';
 import DataBackupService from './dataBackup';
-import { AppState } from '../types';
+import { BackupPolicy, BackupTier } from './backupPolicy';
+import { MigrationReport, SchemaData, SchemaMigrator } from './schemaMigration';
+import { storageBackend } from './storageBackend';
+import { DataValidator } from './validation';
+import { permissionService } from './permissions';
+import { remoteSyncService, RemoteSyncStatus } from './remoteSync';
+import { StorageBackendName } from './storageAdapter';
+import { AppState, Channel, TaskTemplate, WeeklySchedule } from '../types';
+import { APP_VERSION, STORAGE_KEYS } from '../utils/constants';
+import { getWeekKey, getWeekStartFromKey } from '../utils/helpers';
 
 /**
  * Enhanced persistence service that ensures data is never lost
@@ -11,8 +20,6 @@ export class EnhancedPersistenceService {
   private backupService: DataBackupService;
   private autoBackupInterval: number | null = null;
   private lastBackupTime: Date | null = null;
-  private readonly AUTO_BACKUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
-  private readonly BACKUP_ON_CHANGES_THRESHOLD = 10; // Create backup after 10 changes
   private changeCount = 0;
 
   private constructor() {
@@ -36,6 +43,14 @@ export class EnhancedPersistenceService {
     this.createInitialBackupIfNeeded();
   }
 
+  /**
+   * Move schedules, backups and rollback points to IndexedDB where available.
+   * Must run before stored data is read, so nothing reads localStorage copies that are about to move.
+   */
+  public async initializeStorageBackend(): Promise<StorageBackendName> {
+    return storageBackend.initialize();
+  }
+
   /**
    * Save application state with enhanced persistence
    */
@@ -47,16 +62,22 @@ export class EnhancedPersistenceService {
       debouncedLocalStorageService.debouncedUpdateChannels(state.channels);
       debouncedLocalStorageService.debouncedUpdateTaskTemplates(state.taskTemplates);
       
-      const weekKey = state.currentWeek.weekStartDate.toISOString().split('T')[0];
-      debouncedLocalStorageService.debouncedUpdateSchedule(weekKey, state.currentWeek);
+      // Persist every loaded week; weeks that were never loaded stay untouched in storage
+      const selectedWeekKey = state.selectedWeekKey ?? getWeekKey(new Date(state.currentWeek.weekStartDate));
+      const schedules = { ...state.schedules, [selectedWeekKey]: state.currentWeek };
+      Object.entries(schedules).forEach(([weekKey, schedule]) => {
+        debouncedLocalStorageService.debouncedUpdateSchedule(weekKey, schedule);
+      });
       debouncedLocalStorageService.debouncedUpdateUserSettings(state.userSettings);
 
       // Increment change count for backup threshold
       this.changeCount++;
 
-      // Create backup if threshold reached
-      if (this.changeCount >= this.BACKUP_ON_CHANGES_THRESHOLD) {
-        await this.createBackup('Auto-backup after changes');
+      // Create backup if the policy's threshold is reached
+      const { automaticBackups, changeThreshold } = this.backupService.getPolicy();
+      if (automaticBackups && changeThreshold !== null && this.changeCount >= changeThreshold &&
+          !this.backupService.isLocked()) {
+        await this.createBackup('Auto-backup after changes', { automatic: true });
         this.changeCount = 0;
       }
 
@@ -78,12 +99,12 @@ export class EnhancedPersistenceService {
       const taskTemplates = localStorageService.getTaskTemplates();
       const userSettings = localStorageService.getUserSettings();
       
-      // Load current week schedule
-      const currentWeekKey = this.getCurrentWeekKey();
+      // Load current week schedule; other weeks are loaded lazily on navigation
+      const currentWeekKey = getWeekKey(new Date());
       const currentWeekSchedule = localStorageService.getSchedule(currentWeekKey);
       
       const currentWeek = currentWeekSchedule || {
-        weekStartDate: new Date(),
+        weekStartDate: getWeekStartFromKey(currentWeekKey),
         tasks: [],
         totalScheduledHours: 0,
         userCapacityHours: userSettings.weeklyCapacityHours,
@@ -94,6 +115,8 @@ export class EnhancedPersistenceService {
         channels,
         taskTemplates,
         currentWeek,
+        schedules: { [currentWeekKey]: currentWeek },
+        selectedWeekKey: currentWeekKey,
         selectedChannelId: undefined,
         userSettings,
         ui: {
@@ -103,6 +126,10 @@ export class EnhancedPersistenceService {
         },
       };
 
+      // Dependencies can cross weeks, so they are checked against every stored week
+      DataValidator.validateAppState({ schedules: localStorageService.getSchedules() }).errors
+        .forEach(error => console.warn(`⚠️ ${error.message}`));
+
       console.log('✅ Application state loaded successfully');
       return state;
     } catch (error) {
@@ -118,6 +145,7 @@ export class EnhancedPersistenceService {
     try {
       console.log('🔄 Flushing pending saves...');
       await debouncedLocalStorageService.flushPendingUpdates();
+      await storageBackend.flush();
       console.log('✅ All pending saves flushed');
     } catch (error) {
       console.error('❌ Failed to flush pending saves:', error);
@@ -127,10 +155,10 @@ export class EnhancedPersistenceService {
   /**
    * Create a manual backup
    */
-  public async createBackup(description?: string): Promise<string> {
+  public async createBackup(description?: string, options: { automatic?: boolean } = {}): Promise<string> {
     try {
       console.log('💾 Creating backup...');
-      const backupId = await this.backupService.createBackup(description);
+      const backupId = await this.backupService.createBackup(description, options);
       this.lastBackupTime = new Date();
       console.log(`✅ Backup created: ${backupId}`);
       return backupId;
@@ -147,10 +175,47 @@ export class EnhancedPersistenceService {
     return this.backupService.getBackupList();
   }
 
+  public getBackupPolicy(): BackupPolicy {
+    return this.backupService.getPolicy();
+  }
+
+  /**
+   * Save a backup policy, rescheduling automatic backups and removing backups it no longer keeps.
+   * Returns the number of backups removed.
+   */
+  public setBackupPolicy(policy: BackupPolicy): number {
+    const removed = this.backupService.setPolicy(policy);
+    this.setupAutoBackup();
+    return removed;
+  }
+
+  /**
+   * Unlock encrypted backups for this session. Returns the number of backups unlocked.
+   */
+  public async unlockBackups(passphrase: string): Promise<number> {
+    return this.backupService.unlock(passphrase);
+  }
+
+  public lockBackups(): void {
+    this.backupService.lock();
+  }
+
+  public areBackupsUnlocked(): boolean {
+    return this.backupService.isUnlocked();
+  }
+
+  /**
+   * Number and stored size of the backups each retention tier keeps
+   */
+  public getBackupTierUsage(): Record<BackupTier, { count: number; size: number }> {
+    return this.backupService.getTierUsage();
+  }
+
   /**
    * Restore from a specific backup
    */
   public async restoreFromBackup(backupId: string): Promise<void> {
+    this.assertCanReplaceData();
     try {
       console.log(`🔄 Restoring from backup: ${backupId}`);
       await this.backupService.restoreBackup(backupId);
@@ -162,13 +227,13 @@ export class EnhancedPersistenceService {
   }
 
   /**
-   * Export data as a downloadable file
+   * Export data as a downloadable file, encrypted with the passphrase when one is given
    */
-  public exportData(): void {
+  public async exportData(passphrase?: string): Promise<void> {
     try {
       const backups = this.getAvailableBackups();
       if (backups.length > 0) {
-        this.backupService.exportBackup(backups[0].id);
+        await this.backupService.exportBackup(backups[0].id, passphrase);
       } else {
         throw new Error('No backups available to export');
       }
@@ -179,12 +244,13 @@ export class EnhancedPersistenceService {
   }
 
   /**
-   * Import data from a file
+   * Import data from a file. Encrypted files need their passphrase.
    */
-  public async importData(file: File): Promise<void> {
+  public async importData(file: File, passphrase?: string): Promise<void> {
+    this.assertCanReplaceData();
     try {
       console.log('📥 Importing data...');
-      const backupId = await this.backupService.importBackup(file);
+      const backupId = await this.backupService.importBackup(file, undefined, passphrase);
       await this.restoreFromBackup(backupId);
       console.log('✅ Data imported successfully');
     } catch (error) {
@@ -193,6 +259,78 @@ export class EnhancedPersistenceService {
     }
   }
 
+  /**
+   * Report what migrating stored data to the current schema version would change, without changing it
+   */
+  public previewMigration(): MigrationReport {
+    return SchemaMigrator.migrate(this.getStoredSchemaData(), localStorageService.getAppVersion(), { dryRun: true }).report;
+  }
+
+  /**
+   * Upgrade stored data to the current schema version, backing it up first
+   */
+  public async migrateStoredData(): Promise<MigrationReport> {
+    const fromVersion = localStorageService.getAppVersion();
+    const { data, report } = SchemaMigrator.migrate(this.getStoredSchemaData(), fromVersion);
+
+    if (report.steps.length > 0) {
+      console.log(`🔄 Migrating stored data from ${fromVersion} to ${report.toVersion}...`);
+      report.backupId = await this.createBackup(`Before migrating data from ${fromVersion} to ${report.toVersion}`);
+
+      localStorageService.replaceAllData({
+        channels: data.channels as Channel[],
+        taskTemplates: data.templates as TaskTemplate[],
+        schedules: data.schedules as Record<string, WeeklySchedule>,
+        userSettings: data.userSettings as AppState['userSettings'],
+      });
+      storageBackend.removeItem(STORAGE_KEYS.LEGACY_TEMPLATES);
+      console.log('✅ Stored data migrated:', report.steps.map(step => step.description));
+    }
+
+    if (SchemaMigrator.compareVersions(fromVersion, APP_VERSION) < 0) {
+      localStorageService.setAppVersion(APP_VERSION);
+    }
+    report.warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+
+    return report;
+  }
+
+  /**
+   * Where schedules, backups and rollback points are stored
+   */
+  public getStorageBackendName(): StorageBackendName {
+    return storageBackend.getBackendName();
+  }
+
+  /**
+   * Share data with other browsers through a sync server, backing up local data first
+   * as the first sync loads the server's versions of entities over local ones
+   */
+  public async connectSyncServer(serverUrl: string): Promise<RemoteSyncStatus> {
+    permissionService.assertCan('manageSettings', localStorageService.getUserSettings().teamMembers);
+    await this.flushPendingSaves();
+    await this.createBackup(`Before connecting to sync server ${serverUrl}`);
+    return remoteSyncService.connect(serverUrl);
+  }
+
+  /**
+   * Keep data in this browser only; changes not pushed yet stay local
+   */
+  public disconnectSyncServer(): void {
+    remoteSyncService.disconnect();
+  }
+
+  /**
+   * Continue syncing with the server connected in an earlier session, if any
+   */
+  public resumeSyncServer(): void {
+    remoteSyncService.resume();
+  }
+
+  public getSyncStatus(): RemoteSyncStatus {
+    return remoteSyncService.getStatus();
+  }
+
   /**
    * Get storage usage information
    */
@@ -204,20 +342,15 @@ export class EnhancedPersistenceService {
    * Cleanup old data and optimize storage
    */
   public async cleanupStorage(): Promise<void> {
+    permissionService.assertCan('manageSettings', localStorageService.getUserSettings().teamMembers);
     try {
       console.log('🧹 Cleaning up storage...');
       
       // Clean up old schedules (keep last 12 weeks)
       localStorageService.cleanupOldSchedules(12);
       
-      // Keep only the 5 most recent backups
-      const backups = this.getAvailableBackups();
-      if (backups.length > 5) {
-        const backupsToDelete = backups.slice(5);
-        for (const backup of backupsToDelete) {
-          this.backupService.deleteBackup(backup.id);
-        }
-      }
+      // Keep only the backups the retention policy asks for
+      this.backupService.pruneBackups();
       
       console.log('✅ Storage cleanup completed');
     } catch (error) {
@@ -233,23 +366,34 @@ export class EnhancedPersistenceService {
       window.clearInterval(this.autoBackupInterval);
       this.autoBackupInterval = null;
     }
+    remoteSyncService.pause();
     console.log('🔄 Enhanced Persistence Service destroyed');
   }
 
   private setupAutoBackup(): void {
+    if (this.autoBackupInterval) {
+      window.clearInterval(this.autoBackupInterval);
+      this.autoBackupInterval = null;
+    }
+
+    const { automaticBackups, intervalMinutes } = this.backupService.getPolicy();
+    if (!automaticBackups) return;
+
+    const interval = intervalMinutes * 60 * 1000;
     this.autoBackupInterval = window.setInterval(async () => {
       try {
         const now = new Date();
         const shouldBackup = !this.lastBackupTime || 
-          (now.getTime() - this.lastBackupTime.getTime()) >= this.AUTO_BACKUP_INTERVAL;
+          (now.getTime() - this.lastBackupTime.getTime()) >= interval;
 
-        if (shouldBackup) {
-          await this.createBackup('Auto-backup (scheduled)');
+        // Encrypted backups wait until the passphrase is unlocked
+        if (shouldBackup && !this.backupService.isLocked()) {
+          await this.createBackup('Auto-backup (scheduled)', { automatic: true });
         }
       } catch (error) {
         console.error('❌ Auto-backup failed:', error);
       }
-    }, this.AUTO_BACKUP_INTERVAL);
+    }, interval);
   }
 
   private setupBeforeUnloadHandler(): void {
@@ -259,8 +403,8 @@ export class EnhancedPersistenceService {
         await this.flushPendingSaves();
         
         // Create a final backup if there are unsaved changes
-        if (this.changeCount > 0) {
-          await this.createBackup('Auto-backup before page unload');
+        if (this.changeCount > 0 && this.backupService.getPolicy().automaticBackups && !this.backupService.isLocked()) {
+          await this.createBackup('Auto-backup before page unload', { automatic: true });
         }
       } catch (error) {
         console.error('❌ Failed to save data before page unload:', error);
@@ -272,6 +416,37 @@ export class EnhancedPersistenceService {
     });
   }
 
+  private getStoredSchemaData(): SchemaData {
+    return {
+      channels: localStorageService.getChannels(),
+      templates: localStorageService.getTaskTemplates(),
+      schedules: localStorageService.getSchedules(),
+      userSettings: localStorageService.getUserSettings(),
+      legacyTemplates: this.getLegacyTemplates(),
+    };
+  }
+
+  // Backup restores before 1.1.0 wrote templates to a key the app never read
+  private getLegacyTemplates(): unknown[] {
+    try {
+      const stored = JSON.parse(storageBackend.getItem(STORAGE_KEYS.LEGACY_TEMPLATES) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Imports and restores replace channels, templates and schedules without going through the
+   * reducer, so they check the current member's role themselves
+   */
+  private assertCanReplaceData(): void {
+    const { teamMembers } = localStorageService.getUserSettings();
+    permissionService.assertCan('manageChannels', teamMembers);
+    permissionService.assertCan('manageTemplates', teamMembers);
+    permissionService.assertCan('editSchedule', teamMembers);
+  }
+
   private async createInitialBackupIfNeeded(): Promise<void> {
     try {
       const backups = this.getAvailableBackups();
@@ -296,7 +471,8 @@ export class EnhancedPersistenceService {
       
       if (backups.length > 0) {
         const latestBackup = backups[0];
-        await this.restoreFromBackup(latestBackup.id);
+        // Recovering unreadable data is not a change made by the current member
+        await this.backupService.restoreBackup(latestBackup.id);
         
         // Try loading again after restore
         return await this.loadAppState();
@@ -309,14 +485,6 @@ export class EnhancedPersistenceService {
       return null;
     }
   }
-
-  private getCurrentWeekKey(): string {
-    const now = new Date();
-    const dayOfWeek = now.getDay();
-    const diff = now.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1); // Adjust for Monday start
-    const weekStart = new Date(now.setDate(diff));
-    return weekStart.toISOString().split('T')[0];
-  }
 }
 
 // Export singleton instance
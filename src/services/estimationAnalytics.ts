@@ -0,0 +1,198 @@
+import { Channel, Task, TaskTemplate } from '../types';
+import { getWeekKey } from '../utils/helpers';
+import { TaskSplitter } from './taskSplitting';
+
+export type EstimationBias = 'underestimated' | 'overestimated' | 'accurate' | 'insufficient_data';
+
+export interface EstimationStats {
+  key: string;
+  label: string;
+  sampleCount: number;
+  totalEstimated: number;
+  totalActual: number;
+  ratio: number; // Median of actual / estimated hours; above 1 means work takes longer than estimated
+  accuracy: number; // 0-100, same measure as TaskStatusManager.calculateTimeAccuracy
+  bias: EstimationBias;
+}
+
+export interface EstimationTrendPoint {
+  weekKey: string;
+  sampleCount: number;
+  totalEstimated: number;
+  totalActual: number;
+  ratio: number;
+}
+
+export interface EstimateCalibration {
+  templateId: string;
+  templateTitle: string;
+  currentEstimate: number;
+  calibratedEstimate: number;
+  sampleCount: number;
+  ratio: number;
+  bias: EstimationBias;
+}
+
+// Fewer completed tasks than this are not enough to call an estimate off
+const MIN_SAMPLES = 3;
+// Actual hours within this share of the estimate count as accurate
+const BIAS_TOLERANCE = 0.15;
+// Only the most recent tasks of a template feed its calibrated estimate
+const CALIBRATION_WINDOW = 10;
+// Calibrated estimates are rounded to the step of the template editor
+const ESTIMATE_STEP = 0.5;
+
+/**
+ * Service comparing estimated and actual hours of completed tasks by template, category,
+ * channel and week, and proposing calibrated template estimates
+ */
+export class EstimationAnalytics {
+  /**
+   * Get completed tasks with both estimated and actual hours, oldest first.
+   * Split tasks are measured through their parts.
+   */
+  static getSamples(tasks: Task[]): Task[] {
+    return TaskSplitter.getWorkItems(tasks)
+      .filter(task =>
+        task.status === 'completed' &&
+        task.estimatedHours > 0 &&
+        task.actualHours !== undefined &&
+        task.actualHours > 0
+      )
+      .sort((a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime());
+  }
+
+  /**
+   * Summarize estimation accuracy for a group of tasks
+   */
+  static summarize(key: string, label: string, tasks: Task[]): EstimationStats {
+    const samples = this.getSamples(tasks);
+    const totalEstimated = samples.reduce((sum, task) => sum + task.estimatedHours, 0);
+    const totalActual = samples.reduce((sum, task) => sum + (task.actualHours || 0), 0);
+    const ratio = this.getMedianRatio(samples);
+
+    return {
+      key,
+      label,
+      sampleCount: samples.length,
+      totalEstimated,
+      totalActual,
+      ratio,
+      accuracy: totalEstimated > 0
+        ? Math.round((Math.min(totalEstimated, totalActual) / Math.max(totalEstimated, totalActual)) * 100)
+        : 100,
+      bias: this.getBias(samples, ratio),
+    };
+  }
+
+  static getStatsByTemplate(tasks: Task[], templates: TaskTemplate[]): EstimationStats[] {
+    return templates.map(template =>
+      this.summarize(template.id, template.title, tasks.filter(task => task.templateId === template.id))
+    );
+  }
+
+  static getStatsByCategory(tasks: Task[], templates: TaskTemplate[]): EstimationStats[] {
+    const categories = Array.from(new Set(templates.map(template => template.category)));
+
+    return categories.map(category => {
+      const templateIds = new Set(
+        templates.filter(template => template.category === category).map(template => template.id)
+      );
+      return this.summarize(category, category, tasks.filter(task => task.templateId && templateIds.has(task.templateId)));
+    });
+  }
+
+  static getStatsByChannel(tasks: Task[], channels: Channel[]): EstimationStats[] {
+    return channels.map(channel =>
+      this.summarize(channel.id, channel.name, tasks.filter(task => task.channelId === channel.id))
+    );
+  }
+
+  /**
+   * Get estimated and actual hours per week, to see whether estimates improve over time
+   */
+  static getTrend(tasks: Task[]): EstimationTrendPoint[] {
+    const samplesByWeek = new Map<string, Task[]>();
+
+    this.getSamples(tasks).forEach(task => {
+      const weekKey = getWeekKey(new Date(task.scheduledStart));
+      samplesByWeek.set(weekKey, [...(samplesByWeek.get(weekKey) ?? []), task]);
+    });
+
+    return Array.from(samplesByWeek.entries()).map(([weekKey, samples]) => ({
+      weekKey,
+      sampleCount: samples.length,
+      totalEstimated: samples.reduce((sum, task) => sum + task.estimatedHours, 0),
+      totalActual: samples.reduce((sum, task) => sum + (task.actualHours || 0), 0),
+      ratio: this.getMedianRatio(samples),
+    }));
+  }
+
+  /**
+   * Propose an estimate for a template from how long its recent tasks actually took.
+   * Returns null until enough tasks have been completed.
+   */
+  static getCalibration(template: TaskTemplate, tasks: Task[]): EstimateCalibration | null {
+    const recentSamples = this.getSamples(tasks.filter(task => task.templateId === template.id))
+      .slice(-CALIBRATION_WINDOW);
+    if (recentSamples.length < MIN_SAMPLES) return null;
+
+    const ratio = this.getMedianRatio(recentSamples);
+    const calibratedEstimate = Math.min(
+      168,
+      Math.max(ESTIMATE_STEP, Math.round((template.estimatedHours * ratio) / ESTIMATE_STEP) * ESTIMATE_STEP)
+    );
+
+    return {
+      templateId: template.id,
+      templateTitle: template.title,
+      currentEstimate: template.estimatedHours,
+      calibratedEstimate,
+      sampleCount: recentSamples.length,
+      ratio,
+      bias: this.getBias(recentSamples, ratio),
+    };
+  }
+
+  /**
+   * Get calibrations for templates whose estimates are systematically off
+   */
+  static getCalibrations(tasks: Task[], templates: TaskTemplate[]): EstimateCalibration[] {
+    return templates
+      .map(template => this.getCalibration(template, tasks))
+      .filter((calibration): calibration is EstimateCalibration =>
+        calibration !== null &&
+        (calibration.bias === 'underestimated' || calibration.bias === 'overestimated') &&
+        calibration.calibratedEstimate !== calibration.currentEstimate
+      );
+  }
+
+  /**
+   * An estimate is systematically off when the median ratio is outside the tolerance
+   * and most tasks missed in the same direction
+   */
+  private static getBias(samples: Task[], ratio: number): EstimationBias {
+    if (samples.length < MIN_SAMPLES) return 'insufficient_data';
+
+    const ratios = samples.map(task => (task.actualHours || 0) / task.estimatedHours);
+    if (ratio > 1 + BIAS_TOLERANCE && ratios.filter(r => r > 1).length > samples.length / 2) {
+      return 'underestimated';
+    }
+    if (ratio < 1 - BIAS_TOLERANCE && ratios.filter(r => r < 1).length > samples.length / 2) {
+      return 'overestimated';
+    }
+    return 'accurate';
+  }
+
+  private static getMedianRatio(samples: Task[]): number {
+    if (samples.length === 0) return 1;
+
+    const ratios = samples
+      .map(task => (task.actualHours || 0) / task.estimatedHours)
+      .sort((a, b) => a - b);
+    const middle = Math.floor(ratios.length / 2);
+    const median = ratios.length % 2 === 1 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2;
+
+    return Math.round(median * 100) / 100;
+  }
+}
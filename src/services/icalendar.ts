@@ -0,0 +1,350 @@
+import { Channel, Task, TaskStatus, WeeklySchedule } from '../types';
+import { generateId, getTimeSlotForDate } from '../utils/helpers';
+import { TaskSplitter } from './taskSplitting';
+
+/**
+ * Which tasks to export
+ */
+export type CalendarExportScope =
+  | { type: 'week'; weekKey: string }
+  | { type: 'channel'; channelId: string }
+  | { type: 'all' };
+
+/**
+ * Result of reading an .ics file
+ */
+export interface CalendarImportResult {
+  tasks: Task[];
+  warnings: string[];
+  skipped: number;
+}
+
+interface CalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Exported UIDs end in this domain so re-imported events map back onto the same tasks
+const UID_DOMAIN = 'multi-channel-content-manager';
+const PRODUCT_ID = '-//Multi-Channel Content Manager//Content Schedule//EN';
+const MAX_LINE_OCTETS = 75;
+const DEFAULT_ALL_DAY_START_HOUR = 9;
+const TASK_STATUSES: TaskStatus[] = ['planned', 'in-progress', 'completed', 'overdue'];
+
+/**
+ * RFC 5545 iCalendar export and import of scheduled tasks
+ */
+export class ICalendarService {
+  private static instance: ICalendarService;
+
+  private constructor() {}
+
+  public static getInstance(): ICalendarService {
+    if (!ICalendarService.instance) {
+      ICalendarService.instance = new ICalendarService();
+    }
+    return ICalendarService.instance;
+  }
+
+  /**
+   * Get the tasks in an export scope. Split tasks are exported as their parts.
+   */
+  public getTasksForScope(schedules: Record<string, WeeklySchedule>, scope: CalendarExportScope): Task[] {
+    const tasks = scope.type === 'week'
+      ? schedules[scope.weekKey]?.tasks ?? []
+      : Object.values(schedules).flatMap(schedule => schedule.tasks);
+
+    return TaskSplitter.getWorkItems(tasks)
+      .filter(task => scope.type !== 'channel' || task.channelId === scope.channelId)
+      .sort((a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime());
+  }
+
+  /**
+   * Export tasks as an iCalendar document with one event per task
+   */
+  public exportTasks(tasks: Task[], channels: Channel[], calendarName: string, now: Date = new Date()): string {
+    const channelsById = new Map(channels.map(channel => [channel.id, channel]));
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(calendarName)}`,
+      ...tasks.flatMap(task => this.createEventLines(task, channelsById.get(task.channelId), now)),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Export tasks and trigger a download of the .ics file
+   */
+  public downloadCalendar(ics: string, filename: string): void {
+    const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Read the events of an iCalendar document as tasks for a channel.
+   * Events exported by this app keep their task IDs; other events get IDs derived from their UID,
+   * so importing the same file again updates the tasks instead of duplicating them.
+   */
+  public importTasks(ics: string, channelId: string): CalendarImportResult {
+    const result: CalendarImportResult = { tasks: [], warnings: [], skipped: 0 };
+    const events = this.parseEvents(ics);
+
+    if (events.length === 0) {
+      result.warnings.push('No events found in the calendar file');
+      return result;
+    }
+
+    events.forEach(properties => {
+      const get = (name: string) => properties.find(property => property.name === name);
+      const title = get('SUMMARY') ? this.unescapeText(get('SUMMARY')!.value) : 'Untitled event';
+
+      if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+        result.skipped++;
+        return;
+      }
+
+      const dtStart = get('DTSTART');
+      const start = dtStart ? this.parseDateTime(dtStart) : null;
+      if (!start) {
+        result.warnings.push(`Skipped "${title}": missing or invalid start time`);
+        result.skipped++;
+        return;
+      }
+
+      const isAllDay = dtStart!.params.VALUE === 'DATE' || /^\d{8}$/.test(dtStart!.value);
+      if (isAllDay) start.setHours(DEFAULT_ALL_DAY_START_HOUR);
+
+      if (get('RRULE')) {
+        result.warnings.push(`"${title}" repeats; only its first occurrence was imported`);
+      }
+      if (dtStart!.params.TZID) {
+        result.warnings.push(`"${title}" uses time zone ${dtStart!.params.TZID}; its times were read as local time`);
+      }
+
+      const estimatedHours = this.getEstimatedHours(properties, start, isAllDay);
+      const scheduledEnd = new Date(start.getTime() + estimatedHours * 60 * 60 * 1000);
+      const uid = get('UID')?.value ?? generateId();
+      const status = get('X-MCM-STATUS')?.value as TaskStatus | undefined;
+
+      result.tasks.push({
+        id: uid.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -(UID_DOMAIN.length + 1)) : `ics-${uid}`,
+        channelId,
+        title,
+        description: get('DESCRIPTION') ? this.unescapeText(get('DESCRIPTION')!.value) : undefined,
+        estimatedHours,
+        status: status && TASK_STATUSES.includes(status) ? status : 'planned',
+        scheduledStart: start,
+        scheduledEnd,
+        timeSlot: getTimeSlotForDate(start),
+        priority: this.parsePriority(get('PRIORITY')?.value),
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Build the file name for an export scope
+   */
+  public getExportFilename(scope: CalendarExportScope, channels: Channel[]): string {
+    switch (scope.type) {
+      case 'week':
+        return `content-schedule-week-${scope.weekKey}.ics`;
+      case 'channel': {
+        const name = channels.find(channel => channel.id === scope.channelId)?.name ?? scope.channelId;
+        return `content-schedule-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.ics`;
+      }
+      default:
+        return 'content-schedule.ics';
+    }
+  }
+
+  private createEventLines(task: Task, channel: Channel | undefined, now: Date): string[] {
+    return [
+      'BEGIN:VEVENT',
+      `UID:${task.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${this.formatDateTime(now)}`,
+      `DTSTART:${this.formatDateTime(new Date(task.scheduledStart))}`,
+      `DTEND:${this.formatDateTime(new Date(task.scheduledEnd))}`,
+      `SUMMARY:${this.escapeText(task.title)}`,
+      ...(task.description ? [`DESCRIPTION:${this.escapeText(task.description)}`] : []),
+      ...(channel ? [`CATEGORIES:${this.escapeText(channel.name)}`] : []),
+      'STATUS:CONFIRMED',
+      `PRIORITY:${task.priority === 'high' ? 1 : task.priority === 'low' ? 9 : 5}`,
+      `X-MCM-STATUS:${task.status}`,
+      `X-MCM-CHANNEL-ID:${this.escapeText(task.channelId)}`,
+      `X-MCM-ESTIMATED-HOURS:${task.estimatedHours}`,
+      'END:VEVENT',
+    ];
+  }
+
+  /**
+   * Split a document into the properties of each VEVENT, ignoring nested components such as alarms
+   */
+  private parseEvents(ics: string): CalendarProperty[][] {
+    const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: CalendarProperty[][] = [];
+    let current: CalendarProperty[] | null = null;
+    let nestedDepth = 0;
+
+    lines.forEach(line => {
+      const property = this.parseProperty(line);
+      if (!property) return;
+
+      if (property.name === 'BEGIN') {
+        if (property.value.toUpperCase() === 'VEVENT') {
+          current = [];
+        } else if (current) {
+          nestedDepth++;
+        }
+      } else if (property.name === 'END') {
+        if (property.value.toUpperCase() === 'VEVENT' && current) {
+          events.push(current);
+          current = null;
+          nestedDepth = 0;
+        } else if (current) {
+          nestedDepth--;
+        }
+      } else if (current && nestedDepth === 0) {
+        (current as CalendarProperty[]).push(property);
+      }
+    });
+
+    return events;
+  }
+
+  private parseProperty(line: string): CalendarProperty | null {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let separator = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        separator = i;
+        break;
+      }
+    }
+    if (separator <= 0) return null;
+
+    const [name, ...paramParts] = line.slice(0, separator).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+      const [key, ...valueParts] = part.split('=');
+      params[key.toUpperCase()] = valueParts.join('=').replace(/^"|"$/g, '');
+    });
+
+    return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+  }
+
+  /**
+   * Parse DATE and DATE-TIME values. UTC times end in Z; other times are read as local time.
+   */
+  private parseDateTime(property: CalendarProperty): Date | null {
+    const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return null;
+
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+    const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+    const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private getEstimatedHours(properties: CalendarProperty[], start: Date, isAllDay: boolean): number {
+    const get = (name: string) => properties.find(property => property.name === name);
+
+    const exportedHours = Number(get('X-MCM-ESTIMATED-HOURS')?.value);
+    if (exportedHours > 0 && exportedHours <= 168) return exportedHours;
+    if (isAllDay) return 1;
+
+    const end = get('DTEND') ? this.parseDateTime(get('DTEND')!) : null;
+    const durationMs = end
+      ? end.getTime() - start.getTime()
+      : this.parseDuration(get('DURATION')?.value);
+
+    // Round to the quarter hour, between a quarter hour and a week
+    const hours = Math.round((durationMs / (60 * 60 * 1000)) * 4) / 4;
+    return Math.min(168, Math.max(0.25, hours));
+  }
+
+  private parseDuration(value: string | undefined): number {
+    const match = value?.match(/^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return 60 * 60 * 1000;
+
+    const [, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+    return ((((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+  }
+
+  /**
+   * Map RFC 5545 priorities (1 highest, 9 lowest, 0 undefined) onto task priorities
+   */
+  private parsePriority(value: string | undefined): Task['priority'] {
+    const priority = Number(value);
+    if (priority >= 1 && priority <= 4) return 'high';
+    if (priority >= 6 && priority <= 9) return 'low';
+    return 'medium';
+  }
+
+  private formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  private unescapeText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+  }
+
+  /**
+   * Fold lines longer than 75 octets, continuing each with a single space
+   */
+  private foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+    const folded: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+      const charOctets = encoder.encode(char).length;
+      // Continuation lines start with a space, which counts toward their length
+      const limit = folded.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (currentOctets + charOctets > limit) {
+        folded.push(current);
+        current = '';
+        currentOctets = 0;
+      }
+      current += char;
+      currentOctets += charOctets;
+    }
+    folded.push(current);
+
+    return folded.join('\r\n ');
+  }
+}
+
+// Export singleton instance
+export const iCalendarService = ICalendarService.getInstance();
@@ -0,0 +1,276 @@
+import { Channel, Task, TaskTemplate, WeeklySchedule } from '../types';
+
+/**
+ * Kinds of records merged field by field
+ */
+export type MergeRecordType = 'channel' | 'template' | 'task';
+
+/**
+ * Which side wins a conflicting field
+ */
+export type FieldResolution = 'mine' | 'theirs';
+
+/**
+ * A field changed differently locally and in the import
+ */
+export interface FieldConflict {
+  field: string;
+  base?: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+/**
+ * Field-level merge of one record that exists both locally and in the import
+ */
+export interface RecordMerge<T extends { id: string }, K extends MergeRecordType = MergeRecordType> {
+  key: string;
+  type: K;
+  id: string;
+  label: string;
+  mine: T;
+  theirs: T;
+  hasBase: boolean;
+  takenFromTheirs: string[];
+  conflicts: FieldConflict[];
+}
+
+/**
+ * A record merge in a plan, typed by the kind of record it merges
+ */
+export type PlannedMerge =
+  | RecordMerge<Channel, 'channel'>
+  | RecordMerge<TaskTemplate, 'template'>
+  | RecordMerge<Task, 'task'>;
+
+/**
+ * Data as it is merged: the records of an export, a backup or local storage
+ */
+export interface MergeSource {
+  channels: Channel[];
+  templates: TaskTemplate[];
+  schedules: Record<string, WeeklySchedule>;
+}
+
+/**
+ * Everything an import would change, before any of it is written
+ */
+export interface MergePlan {
+  sourceDate?: Date;
+  baseBackupId?: string;
+  added: { channels: Channel[]; templates: TaskTemplate[]; tasks: Task[] };
+  merges: PlannedMerge[];
+  unchanged: number;
+}
+
+/**
+ * Chosen side per conflicting field, keyed by record key and then field name
+ */
+export type MergeResolutions = Record<string, Record<string, FieldResolution>>;
+
+/**
+ * Counts of what committing a plan with the given resolutions will do
+ */
+export interface MergeSummary {
+  added: { channels: number; templates: number; tasks: number };
+  updated: { channels: number; templates: number; tasks: number };
+  fieldsFromImport: number;
+  conflictsKeptMine: number;
+  conflictsTookTheirs: number;
+}
+
+// Serialize with sorted keys so equal values compare equal regardless of key order
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_, val) => {
+  if (val && typeof val === 'object' && !Array.isArray(val)) {
+    return Object.fromEntries(Object.keys(val).sort().map(key => [key, val[key]]));
+  }
+  return val;
+}) ?? 'undefined';
+
+const isEqual = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+// Records are compared and merged field by field, whatever their type
+const getFields = (record: { id: string }): Record<string, unknown> => record;
+
+const RECORD_TYPE_TO_PLAN_KEY = { channel: 'channels', template: 'templates', task: 'tasks' } as const;
+
+/**
+ * Three-way, field-level merge of imported records with local records, using a backup as the common base
+ */
+export class ImportMerger {
+  /**
+   * Merge one record's fields. A field changed on one side only takes that side's value;
+   * a field changed on both sides, or differing with no base to compare against, is a conflict.
+   */
+  static mergeFields<T extends { id: string }>(
+    baseRecord: T | undefined,
+    myRecord: T,
+    theirRecord: T
+  ): { takenFromTheirs: string[]; conflicts: FieldConflict[] } {
+    const takenFromTheirs: string[] = [];
+    const conflicts: FieldConflict[] = [];
+    const base = baseRecord && getFields(baseRecord);
+    const mine = getFields(myRecord);
+    const theirs = getFields(theirRecord);
+    const fields = [...new Set([...Object.keys(mine), ...Object.keys(theirs)])].filter(field => field !== 'id');
+
+    fields.forEach(field => {
+      if (isEqual(mine[field], theirs[field])) return;
+
+      if (base && isEqual(mine[field], base[field])) {
+        takenFromTheirs.push(field);
+      } else if (!base || !isEqual(theirs[field], base[field])) {
+        conflicts.push({ field, base: base?.[field], mine: mine[field], theirs: theirs[field] });
+      }
+      // Otherwise only the local side changed, so it is kept
+    });
+
+    return { takenFromTheirs, conflicts };
+  }
+
+  /**
+   * Plan an import: new records are added, shared records are merged field by field
+   */
+  static createPlan(incoming: MergeSource, local: MergeSource, base?: MergeSource): MergePlan {
+    const channels = this.mergeRecords('channel', incoming.channels, local.channels, base?.channels, channel => channel.name);
+    const templates = this.mergeRecords('template', incoming.templates, local.templates, base?.templates, template => template.title);
+    const tasks = this.mergeRecords(
+      'task',
+      this.getTasks(incoming.schedules),
+      this.getTasks(local.schedules),
+      base && this.getTasks(base.schedules),
+      task => task.title
+    );
+
+    return {
+      added: { channels: channels.added, templates: templates.added, tasks: tasks.added },
+      merges: [...channels.merges, ...templates.merges, ...tasks.merges],
+      unchanged: channels.unchanged + templates.unchanged + tasks.unchanged,
+    };
+  }
+
+  /**
+   * Build the merged record. Conflicts without a chosen side keep the local value.
+   */
+  static resolveRecord<T extends { id: string }>(merge: RecordMerge<T>, resolutions: MergeResolutions = {}): T {
+    const merged = { ...getFields(merge.mine) };
+    const theirs = getFields(merge.theirs);
+
+    merge.takenFromTheirs.forEach(field => {
+      merged[field] = theirs[field];
+    });
+    merge.conflicts.forEach(conflict => {
+      if (resolutions[merge.key]?.[conflict.field] === 'theirs') {
+        merged[conflict.field] = conflict.theirs;
+      }
+    });
+
+    // Fields missing on the winning side are removed rather than stored as undefined
+    Object.keys(merged).forEach(field => {
+      if (merged[field] === undefined) delete merged[field];
+    });
+
+    return merged as T;
+  }
+
+  /**
+   * Records to write when committing a plan: additions plus merged versions of shared records
+   */
+  static resolvePlan(plan: MergePlan, resolutions: MergeResolutions = {}): { channels: Channel[]; templates: TaskTemplate[]; tasks: Task[] } {
+    const records = {
+      channels: [...plan.added.channels],
+      templates: [...plan.added.templates],
+      tasks: [...plan.added.tasks],
+    };
+
+    plan.merges.forEach(merge => {
+      switch (merge.type) {
+        case 'channel':
+          records.channels.push(this.resolveRecord(merge, resolutions));
+          break;
+        case 'template':
+          records.templates.push(this.resolveRecord(merge, resolutions));
+          break;
+        case 'task':
+          records.tasks.push(this.resolveRecord(merge, resolutions));
+          break;
+      }
+    });
+
+    return records;
+  }
+
+  static summarize(plan: MergePlan, resolutions: MergeResolutions = {}): MergeSummary {
+    const summary: MergeSummary = {
+      added: {
+        channels: plan.added.channels.length,
+        templates: plan.added.templates.length,
+        tasks: plan.added.tasks.length,
+      },
+      updated: { channels: 0, templates: 0, tasks: 0 },
+      fieldsFromImport: 0,
+      conflictsKeptMine: 0,
+      conflictsTookTheirs: 0,
+    };
+
+    plan.merges.forEach(merge => {
+      const tookTheirs = merge.conflicts.filter(c => resolutions[merge.key]?.[c.field] === 'theirs').length;
+      summary.fieldsFromImport += merge.takenFromTheirs.length + tookTheirs;
+      summary.conflictsTookTheirs += tookTheirs;
+      summary.conflictsKeptMine += merge.conflicts.length - tookTheirs;
+      if (merge.takenFromTheirs.length + tookTheirs > 0) {
+        summary.updated[RECORD_TYPE_TO_PLAN_KEY[merge.type]]++;
+      }
+    });
+
+    return summary;
+  }
+
+  /**
+   * Sort one kind of record into additions and field-level merges. Without base records every difference is a conflict.
+   */
+  private static mergeRecords<T extends { id: string }, K extends MergeRecordType>(
+    type: K,
+    theirRecords: T[],
+    myRecords: T[],
+    baseRecords: T[] | undefined,
+    getLabel: (record: T) => string
+  ): { added: T[]; merges: RecordMerge<T, K>[]; unchanged: number } {
+    const result: { added: T[]; merges: RecordMerge<T, K>[]; unchanged: number } = { added: [], merges: [], unchanged: 0 };
+    const mineById = new Map(myRecords.map(record => [record.id, record]));
+    const baseById = new Map((baseRecords ?? []).map(record => [record.id, record]));
+
+    theirRecords.forEach(theirs => {
+      const mine = mineById.get(theirs.id);
+      if (!mine) {
+        result.added.push(theirs);
+        return;
+      }
+
+      const baseRecord = baseById.get(theirs.id);
+      const { takenFromTheirs, conflicts } = this.mergeFields(baseRecord, mine, theirs);
+      if (takenFromTheirs.length === 0 && conflicts.length === 0) {
+        result.unchanged++;
+        return;
+      }
+
+      result.merges.push({
+        key: `${type}:${theirs.id}`,
+        type,
+        id: theirs.id,
+        label: getLabel(mine) ?? theirs.id,
+        mine,
+        theirs,
+        hasBase: !!baseRecord,
+        takenFromTheirs,
+        conflicts,
+      });
+    });
+
+    return result;
+  }
+
+  private static getTasks(schedules: Record<string, WeeklySchedule>): Task[] {
+    return Object.values(schedules).flatMap(schedule => schedule.tasks ?? []);
+  }
+}
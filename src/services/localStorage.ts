@@ -1,5 +1,7 @@
 import { Channel, TaskTemplate, WeeklySchedule, AppState } from '../types';
 import { STORAGE_KEYS, APP_VERSION, DEFAULT_USER_SETTINGS } from '../utils/constants';
+import { storageBackend } from './storageBackend';
+import { DATA_DOMAIN_NAMES, StorageSchema } from './storageSchema';
 
 /**
  * Error types for localStorage operations
@@ -50,8 +52,8 @@ export class LocalStorageService {
         throw new LocalStorageError('localStorage is not available', 'UNAVAILABLE');
       }
 
-      // Initialize app version
-      if (!localStorage.getItem(STORAGE_KEYS.APP_VERSION)) {
+      // Initialize app version. Data saved before versions were recorded stays unversioned so it gets migrated.
+      if (!localStorage.getItem(STORAGE_KEYS.APP_VERSION) && !localStorage.getItem(STORAGE_KEYS.CHANNELS)) {
         localStorage.setItem(STORAGE_KEYS.APP_VERSION, APP_VERSION);
       }
 
@@ -64,7 +66,7 @@ export class LocalStorageService {
         this.setItem(STORAGE_KEYS.TASK_TEMPLATES, []);
       }
 
-      if (!localStorage.getItem(STORAGE_KEYS.SCHEDULES)) {
+      if (!storageBackend.getItem(STORAGE_KEYS.SCHEDULES)) {
         this.setItem(STORAGE_KEYS.SCHEDULES, {});
       }
 
@@ -103,7 +105,7 @@ export class LocalStorageService {
         }
         return val;
       });
-      localStorage.setItem(key, serialized);
+      storageBackend.setItem(key, serialized);
       console.log(`✅ Saved to localStorage: ${key}`, value);
     } catch (error) {
       console.error(`❌ Failed to save to localStorage: ${key}`, error);
@@ -119,7 +121,7 @@ export class LocalStorageService {
    */
   private getItem<T>(key: string, defaultValue: T): T {
     try {
-      const item = localStorage.getItem(key);
+      const item = storageBackend.getItem(key);
       if (item === null) {
         console.log(`📂 No data found for ${key}, using default:`, defaultValue);
         return defaultValue;
@@ -268,8 +270,8 @@ export class LocalStorageService {
   }
 
   public clearAllData(): void {
-    Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
+    [...DATA_DOMAIN_NAMES.map(domain => StorageSchema.getKey(domain)), STORAGE_KEYS.APP_VERSION].forEach(key => {
+      storageBackend.removeItem(key);
     });
     this.initializeStorage();
   }
@@ -286,6 +288,21 @@ export class LocalStorageService {
     return JSON.stringify(data, null, 2);
   }
 
+  /**
+   * Replace all stored data at once, e.g. after migrating it to a new schema version
+   */
+  public replaceAllData(data: {
+    channels: Channel[];
+    taskTemplates: TaskTemplate[];
+    schedules: Record<string, WeeklySchedule>;
+    userSettings: AppState['userSettings'];
+  }): void {
+    this.setItem(STORAGE_KEYS.CHANNELS, data.channels);
+    this.setItem(STORAGE_KEYS.TASK_TEMPLATES, data.taskTemplates);
+    this.setItem(STORAGE_KEYS.SCHEDULES, data.schedules);
+    this.setItem(STORAGE_KEYS.USER_SETTINGS, data.userSettings);
+  }
+
   public getAppVersion(): string {
     return localStorage.getItem(STORAGE_KEYS.APP_VERSION) || '0.0.0';
   }
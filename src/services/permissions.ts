@@ -0,0 +1,193 @@
+import { AppAction, TeamMember, WorkspaceRole } from '../types';
+import { STORAGE_KEYS } from '../utils/constants';
+
+export type Permission =
+  | 'editSchedule'
+  | 'manageChannels'
+  | 'manageTemplates'
+  | 'manageSettings'
+  | 'manageTeam';
+
+export const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  owner: ['editSchedule', 'manageChannels', 'manageTemplates', 'manageSettings', 'manageTeam'],
+  manager: ['editSchedule', 'manageChannels', 'manageTemplates', 'manageSettings'],
+  editor: ['editSchedule'],
+  viewer: [],
+};
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  editSchedule: 'change the schedule',
+  manageChannels: 'add, change or delete channels',
+  manageTemplates: 'add, change or delete task templates',
+  manageSettings: 'change workspace settings',
+  manageTeam: 'change team members or their roles',
+};
+
+export class PermissionError extends Error {
+  constructor(
+    public permission: Permission,
+    public role: WorkspaceRole,
+    public actionType?: AppAction['type']
+  ) {
+    super(`As ${ROLE_LABELS[role].toLowerCase()} you cannot ${PERMISSION_DESCRIPTIONS[permission]}`);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Permissions a reducer action needs. Actions that only load or restore saved data, or change the
+ * view, need none.
+ */
+export const getRequiredPermissions = (action: AppAction): Permission[] => {
+  switch (action.type) {
+    case 'ADD_CHANNEL':
+    case 'UPDATE_CHANNEL':
+    case 'DELETE_CHANNEL':
+      return ['manageChannels'];
+
+    case 'ADD_TASK_TEMPLATE':
+    case 'UPDATE_TASK_TEMPLATE':
+    case 'DELETE_TASK_TEMPLATE':
+      return ['manageTemplates'];
+
+    case 'ADD_TASK':
+    case 'UPDATE_TASK':
+    case 'UPDATE_TASKS':
+    case 'DELETE_TASK':
+    case 'SPLIT_TASK':
+    case 'GENERATE_TASKS_FROM_TEMPLATES':
+    case 'SET_CURRENT_WEEK':
+      return ['editSchedule'];
+
+    case 'UPDATE_USER_SETTINGS': {
+      const { teamMembers, ...settings } = action.payload;
+      return [
+        ...(Object.keys(settings).length > 0 ? ['manageSettings' as const] : []),
+        ...(teamMembers !== undefined ? ['manageTeam' as const] : []),
+      ];
+    }
+
+    case 'APPLY_HISTORY_PATCH': {
+      const { channels, taskTemplates, tasks, userSettings } = action.payload;
+      return [
+        ...(Object.keys(tasks).length > 0 ? ['editSchedule' as const] : []),
+        ...(Object.keys(channels).length > 0 ? ['manageChannels' as const] : []),
+        ...(Object.keys(taskTemplates).length > 0 ? ['manageTemplates' as const] : []),
+        ...(userSettings ? getRequiredPermissions({ type: 'UPDATE_USER_SETTINGS', payload: userSettings }) : []),
+      ];
+    }
+
+    case 'RESTORE_BACKUP_ENTITIES':
+      return getRequiredPermissions({ type: 'APPLY_HISTORY_PATCH', payload: action.payload.patch });
+
+    case 'BATCH_ACTIONS':
+      return [...new Set(action.payload.flatMap(getRequiredPermissions))];
+
+    default:
+      return [];
+  }
+};
+
+/**
+ * A team member's role. A browser without a team member on the team is the owner until the
+ * team has one, so a single creator keeps full access and can set the team up.
+ */
+export const getMemberRole = (memberId: string | null, teamMembers: TeamMember[] = []): WorkspaceRole => {
+  const member = teamMembers.find(m => m.id === memberId);
+  if (member) return member.accessRole ?? 'editor';
+  return teamMembers.some(m => m.accessRole === 'owner') ? 'viewer' : 'owner';
+};
+
+type MemberListener = (memberId: string | null) => void;
+
+/**
+ * Role-based permissions for a shared workspace. Each browser says which team member is using it;
+ * that member's role decides which changes the app accepts. This guards against accidental edits
+ * and is not access control: anyone can pick any member, and the sync server does not check roles.
+ */
+export class PermissionService {
+  private static instance: PermissionService;
+  private currentMemberId: string | null = null;
+  private listeners = new Set<MemberListener>();
+
+  private constructor() {
+    this.currentMemberId = localStorage.getItem(STORAGE_KEYS.CURRENT_MEMBER);
+  }
+
+  public static getInstance(): PermissionService {
+    if (!PermissionService.instance) {
+      PermissionService.instance = new PermissionService();
+    }
+    return PermissionService.instance;
+  }
+
+  public getCurrentMemberId(): string | null {
+    return this.currentMemberId;
+  }
+
+  /**
+   * Set the team member using this browser, or null for nobody in particular
+   */
+  public setCurrentMemberId(memberId: string | null): void {
+    this.currentMemberId = memberId;
+    if (memberId) {
+      localStorage.setItem(STORAGE_KEYS.CURRENT_MEMBER, memberId);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.CURRENT_MEMBER);
+    }
+    this.listeners.forEach(listener => listener(memberId));
+  }
+
+  /**
+   * Listen for changes of the current member. Returns a function that stops listening.
+   */
+  public subscribe(listener: MemberListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The current member's role
+   */
+  public getRole(teamMembers: TeamMember[] = []): WorkspaceRole {
+    return getMemberRole(this.currentMemberId, teamMembers);
+  }
+
+  public can(permission: Permission, teamMembers: TeamMember[] = []): boolean {
+    return ROLE_PERMISSIONS[this.getRole(teamMembers)].includes(permission);
+  }
+
+  /**
+   * Throw a PermissionError when the current member lacks a permission, for changes that write
+   * storage without going through the reducer, such as imports
+   */
+  public assertCan(permission: Permission, teamMembers: TeamMember[] = []): void {
+    const role = this.getRole(teamMembers);
+    if (!ROLE_PERMISSIONS[role].includes(permission)) {
+      throw new PermissionError(permission, role);
+    }
+  }
+
+  /**
+   * Throw a PermissionError when the current member may not dispatch an action
+   */
+  public assertAllowed(action: AppAction, teamMembers: TeamMember[] = []): void {
+    const role = this.getRole(teamMembers);
+    const missing = getRequiredPermissions(action).find(permission => !ROLE_PERMISSIONS[role].includes(permission));
+    if (missing) {
+      throw new PermissionError(missing, role, action.type);
+    }
+  }
+}
+
+// Export singleton instance
+export const permissionService = PermissionService.getInstance();
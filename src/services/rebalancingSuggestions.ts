@@ -1,9 +1,11 @@
-import { Task, WeeklySchedule, Channel } from '../types';
-import { WorkloadCalculationEngine, WorkloadMetrics, DailyWorkload } from './workloadCalculation';
+import { Task, WeeklySchedule, Channel, TaskSplitRequest, TeamMember } from '../types';
+import { WorkloadCalculationEngine, WorkloadMetrics, DailyWorkload, MemberWorkload } from './workloadCalculation';
+import { TaskSplitter } from './taskSplitting';
+import { getTimeSlotForDate } from '../utils/helpers';
 
 export interface RebalancingSuggestion {
   id: string;
-  type: 'redistribute_daily' | 'redistribute_channel' | 'reduce_scope' | 'extend_timeline';
+  type: 'redistribute_daily' | 'redistribute_channel' | 'reassign_member' | 'reduce_scope' | 'extend_timeline';
   priority: 'high' | 'medium' | 'low';
   title: string;
   description: string;
@@ -17,7 +19,7 @@ export interface RebalancingSuggestion {
 }
 
 export interface RebalancingAction {
-  type: 'move_task' | 'split_task' | 'reduce_hours' | 'reschedule';
+  type: 'move_task' | 'split_task' | 'reduce_hours' | 'reschedule' | 'reassign_task';
   taskId: string;
   taskTitle: string;
   currentSchedule: {
@@ -30,9 +32,43 @@ export interface RebalancingAction {
     end: Date;
     hours: number;
   };
+  currentAssigneeId?: string;
+  proposedAssigneeId?: string; // Set on reassign_task actions
   reason: string;
 }
 
+export interface TaskUpdate {
+  id: string;
+  updates: Partial<Task>;
+}
+
+export interface DailyWorkloadChange {
+  date: Date;
+  dayName: string;
+  beforeHours: number;
+  afterHours: number;
+  change: number;
+}
+
+export interface MemberWorkloadChange {
+  memberId: string;
+  memberName: string;
+  beforeHours: number;
+  afterHours: number;
+  change: number;
+}
+
+export interface SuggestionPreview {
+  before: WorkloadMetrics;
+  after: WorkloadMetrics;
+  dailyChanges: DailyWorkloadChange[]; // Only days whose scheduled hours change
+  memberChanges: MemberWorkloadChange[]; // Only team members whose scheduled hours change
+  totalHoursChange: number;
+  utilizationChange: number;
+  taskUpdates: TaskUpdate[];
+  taskSplits: TaskSplitRequest[];
+}
+
 export interface RebalancingOptions {
   maxDailyHours: number;
   allowTaskSplitting: boolean;
@@ -54,10 +90,17 @@ export class RebalancingSuggestionEngine {
     const suggestions: RebalancingSuggestion[] = [];
 
     // Only generate suggestions if there's an overload
-    if (!workloadMetrics.isOverloaded && !this.hasOverloadedDays(workloadMetrics, options.workingDays)) {
+    if (
+      !workloadMetrics.isOverloaded &&
+      !this.hasOverloadedDays(workloadMetrics, options.workingDays) &&
+      !this.hasOverloadedMembers(workloadMetrics)
+    ) {
       return suggestions;
     }
 
+    // Split tasks are represented by their parts
+    schedule = { ...schedule, tasks: TaskSplitter.getWorkItems(schedule.tasks) };
+
     // Daily redistribution suggestions
     const dailySuggestions = this.generateDailyRedistributionSuggestions(
       schedule,
@@ -66,6 +109,14 @@ export class RebalancingSuggestionEngine {
     );
     suggestions.push(...dailySuggestions);
 
+    // Per-person suggestions: hand work to a teammate or move it to another of the person's days
+    const memberSuggestions = this.generateMemberSuggestions(
+      schedule,
+      workloadMetrics,
+      options
+    );
+    suggestions.push(...memberSuggestions);
+
     // Channel rebalancing suggestions
     if (options.allowCrossChannelRebalancing) {
       const channelSuggestions = this.generateChannelRebalancingSuggestions(
@@ -169,6 +220,14 @@ export class RebalancingSuggestionEngine {
         
         // Update target day capacity for next iteration
         bestTargetDay.scheduledHours += task.estimatedHours;
+      } else if (options.allowTaskSplitting && TaskSplitter.canSplit(task)) {
+        const splitAction = this.createSplitAction(task, overloadedDays, underutilizedDays, options.maxDailyHours);
+
+        if (splitAction && splitAction.proposedSchedule) {
+          actions.push(splitAction);
+          totalHoursReduced += splitAction.proposedSchedule.hours;
+          affectedTasks++;
+        }
       }
     }
 
@@ -194,6 +253,116 @@ export class RebalancingSuggestionEngine {
     return suggestions;
   }
 
+  /**
+   * Generate suggestions for each overloaded team member: reassigning tasks on their overloaded
+   * days to a teammate with the same role and free time that day, and moving tasks to another of
+   * their own working days
+   */
+  private static generateMemberSuggestions(
+    schedule: WeeklySchedule,
+    workloadMetrics: WorkloadMetrics,
+    options: RebalancingOptions
+  ): RebalancingSuggestion[] {
+    const suggestions: RebalancingSuggestion[] = [];
+    // Copies, as the plans below book hours on them
+    const members = workloadMetrics.memberBreakdown.map(member => ({
+      ...member,
+      dailyBreakdown: member.dailyBreakdown.map(day => ({ ...day })),
+    }));
+
+    for (const member of members) {
+      const overloadedDays = member.dailyBreakdown.filter(day => day.isOverloaded);
+      if (overloadedDays.length === 0) continue;
+
+      const movableTasks = this.findMovableTasks(overloadedDays, schedule.tasks).slice(0, 3);
+      const teammates = members.filter(other => other.memberId !== member.memberId && other.role === member.role);
+
+      const reassignActions: RebalancingAction[] = [];
+      const reassignedTaskIds = new Set<string>();
+      for (const task of movableTasks) {
+        const teammate = this.findBestTeammate(task, teammates);
+        if (!teammate) continue;
+
+        reassignActions.push({
+          type: 'reassign_task',
+          taskId: task.id,
+          taskTitle: task.title,
+          currentSchedule: this.getSchedule(task),
+          proposedSchedule: this.getSchedule(task),
+          currentAssigneeId: member.memberId,
+          proposedAssigneeId: teammate.memberId,
+          reason: `Hand over from ${member.memberName} to ${teammate.memberName}, who has time on ${this.getDayName(new Date(task.scheduledStart))}`,
+        });
+        reassignedTaskIds.add(task.id);
+      }
+
+      if (reassignActions.length > 0) {
+        const hoursReassigned = reassignActions.reduce((sum, action) => sum + action.currentSchedule.hours, 0);
+        suggestions.push({
+          id: `member-reassignment-${member.memberId}-${Date.now()}`,
+          type: 'reassign_member',
+          priority: member.isOverloaded ? 'high' : 'medium',
+          title: `Reassign ${member.memberName}'s Tasks`,
+          description: `Hand ${reassignActions.length} task(s) from ${member.memberName} to teammates with free time`,
+          impact: {
+            hoursReduced: hoursReassigned,
+            utilizationImprovement: member.capacityHours > 0 ? (hoursReassigned / member.capacityHours) * 100 : 0,
+            affectedTasks: reassignActions.length,
+          },
+          actions: reassignActions,
+          estimatedEffort: 'low',
+        });
+      }
+
+      // Tasks nobody can take over may still fit on another of the member's own days
+      const availableDays = member.dailyBreakdown.filter(day =>
+        !day.isOverloaded &&
+        member.workingDays.includes(day.dayName) &&
+        day.scheduledHours < member.dailyCapacityHours * 0.8
+      );
+      const moveActions: RebalancingAction[] = [];
+      for (const task of movableTasks.filter(task => !reassignedTaskIds.has(task.id))) {
+        const targetDay = this.findBestTargetDay(task, availableDays, member.dailyCapacityHours);
+        if (!targetDay) continue;
+
+        const newStart = new Date(targetDay.date);
+        newStart.setHours(9, 0, 0, 0); // Default to 9 AM
+        const newEnd = new Date(newStart);
+        newEnd.setMinutes(newStart.getMinutes() + task.estimatedHours * 60);
+
+        moveActions.push({
+          type: 'move_task',
+          taskId: task.id,
+          taskTitle: task.title,
+          currentSchedule: this.getSchedule(task),
+          proposedSchedule: { start: newStart, end: newEnd, hours: task.estimatedHours },
+          reason: `Move ${member.memberName}'s task from overloaded ${this.getDayName(new Date(task.scheduledStart))} to ${targetDay.dayName}`,
+        });
+        targetDay.scheduledHours += task.estimatedHours;
+      }
+
+      if (moveActions.length > 0) {
+        const hoursMoved = moveActions.reduce((sum, action) => sum + action.currentSchedule.hours, 0);
+        suggestions.push({
+          id: `member-redistribution-${member.memberId}-${Date.now()}`,
+          type: 'redistribute_daily',
+          priority: hoursMoved > options.maxDailyHours ? 'high' : 'medium',
+          title: `Redistribute ${member.memberName}'s Tasks Across Days`,
+          description: `Move ${moveActions.length} of ${member.memberName}'s task(s) to days with free time`,
+          impact: {
+            hoursReduced: hoursMoved,
+            utilizationImprovement: member.capacityHours > 0 ? (hoursMoved / member.capacityHours) * 100 : 0,
+            affectedTasks: moveActions.length,
+          },
+          actions: moveActions,
+          estimatedEffort: moveActions.length > 2 ? 'medium' : 'low',
+        });
+      }
+    }
+
+    return suggestions;
+  }
+
   /**
    * Generate suggestions for rebalancing workload across channels
    */
@@ -405,62 +574,208 @@ export class RebalancingSuggestionEngine {
     suggestion: RebalancingSuggestion,
     schedule: WeeklySchedule
   ): { updatedTasks: Task[]; summary: string } {
-    const updatedTasks = [...schedule.tasks];
-    let appliedActions = 0;
+    const { taskUpdates, taskSplits } = this.getTaskChanges(suggestion, schedule.tasks);
+    const updatedTasks = this.applyTaskUpdates(schedule.tasks, taskUpdates);
+
+    taskSplits.forEach(split => {
+      const index = updatedTasks.findIndex(task => task.id === split.taskId);
+      const { parent, children } = TaskSplitter.splitTask(updatedTasks[index], split.parts);
+      updatedTasks.splice(index, 1, parent, ...children);
+    });
+
+    const appliedActions = taskUpdates.length + taskSplits.length;
+    const summary = `Applied ${appliedActions} of ${suggestion.actions.length} suggested changes. ${suggestion.title} completed.`;
+
+    return { updatedTasks, summary };
+  }
+
+  /**
+   * Get every change a suggestion makes: task updates first, then splits of the updated tasks
+   */
+  static getTaskChanges(
+    suggestion: RebalancingSuggestion,
+    tasks: Task[]
+  ): { taskUpdates: TaskUpdate[]; taskSplits: TaskSplitRequest[] } {
+    const taskUpdates = this.getTaskUpdates(suggestion, tasks);
+    const taskSplits = this.getTaskSplits(suggestion, this.applyTaskUpdates(tasks, taskUpdates));
+
+    return { taskUpdates, taskSplits };
+  }
+
+  /**
+   * Translate a suggestion's split_task actions into split requests.
+   * The proposed hours move to the proposed start; the rest of the task stays where it is.
+   */
+  static getTaskSplits(suggestion: RebalancingSuggestion, tasks: Task[]): TaskSplitRequest[] {
+    return suggestion.actions.flatMap(action => {
+      const task = tasks.find(t => t.id === action.taskId);
+      if (action.type !== 'split_task' || !task || !action.proposedSchedule) return [];
+      if (!TaskSplitter.canSplit(task) || action.proposedSchedule.hours >= task.estimatedHours) return [];
+
+      return [{
+        taskId: task.id,
+        parts: [
+          { start: new Date(task.scheduledStart), hours: task.estimatedHours - action.proposedSchedule.hours },
+          { start: new Date(action.proposedSchedule.start), hours: action.proposedSchedule.hours },
+        ],
+      }];
+    });
+  }
+
+  /**
+   * Translate a suggestion's actions into task updates, one per applicable action
+   */
+  static getTaskUpdates(suggestion: RebalancingSuggestion, tasks: Task[]): TaskUpdate[] {
+    const workingTasks = new Map(tasks.map(task => [task.id, task]));
+    const taskUpdates: TaskUpdate[] = [];
 
     for (const action of suggestion.actions) {
-      const taskIndex = updatedTasks.findIndex(task => task.id === action.taskId);
-      
-      if (taskIndex === -1) continue;
+      const task = workingTasks.get(action.taskId);
+      if (!task || !action.proposedSchedule) continue;
 
-      const task = updatedTasks[taskIndex];
+      let updates: Partial<Task> | null = null;
 
       switch (action.type) {
+        case 'reassign_task':
+          updates = { assigneeId: action.proposedAssigneeId };
+          break;
+
         case 'move_task':
         case 'reschedule':
-          if (action.proposedSchedule) {
-            updatedTasks[taskIndex] = {
-              ...task,
-              scheduledStart: action.proposedSchedule.start,
-              scheduledEnd: action.proposedSchedule.end,
-            };
-            appliedActions++;
-          }
+          updates = {
+            scheduledStart: action.proposedSchedule.start,
+            scheduledEnd: action.proposedSchedule.end,
+            timeSlot: getTimeSlotForDate(new Date(action.proposedSchedule.start)),
+          };
           break;
 
-        case 'reduce_hours':
-          if (action.proposedSchedule) {
-            const newEnd = new Date(task.scheduledStart);
-            newEnd.setHours(newEnd.getHours() + action.proposedSchedule.hours);
-            
-            updatedTasks[taskIndex] = {
-              ...task,
-              estimatedHours: action.proposedSchedule.hours,
-              scheduledEnd: newEnd,
-            };
-            appliedActions++;
-          }
+        case 'reduce_hours': {
+          const newEnd = new Date(task.scheduledStart);
+          newEnd.setHours(newEnd.getHours() + action.proposedSchedule.hours);
+          updates = {
+            estimatedHours: action.proposedSchedule.hours,
+            scheduledEnd: newEnd,
+          };
           break;
+        }
 
         case 'split_task':
-          // Implementation for task splitting would go here
-          // This is more complex and might require creating new tasks
+          // Splits create new tasks, see getTaskSplits
           break;
       }
+
+      if (updates) {
+        workingTasks.set(task.id, { ...task, ...updates });
+        taskUpdates.push({ id: task.id, updates });
+      }
     }
 
-    const summary = `Applied ${appliedActions} of ${suggestion.actions.length} suggested changes. ${suggestion.title} completed.`;
+    return taskUpdates;
+  }
 
-    return { updatedTasks, summary };
+  /**
+   * Preview a suggestion as a before/after workload comparison without changing the schedule
+   */
+  static previewSuggestion(
+    suggestion: RebalancingSuggestion,
+    schedule: WeeklySchedule,
+    channels: Channel[],
+    dailyCapacityHours: number = 8,
+    teamMembers: TeamMember[] = []
+  ): SuggestionPreview {
+    const { updatedTasks } = this.applySuggestion(suggestion, schedule);
+    const before = WorkloadCalculationEngine.calculateWorkloadMetrics(schedule, channels, dailyCapacityHours, teamMembers);
+    const after = WorkloadCalculationEngine.calculateWorkloadMetrics(
+      { ...schedule, tasks: updatedTasks },
+      channels,
+      dailyCapacityHours,
+      teamMembers
+    );
+
+    const dailyChanges = before.dailyBreakdown
+      .map((day, index) => ({
+        date: day.date,
+        dayName: day.dayName,
+        beforeHours: day.scheduledHours,
+        afterHours: after.dailyBreakdown[index].scheduledHours,
+        change: after.dailyBreakdown[index].scheduledHours - day.scheduledHours,
+      }))
+      .filter(day => day.change !== 0);
+
+    const memberChanges = before.memberBreakdown
+      .map((member, index) => ({
+        memberId: member.memberId,
+        memberName: member.memberName,
+        beforeHours: member.scheduledHours,
+        afterHours: after.memberBreakdown[index].scheduledHours,
+        change: after.memberBreakdown[index].scheduledHours - member.scheduledHours,
+      }))
+      .filter(member => member.change !== 0);
+
+    return {
+      before,
+      after,
+      dailyChanges,
+      memberChanges,
+      totalHoursChange: after.totalScheduledHours - before.totalScheduledHours,
+      utilizationChange: after.utilizationPercentage - before.utilizationPercentage,
+      ...this.getTaskChanges(suggestion, schedule.tasks),
+    };
+  }
+
+  private static applyTaskUpdates(tasks: Task[], taskUpdates: TaskUpdate[]): Task[] {
+    return tasks.map(task =>
+      taskUpdates
+        .filter(update => update.id === task.id)
+        .reduce((updated, update) => ({ ...updated, ...update.updates }), task)
+    );
   }
 
-  // Helper methods
   private static hasOverloadedDays(workloadMetrics: WorkloadMetrics, workingDays: string[]): boolean {
     return workloadMetrics.dailyBreakdown.some(
       day => day.isOverloaded && workingDays.includes(day.dayName)
     );
   }
 
+  private static hasOverloadedMembers(workloadMetrics: WorkloadMetrics): boolean {
+    return workloadMetrics.memberBreakdown.some(
+      member => member.dailyBreakdown.some(day => day.isOverloaded)
+    );
+  }
+
+  /**
+   * Pick the least utilized teammate who works on the task's day and has room for it that day and week,
+   * booking the task's hours on them
+   */
+  private static findBestTeammate(task: Task, teammates: MemberWorkload[]): MemberWorkload | null {
+    const taskDate = new Date(task.scheduledStart).toDateString();
+    const dayOf = (teammate: MemberWorkload) =>
+      teammate.dailyBreakdown.find(day => day.date.toDateString() === taskDate);
+
+    const teammate = teammates
+      .filter(teammate => {
+        const day = dayOf(teammate);
+        return day !== undefined &&
+          teammate.workingDays.includes(day.dayName) &&
+          day.scheduledHours + task.estimatedHours <= teammate.dailyCapacityHours &&
+          teammate.scheduledHours + task.estimatedHours <= teammate.capacityHours;
+      })
+      .sort((a, b) => a.scheduledHours / a.capacityHours - b.scheduledHours / b.capacityHours)[0];
+    if (!teammate) return null;
+
+    dayOf(teammate)!.scheduledHours += task.estimatedHours;
+    teammate.scheduledHours += task.estimatedHours;
+    return teammate;
+  }
+
+  private static getSchedule(task: Task): RebalancingAction['currentSchedule'] {
+    return {
+      start: new Date(task.scheduledStart),
+      end: new Date(task.scheduledEnd),
+      hours: task.estimatedHours,
+    };
+  }
+
   private static findMovableTasks(overloadedDays: DailyWorkload[], allTasks: Task[]): Task[] {
     const movableTasks: Task[] = [];
 
@@ -487,6 +802,52 @@ export class RebalancingSuggestionEngine {
       .sort((a, b) => a.scheduledHours - b.scheduledHours)[0] || null;
   }
 
+  /**
+   * Propose moving part of a task that is too large to move whole onto the least busy day
+   */
+  private static createSplitAction(
+    task: Task,
+    overloadedDays: DailyWorkload[],
+    availableDays: DailyWorkload[],
+    maxDailyHours: number
+  ): RebalancingAction | null {
+    const sourceDay = overloadedDays.find(day => day.tasks.some(t => t.id === task.id));
+    const targetDay = availableDays
+      .filter(day => day.scheduledHours < maxDailyHours)
+      .sort((a, b) => a.scheduledHours - b.scheduledHours)[0];
+    if (!sourceDay || !targetDay) return null;
+
+    // Move the day's overflow in half-hour steps, limited by the target's free time
+    const overflowHours = sourceDay.scheduledHours - maxDailyHours;
+    const freeHours = maxDailyHours - targetDay.scheduledHours;
+    const movedHours = Math.floor(Math.min(overflowHours, freeHours, task.estimatedHours - 0.5) * 2) / 2;
+    if (movedHours <= 0) return null;
+
+    const newStart = new Date(targetDay.date);
+    newStart.setHours(9, 0, 0, 0); // Default to 9 AM
+    const newEnd = new Date(newStart);
+    newEnd.setMinutes(newStart.getMinutes() + movedHours * 60);
+
+    targetDay.scheduledHours += movedHours;
+
+    return {
+      type: 'split_task',
+      taskId: task.id,
+      taskTitle: task.title,
+      currentSchedule: {
+        start: new Date(task.scheduledStart),
+        end: new Date(task.scheduledEnd),
+        hours: task.estimatedHours,
+      },
+      proposedSchedule: {
+        start: newStart,
+        end: newEnd,
+        hours: movedHours,
+      },
+      reason: `Split ${movedHours}h off to available ${targetDay.dayName}; the rest stays on ${sourceDay.dayName}`,
+    };
+  }
+
   private static getDayName(date: Date): string {
     const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
     return dayNames[date.getDay()];
@@ -0,0 +1,246 @@
+import { Channel, Task, TaskTemplate } from '../types';
+import { DAYS_OF_WEEK } from '../utils/constants';
+import { formatLocalDate, getTimeSlotForDate, getWeekStart } from '../utils/helpers';
+import { TaskDependencyManager } from './taskDependencies';
+import { TaskStepTracker } from './taskSteps';
+
+export interface PostingOccurrence {
+  date: Date; // Posting day and time
+  dateKey: string; // YYYY-MM-DD, used to build stable recurrence IDs
+}
+
+const DEFAULT_POSTING_TIME = '09:00';
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+export class RecurrenceEngine {
+  /**
+   * Expand a channel's posting schedule into dated occurrences within [rangeStart, rangeEnd)
+   */
+  static expandPostingSchedule(
+    channel: Channel,
+    rangeStart: Date,
+    rangeEnd: Date
+  ): PostingOccurrence[] {
+    const occurrences: PostingOccurrence[] = [];
+    const { frequency } = channel.postingSchedule;
+    const preferredDays = this.getPreferredDays(channel);
+
+    const cursor = new Date(rangeStart);
+    cursor.setHours(0, 0, 0, 0);
+
+    while (cursor < rangeEnd) {
+      const dayName = DAYS_OF_WEEK[cursor.getDay()];
+      let isPostingDay = false;
+
+      switch (frequency) {
+        case 'daily':
+          isPostingDay = channel.postingSchedule.preferredDays.length === 0 || preferredDays.includes(dayName);
+          break;
+        case 'weekly':
+          isPostingDay = preferredDays.includes(dayName);
+          break;
+        case 'biweekly':
+          isPostingDay = preferredDays.includes(dayName) && this.isPostingWeek(channel, cursor);
+          break;
+        case 'monthly':
+          isPostingDay = this.isFirstPreferredDayOfMonth(cursor, preferredDays[0]);
+          break;
+      }
+
+      if (isPostingDay) {
+        const date = this.applyPostingTime(cursor, this.getPostingTime(channel, dayName));
+        if (date >= rangeStart && date < rangeEnd) {
+          occurrences.push({ date, dateKey: formatLocalDate(cursor) });
+        }
+      }
+
+      cursor.setDate(cursor.getDate() + 1);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Generate dated tasks for every posting occurrence and assigned template within a range.
+   * Tasks of one posting wait on the tasks of the templates they depend on.
+   */
+  static generateTasks(
+    channel: Channel,
+    templates: TaskTemplate[],
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Task[] {
+    const occurrences = this.expandPostingSchedule(channel, rangeStart, rangeEnd);
+
+    return occurrences.flatMap(occurrence => {
+      // First and last task generated for each template, for linking template dependencies
+      const templateTasks = new Map<string, { first: Task[]; last: Task[] }>();
+
+      const occurrenceTasks = channel.assignedTasks.flatMap(assignment => {
+        const template = templates.find(t => t.id === assignment.templateId);
+        if (!template) return [];
+
+        const generated = Array.from({ length: assignment.quantity }, (_, index) => {
+          const recurrenceId = `${channel.id}-${template.id}-${occurrence.dateKey}-${index}`;
+          const scheduledEnd = new Date(occurrence.date);
+          scheduledEnd.setMinutes(scheduledEnd.getMinutes() + Math.round(template.estimatedHours * 60));
+
+          const task: Task = {
+            id: recurrenceId,
+            channelId: channel.id,
+            templateId: template.id,
+            title: `${template.title}${assignment.quantity > 1 ? ` (${index + 1})` : ''}`,
+            description: template.description,
+            estimatedHours: template.estimatedHours,
+            status: 'planned' as const,
+            scheduledStart: new Date(occurrence.date),
+            scheduledEnd,
+            timeSlot: getTimeSlotForDate(occurrence.date),
+            priority: assignment.priority,
+            recurrenceId,
+            steps: template.workflowSteps.length > 0 ? TaskStepTracker.createSteps(template.workflowSteps) : undefined,
+          };
+
+          return template.createTaskPerStep && template.workflowSteps.length > 1
+            ? this.createStepTasks(task, template.workflowSteps)
+            : [task];
+        });
+
+        const entry = templateTasks.get(template.id) ?? { first: [], last: [] };
+        generated.forEach(tasks => {
+          entry.first.push(tasks[0]);
+          entry.last.push(tasks[tasks.length - 1]);
+        });
+        templateTasks.set(template.id, entry);
+
+        return generated.flat();
+      });
+
+      const linkedTasks = occurrenceTasks.map(task => {
+        const template = templates.find(t => t.id === task.templateId);
+        const isFirstStep = templateTasks.get(task.templateId!)?.first.includes(task);
+        const dependencyIds = (template?.dependsOnTemplateIds ?? [])
+          .flatMap(templateId => templateTasks.get(templateId)?.last ?? [])
+          .map(dependency => dependency.id);
+
+        return isFirstStep && dependencyIds.length > 0
+          ? { ...task, dependsOn: TaskDependencyManager.mergeIds(task.dependsOn, dependencyIds) }
+          : task;
+      });
+
+      return TaskDependencyManager.scheduleAfterDependencies(linkedTasks);
+    });
+  }
+
+  /**
+   * Split a generated task into one task per workflow step, each waiting on the step before it
+   */
+  static createStepTasks(task: Task, workflowSteps: string[]): Task[] {
+    const stepHours = Math.round((task.estimatedHours / workflowSteps.length) * 100) / 100;
+
+    const stepTasks = workflowSteps.map((step, index): Task => {
+      const isLast = index === workflowSteps.length - 1;
+      const estimatedHours = isLast
+        ? Math.round((task.estimatedHours - stepHours * (workflowSteps.length - 1)) * 100) / 100
+        : stepHours;
+      const id = `${task.id}-step-${index + 1}`;
+      const scheduledEnd = new Date(task.scheduledStart);
+      scheduledEnd.setMinutes(scheduledEnd.getMinutes() + Math.round(estimatedHours * 60));
+
+      return {
+        ...task,
+        id,
+        recurrenceId: id,
+        title: `${task.title}: ${step}`,
+        estimatedHours,
+        scheduledEnd,
+        steps: undefined, // The task is itself a step
+      };
+    });
+
+    return TaskDependencyManager.chain(stepTasks);
+  }
+
+  /**
+   * Regenerate a channel's recurring tasks within a range.
+   * Untouched (planned) generated tasks are replaced; tasks that were started, completed
+   * or went overdue are kept so regeneration never discards work.
+   */
+  static regenerateTasks(
+    tasks: Task[],
+    channel: Channel,
+    templates: TaskTemplate[],
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Task[] {
+    const retainedTasks = tasks.filter(task => !this.isReplaceable(task, channel.id, rangeStart, rangeEnd));
+    const retainedRecurrenceIds = new Set(
+      retainedTasks.filter(task => task.recurrenceId).map(task => task.recurrenceId)
+    );
+
+    const generatedTasks = this.generateTasks(channel, templates, rangeStart, rangeEnd)
+      .filter(task => !retainedRecurrenceIds.has(task.recurrenceId));
+
+    return [...retainedTasks, ...generatedTasks];
+  }
+
+  /**
+   * Check whether a task was generated by the recurrence engine for a channel
+   */
+  static isRecurringTask(task: Task, channelId?: string): boolean {
+    return Boolean(task.recurrenceId) && (channelId === undefined || task.channelId === channelId);
+  }
+
+  private static isReplaceable(task: Task, channelId: string, rangeStart: Date, rangeEnd: Date): boolean {
+    if (!this.isRecurringTask(task, channelId) || task.status !== 'planned') return false;
+    // Regenerating a split task would orphan its parts
+    if (task.childTaskIds && task.childTaskIds.length > 0) return false;
+
+    const start = new Date(task.scheduledStart);
+    return start >= rangeStart && start < rangeEnd;
+  }
+
+  private static getPreferredDays(channel: Channel): string[] {
+    const { preferredDays } = channel.postingSchedule;
+    if (preferredDays.length > 0) return preferredDays;
+
+    // Without preferences, post on the weekday the channel was created
+    return [DAYS_OF_WEEK[new Date(channel.createdAt).getDay()]];
+  }
+
+  private static getPostingTime(channel: Channel, dayName: string): string {
+    const { preferredTimes } = channel.postingSchedule;
+    if (preferredTimes.length === 0) return DEFAULT_POSTING_TIME;
+
+    // Rotate through preferred times by weekday so each day keeps a stable slot
+    const dayIndex = Math.max(0, this.getPreferredDays(channel).indexOf(dayName));
+    return preferredTimes[dayIndex % preferredTimes.length];
+  }
+
+  private static applyPostingTime(day: Date, time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = new Date(day);
+    date.setHours(hours || 0, minutes || 0, 0, 0);
+    return date;
+  }
+
+  /**
+   * Biweekly schedules post every other week, counted from the week the channel was created
+   */
+  private static isPostingWeek(channel: Channel, date: Date): boolean {
+    const anchorWeekStart = getWeekStart(new Date(channel.createdAt));
+    anchorWeekStart.setHours(0, 0, 0, 0);
+    const weekStart = getWeekStart(date);
+    weekStart.setHours(0, 0, 0, 0);
+
+    const weeksSinceAnchor = Math.round((weekStart.getTime() - anchorWeekStart.getTime()) / MS_PER_WEEK);
+    return Math.abs(weeksSinceAnchor) % 2 === 0;
+  }
+
+  /**
+   * Monthly schedules post on the first occurrence of the preferred weekday in each month
+   */
+  private static isFirstPreferredDayOfMonth(date: Date, preferredDay: string): boolean {
+    return DAYS_OF_WEEK[date.getDay()] === preferredDay && date.getDate() <= 7;
+  }
+}
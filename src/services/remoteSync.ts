@@ -0,0 +1,356 @@
+import { STORAGE_KEYS } from '../utils/constants';
+import { crossTabSyncService, EntityChange, indexEntities, parseEntity, serializeEntity, SyncMessage } from './crossTabSync';
+import { debouncedLocalStorageService } from './debouncedLocalStorage';
+import { DATA_DOMAIN_NAMES, DataDomain, StorageSchema } from './storageSchema';
+
+/**
+ * An entity as exchanged with a sync server; null values are deletions. See server/README.md.
+ */
+export interface RemoteEntity {
+  domain: DataDomain;
+  id: string;
+  value: unknown;
+}
+
+export interface RemoteChange extends RemoteEntity {
+  revision: number;
+}
+
+export interface PullResponse {
+  revision: number;
+  changes: RemoteChange[];
+}
+
+export interface PushRequest {
+  baseRevision: number;
+  changes: RemoteEntity[];
+}
+
+export interface PushConflictResponse {
+  revision: number;
+  conflicts: RemoteChange[];
+}
+
+export type RemoteSyncState = 'disconnected' | 'syncing' | 'online' | 'offline' | 'error';
+
+export interface RemoteSyncStatus {
+  state: RemoteSyncState;
+  serverUrl: string | null;
+  revision: number;
+  queuedChanges: number;
+  lastSyncedAt: Date | null;
+  error?: string;
+}
+
+export class RemoteSyncError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'RemoteSyncError';
+  }
+}
+
+// A saved change waiting to be pushed, keyed by `${domain}:${id}`; the value is serialized
+interface QueuedChange {
+  domain: DataDomain;
+  id: string;
+  value: string | null;
+}
+
+interface RemoteSyncConfig {
+  serverUrl: string;
+  // The server revision this browser has pulled up to
+  revision: number;
+  outbox: Record<string, QueuedChange>;
+}
+
+type StatusListener = (status: RemoteSyncStatus) => void;
+
+const POLL_INTERVAL = 30 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+const MAX_PUSH_ATTEMPTS = 3;
+
+const getEntityKey = (domain: DataDomain, id: string) => `${domain}:${id}`;
+
+/**
+ * Optional sync of all data domains with a sync server over a pull/push protocol with revision
+ * numbers. Saved changes are queued, persisted across reloads, and pushed whenever the server can
+ * be reached; pulled changes are saved and reach the app state through the cross-tab sync listeners.
+ */
+export class RemoteSyncService {
+  private static instance: RemoteSyncService;
+  private config: RemoteSyncConfig | null = null;
+  private status: RemoteSyncStatus = { state: 'disconnected', serverUrl: null, revision: 0, queuedChanges: 0, lastSyncedAt: null };
+  private statusListeners = new Set<StatusListener>();
+  private stopSaveListener: (() => void) | null = null;
+  private pollInterval: number | null = null;
+  private currentSync: Promise<void> | null = null;
+  private syncRequested = false;
+
+  private constructor() {}
+
+  public static getInstance(): RemoteSyncService {
+    if (!RemoteSyncService.instance) {
+      RemoteSyncService.instance = new RemoteSyncService();
+    }
+    return RemoteSyncService.instance;
+  }
+
+  /**
+   * Start syncing with a server. The first sync loads the server's data and pushes entities only this browser has.
+   */
+  public async connect(serverUrl: string): Promise<RemoteSyncStatus> {
+    let url: URL;
+    try {
+      url = new URL(serverUrl);
+    } catch {
+      throw new RemoteSyncError(`Invalid sync server URL: ${serverUrl}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new RemoteSyncError('The sync server URL must start with http:// or https://');
+    }
+
+    this.pause();
+    this.config = { serverUrl: url.href.replace(/\/+$/, ''), revision: 0, outbox: {} };
+    this.saveConfig();
+    this.start();
+    await this.sync();
+    return this.getStatus();
+  }
+
+  /**
+   * Stop syncing and forget the server and any changes not pushed yet
+   */
+  public disconnect(): void {
+    this.pause();
+    this.config = null;
+    localStorage.removeItem(STORAGE_KEYS.REMOTE_SYNC);
+    this.updateStatus({ state: 'disconnected', error: undefined });
+  }
+
+  /**
+   * Continue syncing with the server this browser was connected to, if any
+   */
+  public resume(): void {
+    this.config = this.loadConfig();
+    if (!this.config || this.stopSaveListener) return;
+
+    this.start();
+    this.sync().catch(error => console.error('❌ Remote sync failed:', error));
+  }
+
+  /**
+   * Stop syncing until resumed, keeping the server and queued changes
+   */
+  public pause(): void {
+    this.stopSaveListener?.();
+    this.stopSaveListener = null;
+    if (this.pollInterval !== null) {
+      window.clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    window.removeEventListener('online', this.handleOnline);
+  }
+
+  public getStatus(): RemoteSyncStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Listen for status changes. Returns a function that stops listening.
+   */
+  public onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Push queued changes and pull changes from the server. Calls made while a sync runs are
+   * folded into one more run after it.
+   */
+  public sync(): Promise<void> {
+    if (this.currentSync) {
+      this.syncRequested = true;
+      return this.currentSync;
+    }
+
+    this.currentSync = (async () => {
+      try {
+        do {
+          this.syncRequested = false;
+          await this.runSync();
+        } while (this.syncRequested && this.config);
+      } finally {
+        this.currentSync = null;
+      }
+    })();
+    return this.currentSync;
+  }
+
+  private start(): void {
+    this.stopSaveListener = crossTabSyncService.subscribeToSaves(message => this.enqueue(message));
+    this.pollInterval = window.setInterval(() => {
+      this.sync().catch(error => console.error('❌ Remote sync failed:', error));
+    }, POLL_INTERVAL);
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  private handleOnline = (): void => {
+    this.sync().catch(error => console.error('❌ Remote sync failed:', error));
+  };
+
+  private enqueue(message: SyncMessage): void {
+    if (!this.config) return;
+
+    message.changes.forEach(({ id, value }) => {
+      this.config!.outbox[getEntityKey(message.domain, id)] = { domain: message.domain, id, value };
+    });
+    this.saveConfig();
+    this.updateStatus({});
+    this.sync().catch(error => console.error('❌ Remote sync failed:', error));
+  }
+
+  private async runSync(): Promise<void> {
+    const config = this.config;
+    if (!config) return;
+
+    this.updateStatus({ state: 'syncing', error: undefined });
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const isFirstSync = config.revision === 0;
+        const pulled = await this.pull(config);
+        if (isFirstSync) {
+          this.enqueueLocalOnlyEntities(config, pulled);
+        }
+
+        if (Object.keys(config.outbox).length === 0 || await this.push(config)) break;
+        if (attempt === MAX_PUSH_ATTEMPTS) {
+          throw new RemoteSyncError('The server kept reporting conflicting changes; will retry on the next sync', 409);
+        }
+      }
+      this.updateStatus({ state: 'online', lastSyncedAt: new Date() });
+    } catch (error) {
+      // fetch rejects with a TypeError when the server cannot be reached
+      const offline = error instanceof TypeError || (error instanceof DOMException && error.name === 'TimeoutError');
+      this.updateStatus({
+        state: offline ? 'offline' : 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      if (!offline) throw error;
+    }
+  }
+
+  /**
+   * Save the server's changes since the last pull, except to entities with queued local changes,
+   * which were saved later and are pushed over them. Returns the pulled changes.
+   */
+  private async pull(config: RemoteSyncConfig): Promise<RemoteChange[]> {
+    const response = await this.request(`${config.serverUrl}/changes?since=${config.revision}`);
+    const { revision, changes } = await this.readJson<PullResponse>(response);
+
+    DATA_DOMAIN_NAMES.forEach(domain => {
+      const stored = indexEntities(domain, StorageSchema.read(domain));
+      const incoming: EntityChange[] = changes
+        .filter(change => change.domain === domain && !config.outbox[getEntityKey(domain, change.id)])
+        .map(change => ({ id: change.id, value: serializeEntity(change.value), base: serializeEntity(stored[change.id]) }))
+        .filter(change => change.value !== change.base);
+      if (incoming.length === 0) return;
+
+      debouncedLocalStorageService.saveEntities(domain, incoming.map(change => [change.id, parseEntity(change.value)]));
+      crossTabSyncService.deliver(domain, incoming);
+    });
+
+    config.revision = revision;
+    this.saveConfig();
+    return changes;
+  }
+
+  /**
+   * Push queued changes. Returns false when the server reports conflicting changes to pull first.
+   */
+  private async push(config: RemoteSyncConfig): Promise<boolean> {
+    const queued = { ...config.outbox };
+    const body: PushRequest = {
+      baseRevision: config.revision,
+      changes: Object.values(queued).map(({ domain, id, value }) => ({ domain, id, value: value === null ? null : JSON.parse(value) })),
+    };
+
+    const response = await this.request(`${config.serverUrl}/changes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (response.status === 409) {
+      const { conflicts } = await response.json() as PushConflictResponse;
+      console.log(`🔄 ${conflicts.length} queued change(s) conflict with newer server changes, pulling again`);
+      return false;
+    }
+    const { revision } = await this.readJson<{ revision: number }>(response);
+
+    // Changes queued while pushing are pushed next time
+    Object.entries(queued).forEach(([key, change]) => {
+      if (config.outbox[key]?.value === change.value) delete config.outbox[key];
+    });
+    // Skipping ahead is only safe when nobody else pushed since the last pull
+    if (revision === body.baseRevision + 1) {
+      config.revision = revision;
+    }
+    this.saveConfig();
+    return true;
+  }
+
+  // Entities created before connecting, which the server has never seen
+  private enqueueLocalOnlyEntities(config: RemoteSyncConfig, pulled: RemoteChange[]): void {
+    DATA_DOMAIN_NAMES.forEach(domain => {
+      Object.entries(indexEntities(domain, StorageSchema.read(domain))).forEach(([id, entity]) => {
+        const key = getEntityKey(domain, id);
+        if (!config.outbox[key] && !pulled.some(change => change.domain === domain && change.id === id)) {
+          config.outbox[key] = { domain, id, value: serializeEntity(entity) };
+        }
+      });
+    });
+    this.saveConfig();
+  }
+
+  private request(url: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  }
+
+  private async readJson<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new RemoteSyncError(body.error ?? `Sync server responded with ${response.status}`, response.status);
+    }
+    return response.json();
+  }
+
+  private loadConfig(): RemoteSyncConfig | null {
+    try {
+      const item = localStorage.getItem(STORAGE_KEYS.REMOTE_SYNC);
+      return item ? JSON.parse(item) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveConfig(): void {
+    if (this.config) {
+      localStorage.setItem(STORAGE_KEYS.REMOTE_SYNC, JSON.stringify(this.config));
+    }
+  }
+
+  private updateStatus(updates: Partial<RemoteSyncStatus>): void {
+    this.status = {
+      ...this.status,
+      ...updates,
+      serverUrl: this.config?.serverUrl ?? null,
+      revision: this.config?.revision ?? 0,
+      queuedChanges: this.config ? Object.keys(this.config.outbox).length : 0,
+    };
+    this.statusListeners.forEach(listener => listener(this.getStatus()));
+  }
+}
+
+// Export singleton instance
+export const remoteSyncService = RemoteSyncService.getInstance();
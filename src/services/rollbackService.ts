@@ -1,5 +1,9 @@
 import { DataBackupService } from './dataBackup';
 import ErrorHandler from './errorHandling';
+import { storageBackend } from './storageBackend';
+import { DATA_DOMAIN_NAMES, DataDomain, DataSnapshot, StorageSchema } from './storageSchema';
+import { HistoryPatch } from '../types';
+import { STORAGE_KEYS } from '../utils/constants';
 
 export interface RollbackPoint {
   id: string;
@@ -13,6 +17,7 @@ export interface RollbackPoint {
     userSettings?: any;
   };
   affectedKeys: string[];
+  undoPatch?: HistoryPatch; // Inverse of the operation's own changes, to undo it without discarding later edits
 }
 
 export interface RollbackOptions {
@@ -25,7 +30,7 @@ export class RollbackService {
   private static instance: RollbackService;
   private backupService: DataBackupService;
   private errorHandler: ErrorHandler;
-  private readonly ROLLBACK_POINTS_KEY = 'mcm_rollback_points';
+  private readonly ROLLBACK_POINTS_KEY = STORAGE_KEYS.ROLLBACK_POINTS;
   private readonly MAX_ROLLBACK_POINTS = 20;
 
   private constructor() {
@@ -41,48 +46,29 @@ export class RollbackService {
   }
 
   /**
-   * Create a rollback point before performing a critical operation
+   * Create a rollback point before performing a critical operation.
+   * Pass currentData to capture in-memory state that may not be persisted yet.
    */
   async createRollbackPoint(
     operation: string,
     description: string,
-    affectedKeys: string[] = []
+    affectedKeys: string[] = [],
+    currentData: RollbackPoint['dataSnapshot'] = {},
+    undoPatch?: HistoryPatch
   ): Promise<string> {
     try {
       const rollbackId = this.generateRollbackId();
       const timestamp = new Date();
-
-      // Capture current state of affected data
-      const dataSnapshot: RollbackPoint['dataSnapshot'] = {};
-
-      if (affectedKeys.includes('mcm_channels') || affectedKeys.length === 0) {
-        dataSnapshot.channels = this.getFromStorage('mcm_channels', []);
-      }
-
-      if (affectedKeys.includes('mcm_templates') || affectedKeys.length === 0) {
-        dataSnapshot.templates = this.getFromStorage('mcm_templates', []);
-      }
-
-      if (affectedKeys.includes('mcm_schedules') || affectedKeys.length === 0) {
-        dataSnapshot.schedules = this.getFromStorage('mcm_schedules', {});
-      }
-
-      if (affectedKeys.includes('mcm_user_settings') || affectedKeys.length === 0) {
-        dataSnapshot.userSettings = this.getFromStorage('mcm_user_settings', {});
-      }
+      const domains = this.getDomainsForKeys(affectedKeys);
 
       const rollbackPoint: RollbackPoint = {
         id: rollbackId,
         timestamp,
         operation,
         description,
-        dataSnapshot,
-        affectedKeys: affectedKeys.length > 0 ? affectedKeys : [
-          'mcm_channels',
-          'mcm_templates',
-          'mcm_schedules',
-          'mcm_user_settings'
-        ]
+        dataSnapshot: this.captureSnapshot(domains, currentData),
+        affectedKeys: domains.map(domain => StorageSchema.getKey(domain)),
+        undoPatch,
       };
 
       // Store rollback point
@@ -121,22 +107,12 @@ export class RollbackService {
         );
       }
 
-      // Restore data from rollback point
-      if (rollbackPoint.dataSnapshot.channels !== undefined) {
-        localStorage.setItem('mcm_channels', JSON.stringify(rollbackPoint.dataSnapshot.channels));
-      }
-
-      if (rollbackPoint.dataSnapshot.templates !== undefined) {
-        localStorage.setItem('mcm_templates', JSON.stringify(rollbackPoint.dataSnapshot.templates));
-      }
-
-      if (rollbackPoint.dataSnapshot.schedules !== undefined) {
-        localStorage.setItem('mcm_schedules', JSON.stringify(rollbackPoint.dataSnapshot.schedules));
-      }
-
-      if (rollbackPoint.dataSnapshot.userSettings !== undefined) {
-        localStorage.setItem('mcm_user_settings', JSON.stringify(rollbackPoint.dataSnapshot.userSettings));
-      }
+      // Restore data from rollback point. Keys no longer in the schema, such as the templates
+      // key of points created before it was fixed, map to no domain and are left alone.
+      const domains = rollbackPoint.affectedKeys
+        .map(key => StorageSchema.getDomainForKey(key))
+        .filter((domain): domain is DataDomain => domain !== undefined);
+      StorageSchema.writeSnapshot({ ...rollbackPoint.dataSnapshot, domains } as DataSnapshot);
 
       // Log the rollback operation
       console.log(`Rolled back to: ${rollbackPoint.operation} (${rollbackPoint.description})`);
@@ -150,17 +126,52 @@ export class RollbackService {
     }
   }
 
+  /**
+   * Capture the given domains, preferring in-memory data over storage. Loaded schedule
+   * weeks are laid over the stored ones, since only some weeks are in memory at a time.
+   */
+  captureSnapshot(
+    domains: DataDomain[] = DATA_DOMAIN_NAMES,
+    currentData: RollbackPoint['dataSnapshot'] = {}
+  ): RollbackPoint['dataSnapshot'] {
+    const dataSnapshot: RollbackPoint['dataSnapshot'] = {};
+
+    if (domains.includes('channels')) {
+      dataSnapshot.channels = currentData.channels ?? StorageSchema.read('channels');
+    }
+
+    if (domains.includes('templates')) {
+      dataSnapshot.templates = currentData.templates ?? StorageSchema.read('templates');
+    }
+
+    if (domains.includes('schedules')) {
+      dataSnapshot.schedules = {
+        ...StorageSchema.read('schedules'),
+        ...currentData.schedules,
+      };
+    }
+
+    if (domains.includes('userSettings')) {
+      dataSnapshot.userSettings = currentData.userSettings ?? StorageSchema.read('userSettings');
+    }
+
+    return dataSnapshot;
+  }
+
   /**
    * Get list of available rollback points
    */
   getRollbackPoints(): RollbackPoint[] {
     try {
-      const rollbackPointsStr = localStorage.getItem(this.ROLLBACK_POINTS_KEY);
+      const rollbackPointsStr = storageBackend.getItem(this.ROLLBACK_POINTS_KEY);
       if (!rollbackPointsStr) {
         return [];
       }
 
-      const rollbackPoints: RollbackPoint[] = JSON.parse(rollbackPointsStr);
+      // Revive dates as storage does, so snapshots and undo patches hold the same values as state
+      const rollbackPoints: RollbackPoint[] = JSON.parse(rollbackPointsStr, (_, value) =>
+        typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value) ? new Date(value) : value
+      );
       return rollbackPoints.sort((a, b) => 
         new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
       );
@@ -197,7 +208,7 @@ export class RollbackService {
       const rollbackPoints = this.getRollbackPoints();
       const updatedPoints = rollbackPoints.filter(point => point.id !== rollbackId);
       
-      localStorage.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(updatedPoints));
+      storageBackend.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(updatedPoints));
     } catch (error) {
       this.errorHandler.handleError(
         error as Error,
@@ -212,7 +223,7 @@ export class RollbackService {
    */
   clearAllRollbackPoints(): void {
     try {
-      localStorage.removeItem(this.ROLLBACK_POINTS_KEY);
+      storageBackend.removeItem(this.ROLLBACK_POINTS_KEY);
     } catch (error) {
       this.errorHandler.handleError(
         error as Error,
@@ -262,7 +273,7 @@ export class RollbackService {
    */
   getRollbackPointsSize(): { count: number; totalSize: number; averageSize: number } {
     try {
-      const rollbackPointsStr = localStorage.getItem(this.ROLLBACK_POINTS_KEY);
+      const rollbackPointsStr = storageBackend.getItem(this.ROLLBACK_POINTS_KEY);
       const count = rollbackPointsStr ? JSON.parse(rollbackPointsStr).length : 0;
       const totalSize = rollbackPointsStr ? rollbackPointsStr.length : 0;
       const averageSize = count > 0 ? totalSize / count : 0;
@@ -282,7 +293,7 @@ export class RollbackService {
       const rollbackPoints = this.getRollbackPoints();
       rollbackPoints.unshift(rollbackPoint);
       
-      localStorage.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(rollbackPoints));
+      storageBackend.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(rollbackPoints));
     } catch (error) {
       throw new Error(`Failed to store rollback point: ${error}`);
     }
@@ -294,7 +305,7 @@ export class RollbackService {
       
       if (rollbackPoints.length > this.MAX_ROLLBACK_POINTS) {
         const trimmedPoints = rollbackPoints.slice(0, this.MAX_ROLLBACK_POINTS);
-        localStorage.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(trimmedPoints));
+        storageBackend.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(trimmedPoints));
       }
 
       // Also cleanup points older than 7 days
@@ -306,7 +317,7 @@ export class RollbackService {
       );
 
       if (recentPoints.length !== rollbackPoints.length) {
-        localStorage.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(recentPoints));
+        storageBackend.setItem(this.ROLLBACK_POINTS_KEY, JSON.stringify(recentPoints));
       }
     } catch (error) {
       this.errorHandler.handleError(
@@ -316,13 +327,16 @@ export class RollbackService {
     }
   }
 
-  private getFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch {
-      return defaultValue;
-    }
+  private getDomainsForKeys(keys: string[]): DataDomain[] {
+    if (keys.length === 0) return DATA_DOMAIN_NAMES;
+
+    return keys.map(key => {
+      const domain = StorageSchema.getDomainForKey(key);
+      if (!domain) {
+        throw new Error(`Unknown storage key for rollback: ${key}`);
+      }
+      return domain;
+    });
   }
 }
 
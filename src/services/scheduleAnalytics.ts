@@ -0,0 +1,228 @@
+import { Channel, Task, TaskCategory, TaskTemplate, WeeklySchedule } from '../types';
+import { formatLocalDate, getWeekKey, getWeekStartFromKey } from '../utils/helpers';
+import { RecurrenceEngine } from './recurrenceEngine';
+import { TaskSplitter } from './taskSplitting';
+import { TaskStatusManager } from './taskStatusManager';
+
+/**
+ * A date range from `start` (inclusive) to `end` (exclusive)
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface WeekUtilization {
+  weekKey: string;
+  scheduledHours: number;
+  capacityHours: number;
+  utilization: number; // Percentage of capacity, may exceed 100
+}
+
+export interface ChannelCompletionTrend {
+  channelId: string;
+  channelName: string;
+  color: string;
+  weeks: Array<{ weekKey: string; completionRate: number | null }>; // null for weeks without tasks
+}
+
+export interface WeekOverdueCount {
+  weekKey: string;
+  overdue: number;
+  total: number;
+}
+
+export interface CategoryHours {
+  category: TaskCategory | 'uncategorized';
+  taskCount: number;
+  estimatedHours: number;
+  actualHours: number;
+}
+
+export interface CadenceAdherence {
+  channelId: string;
+  channelName: string;
+  color: string;
+  expected: number; // Posting days that have passed in the range
+  delivered: number; // Posting days whose tasks were all completed
+  adherence: number | null; // Percentage, null when nothing was due
+}
+
+// Recurring task IDs end in the posting date, an index and optionally a step number
+const POSTING_DATE_PATTERN = /(\d{4}-\d{2}-\d{2})-\d+(?:-step-\d+)?$/;
+
+/**
+ * Service for analytics over stored schedule history
+ */
+export class ScheduleAnalytics {
+  /**
+   * Get the weeks that overlap a range, oldest first
+   */
+  static getWeeksInRange(
+    schedules: Record<string, WeeklySchedule>,
+    range: DateRange
+  ): Array<[string, WeeklySchedule]> {
+    const firstWeekStart = getWeekStartFromKey(getWeekKey(range.start));
+
+    return Object.entries(schedules)
+      .filter(([weekKey]) => {
+        const weekStart = getWeekStartFromKey(weekKey);
+        return weekStart >= firstWeekStart && weekStart < range.end;
+      })
+      .sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  /**
+   * Get the tasks scheduled to start within a range. Split tasks are represented by their parts.
+   */
+  static getTasksInRange(schedules: Record<string, WeeklySchedule>, range: DateRange): Task[] {
+    const tasks = Object.values(schedules).flatMap(schedule => schedule.tasks);
+
+    return TaskSplitter.getWorkItems(tasks).filter(task => {
+      const start = new Date(task.scheduledStart);
+      return start >= range.start && start < range.end;
+    });
+  }
+
+  /**
+   * Get scheduled hours against capacity for each week in a range
+   */
+  static getUtilizationTrend(schedules: Record<string, WeeklySchedule>, range: DateRange): WeekUtilization[] {
+    return this.getWeeksInRange(schedules, range).map(([weekKey, week]) => {
+      const scheduledHours = TaskSplitter.getWorkItems(week.tasks)
+        .reduce((sum, task) => sum + task.estimatedHours, 0);
+
+      return {
+        weekKey,
+        scheduledHours,
+        capacityHours: week.userCapacityHours,
+        utilization: week.userCapacityHours > 0 ? Math.round((scheduledHours / week.userCapacityHours) * 100) : 0,
+      };
+    });
+  }
+
+  /**
+   * Get each channel's completion rate for every week in a range
+   */
+  static getChannelCompletionTrend(
+    schedules: Record<string, WeeklySchedule>,
+    channels: Channel[],
+    range: DateRange
+  ): ChannelCompletionTrend[] {
+    const weeks = this.getWeeksInRange(schedules, range);
+
+    return channels.map(channel => ({
+      channelId: channel.id,
+      channelName: channel.name,
+      color: channel.color,
+      weeks: weeks.map(([weekKey, week]) => ({
+        weekKey,
+        completionRate: week.tasks.some(task => task.channelId === channel.id)
+          ? TaskStatusManager.calculateChannelCompletionRate(week.tasks, channel.id)
+          : null,
+      })),
+    }));
+  }
+
+  /**
+   * Count overdue tasks in each week of a range
+   */
+  static getOverdueTrend(schedules: Record<string, WeeklySchedule>, range: DateRange): WeekOverdueCount[] {
+    return this.getWeeksInRange(schedules, range).map(([weekKey, week]) => {
+      const workItems = TaskSplitter.getWorkItems(week.tasks);
+
+      return {
+        weekKey,
+        overdue: workItems.filter(task => task.status === 'overdue' || TaskStatusManager.isTaskOverdue(task)).length,
+        total: workItems.length,
+      };
+    });
+  }
+
+  /**
+   * Sum estimated and actual hours by the category of each task's template
+   */
+  static getHoursByCategory(
+    schedules: Record<string, WeeklySchedule>,
+    templates: TaskTemplate[],
+    range: DateRange
+  ): CategoryHours[] {
+    const categoryByTemplate = new Map(templates.map(template => [template.id, template.category]));
+    const totals = new Map<CategoryHours['category'], CategoryHours>();
+
+    this.getTasksInRange(schedules, range).forEach(task => {
+      const category = (task.templateId && categoryByTemplate.get(task.templateId)) || 'uncategorized';
+      const entry = totals.get(category) ?? { category, taskCount: 0, estimatedHours: 0, actualHours: 0 };
+
+      totals.set(category, {
+        category,
+        taskCount: entry.taskCount + 1,
+        estimatedHours: entry.estimatedHours + task.estimatedHours,
+        actualHours: entry.actualHours + (task.actualHours || 0),
+      });
+    });
+
+    return Array.from(totals.values()).sort((a, b) => b.estimatedHours - a.estimatedHours);
+  }
+
+  /**
+   * Compare the posting days each channel's schedule called for with the postings whose tasks
+   * were all completed. Only posting days that have already passed are counted.
+   */
+  static getPostingCadence(
+    schedules: Record<string, WeeklySchedule>,
+    channels: Channel[],
+    range: DateRange,
+    now: Date = new Date()
+  ): CadenceAdherence[] {
+    const tasks = Object.values(schedules).flatMap(schedule => TaskSplitter.getWorkItems(schedule.tasks));
+
+    return channels.map(channel => {
+      const start = new Date(Math.max(range.start.getTime(), new Date(channel.createdAt).getTime()));
+      const end = new Date(Math.min(range.end.getTime(), now.getTime()));
+      const occurrences = start < end ? RecurrenceEngine.expandPostingSchedule(channel, start, end) : [];
+
+      const tasksByPostingDate = new Map<string, Task[]>();
+      tasks
+        .filter(task => task.channelId === channel.id)
+        .forEach(task => {
+          const dateKey = this.getPostingDateKey(task);
+          tasksByPostingDate.set(dateKey, [...(tasksByPostingDate.get(dateKey) ?? []), task]);
+        });
+
+      const delivered = occurrences.filter(occurrence => {
+        const postingTasks = tasksByPostingDate.get(occurrence.dateKey) ?? [];
+        return postingTasks.length > 0 && postingTasks.every(task => task.status === 'completed');
+      }).length;
+
+      return {
+        channelId: channel.id,
+        channelName: channel.name,
+        color: channel.color,
+        expected: occurrences.length,
+        delivered,
+        adherence: occurrences.length > 0 ? Math.round((delivered / occurrences.length) * 100) : null,
+      };
+    });
+  }
+
+  /**
+   * Get the posting day a task belongs to: the day it was generated for, or the day it is scheduled
+   */
+  static getPostingDateKey(task: Task): string {
+    const match = task.recurrenceId?.match(POSTING_DATE_PATTERN);
+    return match ? match[1] : formatLocalDate(new Date(task.scheduledStart));
+  }
+
+  /**
+   * Get the range covered by stored weeks, or null when there is no history
+   */
+  static getHistoryRange(schedules: Record<string, WeeklySchedule>): DateRange | null {
+    const weekKeys = Object.keys(schedules).sort();
+    if (weekKeys.length === 0) return null;
+
+    const end = getWeekStartFromKey(weekKeys[weekKeys.length - 1]);
+    end.setDate(end.getDate() + 7);
+    return { start: getWeekStartFromKey(weekKeys[0]), end };
+  }
+}
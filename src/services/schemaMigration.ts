@@ -0,0 +1,267 @@
+import { APP_VERSION } from '../utils/constants';
+import { getWeekKey, getWeekStartFromKey } from '../utils/helpers';
+
+/**
+ * A persisted record in the shape of any past version
+ */
+export type StoredRecord = Record<string, unknown>;
+
+/**
+ * Persisted data as a migration sees it. Each migration narrows the fields it reads.
+ */
+export interface SchemaData {
+  channels: unknown[];
+  templates: unknown[];
+  schedules: Record<string, unknown>;
+  userSettings: StoredRecord;
+  legacyTemplates?: unknown[]; // Stored data only: templates found under the key used before 1.1.0
+}
+
+/**
+ * One step of the migration pipeline, upgrading data to `version`
+ */
+export interface SchemaMigration {
+  version: string;
+  description: string;
+  migrate: (data: SchemaData) => { data: SchemaData; changes: string[] };
+}
+
+/**
+ * What a migration run did, or would do in a dry run
+ */
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  dryRun: boolean;
+  steps: Array<{ version: string; description: string; changes: string[] }>;
+  warnings: string[];
+  backupId?: string;
+}
+
+// Content types that were fixed options before channels could use custom content types
+const PREDEFINED_TO_CUSTOM_CONTENT_TYPES: Record<string, string> = {
+  gaming: 'Gaming',
+  educational: 'Educational',
+  entertainment: 'Entertainment',
+  lifestyle: 'Lifestyle',
+  other: 'General',
+};
+
+// Narrowing helpers for stored fields
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const asNumber = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+const asStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const asDate = (value: unknown): Date =>
+  value instanceof Date || typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN);
+
+// Schedules used to be keyed by the UTC date of a Sunday week start; keys are now the local date of the
+// Monday starting the week. The middle of an old week decides the Monday-based week it becomes.
+const getMigratedWeekKey = (oldKey: string, schedule: StoredRecord): string => {
+  const storedStart = asDate(schedule.weekStartDate);
+  const midWeek = Number.isNaN(storedStart.getTime()) ? getWeekStartFromKey(oldKey) : storedStart;
+  midWeek.setDate(midWeek.getDate() + 3);
+  return getWeekKey(midWeek);
+};
+
+const migrations: SchemaMigration[] = [
+  {
+    version: '1.1.0',
+    description: 'Convert predefined channel content types to custom content types',
+    migrate: (data) => {
+      const changes: string[] = [];
+      const storedContentTypes = asStrings(data.userSettings.customContentTypes);
+      const customContentTypes = new Set<string>(storedContentTypes);
+
+      const channels = data.channels.map(channel => {
+        if (!isRecord(channel)) return channel;
+        const storedType = asString(channel.contentType);
+        if (storedType === undefined) return channel;
+
+        const contentType = PREDEFINED_TO_CUSTOM_CONTENT_TYPES[storedType] ?? storedType;
+        if (contentType) customContentTypes.add(contentType);
+        if (contentType === storedType) return channel;
+
+        changes.push(`Channel "${asString(channel.name)}": content type "${storedType}" is now "${contentType}"`);
+        return { ...channel, contentType };
+      });
+
+      if (customContentTypes.size === 0) customContentTypes.add('General');
+      const addedTypes = [...customContentTypes].filter(type => !storedContentTypes.includes(type));
+      if (addedTypes.length > 0) {
+        changes.push(`Added custom content types: ${addedTypes.join(', ')}`);
+      }
+
+      return {
+        data: { ...data, channels, userSettings: { ...data.userSettings, customContentTypes: [...customContentTypes] } },
+        changes,
+      };
+    },
+  },
+  {
+    version: '1.1.0',
+    description: 'Key weekly schedules by the local date of the Monday starting each week',
+    migrate: (data) => {
+      const changes: string[] = [];
+      const schedules: Record<string, StoredRecord & { tasks: StoredRecord[] }> = {};
+      const changedWeeks = new Set<string>();
+      let movedTasks = 0;
+
+      const getWeek = (weekKey: string, shape: StoredRecord) => {
+        if (!schedules[weekKey]) {
+          schedules[weekKey] = { ...shape, weekStartDate: getWeekStartFromKey(weekKey), tasks: [] };
+        }
+        return schedules[weekKey];
+      };
+
+      Object.entries(data.schedules).forEach(([oldKey, storedSchedule]) => {
+        const schedule = isRecord(storedSchedule) ? storedSchedule : {};
+        const weekKey = getMigratedWeekKey(oldKey, schedule);
+        if (weekKey !== oldKey) {
+          changes.push(`Week ${oldKey} is now stored as week ${weekKey}`);
+          changedWeeks.add(weekKey);
+        }
+        getWeek(weekKey, schedule);
+
+        // Each task belongs to the week it is scheduled in, which may now be a neighbouring one
+        (Array.isArray(schedule.tasks) ? schedule.tasks.filter(isRecord) : []).forEach(task => {
+          const scheduledStart = asDate(task.scheduledStart);
+          const taskWeekKey = Number.isNaN(scheduledStart.getTime()) ? weekKey : getWeekKey(scheduledStart);
+          if (taskWeekKey !== weekKey) {
+            movedTasks++;
+            changedWeeks.add(weekKey).add(taskWeekKey);
+          }
+
+          const week = getWeek(taskWeekKey, schedule);
+          if (!week.tasks.some(existing => existing.id === task.id)) week.tasks.push(task);
+        });
+      });
+
+      if (movedTasks > 0) {
+        changes.push(`Moved ${movedTasks} task(s) to the week they are scheduled in`);
+      }
+
+      // Weeks that were merged, gained or lost tasks need their totals recalculated
+      changedWeeks.forEach(weekKey => {
+        const week = schedules[weekKey];
+        // Split tasks are counted through their parts, as in TaskSplitter.getWorkItems
+        const totalScheduledHours = week.tasks
+          .filter(task => asStrings(task.childTaskIds).length === 0)
+          .reduce((sum, task) => sum + (asNumber(task.estimatedHours) ?? 0), 0);
+        const capacityHours = asNumber(week.userCapacityHours) ?? asNumber(data.userSettings.weeklyCapacityHours) ?? 40;
+        schedules[weekKey] = {
+          ...week,
+          totalScheduledHours,
+          isOverloaded: totalScheduledHours > capacityHours,
+        };
+      });
+
+      return { data: { ...data, schedules }, changes };
+    },
+  },
+  {
+    version: '1.1.0',
+    description: 'Move templates saved under the old templates key into task templates',
+    migrate: ({ legacyTemplates = [], ...data }) => {
+      const templateIds = new Set(data.templates.filter(isRecord).map(template => template.id));
+      const movedTemplates = legacyTemplates.filter(isRecord).filter(template => template.id && !templateIds.has(template.id));
+
+      return {
+        data: { ...data, templates: [...data.templates, ...movedTemplates] },
+        changes: movedTemplates.map(template => {
+          const name = asString(template.title) ?? asString(template.name) ?? asString(template.id);
+          return `Template "${name}" moved from the old templates key`;
+        }),
+      };
+    },
+  },
+];
+
+/**
+ * Ordered registry of schema migrations that upgrades persisted data from any past version to the current one
+ */
+export class SchemaMigrator {
+  /**
+   * Compare two x.y.z versions; negative when a is older than b
+   */
+  static compareVersions(a: string, b: string): number {
+    const aParts = a.split('.').map(part => parseInt(part, 10) || 0);
+    const bParts = b.split('.').map(part => parseInt(part, 10) || 0);
+
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+      const difference = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  }
+
+  /**
+   * Add a migration to the registry, keeping it ordered by version
+   */
+  static register(migration: SchemaMigration): void {
+    if (migrations.some(m => m.version === migration.version)) {
+      throw new Error(`A migration to version ${migration.version} is already registered`);
+    }
+
+    migrations.push(migration);
+    migrations.sort((a, b) => this.compareVersions(a.version, b.version));
+  }
+
+  static getMigrations(): SchemaMigration[] {
+    return [...migrations];
+  }
+
+  /**
+   * Migrations that upgrade data saved by `fromVersion` to `toVersion`, in the order they run
+   */
+  static getPendingMigrations(fromVersion: string, toVersion: string = APP_VERSION): SchemaMigration[] {
+    return migrations.filter(migration =>
+      this.compareVersions(migration.version, fromVersion) > 0 &&
+      this.compareVersions(migration.version, toVersion) <= 0
+    );
+  }
+
+  /**
+   * Run the pending migrations over a copy of the data. The input is never modified,
+   * so a dry run only needs to discard the returned data.
+   */
+  static migrate(
+    data: SchemaData,
+    fromVersion: string,
+    options: { toVersion?: string; dryRun?: boolean } = {}
+  ): { data: SchemaData; report: MigrationReport } {
+    const toVersion = options.toVersion ?? APP_VERSION;
+    const report: MigrationReport = {
+      fromVersion,
+      toVersion,
+      dryRun: options.dryRun ?? false,
+      steps: [],
+      warnings: [],
+    };
+
+    if (this.compareVersions(fromVersion, toVersion) > 0) {
+      report.warnings.push(`Data was saved by a newer version (${fromVersion}) and cannot be migrated to ${toVersion}`);
+      report.toVersion = fromVersion;
+      return { data, report };
+    }
+
+    let migrated: SchemaData = structuredClone(data);
+    for (const migration of this.getPendingMigrations(fromVersion, toVersion)) {
+      try {
+        const result = migration.migrate(migrated);
+        migrated = result.data;
+        report.steps.push({ version: migration.version, description: migration.description, changes: result.changes });
+      } catch (error) {
+        throw new Error(`Migration to ${migration.version} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return { data: migrated, report };
+  }
+}
@@ -0,0 +1,119 @@
+export type StorageBackendName = 'indexeddb' | 'localStorage';
+
+/**
+ * An asynchronous key-value store holding serialized values
+ */
+export interface StorageAdapter {
+  readonly name: StorageBackendName;
+  entries(): Promise<Array<[string, string]>>;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  close(): void;
+}
+
+/**
+ * Adapter over the localStorage keys matching `ownsKey`
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage' as const;
+
+  constructor(private readonly ownsKey: (key: string) => boolean = () => true) {}
+
+  async entries(): Promise<Array<[string, string]>> {
+    const entries: Array<[string, string]> = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const value = key !== null && this.ownsKey(key) ? localStorage.getItem(key) : null;
+      if (key !== null && value !== null) {
+        entries.push([key, value]);
+      }
+    }
+    return entries;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  close(): void {}
+}
+
+const DATABASE_NAME = 'mcm';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Adapter over a single IndexedDB object store, which is not limited to the ~5 MB localStorage quota
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'indexeddb' as const;
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  /**
+   * Open the app database, creating its store on first use
+   */
+  static open(factory: IDBFactory = indexedDB, databaseName: string = DATABASE_NAME): Promise<IndexedDBAdapter> {
+    return new Promise((resolve, reject) => {
+      const request = factory.open(databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(new IndexedDBAdapter(request.result));
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+      request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another open tab'));
+    });
+  }
+
+  async entries(): Promise<Array<[string, string]>> {
+    const store = this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    // Both requests run in one transaction, so keys and values line up
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll()),
+    ]);
+    return keys.map((key, index) => [String(key), values[index]]);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const store = this.db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return (await requestToPromise(store.get(key))) ?? null;
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.write(store => store.put(value, key));
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.write(store => store.delete(key));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // Resolve once the transaction commits rather than when the request succeeds, so the write is durable
+  private write(operation: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(STORE_NAME, 'readwrite');
+      operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
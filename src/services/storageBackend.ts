@@ -0,0 +1,170 @@
+import { IndexedDBAdapter, LocalStorageAdapter, StorageAdapter, StorageBackendName } from './storageAdapter';
+import { STORAGE_KEYS } from '../utils/constants';
+
+/**
+ * Keys that grow with history and are moved off localStorage when IndexedDB is available:
+ * schedules, backups with their metadata, rollback points and the audit log
+ */
+export const isLargeDataKey = (key: string): boolean =>
+  key === STORAGE_KEYS.SCHEDULES ||
+  key === STORAGE_KEYS.ROLLBACK_POINTS ||
+  key === STORAGE_KEYS.AUDIT_LOG ||
+  key.startsWith(STORAGE_KEYS.BACKUP_PREFIX);
+
+/**
+ * Synchronous key-value access for persistence services. Large data keys live in a pluggable
+ * adapter (IndexedDB once initialized) behind an in-memory cache, with writes persisted in the
+ * background; every other key, and every key until initialization, stays in localStorage.
+ */
+export class StorageBackend {
+  private static instance: StorageBackend;
+  private adapter: StorageAdapter | null = null;
+  private cache = new Map<string, string>();
+  private pendingWrites = new Set<Promise<void>>();
+
+  private constructor() {}
+
+  static getInstance(): StorageBackend {
+    if (!StorageBackend.instance) {
+      StorageBackend.instance = new StorageBackend();
+    }
+    return StorageBackend.instance;
+  }
+
+  /**
+   * Move large data keys to IndexedDB, or the given adapter, and load them into memory.
+   * Falls back to localStorage when IndexedDB is unavailable or fails to open.
+   */
+  async initialize(adapter?: StorageAdapter): Promise<StorageBackendName> {
+    if (this.adapter) return this.adapter.name;
+
+    let target: StorageAdapter | undefined = adapter;
+    try {
+      if (!target) {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('⚠️ IndexedDB is not available, keeping all data in localStorage');
+          return 'localStorage';
+        }
+        target = await IndexedDBAdapter.open();
+      }
+
+      const cache = new Map(await target.entries());
+      await this.migrateFromLocalStorage(target, cache);
+
+      this.cache = cache;
+      this.adapter = target;
+      console.log(`✅ Storage backend ready: ${target.name} (${cache.size} keys)`);
+      return target.name;
+    } catch (error) {
+      console.warn('⚠️ Failed to initialize storage backend, keeping all data in localStorage:', error);
+      target?.close();
+      return 'localStorage';
+    }
+  }
+
+  getBackendName(): StorageBackendName {
+    return this.adapter?.name ?? 'localStorage';
+  }
+
+  getItem(key: string): string | null {
+    if (this.adapter && isLargeDataKey(key)) {
+      return this.cache.get(key) ?? null;
+    }
+    return localStorage.getItem(key);
+  }
+
+  /**
+   * Store a serialized value. localStorage writes throw synchronously, e.g. on quota errors;
+   * adapter writes are persisted in the background and awaited by `flush`.
+   */
+  setItem(key: string, value: string): void {
+    if (this.adapter && isLargeDataKey(key)) {
+      this.cache.set(key, value);
+      this.track(this.adapter.setItem(key, value), key);
+      return;
+    }
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    if (this.adapter && isLargeDataKey(key)) {
+      this.cache.delete(key);
+      this.track(this.adapter.removeItem(key), key);
+      return;
+    }
+    localStorage.removeItem(key);
+  }
+
+  /**
+   * Re-read a large data key from the adapter after another tab wrote it
+   */
+  async reload(key: string): Promise<void> {
+    if (!this.adapter || !isLargeDataKey(key)) return;
+
+    await this.flush();
+    const cached = this.cache.get(key);
+    const value = await this.adapter.getItem(key);
+
+    // A write made while reading is newer than the value read
+    if (this.cache.get(key) !== cached) return;
+    if (value === null) {
+      this.cache.delete(key);
+    } else {
+      this.cache.set(key, value);
+    }
+  }
+
+  /**
+   * Every stored key, wherever it lives
+   */
+  keys(): string[] {
+    const keys = new Set(this.cache.keys());
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.add(key);
+    }
+    return [...keys];
+  }
+
+  /**
+   * Wait until background writes have been persisted
+   */
+  async flush(): Promise<void> {
+    while (this.pendingWrites.size > 0) {
+      await Promise.all(this.pendingWrites);
+    }
+  }
+
+  /**
+   * Persist pending writes and go back to keeping everything in localStorage
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.adapter?.close();
+    this.adapter = null;
+    this.cache.clear();
+  }
+
+  // Data written before IndexedDB was available is copied over once. Where IndexedDB already
+  // holds a key, the localStorage copy can only be a default written before initialization.
+  private async migrateFromLocalStorage(target: StorageAdapter, cache: Map<string, string>): Promise<void> {
+    const legacy = new LocalStorageAdapter(isLargeDataKey);
+
+    for (const [key, value] of await legacy.entries()) {
+      if (!cache.has(key)) {
+        await target.setItem(key, value);
+        cache.set(key, value);
+      }
+      await legacy.removeItem(key);
+    }
+  }
+
+  private track(write: Promise<void>, key: string): void {
+    const tracked = write
+      .catch(error => console.error(`❌ Failed to persist ${key} to ${this.getBackendName()}:`, error))
+      .finally(() => this.pendingWrites.delete(tracked));
+    this.pendingWrites.add(tracked);
+  }
+}
+
+export const storageBackend = StorageBackend.getInstance();
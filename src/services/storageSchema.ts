@@ -0,0 +1,160 @@
+import { AppState, Channel, TaskTemplate, WeeklySchedule } from '../types';
+import { STORAGE_KEYS } from '../utils/constants';
+import { storageBackend } from './storageBackend';
+
+/**
+ * Every data domain the app persists. Backups, rollback points and recovery snapshots capture all of them.
+ */
+export interface StoredData {
+  channels: Channel[];
+  templates: TaskTemplate[];
+  schedules: Record<string, WeeklySchedule>;
+  userSettings: Partial<AppState['userSettings']>;
+}
+
+export type DataDomain = keyof StoredData;
+
+/**
+ * Where and in what shape a data domain is stored
+ */
+export interface DataDomainDefinition<D extends DataDomain = DataDomain> {
+  key: string;
+  label: string;
+  shape: 'array' | 'object';
+  defaultValue: () => StoredData[D];
+}
+
+/**
+ * A copy of some or all data domains, listing the domains it captured
+ */
+export type DataSnapshot = Partial<StoredData> & { domains?: DataDomain[] };
+
+export const DATA_DOMAINS: { [D in DataDomain]: DataDomainDefinition<D> } = {
+  channels: { key: STORAGE_KEYS.CHANNELS, label: 'Channels', shape: 'array', defaultValue: () => [] },
+  templates: { key: STORAGE_KEYS.TASK_TEMPLATES, label: 'Templates', shape: 'array', defaultValue: () => [] },
+  schedules: { key: STORAGE_KEYS.SCHEDULES, label: 'Schedules', shape: 'object', defaultValue: () => ({}) },
+  userSettings: { key: STORAGE_KEYS.USER_SETTINGS, label: 'User settings', shape: 'object', defaultValue: () => ({}) },
+};
+
+export const DATA_DOMAIN_NAMES = Object.keys(DATA_DOMAINS) as DataDomain[];
+
+// Snapshots taken before domains were recorded read templates from a key nothing wrote to,
+// so their templates are empty or stale and must not be restored
+const LEGACY_SNAPSHOT_DOMAINS: DataDomain[] = ['channels', 'schedules', 'userSettings'];
+
+const SYSTEM_KEYS: string[] = [
+  STORAGE_KEYS.APP_VERSION,
+  STORAGE_KEYS.BACKUP_METADATA,
+  STORAGE_KEYS.ROLLBACK_POINTS,
+  STORAGE_KEYS.RECOVERY_LOG,
+  STORAGE_KEYS.LAST_KNOWN_GOOD,
+  STORAGE_KEYS.SYNC_MESSAGE,
+  STORAGE_KEYS.REMOTE_SYNC,
+  STORAGE_KEYS.CURRENT_MEMBER,
+  STORAGE_KEYS.AUDIT_LOG,
+  STORAGE_KEYS.AUDIT_RETENTION,
+  STORAGE_KEYS.BACKUP_POLICY,
+];
+
+const getShapeIssue = ({ label, shape }: DataDomainDefinition) => `${label} data is not an ${shape}`;
+const getParseIssue = ({ label }: DataDomainDefinition) => `Stored ${label.toLowerCase()} data could not be parsed`;
+
+const hasShape = (value: unknown, shape: DataDomainDefinition['shape']): boolean =>
+  shape === 'array' ? Array.isArray(value) : typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Typed access to the persisted data domains for services that work on raw storage
+ */
+export class StorageSchema {
+  static getKey(domain: DataDomain): string {
+    return DATA_DOMAINS[domain].key;
+  }
+
+  static getDomainForKey(key: string): DataDomain | undefined {
+    return DATA_DOMAIN_NAMES.find(domain => DATA_DOMAINS[domain].key === key);
+  }
+
+  /**
+   * Keys owned by the app, so anything else under the app prefix is orphaned
+   */
+  static isKnownKey(key: string): boolean {
+    return !!this.getDomainForKey(key) || SYSTEM_KEYS.includes(key) || key.startsWith(STORAGE_KEYS.BACKUP_PREFIX);
+  }
+
+  /**
+   * Read a domain as stored, falling back to its default when it is missing or unreadable
+   */
+  static read<D extends DataDomain>(domain: D): StoredData[D] {
+    try {
+      const item = storageBackend.getItem(this.getKey(domain));
+      return item ? JSON.parse(item) : DATA_DOMAINS[domain].defaultValue();
+    } catch {
+      return DATA_DOMAINS[domain].defaultValue();
+    }
+  }
+
+  static write<D extends DataDomain>(domain: D, value: StoredData[D]): void {
+    storageBackend.setItem(this.getKey(domain), JSON.stringify(value));
+  }
+
+  /**
+   * Describe what is wrong with a stored domain, or return null when it is readable and well shaped
+   */
+  static inspect(domain: DataDomain): string | null {
+    const definition: DataDomainDefinition = DATA_DOMAINS[domain];
+    const item = storageBackend.getItem(definition.key);
+    if (item === null) return null;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(item);
+    } catch {
+      return getParseIssue(definition);
+    }
+    return hasShape(value, definition.shape) ? null : getShapeIssue(definition);
+  }
+
+  /**
+   * The domain an issue reported by `inspect` is about
+   */
+  static getDomainForIssue(issue: string): DataDomain | undefined {
+    return DATA_DOMAIN_NAMES.find(domain => {
+      const definition: DataDomainDefinition = DATA_DOMAINS[domain];
+      return issue === getShapeIssue(definition) || issue === getParseIssue(definition);
+    });
+  }
+
+  /**
+   * Snapshot the given domains from storage
+   */
+  static readSnapshot(domains: DataDomain[] = DATA_DOMAIN_NAMES): DataSnapshot {
+    const snapshot: DataSnapshot = { domains: [...domains] };
+    domains.forEach(domain => {
+      (snapshot as Record<DataDomain, unknown>)[domain] = this.read(domain);
+    });
+    return snapshot;
+  }
+
+  /**
+   * Domains a snapshot holds trustworthy copies of
+   */
+  static getCapturedDomains(snapshot: DataSnapshot): DataDomain[] {
+    const domains = snapshot.domains ?? LEGACY_SNAPSHOT_DOMAINS;
+    return domains.filter(domain => DATA_DOMAINS[domain] && snapshot[domain] !== undefined);
+  }
+
+  static getMissingDomains(snapshot: DataSnapshot): DataDomain[] {
+    const captured = this.getCapturedDomains(snapshot);
+    return DATA_DOMAIN_NAMES.filter(domain => !captured.includes(domain));
+  }
+
+  /**
+   * Write the captured domains of a snapshot back to storage, limited to `domains` when given.
+   * Returns the domains written.
+   */
+  static writeSnapshot(snapshot: DataSnapshot, domains: DataDomain[] = DATA_DOMAIN_NAMES): DataDomain[] {
+    const written = this.getCapturedDomains(snapshot).filter(domain => domains.includes(domain));
+    written.forEach(domain => this.write(domain, snapshot[domain] as StoredData[typeof domain]));
+    return written;
+  }
+}
@@ -0,0 +1,258 @@
+import { Task, TaskTemplate } from '../types';
+import { getTimeSlotForDate } from '../utils/helpers';
+
+export type DependencyViolationType = 'starts_before_dependency' | 'circular_dependency' | 'missing_dependency';
+
+export interface DependencyViolation {
+  task: Task;
+  dependencyId: string;
+  type: DependencyViolationType;
+  message: string;
+}
+
+/**
+ * Service for task-to-task dependencies: a task may only start once every task it depends on
+ * has finished, and it counts as blocked until those tasks are completed.
+ */
+export class TaskDependencyManager {
+  /**
+   * Get the tasks a task depends on that are present in the list
+   */
+  static getDependencies(task: Task, tasks: Task[]): Task[] {
+    const dependencyIds = new Set(task.dependsOn ?? []);
+    return tasks.filter(t => dependencyIds.has(t.id));
+  }
+
+  /**
+   * Get the tasks that depend directly on a task
+   */
+  static getDependents(taskId: string, tasks: Task[]): Task[] {
+    return tasks.filter(task => task.dependsOn?.includes(taskId));
+  }
+
+  /**
+   * Get the dependencies of a task that are not completed yet
+   */
+  static getBlockingTasks(task: Task, tasks: Task[]): Task[] {
+    return this.getDependencies(task, tasks).filter(dependency => dependency.status !== 'completed');
+  }
+
+  /**
+   * Check whether a task is waiting on unfinished dependencies
+   */
+  static isBlocked(task: Task, tasks: Task[]): boolean {
+    return this.getBlockingTasks(task, tasks).length > 0;
+  }
+
+  /**
+   * Map every unfinished, blocked task to the tasks it is waiting on
+   */
+  static getBlockedTasks(tasks: Task[]): Map<string, Task[]> {
+    const blocked = new Map<string, Task[]>();
+
+    tasks.forEach(task => {
+      if (task.status === 'completed') return;
+      const blockingTasks = this.getBlockingTasks(task, tasks);
+      if (blockingTasks.length > 0) blocked.set(task.id, blockingTasks);
+    });
+
+    return blocked;
+  }
+
+  /**
+   * Get the tasks that completing a task would unblock
+   */
+  static getTasksUnblockedBy(taskId: string, tasks: Task[]): Task[] {
+    return this.getDependents(taskId, tasks).filter(dependent =>
+      dependent.status !== 'completed' &&
+      this.getBlockingTasks(dependent, tasks).every(blocking => blocking.id === taskId)
+    );
+  }
+
+  /**
+   * Get the earliest moment a task may start: when its last dependency is scheduled to end
+   */
+  static getEarliestStart(task: Task, tasks: Task[]): Date | null {
+    const dependencies = this.getDependencies(task, tasks);
+    if (dependencies.length === 0) return null;
+
+    return new Date(Math.max(...dependencies.map(dependency => new Date(dependency.scheduledEnd).getTime())));
+  }
+
+  /**
+   * Check whether making a task depend on another would create a cycle
+   */
+  static wouldCreateCycle(taskId: string, dependencyId: string, tasks: Task[]): boolean {
+    if (taskId === dependencyId) return true;
+
+    // Walk the new dependency's own dependencies looking for the task
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const visited = new Set<string>();
+    const stack = [dependencyId];
+
+    while (stack.length > 0) {
+      const currentId = stack.pop()!;
+      if (currentId === taskId) return true;
+      if (visited.has(currentId)) continue;
+      visited.add(currentId);
+      stack.push(...(tasksById.get(currentId)?.dependsOn ?? []));
+    }
+
+    return false;
+  }
+
+  /**
+   * Add a dependency to a task and return its new dependency list
+   */
+  static addDependency(task: Task, dependencyId: string, tasks: Task[]): string[] {
+    const dependsOn = task.dependsOn ?? [];
+    if (dependsOn.includes(dependencyId)) return dependsOn;
+
+    if (this.wouldCreateCycle(task.id, dependencyId, tasks)) {
+      throw new Error(`"${task.title}" cannot depend on a task that waits on it`);
+    }
+
+    return [...dependsOn, dependencyId];
+  }
+
+  /**
+   * Find tasks scheduled to start before a dependency ends, dependency cycles and
+   * dependencies that cannot be found
+   */
+  static findViolations(tasks: Task[]): DependencyViolation[] {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    const violations: DependencyViolation[] = [];
+
+    tasks.forEach(task => {
+      (task.dependsOn ?? []).forEach(dependencyId => {
+        const dependency = tasksById.get(dependencyId);
+
+        if (!dependency) {
+          violations.push({
+            task,
+            dependencyId,
+            type: 'missing_dependency',
+            message: `Task "${task.title}" depends on non-existent task: ${dependencyId}`,
+          });
+        } else if (this.wouldCreateCycle(task.id, dependencyId, tasks)) {
+          violations.push({
+            task,
+            dependencyId,
+            type: 'circular_dependency',
+            message: `Tasks "${task.title}" and "${dependency.title}" depend on each other`,
+          });
+        } else if (new Date(task.scheduledStart) < new Date(dependency.scheduledEnd)) {
+          violations.push({
+            task,
+            dependencyId,
+            type: 'starts_before_dependency',
+            message: `Task "${task.title}" is scheduled to start before "${dependency.title}" ends`,
+          });
+        }
+      });
+    });
+
+    return violations;
+  }
+
+  /**
+   * Order tasks so every task comes after the tasks it depends on, otherwise keeping the given order.
+   * Tasks on a dependency cycle keep their relative order at the end.
+   */
+  static sortByDependencies(tasks: Task[]): Task[] {
+    const taskIds = new Set(tasks.map(task => task.id));
+    const sorted: Task[] = [];
+    const placed = new Set<string>();
+    let remaining = [...tasks];
+
+    while (remaining.length > 0) {
+      const ready = remaining.filter(task =>
+        (task.dependsOn ?? []).every(id => placed.has(id) || !taskIds.has(id))
+      );
+      if (ready.length === 0) break;
+
+      ready.forEach(task => {
+        sorted.push(task);
+        placed.add(task.id);
+      });
+      remaining = remaining.filter(task => !placed.has(task.id));
+    }
+
+    return [...sorted, ...remaining];
+  }
+
+  /**
+   * Move tasks later where needed so each starts when its dependencies end, keeping durations
+   */
+  static scheduleAfterDependencies(tasks: Task[]): Task[] {
+    const scheduled = new Map<string, Task>();
+
+    this.sortByDependencies(tasks).forEach(task => {
+      const earliestStart = this.getEarliestStart(task, Array.from(scheduled.values()));
+      const start = new Date(task.scheduledStart);
+
+      if (!earliestStart || earliestStart <= start) {
+        scheduled.set(task.id, task);
+        return;
+      }
+
+      const durationMs = new Date(task.scheduledEnd).getTime() - start.getTime();
+      scheduled.set(task.id, {
+        ...task,
+        scheduledStart: earliestStart,
+        scheduledEnd: new Date(earliestStart.getTime() + durationMs),
+        timeSlot: getTimeSlotForDate(earliestStart),
+      });
+    });
+
+    return tasks.map(task => scheduled.get(task.id)!);
+  }
+
+  /**
+   * Make each task depend on the one before it, e.g. the steps of a workflow
+   */
+  static chain(tasks: Task[]): Task[] {
+    return tasks.map((task, index) =>
+      index === 0 ? task : { ...task, dependsOn: this.mergeIds(task.dependsOn, [tasks[index - 1].id]) }
+    );
+  }
+
+  /**
+   * Remove references to deleted tasks from dependency lists
+   */
+  static removeDependencies(tasks: Task[], removedIds: Set<string>): Task[] {
+    return tasks.map(task =>
+      task.dependsOn?.some(id => removedIds.has(id))
+        ? { ...task, dependsOn: task.dependsOn.filter(id => !removedIds.has(id)) }
+        : task
+    );
+  }
+
+  /**
+   * Get the templates that directly or indirectly wait on a template.
+   * A template may not depend on any of these without creating a cycle.
+   */
+  static getDependentTemplateIds(templateId: string, templates: TaskTemplate[]): Set<string> {
+    const dependentIds = new Set<string>();
+    const stack = [templateId];
+
+    while (stack.length > 0) {
+      const currentId = stack.pop()!;
+      templates
+        .filter(template => template.dependsOnTemplateIds?.includes(currentId) && !dependentIds.has(template.id))
+        .forEach(template => {
+          dependentIds.add(template.id);
+          stack.push(template.id);
+        });
+    }
+
+    return dependentIds;
+  }
+
+  /**
+   * Combine ID lists without duplicates
+   */
+  static mergeIds(existing: string[] | undefined, added: string[]): string[] {
+    return Array.from(new Set([...(existing ?? []), ...added]));
+  }
+}
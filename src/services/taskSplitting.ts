@@ -0,0 +1,134 @@
+import { Task, TaskSplitPart, TaskStatus } from '../types';
+import { getTimeSlotForDate } from '../utils/helpers';
+
+/**
+ * Service for dividing a task into linked parts and rolling their progress up into the original task.
+ * The original task stays in the schedule as the parent record; only its parts count as scheduled work.
+ */
+export class TaskSplitter {
+  /**
+   * Check whether a task can be divided into parts
+   */
+  static canSplit(task: Task): boolean {
+    return !this.isSplitParent(task) && !this.isSplitPart(task) && task.status !== 'completed';
+  }
+
+  /**
+   * Split a task into child parts. Part hours are scaled so the parts add up to the task estimate.
+   */
+  static splitTask(task: Task, parts: TaskSplitPart[]): { parent: Task; children: Task[] } {
+    if (!this.canSplit(task)) {
+      throw new Error(`Task "${task.title}" cannot be split`);
+    }
+    if (parts.length < 2) {
+      throw new Error('A task must be split into at least two parts');
+    }
+    if (parts.some(part => part.hours <= 0)) {
+      throw new Error('Every part must have a positive number of hours');
+    }
+
+    const requestedHours = parts.reduce((sum, part) => sum + part.hours, 0);
+    let remainingHours = task.estimatedHours;
+
+    const children = parts.map((part, index): Task => {
+      const isLast = index === parts.length - 1;
+      const estimatedHours = isLast
+        ? Math.round(remainingHours * 100) / 100
+        : Math.round((task.estimatedHours * part.hours / requestedHours) * 100) / 100;
+      remainingHours -= estimatedHours;
+
+      const scheduledStart = new Date(part.start);
+      const scheduledEnd = new Date(scheduledStart);
+      scheduledEnd.setMinutes(scheduledEnd.getMinutes() + Math.round(estimatedHours * 60));
+
+      // Work already logged against the task carries over to the first part
+      const isFirst = index === 0;
+
+      return {
+        id: `${task.id}-part-${index + 1}`,
+        channelId: task.channelId,
+        templateId: task.templateId,
+        title: `${task.title} (Part ${index + 1}/${parts.length})`,
+        description: task.description,
+        estimatedHours,
+        status: isFirst && task.status === 'in-progress' ? 'in-progress' : 'planned',
+        scheduledStart,
+        scheduledEnd,
+        timeSlot: getTimeSlotForDate(scheduledStart),
+        actualHours: isFirst ? task.actualHours : undefined,
+        priority: task.priority,
+        assigneeId: task.assigneeId,
+        parentTaskId: task.id,
+        // Every part waits on what the task waited on
+        dependsOn: task.dependsOn,
+      };
+    });
+
+    const parent = this.rollUp({ ...task, childTaskIds: children.map(child => child.id) }, children);
+
+    return { parent, children };
+  }
+
+  /**
+   * Derive a split task's status, hours and time span from its parts
+   */
+  static rollUp(parent: Task, children: Task[]): Task {
+    if (children.length === 0) return parent;
+
+    const loggedParts = children.filter(child => child.actualHours !== undefined);
+
+    return {
+      ...parent,
+      status: this.rollUpStatus(children),
+      estimatedHours: children.reduce((sum, child) => sum + child.estimatedHours, 0),
+      actualHours: loggedParts.length > 0
+        ? loggedParts.reduce((sum, child) => sum + (child.actualHours || 0), 0)
+        : parent.actualHours,
+      scheduledStart: new Date(Math.min(...children.map(child => new Date(child.scheduledStart).getTime()))),
+      scheduledEnd: new Date(Math.max(...children.map(child => new Date(child.scheduledEnd).getTime()))),
+    };
+  }
+
+  /**
+   * All parts completed means done; any overdue part makes the task overdue;
+   * any started or finished part means the task is in progress
+   */
+  static rollUpStatus(children: Task[]): TaskStatus {
+    if (children.every(child => child.status === 'completed')) return 'completed';
+    if (children.some(child => child.status === 'overdue')) return 'overdue';
+    if (children.some(child => child.status === 'in-progress' || child.status === 'completed')) {
+      return 'in-progress';
+    }
+    return 'planned';
+  }
+
+  /**
+   * Check whether a task has been split into parts
+   */
+  static isSplitParent(task: Task): boolean {
+    return Boolean(task.childTaskIds && task.childTaskIds.length > 0);
+  }
+
+  /**
+   * Check whether a task is a part of a split task
+   */
+  static isSplitPart(task: Task): boolean {
+    return Boolean(task.parentTaskId);
+  }
+
+  /**
+   * Get the parts of a split task from a list of tasks
+   */
+  static getParts(parent: Task, tasks: Task[]): Task[] {
+    const childIds = new Set(parent.childTaskIds ?? []);
+    return tasks.filter(task => childIds.has(task.id));
+  }
+
+  /**
+   * Get the tasks that represent schedulable work, leaving out split parents
+   * so their hours are not counted twice
+   */
+  static getWorkItems(tasks: Task[]): Task[] {
+    return tasks.filter(task => !this.isSplitParent(task));
+  }
+}
@@ -1,4 +1,7 @@
 import { Task, TaskStatus } from '../types';
+import { TaskSplitter } from './taskSplitting';
+import { TaskStepTracker } from './taskSteps';
+import { TimeTracker } from './timeTracking';
 
 /**
  * Service for managing task status updates and related business logic
@@ -18,7 +21,16 @@ export class TaskStatusManager {
 
     // Handle completion logic
     if (newStatus === 'completed') {
-      updates.actualHours = actualHours || task.estimatedHours;
+      // Tracked time takes the place of the estimate, so finish any running timer first
+      if (task.timeEntries && task.timeEntries.length > 0) {
+        updates.timeEntries = TimeTracker.stopTimer(task).timeEntries ?? task.timeEntries;
+      }
+      updates.actualHours = actualHours || (updates.timeEntries
+        ? TimeTracker.getTrackedHours(updates.timeEntries)
+        : task.estimatedHours);
+      if (task.steps) {
+        updates.steps = TaskStepTracker.completeAllSteps(task.steps);
+      }
     }
 
     // Handle overdue detection
@@ -29,6 +41,26 @@ export class TaskStatusManager {
     return updates;
   }
 
+  /**
+   * Applies a status change on a split task to its parts, since the split task's status
+   * rolls up from them. Actual hours are shared out in proportion to each part's estimate.
+   */
+  static updateSplitTaskStatus(
+    parts: Task[],
+    newStatus: TaskStatus,
+    actualHours?: number
+  ): Array<{ id: string; updates: Partial<Task> }> {
+    const totalEstimated = parts.reduce((sum, part) => sum + part.estimatedHours, 0);
+
+    return parts.map(part => {
+      const partActualHours = actualHours !== undefined && totalEstimated > 0
+        ? Math.round((actualHours * part.estimatedHours / totalEstimated) * 100) / 100
+        : undefined;
+
+      return { id: part.id, updates: this.updateTaskStatus(part, newStatus, partActualHours) };
+    });
+  }
+
   /**
    * Determines if a task is overdue based on current date and scheduled end
    */
@@ -39,24 +71,34 @@ export class TaskStatusManager {
   }
 
   /**
-   * Calculates completion rate for a channel based on its tasks
+   * Calculates completion rate for a channel based on its tasks.
+   * Tasks with workflow steps count partially by the share of steps completed.
    */
   static calculateChannelCompletionRate(tasks: Task[], channelId: string): number {
-    const channelTasks = tasks.filter(task => task.channelId === channelId);
+    const channelTasks = TaskSplitter.getWorkItems(tasks).filter(task => task.channelId === channelId);
     
     if (channelTasks.length === 0) {
       return 0;
     }
 
-    const completedTasks = channelTasks.filter(task => task.status === 'completed');
-    return Math.round((completedTasks.length / channelTasks.length) * 100);
+    const progress = channelTasks.reduce((sum, task) => sum + TaskStepTracker.getProgress(task), 0);
+    return Math.round((progress / channelTasks.length) * 100);
+  }
+
+  /**
+   * Gets completed and total workflow steps for a channel
+   */
+  static getChannelStepStats(tasks: Task[], channelId: string) {
+    return TaskStepTracker.getStepCounts(
+      TaskSplitter.getWorkItems(tasks).filter(task => task.channelId === channelId)
+    );
   }
 
   /**
    * Gets task statistics for a channel
    */
   static getChannelTaskStats(tasks: Task[], channelId: string) {
-    const channelTasks = tasks.filter(task => task.channelId === channelId);
+    const channelTasks = TaskSplitter.getWorkItems(tasks).filter(task => task.channelId === channelId);
     
     const stats = {
       total: channelTasks.length,
@@ -91,6 +133,8 @@ export class TaskStatusManager {
    */
   static updateOverdueTasks(tasks: Task[]): Task[] {
     return tasks.map(task => {
+      // Split tasks become overdue through their parts
+      if (TaskSplitter.isSplitParent(task)) return task;
       if (task.status !== 'completed' && this.isTaskOverdue(task)) {
         return { ...task, status: 'overdue' as TaskStatus };
       }
@@ -102,9 +146,10 @@ export class TaskStatusManager {
    * Gets tasks grouped by status for a channel
    */
   static getTasksByStatus(tasks: Task[], channelId?: string) {
+    const workItems = TaskSplitter.getWorkItems(tasks);
     const filteredTasks = channelId 
-      ? tasks.filter(task => task.channelId === channelId)
-      : tasks;
+      ? workItems.filter(task => task.channelId === channelId)
+      : workItems;
 
     return {
       planned: filteredTasks.filter(task => task.status === 'planned'),
@@ -118,9 +163,10 @@ export class TaskStatusManager {
    * Calculates total actual hours vs estimated hours for completed tasks
    */
   static calculateTimeAccuracy(tasks: Task[], channelId?: string) {
+    const workItems = TaskSplitter.getWorkItems(tasks);
     const filteredTasks = channelId 
-      ? tasks.filter(task => task.channelId === channelId)
-      : tasks;
+      ? workItems.filter(task => task.channelId === channelId)
+      : workItems;
 
     const completedTasks = filteredTasks.filter(
       task => task.status === 'completed' && task.actualHours !== undefined
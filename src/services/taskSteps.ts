@@ -0,0 +1,130 @@
+import { Task, TaskStepProgress } from '../types';
+
+/**
+ * Service for tracking progress through the workflow steps of a task.
+ * Step changes return task updates in the same shape as TaskStatusManager.updateTaskStatus.
+ */
+export class TaskStepTracker {
+  /**
+   * Create step records for a template's workflow steps
+   */
+  static createSteps(workflowSteps: string[]): TaskStepProgress[] {
+    return workflowSteps.map(name => ({ name }));
+  }
+
+  /**
+   * Mark a step as started; starting the first step starts the task
+   */
+  static startStep(task: Task, stepIndex: number, startedAt: Date = new Date()): Partial<Task> {
+    const steps = this.getSteps(task, stepIndex);
+    if (steps[stepIndex].startedAt) return {};
+
+    steps[stepIndex] = { ...steps[stepIndex], startedAt };
+
+    return {
+      steps,
+      ...(task.status === 'planned' ? { status: 'in-progress' as const } : {}),
+    };
+  }
+
+  /**
+   * Mark a step as completed with the hours it took. Completing the last open step completes the task.
+   */
+  static completeStep(
+    task: Task,
+    stepIndex: number,
+    actualHours?: number,
+    completedAt: Date = new Date()
+  ): Partial<Task> {
+    const steps = this.getSteps(task, stepIndex);
+    steps[stepIndex] = {
+      ...steps[stepIndex],
+      startedAt: steps[stepIndex].startedAt ?? completedAt,
+      completedAt,
+      actualHours: actualHours ?? steps[stepIndex].actualHours,
+    };
+
+    const updates: Partial<Task> = { steps };
+    const loggedHours = this.getLoggedHours(steps);
+    // Timed tasks take their actual hours from time entries instead
+    if (loggedHours !== undefined && !task.timeEntries?.length) {
+      updates.actualHours = loggedHours;
+    }
+
+    if (steps.every(step => step.completedAt)) {
+      updates.status = 'completed';
+    } else if (task.status === 'planned') {
+      updates.status = 'in-progress';
+    }
+
+    return updates;
+  }
+
+  /**
+   * Mark a completed step as not done again, reopening the task if it was completed
+   */
+  static reopenStep(task: Task, stepIndex: number): Partial<Task> {
+    const steps = this.getSteps(task, stepIndex);
+    steps[stepIndex] = { ...steps[stepIndex], completedAt: undefined, actualHours: undefined };
+
+    return {
+      steps,
+      ...(task.timeEntries?.length ? {} : { actualHours: this.getLoggedHours(steps) }),
+      ...(task.status === 'completed' ? { status: 'in-progress' as const } : {}),
+    };
+  }
+
+  /**
+   * Mark every open step as completed, used when the whole task is completed at once
+   */
+  static completeAllSteps(steps: TaskStepProgress[], completedAt: Date = new Date()): TaskStepProgress[] {
+    return steps.map(step =>
+      step.completedAt ? step : { ...step, startedAt: step.startedAt ?? completedAt, completedAt }
+    );
+  }
+
+  /**
+   * Get a task's progress from 0 to 1: the share of completed steps,
+   * or all-or-nothing by status for tasks without steps
+   */
+  static getProgress(task: Task): number {
+    if (task.status === 'completed') return 1;
+    if (!task.steps || task.steps.length === 0) return 0;
+
+    return task.steps.filter(step => step.completedAt).length / task.steps.length;
+  }
+
+  /**
+   * Count completed and total steps across tasks
+   */
+  static getStepCounts(tasks: Task[]): { completed: number; total: number } {
+    return tasks.reduce(
+      (counts, task) => {
+        const steps = task.steps ?? [];
+        return {
+          completed: counts.completed + steps.filter(step => step.completedAt || task.status === 'completed').length,
+          total: counts.total + steps.length,
+        };
+      },
+      { completed: 0, total: 0 }
+    );
+  }
+
+  /**
+   * Sum the hours logged on steps, or undefined when no step has hours logged
+   */
+  static getLoggedHours(steps: TaskStepProgress[]): number | undefined {
+    const loggedSteps = steps.filter(step => step.actualHours !== undefined);
+    if (loggedSteps.length === 0) return undefined;
+
+    return loggedSteps.reduce((sum, step) => sum + (step.actualHours || 0), 0);
+  }
+
+  private static getSteps(task: Task, stepIndex: number): TaskStepProgress[] {
+    const steps = task.steps ?? [];
+    if (stepIndex < 0 || stepIndex >= steps.length) {
+      throw new Error(`Task "${task.title}" has no step ${stepIndex + 1}`);
+    }
+    return [...steps];
+  }
+}
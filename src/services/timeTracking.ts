@@ -0,0 +1,140 @@
+import { Task, TimeEntry } from '../types';
+import { generateId } from '../utils/helpers';
+import { TaskSplitter } from './taskSplitting';
+
+export type TimerState = 'running' | 'paused' | 'stopped';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Service for timing work on tasks. Each start/pause cycle is logged as a time entry on the task,
+ * and the task's actual hours are the sum of its finished entries.
+ */
+export class TimeTracker {
+  /**
+   * Check whether time can be tracked on a task. Split tasks are tracked on their parts.
+   */
+  static canTrack(task: Task): boolean {
+    return task.status !== 'completed' && !TaskSplitter.isSplitParent(task);
+  }
+
+  /**
+   * Get whether a task's timer is running, paused or stopped
+   */
+  static getTimerState(task: Task): TimerState {
+    const lastEntry = task.timeEntries?.[task.timeEntries.length - 1];
+    if (!lastEntry) return 'stopped';
+    if (!lastEntry.endedAt) return 'running';
+    return lastEntry.endReason === 'paused' ? 'paused' : 'stopped';
+  }
+
+  /**
+   * Start or resume a task's timer; starting a planned task moves it in progress
+   */
+  static startTimer(task: Task, startedAt: Date = new Date()): Partial<Task> {
+    if (!this.canTrack(task)) {
+      throw new Error(`Time cannot be tracked on "${task.title}"`);
+    }
+    if (this.getTimerState(task) === 'running') return {};
+
+    return {
+      timeEntries: [...(task.timeEntries ?? []), { id: generateId(), startedAt }],
+      ...(task.status === 'planned' ? { status: 'in-progress' as const } : {}),
+    };
+  }
+
+  /**
+   * Pause a running timer so it can be resumed later
+   */
+  static pauseTimer(task: Task, pausedAt: Date = new Date()): Partial<Task> {
+    if (this.getTimerState(task) !== 'running') return {};
+    return this.endCurrentEntry(task, pausedAt, 'paused');
+  }
+
+  /**
+   * Stop a running or paused timer
+   */
+  static stopTimer(task: Task, stoppedAt: Date = new Date()): Partial<Task> {
+    if (this.getTimerState(task) === 'stopped') return {};
+    return this.endCurrentEntry(task, stoppedAt, 'stopped');
+  }
+
+  /**
+   * Log a finished time entry, e.g. work that was not timed
+   */
+  static addEntry(task: Task, startedAt: Date, endedAt: Date): Partial<Task> {
+    if (endedAt <= startedAt) {
+      throw new Error('Time entry must end after it starts');
+    }
+
+    const entry: TimeEntry = { id: generateId(), startedAt, endedAt, endReason: 'stopped' };
+    const running = this.getTimerState(task) === 'running';
+    // Keep a running entry last so the timer state is unchanged
+    const timeEntries = running
+      ? [...task.timeEntries!.slice(0, -1), entry, task.timeEntries![task.timeEntries!.length - 1]]
+      : [...(task.timeEntries ?? []), entry];
+
+    return { timeEntries, actualHours: this.getTrackedHours(timeEntries) };
+  }
+
+  /**
+   * Remove a time entry and recalculate actual hours
+   */
+  static removeEntry(task: Task, entryId: string): Partial<Task> {
+    const timeEntries = (task.timeEntries ?? []).filter(entry => entry.id !== entryId);
+    return {
+      timeEntries,
+      actualHours: timeEntries.length > 0 ? this.getTrackedHours(timeEntries) : undefined,
+    };
+  }
+
+  /**
+   * Sum the hours of time entries, rounded to the minute. Running entries count up to `now`.
+   */
+  static getTrackedHours(entries: TimeEntry[], now: Date = new Date()): number {
+    return Math.round((this.sumEntryMs(entries, now) / MS_PER_HOUR) * 60) / 60;
+  }
+
+  /**
+   * Get milliseconds tracked on a task so far, including a running entry
+   */
+  static getElapsedMs(task: Task, now: Date = new Date()): number {
+    return this.sumEntryMs(task.timeEntries ?? [], now);
+  }
+
+  /**
+   * Get tasks whose timer is running or paused
+   */
+  static getActiveTimers(tasks: Task[]): Task[] {
+    return tasks.filter(task => this.getTimerState(task) !== 'stopped');
+  }
+
+  /**
+   * Format a duration as H:MM:SS
+   */
+  static formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  }
+
+  private static sumEntryMs(entries: TimeEntry[], now: Date): number {
+    return entries.reduce((sum, entry) => {
+      const end = entry.endedAt ? new Date(entry.endedAt) : now;
+      return sum + Math.max(0, end.getTime() - new Date(entry.startedAt).getTime());
+    }, 0);
+  }
+
+  private static endCurrentEntry(task: Task, endedAt: Date, endReason: 'paused' | 'stopped'): Partial<Task> {
+    const entries = task.timeEntries ?? [];
+    const lastEntry = entries[entries.length - 1];
+    const timeEntries = [
+      ...entries.slice(0, -1),
+      { ...lastEntry, endedAt: lastEntry.endedAt ?? endedAt, endReason },
+    ];
+
+    return { timeEntries, actualHours: this.getTrackedHours(timeEntries) };
+  }
+}
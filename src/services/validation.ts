@@ -11,6 +11,7 @@ import {
 } from '../types';
 import { DAYS_OF_WEEK } from '../utils/constants';
 import { dateRangesOverlap } from '../utils/helpers';
+import { TaskDependencyManager } from './taskDependencies';
 
 /**
  * Validation error class
@@ -182,6 +183,15 @@ export class TaskTemplateValidator {
       errors.push(new ValidationError('Workflow steps must be an array of valid strings', 'workflowSteps'));
     }
 
+    // Validate template dependencies (optional)
+    if (template.dependsOnTemplateIds !== undefined) {
+      if (!ValidationUtils.isValidArray(template.dependsOnTemplateIds, (id) => ValidationUtils.isValidId(id as string))) {
+        errors.push(new ValidationError('Template dependencies must be an array of template IDs', 'dependsOnTemplateIds'));
+      } else if (template.dependsOnTemplateIds.includes(template.id)) {
+        errors.push(new ValidationError('A template cannot depend on itself', 'dependsOnTemplateIds'));
+      }
+    }
+
     // Validate created date
     if (!ValidationUtils.isValidDate(template.createdAt)) {
       errors.push(new ValidationError('Created date must be a valid date', 'createdAt'));
@@ -263,6 +273,31 @@ export class TaskValidator {
       errors.push(new ValidationError('Notes must be less than 1000 characters if provided', 'notes'));
     }
 
+    // Validate workflow step progress (optional)
+    if (task.steps !== undefined && !ValidationUtils.isValidArray(task.steps, (step) =>
+      ValidationUtils.isValidString(step.name, 1, 200) &&
+      (step.actualHours === undefined || ValidationUtils.isValidNumber(step.actualHours, 0, 168))
+    )) {
+      errors.push(new ValidationError('Steps must have a name and valid actual hours', 'steps'));
+    }
+
+    // Validate time entries (optional)
+    if (task.timeEntries !== undefined && !ValidationUtils.isValidArray(task.timeEntries, (entry) =>
+      ValidationUtils.isValidDate(entry.startedAt) &&
+      (entry.endedAt === undefined || (ValidationUtils.isValidDate(entry.endedAt) && entry.endedAt >= entry.startedAt))
+    )) {
+      errors.push(new ValidationError('Time entries must have valid start and end times', 'timeEntries'));
+    }
+
+    // Validate dependencies (optional)
+    if (task.dependsOn !== undefined) {
+      if (!ValidationUtils.isValidArray(task.dependsOn, (id) => ValidationUtils.isValidId(id as string))) {
+        errors.push(new ValidationError('Dependencies must be an array of task IDs', 'dependsOn'));
+      } else if (task.dependsOn.includes(task.id)) {
+        errors.push(new ValidationError('A task cannot depend on itself', 'dependsOn'));
+      }
+    }
+
     // Validate time slot
     const validTimeSlots = ['morning', 'afternoon', 'evening'];
     if (!ValidationUtils.isValidEnum(task.timeSlot, validTimeSlots)) {
@@ -363,6 +398,29 @@ export class BusinessRuleValidator {
     return errors;
   }
 
+  /**
+   * Check that tasks start after the tasks they depend on and that dependencies do not form a cycle.
+   * Dependencies outside the given tasks are not checked, since their week may not be loaded.
+   */
+  static checkDependencyOrder(tasks: Task[]): ValidationError[] {
+    return TaskDependencyManager.findViolations(tasks)
+      .filter(violation => violation.type !== 'missing_dependency')
+      .map(violation => new ValidationError(violation.message, violation.type));
+  }
+
+  /**
+   * Check that tasks depend only on existing tasks and that dependencies do not form a cycle.
+   * Dependencies can cross weeks, so pass the tasks of every week.
+   */
+  static checkDependencyIntegrity(tasks: Task[]): ValidationError[] {
+    return TaskDependencyManager.findViolations(tasks)
+      .filter(violation => violation.type !== 'starts_before_dependency')
+      .map(violation => new ValidationError(
+        violation.message,
+        violation.type === 'missing_dependency' ? 'invalid_dependency_reference' : violation.type
+      ));
+  }
+
   /**
    * Check capacity limits for a schedule
    */
@@ -504,10 +562,23 @@ export class DataValidator {
       const conflictErrors = BusinessRuleValidator.checkSchedulingConflicts(state.currentWeek.tasks);
       errors.push(...conflictErrors);
 
+      // With every week at hand, cycles are reported by the integrity check below
+      const dependencyErrors = BusinessRuleValidator.checkDependencyOrder(state.currentWeek.tasks)
+        .filter(error => !state.schedules || error.field !== 'circular_dependency');
+      errors.push(...dependencyErrors);
+
       const capacityErrors = BusinessRuleValidator.checkCapacityLimits(state.currentWeek);
       errors.push(...capacityErrors);
     }
 
+    if (state.schedules) {
+      const weeks = state.currentWeek && state.selectedWeekKey
+        ? { ...state.schedules, [state.selectedWeekKey]: state.currentWeek }
+        : state.schedules;
+      const allTasks = Object.values(weeks).flatMap(schedule => schedule.tasks);
+      errors.push(...BusinessRuleValidator.checkDependencyIntegrity(allTasks));
+    }
+
     return {
       isValid: errors.length === 0,
       errors
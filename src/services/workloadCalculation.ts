@@ -1,4 +1,5 @@
-import { Task, WeeklySchedule, Channel } from '../types';
+import { Task, WeeklySchedule, Channel, TeamMember } from '../types';
+import { TaskSplitter } from './taskSplitting';
 
 export interface WorkloadMetrics {
   totalScheduledHours: number;
@@ -8,6 +9,7 @@ export interface WorkloadMetrics {
   isOverloaded: boolean;
   dailyBreakdown: DailyWorkload[];
   channelBreakdown: ChannelWorkload[];
+  memberBreakdown: MemberWorkload[]; // One entry per team member, empty without a team
 }
 
 export interface DailyWorkload {
@@ -26,12 +28,28 @@ export interface ChannelWorkload {
   completionRate: number;
 }
 
+export interface MemberWorkload {
+  memberId: string;
+  memberName: string;
+  role: string;
+  capacityHours: number;
+  dailyCapacityHours: number;
+  workingDays: string[];
+  scheduledHours: number;
+  utilizationPercentage: number;
+  overloadHours: number;
+  isOverloaded: boolean;
+  taskCount: number;
+  dailyBreakdown: DailyWorkload[]; // Days off have no capacity, so any work on them is an overload
+}
+
 export interface OverloadWarning {
-  type: 'daily' | 'weekly' | 'channel';
+  type: 'daily' | 'weekly' | 'channel' | 'member';
   severity: 'low' | 'medium' | 'high';
   message: string;
   affectedDate?: Date;
   affectedChannelId?: string;
+  affectedMemberId?: string;
   suggestedAction: string;
 }
 
@@ -42,7 +60,8 @@ export class WorkloadCalculationEngine {
   static calculateWorkloadMetrics(
     schedule: WeeklySchedule,
     channels: Channel[],
-    dailyCapacityHours: number = 8
+    dailyCapacityHours: number = 8,
+    teamMembers: TeamMember[] = []
   ): WorkloadMetrics {
     const totalScheduledHours = this.calculateTotalScheduledHours(schedule.tasks);
     const capacityHours = schedule.userCapacityHours;
@@ -61,6 +80,12 @@ export class WorkloadCalculationEngine {
       channels
     );
 
+    const memberBreakdown = this.calculateMemberBreakdown(
+      schedule.tasks,
+      schedule.weekStartDate,
+      teamMembers
+    );
+
     return {
       totalScheduledHours,
       capacityHours,
@@ -69,6 +94,7 @@ export class WorkloadCalculationEngine {
       isOverloaded,
       dailyBreakdown,
       channelBreakdown,
+      memberBreakdown,
     };
   }
 
@@ -76,7 +102,7 @@ export class WorkloadCalculationEngine {
    * Calculate total scheduled hours from tasks
    */
   static calculateTotalScheduledHours(tasks: Task[]): number {
-    return tasks.reduce((total, task) => {
+    return TaskSplitter.getWorkItems(tasks).reduce((total, task) => {
       // Only count planned and in-progress tasks
       if (task.status === 'planned' || task.status === 'in-progress') {
         return total + task.estimatedHours;
@@ -100,7 +126,7 @@ export class WorkloadCalculationEngine {
       const currentDate = new Date(weekStartDate);
       currentDate.setDate(weekStartDate.getDate() + i);
       
-      const dayTasks = tasks.filter(task => {
+      const dayTasks = TaskSplitter.getWorkItems(tasks).filter(task => {
         const taskDate = new Date(task.scheduledStart);
         return taskDate.toDateString() === currentDate.toDateString();
       });
@@ -132,6 +158,7 @@ export class WorkloadCalculationEngine {
     channels: Channel[]
   ): ChannelWorkload[] {
     const channelMap = new Map<string, ChannelWorkload>();
+    const workItems = TaskSplitter.getWorkItems(tasks);
 
     // Initialize channel workload data
     channels.forEach(channel => {
@@ -145,7 +172,7 @@ export class WorkloadCalculationEngine {
     });
 
     // Calculate workload for each channel
-    tasks.forEach(task => {
+    workItems.forEach(task => {
       const channelWorkload = channelMap.get(task.channelId);
       if (channelWorkload) {
         channelWorkload.taskCount++;
@@ -158,7 +185,7 @@ export class WorkloadCalculationEngine {
 
     // Calculate completion rates
     channelMap.forEach((workload, channelId) => {
-      const channelTasks = tasks.filter(task => task.channelId === channelId);
+      const channelTasks = workItems.filter(task => task.channelId === channelId);
       const completedTasks = channelTasks.filter(task => task.status === 'completed');
       
       workload.completionRate = channelTasks.length > 0 
@@ -169,6 +196,43 @@ export class WorkloadCalculationEngine {
     return Array.from(channelMap.values());
   }
 
+  /**
+   * Calculate workload breakdown by team member against each member's own capacity and working days.
+   * Tasks assigned to someone not on the team are treated as unassigned.
+   */
+  static calculateMemberBreakdown(
+    tasks: Task[],
+    weekStartDate: Date,
+    teamMembers: TeamMember[]
+  ): MemberWorkload[] {
+    const workItems = TaskSplitter.getWorkItems(tasks);
+
+    return teamMembers.map(member => {
+      const memberTasks = workItems.filter(task => task.assigneeId === member.id);
+      const dailyCapacityHours = this.calculateDailyCapacity(member.weeklyCapacityHours, member.workingDays);
+      const scheduledHours = this.calculateTotalScheduledHours(memberTasks);
+      const dailyBreakdown = this.calculateDailyBreakdown(memberTasks, weekStartDate, dailyCapacityHours)
+        .map(day => member.workingDays.includes(day.dayName)
+          ? day
+          : { ...day, isOverloaded: day.scheduledHours > 0 });
+
+      return {
+        memberId: member.id,
+        memberName: member.name,
+        role: member.role,
+        capacityHours: member.weeklyCapacityHours,
+        dailyCapacityHours,
+        workingDays: member.workingDays,
+        scheduledHours,
+        utilizationPercentage: member.weeklyCapacityHours > 0 ? (scheduledHours / member.weeklyCapacityHours) * 100 : 0,
+        overloadHours: Math.max(0, scheduledHours - member.weeklyCapacityHours),
+        isOverloaded: scheduledHours > member.weeklyCapacityHours,
+        taskCount: memberTasks.length,
+        dailyBreakdown,
+      };
+    });
+  }
+
   /**
    * Detect overload conditions and generate warnings
    */
@@ -221,6 +285,29 @@ export class WorkloadCalculationEngine {
       }
     });
 
+    // Team member overload warnings
+    metrics.memberBreakdown.forEach(member => {
+      const overloadedDays = member.dailyBreakdown.filter(day => day.isOverloaded);
+
+      if (member.isOverloaded) {
+        warnings.push({
+          type: 'member',
+          severity: this.getOverloadSeverity(member.utilizationPercentage),
+          message: `${member.memberName} is booked for ${member.scheduledHours.toFixed(1)} of ${member.capacityHours} hours this week`,
+          affectedMemberId: member.memberId,
+          suggestedAction: 'Reassign tasks to a teammate or move them to a later week',
+        });
+      } else if (overloadedDays.length > 0) {
+        warnings.push({
+          type: 'member',
+          severity: 'low',
+          message: `${member.memberName} is overloaded on ${overloadedDays.map(day => day.dayName).join(', ')}`,
+          affectedMemberId: member.memberId,
+          suggestedAction: `Move tasks to another of ${member.memberName}'s working days or reassign them`,
+        });
+      }
+    });
+
     return warnings;
   }
 
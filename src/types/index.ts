@@ -23,6 +23,8 @@ export interface TaskTemplate {
   category: 'content-creation' | 'production' | 'marketing' | 'admin' | 'other';
   workflowSteps: string[];
   createdAt: Date;
+  dependsOnTemplateIds?: string[]; // Tasks from these templates must be completed first within the same posting
+  createTaskPerStep?: boolean; // Generate one task per workflow step, each waiting on the previous step
 }
 
 export interface ChannelTaskAssignment {
@@ -45,6 +47,49 @@ export interface Task {
   actualHours?: number;
   notes?: string;
   priority: 'low' | 'medium' | 'high';
+  recurrenceId?: string; // Set on tasks generated from a channel's posting schedule
+  parentTaskId?: string; // Set on parts created by splitting a task
+  childTaskIds?: string[]; // Set on a split task; its status and hours roll up from these parts
+  dependsOn?: string[]; // IDs of tasks that must be completed before this one can start
+  steps?: TaskStepProgress[]; // Progress through the template's workflow steps, in order
+  timeEntries?: TimeEntry[]; // Tracked work sessions; actualHours is derived from these when present
+  assigneeId?: string; // Team member doing the task; unassigned tasks only count toward the overall capacity
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  role: string; // e.g. Editor, Thumbnail Designer; work is only suggested for reassignment within a role
+  weeklyCapacityHours: number;
+  workingDays: string[];
+  workingHours: { start: string; end: string };
+  accessRole?: WorkspaceRole; // What the member may change; editor when unset
+}
+
+export type WorkspaceRole = 'owner' | 'manager' | 'editor' | 'viewer';
+
+export interface TimeEntry {
+  id: string;
+  startedAt: Date;
+  endedAt?: Date; // Unset while the timer is running
+  endReason?: 'paused' | 'stopped';
+}
+
+export interface TaskStepProgress {
+  name: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  actualHours?: number;
+}
+
+export interface TaskSplitPart {
+  start: Date;
+  hours: number;
+}
+
+export interface TaskSplitRequest {
+  taskId: string;
+  parts: TaskSplitPart[];
 }
 
 export interface WeeklySchedule {
@@ -59,13 +104,16 @@ export interface WeeklySchedule {
 export interface AppState {
   channels: Channel[];
   taskTemplates: TaskTemplate[];
-  currentWeek: WeeklySchedule;
+  currentWeek: WeeklySchedule; // Mirrors schedules[selectedWeekKey]
+  schedules: Record<string, WeeklySchedule>; // Loaded weeks keyed by week start (YYYY-MM-DD)
+  selectedWeekKey: string;
   selectedChannelId?: string;
   userSettings: {
     weeklyCapacityHours: number;
     workingDays: string[];
     workingHours: { start: string; end: string };
     customContentTypes?: string[];
+    teamMembers?: TeamMember[];
   };
   ui: {
     activeView: 'dashboard' | 'templates' | 'calendar' | 'analytics';
@@ -74,6 +122,14 @@ export interface AppState {
   };
 }
 
+// Entity-level changes applied by undo and redo; null removes the entity
+export interface HistoryPatch {
+  channels: Record<string, { channel: Channel; index: number } | null>;
+  taskTemplates: Record<string, { template: TaskTemplate; index: number } | null>;
+  tasks: Record<string, { task: Task; weekKey: string } | null>;
+  userSettings?: Partial<AppState['userSettings']>; // Only the settings that change
+}
+
 // Action types for state management
 export type AppAction =
   | { type: 'ADD_CHANNEL'; payload: Channel }
@@ -84,15 +140,23 @@ export type AppAction =
   | { type: 'DELETE_TASK_TEMPLATE'; payload: string }
   | { type: 'ADD_TASK'; payload: Task }
   | { type: 'UPDATE_TASK'; payload: { id: string; updates: Partial<Task> } }
+  | { type: 'UPDATE_TASKS'; payload: Array<{ id: string; updates: Partial<Task> }> }
   | { type: 'DELETE_TASK'; payload: string }
-  | { type: 'GENERATE_TASKS_FROM_TEMPLATES'; payload: { channelId: string } }
+  | { type: 'SPLIT_TASK'; payload: TaskSplitRequest }
+  | { type: 'GENERATE_TASKS_FROM_TEMPLATES'; payload: { channelId: string; rangeStart?: Date; rangeEnd?: Date } }
   | { type: 'SET_CURRENT_WEEK'; payload: WeeklySchedule }
+  | { type: 'SET_SELECTED_WEEK'; payload: string }
+  | { type: 'LOAD_WEEK_SCHEDULES'; payload: Record<string, WeeklySchedule> }
+  | { type: 'RESTORE_WEEK_SCHEDULES'; payload: Record<string, WeeklySchedule> }
   | { type: 'SET_SELECTED_CHANNEL'; payload: string | undefined }
   | { type: 'UPDATE_USER_SETTINGS'; payload: Partial<AppState['userSettings']> }
   | { type: 'SET_ACTIVE_VIEW'; payload: AppState['ui']['activeView'] }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'ADD_ERROR'; payload: string }
-  | { type: 'CLEAR_ERRORS' };
+  | { type: 'CLEAR_ERRORS' }
+  | { type: 'APPLY_HISTORY_PATCH'; payload: HistoryPatch }
+  | { type: 'RESTORE_BACKUP_ENTITIES'; payload: { patch: HistoryPatch; source: string } }
+  | { type: 'BATCH_ACTIONS'; payload: AppAction[] };
 
 // Utility types
 export type TaskStatus = 'planned' | 'in-progress' | 'completed' | 'overdue';
@@ -0,0 +1,94 @@
+// Synchronous text compression for payloads kept in string storage
+
+// Marks compressed text, which never starts like the JSON it replaces
+const COMPRESSED_PREFIX = '\u0001lzw1:';
+
+// Output characters stay below the surrogate range, so compressed text is valid for any storage
+const CODE_OFFSET = 32;
+const LITERAL_CODE = 0;
+const MAX_CODE = 0x7fff;
+
+/**
+ * Compress text with LZW. Characters seen for the first time are written as literals, so the
+ * dictionary only holds what the text uses and stops growing once codes run out.
+ */
+export function compressText(text: string): string {
+  const dictionary = new Map<string, number>();
+  const output: string[] = [COMPRESSED_PREFIX];
+  let nextCode = LITERAL_CODE + 1;
+  let phrase = '';
+
+  const emit = (code: number) => output.push(String.fromCharCode(code + CODE_OFFSET));
+  const addPhrase = (value: string) => {
+    if (nextCode <= MAX_CODE) dictionary.set(value, nextCode++);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (!dictionary.has(char)) {
+      if (phrase) emit(dictionary.get(phrase)!);
+      phrase = '';
+      const charCode = char.charCodeAt(0);
+      emit(LITERAL_CODE);
+      emit(charCode >> 8);
+      emit(charCode & 0xff);
+      addPhrase(char);
+      continue;
+    }
+
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      emit(dictionary.get(phrase)!);
+      addPhrase(extended);
+      phrase = char;
+    }
+  }
+  if (phrase) emit(dictionary.get(phrase)!);
+
+  return output.join('');
+}
+
+/**
+ * Reverse compressText. Text that was not compressed is returned as it is.
+ */
+export function decompressText(value: string): string {
+  if (!isCompressedText(value)) return value;
+
+  const phrases: string[] = [''];
+  const output: string[] = [];
+  let previous: string | null = null;
+
+  const readCode = (index: number) => value.charCodeAt(index) - CODE_OFFSET;
+
+  for (let i = COMPRESSED_PREFIX.length; i < value.length; i++) {
+    const code = readCode(i);
+
+    if (code === LITERAL_CODE) {
+      const char = String.fromCharCode((readCode(i + 1) << 8) | readCode(i + 2));
+      i += 2;
+      if (phrases.length <= MAX_CODE) phrases.push(char);
+      output.push(char);
+      previous = null;
+      continue;
+    }
+
+    let entry = phrases[code];
+    if (entry === undefined) {
+      // The phrase being defined by this very code: the previous phrase plus its own first character
+      if (previous === null || code !== phrases.length) throw new Error('Compressed data is corrupt');
+      entry = previous + previous[0];
+    }
+    if (previous !== null && phrases.length <= MAX_CODE) phrases.push(previous + entry[0]);
+    output.push(entry);
+    previous = entry;
+  }
+
+  return output.join('');
+}
+
+export function isCompressedText(value: string): boolean {
+  return value.startsWith(COMPRESSED_PREFIX);
+}
@@ -7,10 +7,22 @@ export const STORAGE_KEYS = {
   SCHEDULES: 'mcm_schedules',
   USER_SETTINGS: 'mcm_user_settings',
   APP_VERSION: 'mcm_app_version',
+  BACKUP_PREFIX: 'mcm_backup_',
+  BACKUP_METADATA: 'mcm_backup_metadata',
+  ROLLBACK_POINTS: 'mcm_rollback_points',
+  RECOVERY_LOG: 'mcm_recovery_log',
+  LAST_KNOWN_GOOD: 'mcm_last_known_good',
+  SYNC_MESSAGE: 'mcm_sync_message',
+  REMOTE_SYNC: 'mcm_remote_sync',
+  CURRENT_MEMBER: 'mcm_current_member',
+  AUDIT_LOG: 'mcm_audit_log',
+  AUDIT_RETENTION: 'mcm_audit_retention',
+  BACKUP_POLICY: 'mcm_auto_backup_policy', // Not under BACKUP_PREFIX, which only holds backups
+  LEGACY_TEMPLATES: 'mcm_templates', // Where backup restores wrote templates before 1.1.0; migrated into TASK_TEMPLATES
 } as const;
 
 // Application version for data migration
-export const APP_VERSION = '1.0.0';
+export const APP_VERSION = '1.1.0';
 
 // Default user settings
 export const DEFAULT_USER_SETTINGS = {
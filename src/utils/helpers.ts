@@ -14,6 +14,15 @@ export function formatDate(date: Date): string {
   return date.toISOString().split('T')[0];
 }
 
+/**
+ * Format date to YYYY-MM-DD string using the local calendar day
+ */
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Get the start of the week (Monday) for a given date
  */
@@ -34,6 +43,40 @@ export function getWeekEnd(date: Date): Date {
   return weekEnd;
 }
 
+/**
+ * Get the schedule key (YYYY-MM-DD of the Monday, local time) for the week containing a date
+ */
+export function getWeekKey(date: Date): string {
+  return formatLocalDate(getWeekStart(date));
+}
+
+/**
+ * Get the start of the week (local midnight) for a schedule key
+ */
+export function getWeekStartFromKey(weekKey: string): Date {
+  const [year, month, day] = weekKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Move a schedule key forward or backward by a number of weeks
+ */
+export function shiftWeekKey(weekKey: string, weeks: number): string {
+  const weekStart = getWeekStartFromKey(weekKey);
+  weekStart.setDate(weekStart.getDate() + weeks * 7);
+  return getWeekKey(weekStart);
+}
+
+/**
+ * Get the calendar time slot a start time falls into
+ */
+export function getTimeSlotForDate(date: Date): 'morning' | 'afternoon' | 'evening' {
+  const hour = date.getHours();
+  if (hour >= 17) return 'evening';
+  if (hour >= 12) return 'afternoon';
+  return 'morning';
+}
+
 /**
  * Format hours to human readable string (e.g., "2.5 hours", "1 hour")
  */